@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "@ironblocks/firewall-consumer/contracts/interfaces/IFirewall.sol";
+import "./MockVennPolicy.sol";
+
+/**
+ * @notice Local stand-in for the Venn firewall, for tests and local nodes only.
+ * Every protected call of every consumer is checked against a single MockVennPolicy.
+ */
+contract MockFirewall is IFirewall {
+    MockVennPolicy public immutable policy;
+
+    constructor(MockVennPolicy _policy) {
+        policy = _policy;
+    }
+
+    function preExecution(address sender, bytes memory data, uint256 value) external view {
+        policy.preExecution(msg.sender, sender, data, value);
+    }
+
+    function postExecution(address, bytes memory, uint256) external pure {}
+
+    function preExecutionPrivateInvariants(address, bytes memory, uint256) external pure returns (bytes32[] calldata) {
+        revert("MockFirewall: private invariants not supported");
+    }
+
+    function postExecutionPrivateInvariants(
+        address,
+        bytes memory,
+        uint256,
+        bytes32[] calldata,
+        bytes32[] calldata
+    ) external pure {
+        revert("MockFirewall: private invariants not supported");
+    }
+}
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+
+/**
+ * @notice Local stand-in for a Venn policy, for tests and local nodes only.
+ * A trusted signer approves the firewall protected calls of a transaction. The consumer's
+ * `safeFunctionCall` submits the approval to this contract, then runs the call, whose
+ * `firewallProtected` hooks ask it through MockFirewall whether the call was approved.
+ *
+ * Unlike the Venn policy, approved calls are not consumed one by one: they stay valid for their
+ * transaction origin until the end of the block they were approved in. That lets the signer
+ * approve a transaction without simulating it to count its nested protected calls.
+ */
+contract MockVennPolicy is IERC165 {
+    // Selector of approveCallsViaSignature, required by VennFirewallConsumerBase.setAttestationCenterProxy
+    bytes4 private constant APPROVE_VIA_SIGNATURE_INTERFACE_ID = 0x0c908cff;
+
+    struct Approval {
+        bytes32[] callHashes;
+        uint256 blockNumber;
+    }
+
+    address public signer;
+    mapping(address => uint256) public nonces;
+    mapping(address => Approval) private approvals;
+
+    event CallsApproved(address indexed txOrigin, bytes32[] callHashes);
+
+    constructor(address _signer) {
+        signer = _signer;
+    }
+
+    /**
+     * @notice Hash of a protected call, as signed by the signer
+     * @param consumer The protected contract
+     * @param sender The caller of the protected function
+     * @param txOrigin The account that sent the transaction
+     * @param data Calldata of the protected function
+     * @param value Ether sent to the protected function
+     */
+    function getCallHash(
+        address consumer,
+        address sender,
+        address txOrigin,
+        bytes memory data,
+        uint256 value
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(consumer, sender, txOrigin, data, value));
+    }
+
+    /**
+     * @notice Message the signer signs, with the Ethereum signed message prefix, to approve calls
+     */
+    function getApprovalMessage(
+        bytes32[] calldata callHashes,
+        uint256 expiration,
+        address txOrigin,
+        uint256 nonce
+    ) public view returns (bytes32) {
+        return keccak256(abi.encodePacked(callHashes, expiration, txOrigin, nonce, address(this), block.chainid));
+    }
+
+    function approveCallsViaSignature(
+        bytes32[] calldata callHashes,
+        uint256 expiration,
+        address txOrigin,
+        uint256 nonce,
+        bytes memory signature
+    ) external payable {
+        require(txOrigin == tx.origin, "MockVennPolicy: wrong origin");
+        require(block.timestamp <= expiration, "MockVennPolicy: expired");
+        require(nonce == nonces[txOrigin], "MockVennPolicy: invalid nonce");
+
+        bytes32 message = MessageHashUtils.toEthSignedMessageHash(
+            getApprovalMessage(callHashes, expiration, txOrigin, nonce)
+        );
+        require(ECDSA.recover(message, signature) == signer, "MockVennPolicy: invalid signature");
+
+        nonces[txOrigin]++;
+        approvals[txOrigin] = Approval({ callHashes: callHashes, blockNumber: block.number });
+
+        emit CallsApproved(txOrigin, callHashes);
+    }
+
+    /**
+     * @notice Reverts unless the call was approved for the current transaction origin in this block
+     * @param consumer The protected contract, which called the firewall
+     */
+    function preExecution(address consumer, address sender, bytes calldata data, uint256 value) external view {
+        Approval storage approval = approvals[tx.origin];
+        require(approval.blockNumber == block.number, "MockVennPolicy: call not approved");
+
+        bytes32 callHash = getCallHash(consumer, sender, tx.origin, data, value);
+        for (uint256 i = 0; i < approval.callHashes.length; i++) {
+            if (approval.callHashes[i] == callHash) {
+                return;
+            }
+        }
+        revert("MockVennPolicy: call not approved");
+    }
+
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == APPROVE_VIA_SIGNATURE_INTERFACE_ID || interfaceId == type(IERC165).interfaceId;
+    }
+}
@@ -4,6 +4,8 @@ pragma solidity ^0.8.26;
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 import "@ironblocks/firewall-consumer/contracts/consumers/VennFirewallConsumer.sol";
 
 contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
@@ -11,6 +13,8 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
 
     uint256 public creatorFee = 25;
     uint256 private nextGameId = 1;
+    // Time a player has to make their part of a round before the opponent can claim the game
+    uint256 public constant MOVE_TIMEOUT = 1 days;
 
     enum Choice { None, Rock, Paper, Scissors }
     enum GameType { OneRound, BestOfThree, BestOfFive }
@@ -27,6 +31,11 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
         address lastPlayerMove;
         Choice[] player1Moves; 
         Choice[] player2Moves;
+        bool commitReveal;
+        bytes32[2] commitments;
+        uint256 lastActionAt;
+        // Only address allowed to join, or the key signing its invite codes. Unset for open games
+        address invitee;
     }
 
     struct GameView {
@@ -51,12 +60,38 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
     event RoundPlayed(uint256 indexed gameId, uint8 roundNumber, Choice player1Choice, Choice player2Choice);
     event GameEnded(uint256 indexed gameId, address winner, uint256 payout);
     event PlayerMoved(uint256 indexed gameId, address player, Choice choice);
+    event MoveCommitted(uint256 indexed gameId, address player, uint8 roundNumber);
+    event GameCancelled(uint256 indexed gameId);
+    event PlayerInvited(uint256 indexed gameId, address invitee);
 
     constructor() Ownable(msg.sender) {
         transferOwnership(msg.sender);
     }
 
     function createGame(GameType _gameType) external payable firewallProtected returns (uint256) {
+        return _createGame(_gameType, false, address(0));
+    }
+
+    /**
+     * @notice Creates a game where moves are committed as hashes and revealed once both players committed,
+     * so neither player can see the other's choice before making their own.
+     */
+    function createCommitRevealGame(GameType _gameType) external payable firewallProtected returns (uint256) {
+        return _createGame(_gameType, true, address(0));
+    }
+
+    /**
+     * @notice Creates a game only `_invitee` can join. `_invitee` is either the opponent's address,
+     * or the address of a throwaway invite key whose private key is shared as an invite code,
+     * see joinGameWithInvite.
+     */
+    function createPrivateGame(GameType _gameType, bool _commitReveal, address _invitee) external payable firewallProtected returns (uint256) {
+        require(_invitee != address(0), "Invalid invitee");
+        require(_invitee != msg.sender, "Cannot invite yourself");
+        return _createGame(_gameType, _commitReveal, _invitee);
+    }
+
+    function _createGame(GameType _gameType, bool _commitReveal, address _invitee) private returns (uint256) {
         require(msg.value > 0, "Stake must be greater than 0");
 
         uint256 gameId = nextGameId++;
@@ -71,16 +106,50 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
             isActive: true,
             lastPlayerMove: address(0),
             player1Moves: new Choice[](0) ,
-            player2Moves: new Choice[](0) 
+            player2Moves: new Choice[](0),
+            commitReveal: _commitReveal,
+            commitments: [bytes32(0), bytes32(0)],
+            lastActionAt: block.timestamp,
+            invitee: _invitee
         });
 
         userGames[msg.sender].push(gameId);
 
         emit GameCreated(gameId, msg.sender, msg.value, _gameType);
+        if (_invitee != address(0)) {
+            emit PlayerInvited(gameId, _invitee);
+        }
         return gameId;
     }
 
     function joinGame(uint256 _gameId) external payable firewallProtected {
+        address invitee = games[_gameId].invitee;
+        require(invitee == address(0) || invitee == msg.sender, "Not invited");
+
+        _joinGame(_gameId);
+    }
+
+    /**
+     * @notice Joins a private game with its invite code: `_signature` is the invite key's signature
+     * of `inviteDigest(_gameId, msg.sender)`. It only lets the signer's chosen player in, so it is
+     * useless to anyone reading it from the mempool.
+     */
+    function joinGameWithInvite(uint256 _gameId, bytes calldata _signature) external payable firewallProtected {
+        address invitee = games[_gameId].invitee;
+        require(invitee != address(0), "Game is not private");
+
+        bytes32 digest = MessageHashUtils.toEthSignedMessageHash(inviteDigest(_gameId, msg.sender));
+        require(ECDSA.recover(digest, _signature) == invitee, "Invalid invite");
+
+        _joinGame(_gameId);
+    }
+
+    // Hash the invite key of a game signs to let `_player` join it
+    function inviteDigest(uint256 _gameId, address _player) public view returns (bytes32) {
+        return keccak256(abi.encodePacked(block.chainid, address(this), _gameId, _player));
+    }
+
+    function _joinGame(uint256 _gameId) private {
         Game storage game = games[_gameId];
         require(game.isActive, "Game is not active");
         require(game.players[1] == address(0), "Game is full");
@@ -88,6 +157,7 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
         require(msg.value == game.stake, "Incorrect stake amount");
 
         game.players[1] = msg.sender;
+        game.lastActionAt = block.timestamp;
         userGames[msg.sender].push(_gameId);
         emit GameJoined(_gameId, msg.sender);
     }
@@ -95,6 +165,7 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
     function makeMove(uint256 _gameId, Choice _choice) external firewallProtected {
         Game storage game = games[_gameId];
         require(game.isActive, "Game is not active");
+        require(!game.commitReveal, "Game uses commit-reveal");
         require(_choice == Choice.Rock || _choice == Choice.Paper || _choice == Choice.Scissors, "Invalid choice");
         require(game.lastPlayerMove != msg.sender, "Cannot make two moves in a row");
 
@@ -104,6 +175,65 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
 
         game.choices[playerIndex] = _choice;
         game.lastPlayerMove = msg.sender;
+        game.lastActionAt = block.timestamp;
+
+        if (playerIndex == 0) {
+            game.player1Moves.push(_choice);
+        } else {
+            game.player2Moves.push(_choice);
+        }
+
+        emit PlayerMoved(_gameId, msg.sender, _choice);
+
+        if (game.choices[0] != Choice.None && game.choices[1] != Choice.None) {
+            _resolveRound(_gameId);
+        }
+    }
+
+    /**
+     * @notice Commits to a move in a commit-reveal game.
+     * @param _commitment keccak256(abi.encodePacked(gameId, roundNumber, player, choice, salt)),
+     * where roundNumber is the round being played (roundsPlayed + 1)
+     */
+    function commitMove(uint256 _gameId, bytes32 _commitment) external firewallProtected {
+        Game storage game = games[_gameId];
+        require(game.isActive, "Game is not active");
+        require(game.commitReveal, "Game does not use commit-reveal");
+        require(game.players[1] != address(0), "Waiting for opponent");
+        require(_commitment != bytes32(0), "Invalid commitment");
+
+        uint8 playerIndex = game.players[0] == msg.sender ? 0 : 1;
+        require(game.players[playerIndex] == msg.sender, "Not a player in this game");
+        require(game.commitments[playerIndex] == bytes32(0), "Move already committed");
+
+        game.commitments[playerIndex] = _commitment;
+        game.lastActionAt = block.timestamp;
+
+        emit MoveCommitted(_gameId, msg.sender, game.roundsPlayed + 1);
+    }
+
+    /**
+     * @notice Reveals a committed move once both players have committed.
+     * The round resolves as soon as both moves are revealed.
+     */
+    function revealMove(uint256 _gameId, Choice _choice, bytes32 _salt) external firewallProtected {
+        Game storage game = games[_gameId];
+        require(game.isActive, "Game is not active");
+        require(game.commitReveal, "Game does not use commit-reveal");
+        require(_choice == Choice.Rock || _choice == Choice.Paper || _choice == Choice.Scissors, "Invalid choice");
+
+        uint8 playerIndex = game.players[0] == msg.sender ? 0 : 1;
+        require(game.players[playerIndex] == msg.sender, "Not a player in this game");
+        require(game.commitments[0] != bytes32(0) && game.commitments[1] != bytes32(0), "Waiting for both commitments");
+        require(game.choices[playerIndex] == Choice.None, "Move already revealed");
+        require(
+            keccak256(abi.encodePacked(_gameId, game.roundsPlayed + 1, msg.sender, _choice, _salt)) == game.commitments[playerIndex],
+            "Reveal does not match commitment"
+        );
+
+        game.choices[playerIndex] = _choice;
+        game.lastPlayerMove = msg.sender;
+        game.lastActionAt = block.timestamp;
 
         if (playerIndex == 0) {
             game.player1Moves.push(_choice);
@@ -118,6 +248,52 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
         }
     }
 
+    /**
+     * @notice Cancels a game nobody joined and refunds the stake to its creator.
+     */
+    function cancelGame(uint256 _gameId) external nonReentrant firewallProtected {
+        Game storage game = games[_gameId];
+        require(game.isActive, "Game is not active");
+        require(game.players[0] == msg.sender, "Only the creator can cancel");
+        require(game.players[1] == address(0), "Game already joined");
+
+        game.isActive = false;
+        payable(msg.sender).sendValue(game.stake);
+
+        emit GameCancelled(_gameId);
+    }
+
+    /**
+     * @notice Wins the game when the opponent has not played their part of the round
+     * within MOVE_TIMEOUT of the last action, while the caller has played theirs.
+     */
+    function claimForfeit(uint256 _gameId) external nonReentrant firewallProtected {
+        Game storage game = games[_gameId];
+        require(game.isActive, "Game is not active");
+        require(game.players[1] != address(0), "Waiting for opponent");
+
+        uint8 playerIndex = game.players[0] == msg.sender ? 0 : 1;
+        require(game.players[playerIndex] == msg.sender, "Not a player in this game");
+        require(_isWaitingForOpponent(game, playerIndex), "Opponent is not late");
+        require(block.timestamp >= game.lastActionAt + MOVE_TIMEOUT, "Move timeout not reached");
+
+        game.isActive = false;
+        _payWinner(_gameId, msg.sender);
+    }
+
+    // Whether the player has played their part of the current round and the opponent has not
+    function _isWaitingForOpponent(Game storage game, uint8 playerIndex) private view returns (bool) {
+        uint8 opponentIndex = 1 - playerIndex;
+
+        if (!game.commitReveal) {
+            return game.choices[playerIndex] != Choice.None && game.choices[opponentIndex] == Choice.None;
+        }
+        if (game.commitments[opponentIndex] == bytes32(0)) {
+            return game.commitments[playerIndex] != bytes32(0);
+        }
+        return game.choices[playerIndex] != Choice.None && game.choices[opponentIndex] == Choice.None;
+    }
+
     function _resolveRound(uint256 _gameId) private {
         Game storage game = games[_gameId];
         Choice player1Choice = game.choices[0];
@@ -139,6 +315,8 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
 
         game.roundsPlayed++;
         game.choices = [Choice.None, Choice.None];  // Reset choices for next round
+        game.commitments = [bytes32(0), bytes32(0)];
+        game.lastActionAt = block.timestamp;
         game.lastPlayerMove = address(0);
 
         if (_isGameOver(game)) {
@@ -207,7 +385,6 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
     function _endGame(uint256 _gameId) private nonReentrant firewallProtected {
         Game storage game = games[_gameId];
         address winner;
-        uint256 payout;
 
         if (game.scores[0] > game.scores[1]) {
             winner = game.players[0];
@@ -222,12 +399,17 @@ contract RockPaperScissors is ReentrancyGuard, Ownable, VennFirewallConsumer {
             return;
         }
 
-        payout = (game.stake * 2 * (10000 - creatorFee)) / 10000;
+        game.isActive = false;
+        _payWinner(_gameId, winner);
+    }
+
+    function _payWinner(uint256 _gameId, address winner) private {
+        Game storage game = games[_gameId];
+        uint256 payout = (game.stake * 2 * (10000 - creatorFee)) / 10000;
         uint256 fee = (game.stake * 2) - payout;
         payable(winner).sendValue(payout);
         payable(owner()).sendValue(fee);
 
-        game.isActive = false;
         emit GameEnded(_gameId, winner, payout);
     }
 }
\ No newline at end of file
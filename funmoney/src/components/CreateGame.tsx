@@ -1,33 +1,33 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Trophy, Coins, Swords, Timer, Info } from 'lucide-react';
-import { parseEther } from 'viem';
-import { useWaitForTransactionReceipt, useWatchContractEvent, useChainId } from 'wagmi';
-import { getContractInfo } from '../constants';
+import { Trophy, Coins, Swords, Timer, Info, EyeOff, Globe, UserCheck, KeyRound, Copy } from 'lucide-react';
+import { isAddress, parseEther, parseEventLogs } from 'viem';
 import toast from 'react-hot-toast';
 import { extractErrorMessages } from '../utils';
 import { ErrorBoundary } from 'react-error-boundary';
-import { useVennProtectedWrite } from '../hooks/useVennProtectedWrite';
+import { useCreateGame, useRpsContract, useWatchRpsEvent } from '../hooks/useRockPaperScissors';
+import { GameType } from '../types';
+import { generateInviteCode, inviteLink } from '../utils/invite';
 
 
 const GAME_TYPES = [
   {
-    id: 0,
+    id: GameType.OneRound,
     name: 'Quick Match',
     description: 'Single round, winner takes all',
     icon: Timer,
     matches: 'One Round',
   },
   {
-    id: 1,
+    id: GameType.BestOfThree,
     name: 'Best of Three',
     description: 'First to win 2 rounds',
     icon: Swords,
     matches: '3 Rounds',
   },
   {
-    id: 2,
+    id: GameType.BestOfFive,
     name: 'Championship',
     description: 'First to win 3 rounds',
     icon: Trophy,
@@ -35,36 +35,65 @@ const GAME_TYPES = [
   },
 ];
 
+type OpponentMode = 'open' | 'address' | 'code';
+
+const OPPONENT_MODES = [
+  {
+    id: 'open' as const,
+    name: 'Open Game',
+    description: 'Listed in the lobby, anyone can join',
+    icon: Globe,
+  },
+  {
+    id: 'address' as const,
+    name: 'Challenge an Address',
+    description: 'Only the wallet you enter can join',
+    icon: UserCheck,
+  },
+  {
+    id: 'code' as const,
+    name: 'Invite Link',
+    description: 'Whoever you send the link to can join',
+    icon: KeyRound,
+  },
+];
+
+// Join link of a private game, shown once it is created
+type CreatedInvite = {
+  gameId: bigint;
+  link: string;
+  // Whether the link carries the invite code
+  withCode: boolean;
+};
+
 export default function CreateGame() {
-    const chainId = useChainId();
-    const { abi, contractAddress, networkName } = getContractInfo(chainId);
+    const { abi, networkName } = useRpsContract();
     
-    const { hash, error, isPending, protectedWrite } = useVennProtectedWrite();
-
-    useWatchContractEvent({
-      address: contractAddress as `0x${string}`,
-      abi,
-      eventName: 'GameCreated',
-      onLogs(logs: any) {
-        const createdGameID = logs && logs[0]?.args?.gameId
-              toast.success(`Game of ID ${createdGameID} created`, {
-                duration: 3000,
-              });
-      },
+    const { receipt, error, isPending, isConfirming, isConfirmed, createGame } = useCreateGame();
+
+    useWatchRpsEvent('GameCreated', (logs) => {
+      const createdGameID = logs[0]?.args.gameId
+            toast.success(`Game of ID ${createdGameID} created`, {
+              duration: 3000,
+            });
     });
-    
-    const { isLoading: isConfirming, isSuccess: isConfirmed } =
-      useWaitForTransactionReceipt({
-        hash,
-      });
         
-  const [selectedType, setSelectedType] = useState(0);
+  const [selectedType, setSelectedType] = useState(GameType.OneRound);
   const [stakeAmount, setStakeAmount] = useState<string>('');
-  
+  const [hiddenMoves, setHiddenMoves] = useState(true);
+  const [opponentMode, setOpponentMode] = useState<OpponentMode>('open');
+  const [opponent, setOpponent] = useState('');
+  // Invite code of the game being created, only known to this page until the link is shared
+  const [pendingCode, setPendingCode] = useState<`0x${string}`>();
+  const [createdInvite, setCreatedInvite] = useState<CreatedInvite>();
+  // Transaction of the last creation handled, the form reset below changes the effect's dependencies
+  const handledReceipt = React.useRef<string>();
+
+  const isOpponentValid = opponentMode !== 'address' || isAddress(opponent);
 
 
   const handleCreateGame = async () => {
-    if (!stakeAmount) return;
+    if (!stakeAmount || !isOpponentValid) return;
 
     const toastId = toast.loading('Preparing to create game...', {
       icon: '⚔️',
@@ -72,13 +101,17 @@ export default function CreateGame() {
     });
 
     try {
-      await protectedWrite({
-        address: contractAddress as `0x${string}`,
-        abi,
-        functionName: 'createGame',
-        args: [BigInt(selectedType)],
-        value: parseEther(stakeAmount),
-      });
+      let invitee: `0x${string}` | undefined;
+      if (opponentMode === 'address') {
+        invitee = opponent as `0x${string}`;
+      } else if (opponentMode === 'code') {
+        const invite = generateInviteCode();
+        invitee = invite.invitee;
+        setPendingCode(invite.code);
+      }
+      setCreatedInvite(undefined);
+
+      await createGame(selectedType, parseEther(stakeAmount), hiddenMoves, invitee);
 
   
 
@@ -102,12 +135,27 @@ export default function CreateGame() {
   };
 
     React.useEffect(() => {
-      if (isConfirmed) {
+      if (isConfirmed && receipt && handledReceipt.current !== receipt.transactionHash) {
+        handledReceipt.current = receipt.transactionHash;
+
+        const [invited] = parseEventLogs({ abi, logs: receipt.logs, eventName: 'PlayerInvited' });
+        if (invited) {
+          setCreatedInvite({
+            gameId: invited.args.gameId,
+            link: inviteLink(window.location.origin, invited.args.gameId, pendingCode),
+            withCode: !!pendingCode,
+          });
+        }
+
         // Reset form
-        setSelectedType(0);
+        setSelectedType(GameType.OneRound);
         setStakeAmount('');
+        setHiddenMoves(true);
+        setOpponentMode('open');
+        setOpponent('');
+        setPendingCode(undefined);
       }
-    }, [isConfirmed]);
+    }, [isConfirmed, receipt, abi, pendingCode]);
 
     React.useEffect(() => {
       if (error) {
@@ -202,13 +250,94 @@ export default function CreateGame() {
           </p>
         </div>
 
+        {/* Move Visibility */}
+        <button
+          onClick={() => setHiddenMoves(!hiddenMoves)}
+          className={`w-full flex items-center p-4 rounded-lg border-2 transition-all duration-200 ${
+            hiddenMoves
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-gray-700 bg-gray-800 hover:border-gray-600'
+          }`}
+        >
+          <div
+            className={`p-2 rounded-lg ${
+              hiddenMoves ? 'bg-blue-500/20' : 'bg-gray-700'
+            }`}
+          >
+            <EyeOff
+              className={`w-6 h-6 ${
+                hiddenMoves ? 'text-blue-400' : 'text-gray-400'
+              }`}
+            />
+          </div>
+          <div className='ml-4 flex-1 text-left'>
+            <h3 className='font-medium'>Hidden Moves</h3>
+            <p className='text-sm text-gray-400'>
+              Moves are committed first and revealed once both players have played
+            </p>
+          </div>
+          <span className='text-sm font-medium px-3 py-1 rounded-full bg-gray-700'>
+            {hiddenMoves ? 'On' : 'Off'}
+          </span>
+        </button>
+
+        {/* Opponent */}
+        <div className='space-y-4'>
+          <h2 className='text-xl font-semibold text-gray-200'>
+            Choose Opponent
+          </h2>
+          <div className='grid grid-cols-3 gap-2'>
+            {OPPONENT_MODES.map((mode) => {
+              const Icon = mode.icon;
+              const isSelected = opponentMode === mode.id;
+              return (
+                <button
+                  key={mode.id}
+                  onClick={() => setOpponentMode(mode.id)}
+                  title={mode.description}
+                  className={`flex flex-col items-center gap-2 p-3 rounded-lg border-2 transition-all duration-200 ${
+                    isSelected
+                      ? 'border-blue-500 bg-blue-500/10'
+                      : 'border-gray-700 bg-gray-800 hover:border-gray-600'
+                  }`}
+                >
+                  <Icon
+                    className={`w-5 h-5 ${
+                      isSelected ? 'text-blue-400' : 'text-gray-400'
+                    }`}
+                  />
+                  <span className='text-sm font-medium'>{mode.name}</span>
+                </button>
+              );
+            })}
+          </div>
+          {opponentMode === 'address' && (
+            <input
+              type='text'
+              value={opponent}
+              onChange={(e) => setOpponent(e.target.value.trim())}
+              placeholder='Opponent address (0x...)'
+              className={`w-full px-4 py-3 bg-gray-800 border-2 rounded-lg focus:outline-none transition-colors text-white ${
+                opponent && !isOpponentValid
+                  ? 'border-red-500'
+                  : 'border-gray-700 focus:border-blue-500'
+              }`}
+            />
+          )}
+          <p className='flex items-center text-sm text-gray-400'>
+            <Info className='w-4 h-4 mr-1' />
+            {OPPONENT_MODES.find(({ id }) => id === opponentMode)?.description}
+            {opponentMode !== 'open' && ', the game is left out of the lobby'}
+          </p>
+        </div>
+
         {/* Create Game Button */}
         <button
           onClick={handleCreateGame}
-          disabled={!stakeAmount || isLoading}
+          disabled={!stakeAmount || !isOpponentValid || isLoading}
           className={`w-full py-4 rounded-lg font-semibold flex items-center justify-center space-x-2
           ${
-            !stakeAmount
+            !stakeAmount || !isOpponentValid
               ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
               : 'bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:opacity-90'
           }
@@ -223,6 +352,38 @@ export default function CreateGame() {
             </>
           )}
         </button>
+
+        {/* Invite of the created private game */}
+        {createdInvite && (
+          <div className='space-y-2 p-4 rounded-lg border-2 border-blue-500 bg-blue-500/10'>
+            <h3 className='font-medium'>
+              Private game #{createdInvite.gameId.toString()} created
+            </h3>
+            <p className='text-sm text-gray-400'>
+              {createdInvite.withCode
+                ? 'Anyone holding this link can join the game. Copy it now, it is not saved anywhere.'
+                : 'Share this link with your opponent, only their wallet can join the game.'}
+            </p>
+            <div className='flex items-center gap-2'>
+              <input
+                readOnly
+                value={createdInvite.link}
+                onFocus={(e) => e.target.select()}
+                className='flex-1 px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm text-white'
+              />
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(createdInvite.link);
+                  toast.success('Invite link copied');
+                }}
+                className='p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-gray-300 transition-colors'
+                title='Copy invite link'
+              >
+                <Copy className='w-5 h-5' />
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </ErrorBoundary>
   );
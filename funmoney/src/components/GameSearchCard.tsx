@@ -9,16 +9,19 @@ import {
   CircleDollarSign,
   CheckCircle2,
   Clock,
+  Lock,
 } from 'lucide-react';
-import { formatEther } from 'viem';
+import { formatEther, zeroAddress } from 'viem';
 import Link from 'next/link';
 import { GameSearchCardProps } from '../types';
+import { isInvited } from '../utils/invite';
 
 const GameSearchCard: React.FC<GameSearchCardProps> = ({
   game,
   onJoinGame,
   isLoading,
   userAddress,
+  hasInviteCode,
 }) => {
   const getGameTypeInfo = (type: number) => {
     switch (Number(type)) {
@@ -73,6 +76,9 @@ const GameSearchCard: React.FC<GameSearchCardProps> = ({
    const playerCompleteAndIsUserPlayer =
      hasSecondPlayer && userAddress && game?.players.includes(userAddress);
 
+  const isPrivate = game?.invitee !== zeroAddress;
+  const canJoin = hasInviteCode || isInvited(game?.invitee, userAddress);
+
   const copyGameId = () => {
     navigator.clipboard.writeText(game?.gameId.toString());
   };
@@ -115,6 +121,14 @@ const GameSearchCard: React.FC<GameSearchCardProps> = ({
                   </>
                 )}
               </span>
+              {isPrivate && (
+                <span
+                  className='flex items-center gap-1 rounded-full bg-purple-900/50 px-2.5 py-0.5 text-xs font-medium text-purple-400'
+                  title='Only the invited player can join'
+                >
+                  <Lock className='h-3 w-3' /> Private
+                </span>
+              )}
             </div>
             <div className='mt-1 flex items-center gap-3'>
               <div className='flex items-center gap-1.5 text-gray-400'>
@@ -130,6 +144,12 @@ const GameSearchCard: React.FC<GameSearchCardProps> = ({
                 <span>{hasSecondPlayer ? '2 Players' : '1 Player'}</span>
               </div>
             </div>
+            <Link
+              href={`/player/${game?.players[0]}`}
+              className='mt-1 inline-block text-sm text-blue-400 hover:text-blue-300'
+            >
+              View creator statistics
+            </Link>
           </div>
         </div>
       </div>
@@ -146,10 +166,10 @@ const GameSearchCard: React.FC<GameSearchCardProps> = ({
         {!playerCompleteAndIsUserPlayer && (
           <button
             onClick={() => onJoinGame(game?.gameId, game?.stake)}
-            disabled={isLoading || hasSecondPlayer}
+            disabled={isLoading || hasSecondPlayer || !canJoin}
             className={`w-full rounded-lg px-4 py-3 font-medium transition-all duration-200 
             ${
-              hasSecondPlayer
+              hasSecondPlayer || !canJoin
                 ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
                 : 'bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-500 hover:to-purple-500'
             }
@@ -172,6 +192,11 @@ const GameSearchCard: React.FC<GameSearchCardProps> = ({
                   <Users className='h-5 w-5' />
                   Game Full
                 </>
+              ) : !canJoin ? (
+                <>
+                  <Lock className='h-5 w-5' />
+                  Invite Only
+                </>
               ) : isLoading ? (
                 <div className='w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin' />
               ) : (
@@ -10,33 +10,38 @@ import {
   ExternalLink,
 } from 'lucide-react';
 import { formatEther, parseEther } from 'viem';
-import { useAccount, useReadContract, useWaitForTransactionReceipt, useChainId } from 'wagmi';
-import { getContractInfo } from '../constants';
+import { useAccount } from 'wagmi';
 import GameSearchCard from './GameSearchCard';
+import OpenGamesLobby from './OpenGamesLobby';
 import toast from 'react-hot-toast';
 import { extractErrorMessages } from '../utils';
 import { Game } from '../types';
 import { ErrorBoundary } from 'react-error-boundary';
-import { useVennProtectedWrite } from '../hooks/useVennProtectedWrite';
+import { useGame, useJoinGame, useRpsContract } from '../hooks/useRockPaperScissors';
 
 
-export default function JoinGame() {
-      const chainId = useChainId();
-      const { abi, contractAddress, networkName } = getContractInfo(chainId);
+type JoinGameProps = {
+  // Game shown up front, e.g. from a join link
+  gameId?: bigint;
+  // Invite code of that game, if it is private
+  inviteCode?: `0x${string}`;
+};
+
+export default function JoinGame({ gameId, inviteCode }: JoinGameProps) {
+      const { networkName } = useRpsContract();
       
       const {
-        hash,
         error,
         isPending,
-        protectedWrite,
-      } = useVennProtectedWrite();
-            const { isLoading: isConfirming, isSuccess: isConfirmed } =
-              useWaitForTransactionReceipt({
-                hash,
-              });
+        isConfirming,
+        isConfirmed,
+        joinGame,
+      } = useJoinGame();
   const [activeGames, setActiveGames] = useState<Game>();
   const [isLoading, setIsLoading] = useState(false);
-  const [searchQuery, setSearchQuery] = useState<number>();
+  const [searchQuery, setSearchQuery] = useState<number | undefined>(
+    gameId === undefined ? undefined : Number(gameId)
+  );
   const [refreshToken, setRefreshToken] = useState('')
   const account = useAccount()
   const userAddress = account.address || undefined
@@ -45,16 +50,14 @@ export default function JoinGame() {
   const proofedSearchQuery = searchQuery || 0
 
 
-      const gameResult = useReadContract({
-        abi,
-        address: contractAddress as `0x${string}`,
-        functionName: 'getGameById',
-        args: [BigInt(proofedSearchQuery)],
-        scopeKey: refreshToken
-      }) 
+      const gameResult = useGame(BigInt(proofedSearchQuery), refreshToken)
 
-      const data = gameResult.data as Game | undefined
+      const data = gameResult.data
 
+  // A linked game is shown as soon as it is read, its stake is the one joined with
+  useEffect(() => {
+    if (gameId !== undefined && data?.gameId === gameId) setActiveGames(data);
+  }, [gameId, data]);
 
       
 
@@ -65,22 +68,17 @@ export default function JoinGame() {
     try {
       // Fetch active games logic will go here
       
-      setActiveGames(data as Game | undefined);
+      setActiveGames(data);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleJoinGame = async(id: bigint | undefined,stake:bigint | undefined)=>{
+  const handleJoinGame = async(id: bigint,stake:bigint)=>{
     const toastId = toast.loading('Preparing to join game...',)
     try {
-      await protectedWrite({
-        address: contractAddress as `0x${string}`,
-        abi,
-        functionName: 'joinGame',
-        args: [id],
-        value: (stake),
-      });
+      // The invite code only unlocks the linked game
+      await joinGame(id, stake, id === gameId ? inviteCode : undefined);
       toast.loading('Waiting for transaction confirmation...', {
         id: toastId,
         icon: '⏳',
@@ -179,12 +177,20 @@ useEffect(() => {
               <GameSearchCard
                 game={data}
                 isLoading={isTxnLoading}
-                onJoinGame={() => handleJoinGame(data?.gameId, data?.stake)}
+                onJoinGame={handleJoinGame}
                 userAddress={userAddress}
+                hasInviteCode={!!inviteCode && data?.gameId === gameId}
               />
             )}
           </div>
         </div>
+
+        {/* Open Games Lobby */}
+        <OpenGamesLobby
+          isLoading={isTxnLoading}
+          onJoinGame={handleJoinGame}
+          userAddress={userAddress}
+        />
       </div>
     </ErrorBoundary>
   );
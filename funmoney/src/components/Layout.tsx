@@ -3,13 +3,14 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useRouter } from 'next/router'; // Import useRouter
-import { Home, GamepadIcon, History } from 'lucide-react';
+import { Home, GamepadIcon, History, Trophy } from 'lucide-react';
 import { useAccount } from 'wagmi';
 import { toast } from 'react-hot-toast'; 
 import Image from 'next/image';
 import { useConnect, useDisconnect } from 'wagmi';
 import { useEffect, useMemo } from 'react';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import NetworkGuard from './NetworkGuard';
 
 import '@rainbow-me/rainbowkit/styles.css';
 
@@ -29,6 +30,11 @@ const NAV_ITEMS = [
     label: 'History',
     icon: History,
   },
+  {
+    path: '/leaderboard',
+    label: 'Leaderboard',
+    icon: Trophy,
+  },
 ];
 
 const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -60,7 +66,9 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 
       {/* Main Content */}
       <main className='flex-1 mt-14 mb-16 overflow-y-auto bg-gray-800'>
-        <div className='container mx-auto px-4 py-6 max-w-lg'>{children}</div>
+        <div className='container mx-auto px-4 py-6 max-w-lg'>
+          <NetworkGuard>{children}</NetworkGuard>
+        </div>
       </main>
 
       {/* Footer Navigation */}
@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, ArrowLeftRight } from 'lucide-react';
+import { useAccount, useSwitchChain } from 'wagmi';
+import { deployments, getDeployment } from '../constants';
+
+/**
+ * Renders its children only when the wallet is on a network the game is deployed to,
+ * and asks the player to switch network otherwise.
+ * Disconnected wallets see the children, reads then use the default network.
+ */
+export default function NetworkGuard({ children }: { children: React.ReactNode }) {
+  const { isConnected, chainId } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (!isConnected || getDeployment(chainId)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className='flex flex-col items-center justify-center min-h-[400px] text-white p-6'>
+      <div className='bg-slate-800/50 p-8 rounded-2xl shadow-xl backdrop-blur-sm flex flex-col items-center max-w-md w-full'>
+        <div className='bg-yellow-500/10 p-4 rounded-full mb-4'>
+          <AlertTriangle className='w-12 h-12 text-yellow-500' />
+        </div>
+        <h2 className='text-2xl font-bold mb-3'>Unsupported Network</h2>
+        <p className='text-slate-400 text-center mb-6'>
+          Rock Paper Scissors is not deployed on chain {chainId}. Switch to a supported network
+          to play.
+        </p>
+        <div className='w-full space-y-3'>
+          {deployments.map((deployment) => (
+            <button
+              key={deployment.chainId}
+              onClick={() => switchChain({ chainId: deployment.chainId })}
+              disabled={isPending}
+              className='w-full flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              <ArrowLeftRight className='w-5 h-5' />
+              <span>Switch to {deployment.name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
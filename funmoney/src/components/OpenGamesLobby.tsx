@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  Swords,
+  Trophy,
+  Gamepad2,
+  User,
+  CircleDollarSign,
+  RefreshCcw,
+  Users,
+} from 'lucide-react';
+import { formatEther, parseEther } from 'viem';
+import { useOpenGames } from '../hooks/useOpenGames';
+import { filterOpenGames, LobbySort } from '../utils/lobby';
+import { GameType } from '../types';
+
+type OpenGamesLobbyProps = {
+  onJoinGame: (gameId: bigint, stake: bigint) => void;
+  isLoading: boolean;
+  userAddress: `0x${string}` | undefined;
+};
+
+const GAME_TYPES = [
+  { id: GameType.OneRound, name: 'Quick Match', icon: <Gamepad2 className='h-5 w-5 text-emerald-500' /> },
+  { id: GameType.BestOfThree, name: 'Best of Three', icon: <Swords className='h-5 w-5 text-blue-500' /> },
+  { id: GameType.BestOfFive, name: 'Championship', icon: <Trophy className='h-5 w-5 text-yellow-500' /> },
+];
+
+const SORT_OPTIONS: { value: LobbySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'stake-desc', label: 'Highest stake' },
+  { value: 'stake-asc', label: 'Lowest stake' },
+];
+
+// Empty or malformed amounts do not filter
+const parseStake = (value: string) => {
+  try {
+    return value ? parseEther(value) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export default function OpenGamesLobby({
+  onJoinGame,
+  isLoading,
+  userAddress,
+}: OpenGamesLobbyProps) {
+  const { games, isLoading: isLoadingGames, error, refresh } = useOpenGames();
+
+  const [gameType, setGameType] = useState<GameType>();
+  const [minStake, setMinStake] = useState('');
+  const [maxStake, setMaxStake] = useState('');
+  const [sort, setSort] = useState<LobbySort>('newest');
+
+  const visibleGames = filterOpenGames(games, {
+    gameType,
+    minStake: parseStake(minStake),
+    maxStake: parseStake(maxStake),
+    sort,
+  });
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex justify-between items-center'>
+        <h2 className='text-xl font-semibold text-gray-200'>Open Games</h2>
+        <button
+          onClick={refresh}
+          className='p-2 bg-gray-800 border-2 border-gray-700 rounded-lg hover:border-gray-600 transition-colors'
+          title='Reload games'
+        >
+          <RefreshCcw
+            className={`w-4 h-4 text-gray-400 ${isLoadingGames ? 'animate-spin' : ''}`}
+          />
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className='flex flex-wrap gap-2'>
+        <button
+          onClick={() => setGameType(undefined)}
+          className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+            gameType === undefined ? 'bg-blue-500/20 text-blue-400' : 'bg-gray-800 text-gray-400'
+          }`}
+        >
+          All types
+        </button>
+        {GAME_TYPES.map((type) => (
+          <button
+            key={type.id}
+            onClick={() => setGameType(type.id)}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              gameType === type.id ? 'bg-blue-500/20 text-blue-400' : 'bg-gray-800 text-gray-400'
+            }`}
+          >
+            {type.name}
+          </button>
+        ))}
+      </div>
+      <div className='grid grid-cols-3 gap-2'>
+        <input
+          type='number'
+          step='0.001'
+          min='0'
+          value={minStake}
+          onChange={(e) => setMinStake(e.target.value)}
+          placeholder='Min ETH'
+          className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+        />
+        <input
+          type='number'
+          step='0.001'
+          min='0'
+          value={maxStake}
+          onChange={(e) => setMaxStake(e.target.value)}
+          placeholder='Max ETH'
+          className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as LobbySort)}
+          className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Games */}
+      {error ? (
+        <div className='text-center py-8 bg-gray-800 rounded-lg text-red-400'>
+          Failed to load open games
+        </div>
+      ) : visibleGames.length === 0 ? (
+        <div className='text-center py-8 bg-gray-800 rounded-lg'>
+          <Users className='w-12 h-12 text-gray-600 mx-auto mb-3' />
+          <p className='text-gray-400'>
+            {isLoadingGames ? 'Loading open games...' : 'No open games found'}
+          </p>
+        </div>
+      ) : (
+        <div className='space-y-3'>
+          {visibleGames.map((game) => {
+            const type = GAME_TYPES[game.gameType] ?? GAME_TYPES[0];
+            const isCreator = game.creator === userAddress;
+
+            return (
+              <div
+                key={game.gameId.toString()}
+                className='flex items-center justify-between p-4 rounded-lg border-2 border-gray-700 bg-gray-800/80 hover:border-gray-600 transition-all duration-200'
+              >
+                <div className='flex items-center gap-4'>
+                  <div className='flex h-10 w-10 items-center justify-center rounded-lg bg-gray-700/50'>
+                    {type.icon}
+                  </div>
+                  <div>
+                    <div className='font-semibold text-white'>
+                      Game #{game.gameId.toString()}{' '}
+                      <span className='text-sm font-normal text-gray-400'>{type.name}</span>
+                    </div>
+                    <div className='flex items-center gap-3 text-sm text-gray-400'>
+                      <span className='flex items-center gap-1'>
+                        <CircleDollarSign className='h-4 w-4 text-yellow-500' />
+                        {formatEther(game.stake)} ETH
+                      </span>
+                      <Link
+                        href={`/player/${game.creator}`}
+                        className='flex items-center gap-1 hover:text-blue-400'
+                        title='View player statistics'
+                      >
+                        <User className='h-4 w-4 text-blue-500' />
+                        {isCreator ? 'You' : formatAddress(game.creator)}
+                      </Link>
+                    </div>
+                  </div>
+                </div>
+                <button
+                  onClick={() => onJoinGame(game.gameId, game.stake)}
+                  disabled={isLoading || isCreator}
+                  className='rounded-lg px-4 py-2 font-medium bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-500 hover:to-purple-500 disabled:from-gray-700 disabled:to-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed'
+                >
+                  {isCreator ? 'Your game' : 'Join'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
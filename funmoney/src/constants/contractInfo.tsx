@@ -1,7 +1,3 @@
-export const contractAddress = '0x7296c77Edd04092Fd6a8117c7f797E0680d97fa1';
-export const networkName = 'Venn Holesky';
-
-
 export const abi = 
   [
     {
@@ -9,6 +5,33 @@ export const abi =
       stateMutability: "nonpayable",
       type: "constructor",
     },
+    {
+      inputs: [],
+      name: "ECDSAInvalidSignature",
+      type: "error",
+    },
+    {
+      inputs: [
+        {
+          internalType: "uint256",
+          name: "length",
+          type: "uint256",
+        },
+      ],
+      name: "ECDSAInvalidSignatureLength",
+      type: "error",
+    },
+    {
+      inputs: [
+        {
+          internalType: "bytes32",
+          name: "s",
+          type: "bytes32",
+        },
+      ],
+      name: "ECDSAInvalidSignatureS",
+      type: "error",
+    },
     {
       inputs: [],
       name: "FailedCall",
@@ -57,6 +80,19 @@ export const abi =
       name: "ReentrancyGuardReentrantCall",
       type: "error",
     },
+    {
+      anonymous: false,
+      inputs: [
+        {
+          indexed: true,
+          internalType: "uint256",
+          name: "gameId",
+          type: "uint256",
+        },
+      ],
+      name: "GameCancelled",
+      type: "event",
+    },
     {
       anonymous: false,
       inputs: [
@@ -132,6 +168,31 @@ export const abi =
       name: "GameJoined",
       type: "event",
     },
+    {
+      anonymous: false,
+      inputs: [
+        {
+          indexed: true,
+          internalType: "uint256",
+          name: "gameId",
+          type: "uint256",
+        },
+        {
+          indexed: false,
+          internalType: "address",
+          name: "player",
+          type: "address",
+        },
+        {
+          indexed: false,
+          internalType: "uint8",
+          name: "roundNumber",
+          type: "uint8",
+        },
+      ],
+      name: "MoveCommitted",
+      type: "event",
+    },
     {
       anonymous: false,
       inputs: [
@@ -151,6 +212,25 @@ export const abi =
       name: "OwnershipTransferred",
       type: "event",
     },
+    {
+      anonymous: false,
+      inputs: [
+        {
+          indexed: true,
+          internalType: "uint256",
+          name: "gameId",
+          type: "uint256",
+        },
+        {
+          indexed: false,
+          internalType: "address",
+          name: "invitee",
+          type: "address",
+        },
+      ],
+      name: "PlayerInvited",
+      type: "event",
+    },
     {
       anonymous: false,
       inputs: [
@@ -207,6 +287,82 @@ export const abi =
       name: "RoundPlayed",
       type: "event",
     },
+    {
+      inputs: [],
+      name: "MOVE_TIMEOUT",
+      outputs: [
+        {
+          internalType: "uint256",
+          name: "",
+          type: "uint256",
+        },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
+    {
+      inputs: [
+        {
+          internalType: "uint256",
+          name: "_gameId",
+          type: "uint256",
+        },
+      ],
+      name: "cancelGame",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
+    {
+      inputs: [
+        {
+          internalType: "uint256",
+          name: "_gameId",
+          type: "uint256",
+        },
+      ],
+      name: "claimForfeit",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
+    {
+      inputs: [
+        {
+          internalType: "uint256",
+          name: "_gameId",
+          type: "uint256",
+        },
+        {
+          internalType: "bytes32",
+          name: "_commitment",
+          type: "bytes32",
+        },
+      ],
+      name: "commitMove",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
+    {
+      inputs: [
+        {
+          internalType: "enum RockPaperScissors.GameType",
+          name: "_gameType",
+          type: "uint8",
+        },
+      ],
+      name: "createCommitRevealGame",
+      outputs: [
+        {
+          internalType: "uint256",
+          name: "",
+          type: "uint256",
+        },
+      ],
+      stateMutability: "payable",
+      type: "function",
+    },
     {
       inputs: [
         {
@@ -226,6 +382,35 @@ export const abi =
       stateMutability: "payable",
       type: "function",
     },
+    {
+      inputs: [
+        {
+          internalType: "enum RockPaperScissors.GameType",
+          name: "_gameType",
+          type: "uint8",
+        },
+        {
+          internalType: "bool",
+          name: "_commitReveal",
+          type: "bool",
+        },
+        {
+          internalType: "address",
+          name: "_invitee",
+          type: "address",
+        },
+      ],
+      name: "createPrivateGame",
+      outputs: [
+        {
+          internalType: "uint256",
+          name: "",
+          type: "uint256",
+        },
+      ],
+      stateMutability: "payable",
+      type: "function",
+    },
     {
       inputs: [],
       name: "creatorFee",
@@ -279,6 +464,21 @@ export const abi =
           name: "lastPlayerMove",
           type: "address",
         },
+        {
+          internalType: "bool",
+          name: "commitReveal",
+          type: "bool",
+        },
+        {
+          internalType: "uint256",
+          name: "lastActionAt",
+          type: "uint256",
+        },
+        {
+          internalType: "address",
+          name: "invitee",
+          type: "address",
+        },
       ],
       stateMutability: "view",
       type: "function",
@@ -326,8 +526,7 @@ export const abi =
               type: "uint8[2]",
             },
             {
-              internalType:
-                "enum RockPaperScissors.Choice[2]",
+              internalType: "enum RockPaperScissors.Choice[2]",
               name: "choices",
               type: "uint8[2]",
             },
@@ -351,6 +550,26 @@ export const abi =
               name: "player2Moves",
               type: "uint8[]",
             },
+            {
+              internalType: "bool",
+              name: "commitReveal",
+              type: "bool",
+            },
+            {
+              internalType: "bytes32[2]",
+              name: "commitments",
+              type: "bytes32[2]",
+            },
+            {
+              internalType: "uint256",
+              name: "lastActionAt",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "invitee",
+              type: "address",
+            },
           ],
           internalType: "struct RockPaperScissors.Game",
           name: "",
@@ -479,6 +698,30 @@ export const abi =
       stateMutability: "view",
       type: "function",
     },
+    {
+      inputs: [
+        {
+          internalType: "uint256",
+          name: "_gameId",
+          type: "uint256",
+        },
+        {
+          internalType: "address",
+          name: "_player",
+          type: "address",
+        },
+      ],
+      name: "inviteDigest",
+      outputs: [
+        {
+          internalType: "bytes32",
+          name: "",
+          type: "bytes32",
+        },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
     {
       inputs: [
         {
@@ -492,6 +735,24 @@ export const abi =
       stateMutability: "payable",
       type: "function",
     },
+    {
+      inputs: [
+        {
+          internalType: "uint256",
+          name: "_gameId",
+          type: "uint256",
+        },
+        {
+          internalType: "bytes",
+          name: "_signature",
+          type: "bytes",
+        },
+      ],
+      name: "joinGameWithInvite",
+      outputs: [],
+      stateMutability: "payable",
+      type: "function",
+    },
     {
       inputs: [
         {
@@ -530,6 +791,29 @@ export const abi =
       stateMutability: "nonpayable",
       type: "function",
     },
+    {
+      inputs: [
+        {
+          internalType: "uint256",
+          name: "_gameId",
+          type: "uint256",
+        },
+        {
+          internalType: "enum RockPaperScissors.Choice",
+          name: "_choice",
+          type: "uint8",
+        },
+        {
+          internalType: "bytes32",
+          name: "_salt",
+          type: "bytes32",
+        },
+      ],
+      name: "revealMove",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
     {
       inputs: [
         {
@@ -567,5 +851,4 @@ export const abi =
       stateMutability: "view",
       type: "function",
     },
-  ];
-  
\ No newline at end of file
+  ] as const;
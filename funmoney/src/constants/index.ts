@@ -1,9 +1,83 @@
-import { abi as defaultAbi, contractAddress as defaultAddress, networkName as defaultNetworkName } from './contractInfo';
+import { abi } from './contractInfo';
+import registry from './deployments.json';
+import leaderboard from './leaderboard.json';
 
+// A RockPaperScissors deployment, as written to deployments.json by scripts/deploy.js
+export type Deployment = {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string;
+  vennNodeUrl: string;
+  // Unset between a deployment and the `venn enable` that creates its policy
+  vennPolicyAddress?: `0x${string}`;
+  contractAddress: `0x${string}`;
+  // First block to scan for contract events
+  deploymentBlock: bigint;
+};
+
+type RegistryEntry = Omit<Deployment, 'chainId' | 'deploymentBlock'> & {
+  deploymentBlock: string;
+};
+
+export const deployments: Deployment[] = Object.entries(
+  registry as Record<string, RegistryEntry>
+).map(([chainId, entry]) => ({
+  ...entry,
+  chainId: Number(chainId),
+  deploymentBlock: BigInt(entry.deploymentBlock),
+}));
+
+// wagmi needs at least one chain, and every contract read one deployment
+if (!deployments.length) {
+  throw new Error(
+    'No deployment in src/constants/deployments.json: run scripts/deploy-local.js or scripts/deploy.js first'
+  );
+}
+
+/**
+ * The deployment on a network, undefined if the game is not deployed there
+ */
+export const getDeployment = (chainId?: number) =>
+  deployments.find((deployment) => deployment.chainId === chainId);
+
+/**
+ * The contract of a network.
+ * wagmi is only configured with the registry networks, so its chain id always has a deployment.
+ * Unknown chain ids fall back to the first deployment rather than breaking the hooks reading it.
+ */
 export const getContractInfo = (chainId?: number) => {
-      return {
-        abi: defaultAbi,
-        contractAddress: defaultAddress,
-        networkName: defaultNetworkName
-      };
-}; 
\ No newline at end of file
+  const deployment = getDeployment(chainId) ?? deployments[0];
+
+  return {
+    abi,
+    contractAddress: deployment.contractAddress,
+    networkName: deployment.name,
+    deploymentBlock: deployment.deploymentBlock,
+    explorerUrl: deployment.explorerUrl,
+  };
+};
+
+// A ranking period of the leaderboard
+export type Season = {
+  id: string;
+  name: string;
+  startsAt: Date;
+  // Unset for a season that never ends
+  endsAt?: Date;
+};
+
+/**
+ * Leaderboard settings, edited in leaderboard.json
+ */
+export const leaderboardConfig = {
+  minGamesForWinRate: leaderboard.minGamesForWinRate,
+  seasons: leaderboard.seasons.map(
+    (season): Season => ({
+      id: season.id,
+      name: season.name,
+      startsAt: new Date(season.startsAt),
+      endsAt: season.endsAt ? new Date(season.endsAt) : undefined,
+    })
+  ),
+};
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Milliseconds left until a deadline, updated every second
+ * @param deadline Deadline as a timestamp in milliseconds
+ * @returns The remaining time, 0 once the deadline has passed, or undefined without deadline
+ */
+export function useCountdown(deadline?: number) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return deadline ? Math.max(deadline - now, 0) : undefined;
+}
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getGame,
+  HistoryGameDetails,
+  HistoryGamePage,
+  HistoryQuery,
+  listGames,
+  listSelfPlayGames,
+} from '../services/historyApi';
+
+/**
+ * Loads a page of games from the game history of the detector
+ * @param query - Filters and page of the games. Nothing is read while it is undefined.
+ * Memoise it: every new query reloads the page
+ */
+export function useHistoryGames(query: HistoryQuery | undefined) {
+  const [page, setPage] = useState<HistoryGamePage>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error>();
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  const refresh = useCallback(() => setRefreshToken(Date.now()), []);
+
+  useEffect(() => {
+    if (!query) return;
+
+    let cancelled = false;
+
+    const loadGames = async () => {
+      setIsLoading(true);
+      setError(undefined);
+
+      try {
+        const result = await listGames(query);
+
+        if (cancelled) return;
+        setPage(result);
+      } catch (err) {
+        console.error('Error loading game history:', err);
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadGames();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, refreshToken]);
+
+  return { page, isLoading, error, refresh };
+}
+
+/**
+ * Loads a game with its rounds and events from the game history of the detector
+ * @param gameId - The game
+ * @param enabled - Nothing is read until it is set, e.g. while the game is collapsed
+ */
+export function useHistoryGame(gameId: bigint | string, enabled: boolean) {
+  const [game, setGame] = useState<HistoryGameDetails>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error>();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const loadGame = async () => {
+      setIsLoading(true);
+      setError(undefined);
+
+      try {
+        const result = await getGame(gameId);
+
+        if (cancelled) return;
+        setGame(result);
+      } catch (err) {
+        console.error(`Error loading the timeline of game ${gameId}:`, err);
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadGame();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, enabled]);
+
+  return { game, isLoading, error };
+}
+
+/**
+ * Loads the ids of the games the detector flagged as self-play
+ */
+export function useSelfPlayGames() {
+  const [gameIds, setGameIds] = useState<Set<string>>();
+  const [error, setError] = useState<Error>();
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  const refresh = useCallback(() => setRefreshToken(Date.now()), []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setError(undefined);
+    listSelfPlayGames()
+      .then((result) => {
+        if (!cancelled) setGameIds(result);
+      })
+      .catch((err) => {
+        console.error('Error loading self-play games:', err);
+        if (!cancelled) setError(err as Error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshToken]);
+
+  return { gameIds, error, refresh };
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HistoryGame, HistoryQuery, listAllGames } from '../services/historyApi';
+
+/**
+ * Lists every game matching a query with its players, stake and outcome, from the game
+ * history of the detector
+ * @param query - Filters of the games. Nothing is read while it is undefined.
+ * Memoise it: every new query reloads the games
+ */
+export function useGameRecords(query: Omit<HistoryQuery, 'limit' | 'offset'> | undefined) {
+  const [records, setRecords] = useState<HistoryGame[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error>();
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  const refresh = useCallback(() => setRefreshToken(Date.now()), []);
+
+  useEffect(() => {
+    if (!query) return;
+
+    let cancelled = false;
+
+    const loadRecords = async () => {
+      setIsLoading(true);
+      setError(undefined);
+
+      try {
+        const games = await listAllGames(query);
+
+        if (cancelled) return;
+        setRecords(games);
+      } catch (err) {
+        console.error('Error loading game records:', err);
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRecords();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, refreshToken]);
+
+  return { records, isLoading, error, refresh };
+}
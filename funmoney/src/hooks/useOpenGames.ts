@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePublicClient, useWatchContractEvent } from 'wagmi';
+import { applyGameLogs, GameLog, LOBBY_EVENTS, OpenGame } from '../utils/lobby';
+import { useRpsContract } from './useRockPaperScissors';
+
+// Public RPCs cap the block range of a single eth_getLogs call
+const LOG_PAGE_SIZE = BigInt(10000);
+
+/**
+ * Lists the games waiting for an opponent.
+ * Games are rebuilt from the contract events since its deployment, then kept up to date
+ * with the events of new blocks.
+ */
+export function useOpenGames() {
+  const { abi, contractAddress, deploymentBlock } = useRpsContract();
+  const publicClient = usePublicClient();
+
+  const [openGames, setOpenGames] = useState(new Map<string, OpenGame>());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error>();
+  const [refreshToken, setRefreshToken] = useState(0);
+  // Logs watched while the games are scanned, unset once the scan is done
+  const watchedLogs = useRef<GameLog[]>();
+
+  const events = useMemo(
+    () =>
+      abi.filter(
+        (item): item is Extract<(typeof abi)[number], { type: 'event' }> =>
+          item.type === 'event' && LOBBY_EVENTS.includes(item.name)
+      ),
+    [abi]
+  );
+
+  const refresh = useCallback(() => setRefreshToken(Date.now()), []);
+
+  useEffect(() => {
+    if (!publicClient) return;
+
+    let cancelled = false;
+
+    const loadGames = async () => {
+      setIsLoading(true);
+      setError(undefined);
+      watchedLogs.current = [];
+
+      try {
+        const latestBlock = await publicClient.getBlockNumber();
+        const games = new Map<string, OpenGame>();
+
+        for (let fromBlock = deploymentBlock; fromBlock <= latestBlock; fromBlock += LOG_PAGE_SIZE) {
+          const toBlock = fromBlock + LOG_PAGE_SIZE - BigInt(1);
+          const logs = await publicClient.getLogs({
+            address: contractAddress,
+            events,
+            fromBlock,
+            toBlock: toBlock < latestBlock ? toBlock : latestBlock,
+          });
+
+          if (cancelled) return;
+          applyGameLogs(games, logs);
+        }
+
+        // Logs of later blocks were only applied to the games the scan replaces
+        applyGameLogs(
+          games,
+          (watchedLogs.current ?? []).filter(
+            (log) => log.blockNumber === null || log.blockNumber > latestBlock
+          )
+        );
+        setOpenGames(games);
+      } catch (err) {
+        console.error('Error loading open games:', err);
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) {
+          watchedLogs.current = undefined;
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadGames();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, contractAddress, deploymentBlock, events, refreshToken]);
+
+  useWatchContractEvent({
+    address: contractAddress,
+    abi,
+    onLogs(logs) {
+      watchedLogs.current?.push(...logs);
+      setOpenGames((games) => applyGameLogs(new Map(games), logs));
+    },
+  });
+
+  return {
+    games: [...openGames.values()],
+    isLoading,
+    error,
+    refresh,
+  };
+}
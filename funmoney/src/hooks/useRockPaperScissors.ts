@@ -0,0 +1,218 @@
+import type {
+  ContractEventName,
+  ContractFunctionArgs,
+  ContractFunctionName,
+} from 'viem';
+import {
+  type UseWatchContractEventParameters,
+  useAccount,
+  useChainId,
+  useReadContract,
+  useWaitForTransactionReceipt,
+  useWatchContractEvent,
+} from 'wagmi';
+import { getContractInfo } from '../constants';
+import { abi } from '../constants/contractInfo';
+import { Choice, GameType } from '../types';
+import { signInvite } from '../utils/invite';
+import { useVennProtectedWrite } from './useVennProtectedWrite';
+
+/*
+ * Typed client of the RockPaperScissors contract.
+ * Function names, arguments and results are checked against the `as const` ABI,
+ * so components never pass the ABI, the address or a function name around themselves.
+ */
+
+type RpsAbi = typeof abi;
+type RpsWriteFunction = ContractFunctionName<RpsAbi, 'nonpayable' | 'payable'>;
+
+/**
+ * The contract deployment of the connected network
+ */
+export function useRpsContract() {
+  const chainId = useChainId();
+  return getContractInfo(chainId);
+}
+
+/**
+ * Reads a game by id
+ * @param gameId - Undefined until the id is known
+ * @param scopeKey - Changing it refetches the game
+ */
+export function useGame(gameId: bigint | undefined, scopeKey?: string) {
+  const { abi, contractAddress } = useRpsContract();
+
+  return useReadContract({
+    abi,
+    address: contractAddress,
+    functionName: 'getGameById',
+    args: gameId === undefined ? undefined : [gameId],
+    scopeKey,
+    query: { enabled: gameId !== undefined },
+  });
+}
+
+/**
+ * Reads every game a player created or joined
+ */
+export function useUserGames(player: `0x${string}` | undefined) {
+  const { abi, contractAddress } = useRpsContract();
+
+  const gameIdsResult = useReadContract({
+    abi,
+    address: contractAddress,
+    functionName: 'getUserGames',
+    args: player ? [player] : undefined,
+    query: { enabled: !!player },
+  });
+
+  const gamesResult = useReadContract({
+    abi,
+    address: contractAddress,
+    functionName: 'getGamesInfo',
+    args: gameIdsResult.data ? [gameIdsResult.data] : undefined,
+    query: { enabled: !!gameIdsResult.data },
+  });
+
+  return {
+    games: gamesResult.data,
+    isLoading: gameIdsResult.isLoading || gamesResult.isLoading,
+    error: gameIdsResult.error ?? gamesResult.error,
+    refetch: gameIdsResult.refetch,
+  };
+}
+
+/**
+ * Reads how long, in seconds, a player has to move before their opponent can claim the game
+ */
+export function useMoveTimeout() {
+  const { abi, contractAddress } = useRpsContract();
+
+  return useReadContract({
+    abi,
+    address: contractAddress,
+    functionName: 'MOVE_TIMEOUT',
+  });
+}
+
+/**
+ * Calls `onLogs` with the decoded logs of a contract event
+ */
+export function useWatchRpsEvent<eventName extends ContractEventName<RpsAbi>>(
+  eventName: eventName,
+  onLogs: UseWatchContractEventParameters<RpsAbi, eventName>['onLogs']
+) {
+  const { abi, contractAddress } = useRpsContract();
+
+  useWatchContractEvent({
+    address: contractAddress,
+    abi,
+    eventName,
+    onLogs,
+  });
+}
+
+// Sends a Venn protected transaction to the contract and tracks its receipt
+function useRpsWrite() {
+  const { abi, contractAddress } = useRpsContract();
+  const { hash, error, isPending, protectedWrite } = useVennProtectedWrite();
+  const {
+    data: receipt,
+    isLoading: isConfirming,
+    isSuccess: isConfirmed,
+  } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const write = <functionName extends RpsWriteFunction>(
+    functionName: functionName,
+    args: ContractFunctionArgs<RpsAbi, 'nonpayable' | 'payable', functionName>,
+    value?: bigint
+  ) =>
+    // `args` is checked against the ABI above, the protected write only encodes it
+    protectedWrite({
+      address: contractAddress,
+      abi,
+      functionName,
+      args: args as readonly unknown[],
+      value,
+    });
+
+  return { hash, receipt, error, isPending, isConfirming, isConfirmed, write };
+}
+
+export function useCreateGame() {
+  const { write, ...status } = useRpsWrite();
+
+  /**
+   * @param stake - Wei staked by the creator, the opponent must match it
+   * @param commitReveal - Hide moves behind commitments until both players have played
+   * @param invitee - Only address allowed to join, or the address of an invite code. Unset for
+   * an open game
+   */
+  const createGame = (
+    gameType: GameType,
+    stake: bigint,
+    commitReveal: boolean,
+    invitee?: `0x${string}`
+  ) =>
+    invitee
+      ? write('createPrivateGame', [gameType, commitReveal, invitee], stake)
+      : commitReveal
+        ? write('createCommitRevealGame', [gameType], stake)
+        : write('createGame', [gameType], stake);
+
+  return { ...status, createGame };
+}
+
+export function useJoinGame() {
+  const { write, ...status } = useRpsWrite();
+  const { contractAddress } = useRpsContract();
+  const chainId = useChainId();
+  const { address } = useAccount();
+
+  /**
+   * @param inviteCode - Code of a private game the connected wallet was not invited to by address
+   */
+  const joinGame = async (gameId: bigint, stake: bigint, inviteCode?: `0x${string}`) => {
+    if (!inviteCode) return write('joinGame', [gameId], stake);
+    if (!address) throw new Error('Connect a wallet to join the game');
+
+    const signature = await signInvite(inviteCode, {
+      chainId,
+      contractAddress,
+      gameId,
+      player: address,
+    });
+    return write('joinGameWithInvite', [gameId, signature], stake);
+  };
+
+  return { ...status, joinGame };
+}
+
+export function useMakeMove() {
+  const { write, ...status } = useRpsWrite();
+
+  // Plaintext move, for games without commit-reveal
+  const makeMove = (gameId: bigint, choice: Choice) => write('makeMove', [gameId, choice]);
+
+  const commitMove = (gameId: bigint, commitment: `0x${string}`) =>
+    write('commitMove', [gameId, commitment]);
+
+  const revealMove = (gameId: bigint, choice: Choice, salt: `0x${string}`) =>
+    write('revealMove', [gameId, choice, salt]);
+
+  return { ...status, makeMove, commitMove, revealMove };
+}
+
+export function useGameTimeouts() {
+  const { write, ...status } = useRpsWrite();
+
+  // Refunds a game nobody joined
+  const cancelGame = (gameId: bigint) => write('cancelGame', [gameId]);
+
+  // Wins a game whose opponent missed the move timeout
+  const claimForfeit = (gameId: bigint) => write('claimForfeit', [gameId]);
+
+  return { ...status, cancelGame, claimForfeit };
+}
@@ -1,5 +1,5 @@
-import { useWriteContract, useAccount, useChainId } from 'wagmi';
-import { encodeFunctionData } from 'viem';
+import { useSendTransaction, useAccount, useChainId } from 'wagmi';
+import { Abi, encodeFunctionData } from 'viem';
 import vennClient, { Transaction } from '../services/VennClient';
 import { toast } from 'react-hot-toast';
 import { extractErrorMessages } from '../utils';
@@ -7,17 +7,19 @@ import { extractErrorMessages } from '../utils';
 // Type for the protected write function parameters
 type WriteContractParams = {
   address: `0x${string}`;
-  abi: any;
+  abi: Abi;
   functionName: string;
   args?: readonly unknown[];
   value?: bigint;
 };
 
 /**
- * A hook that enhances wagmi's useWriteContract with Venn transaction protection
+ * A hook that writes to contracts with Venn transaction protection.
+ * The approved calldata wraps the call in the contract's safeFunctionCall, so it is sent as a raw
+ * transaction rather than re-encoded from the ABI.
  */
 export function useVennProtectedWrite() {
-  const { data: hash, error, isPending, writeContract } = useWriteContract();
+  const { data: hash, error, isPending, sendTransaction } = useSendTransaction();
   const { address } = useAccount();
   const chainId = useChainId();
 
@@ -82,21 +84,13 @@ export function useVennProtectedWrite() {
       // Execute the transaction with the protected data from Venn
       toast.loading('Sending approved transaction...', { id: toastId });
       
-      // Create the write parameters with proper type handling
-      const writeParams: any = {
-        address: params.address,
-        abi: params.abi,
-        data: approvedTx.data,
-      };
-      
-      // Only add value if it's defined to avoid type errors
-      if (params.value !== undefined) {
-        writeParams.value = params.value;
-      }
-      
       // Execute the transaction
-      console.log('Submitting transaction with data:', writeParams.data.substring(0, 10) + '...');
-      await writeContract(writeParams);
+      console.log('Submitting transaction with data:', approvedTx.data.substring(0, 10) + '...');
+      sendTransaction({
+        to: params.address,
+        data: approvedTx.data as `0x${string}`,
+        value: BigInt(approvedTx.value),
+      });
 
       toast.success('Transaction submitted with Venn protection', { id: toastId });
     } catch (err) {
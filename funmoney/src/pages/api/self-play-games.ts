@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { DETECTOR_URL } from '../../services/historyApi';
+
+// Id of the detector rule flagging self-play
+const SELF_PLAY_RULE_ID = 'self-play';
+
+// Largest page of verdicts the detector serves
+const VERDICTS_PAGE_SIZE = 1000;
+
+type Verdict = { gameIds: string[] };
+
+/**
+ * Ids of the games the detector flagged as self-play, from its `/verdicts` admin route.
+ * The route takes the admin API key, which is read here, on the server, and never reaches
+ * the browser.
+ */
+export default async function handler(_req: NextApiRequest, res: NextApiResponse) {
+  const apiKey = process.env.DETECTOR_ADMIN_API_KEY;
+
+  if (!DETECTOR_URL || !apiKey) {
+    res.status(503).json({
+      message: 'NEXT_PUBLIC_DETECTOR_URL and DETECTOR_ADMIN_API_KEY must be set',
+    });
+    return;
+  }
+
+  try {
+    const gameIds = new Set<string>();
+
+    for (let offset = 0; ; offset += VERDICTS_PAGE_SIZE) {
+      const params = new URLSearchParams({
+        ruleId: SELF_PLAY_RULE_ID,
+        limit: String(VERDICTS_PAGE_SIZE),
+        offset: String(offset),
+      });
+      const response = await fetch(`${DETECTOR_URL}/verdicts?${params}`, {
+        headers: { 'x-api-key': apiKey },
+      });
+
+      if (!response.ok) {
+        res.status(502).json({ message: `Detector answered with status ${response.status}` });
+        return;
+      }
+
+      const verdicts: Verdict[] = await response.json();
+      verdicts.forEach((verdict) => verdict.gameIds.forEach((gameId) => gameIds.add(gameId)));
+
+      if (verdicts.length < VERDICTS_PAGE_SIZE) break;
+    }
+
+    res.status(200).json({ gameIds: [...gameIds] });
+  } catch (error) {
+    console.error('Error loading self-play verdicts:', error);
+    res.status(502).json({ message: 'Failed to reach the detector' });
+  }
+}
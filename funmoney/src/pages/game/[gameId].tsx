@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/router';
 import { formatEther } from 'viem';
 import {
@@ -21,28 +21,40 @@ import {
   X,
   Equal,
   Play,
+  EyeOff,
+  Hourglass,
+  Undo2,
 } from 'lucide-react';
+import { useAccount, useChainId } from 'wagmi';
+import { extractErrorMessages, formatDuration } from '../../utils';
 import {
-  useAccount,
-  useReadContract,
-  useWaitForTransactionReceipt,
-  useWatchContractEvent,
-  useChainId,
-} from 'wagmi';
-import { getContractInfo } from '../../constants';
-import { extractErrorMessages } from '../../utils';
+  clearMove,
+  computeCommitment,
+  EMPTY_COMMITMENT,
+  generateSalt,
+  loadMove,
+  saveMove,
+} from '../../utils/commitReveal';
 import toast from 'react-hot-toast';
 import Link from 'next/link';
-import { Game, MoveColor, MoveType } from '../../types';
+import { Choice, Game, GameType, MoveColor, MoveType } from '../../types';
 import { ErrorBoundary } from 'react-error-boundary';
-import { useVennProtectedWrite } from '../../hooks/useVennProtectedWrite';
+import {
+  useGame,
+  useGameTimeouts,
+  useMakeMove,
+  useMoveTimeout,
+  useRpsContract,
+  useWatchRpsEvent,
+} from '../../hooks/useRockPaperScissors';
+import { useCountdown } from '../../hooks/useCountdown';
 
 
 const GameInterface = () => {
   const router = useRouter();
   const { gameId } = router.query;
   const chainId = useChainId();
-  const { abi, contractAddress, networkName } = getContractInfo(chainId);
+  const { contractAddress, networkName } = useRpsContract();
   const account = useAccount();
   
   const proofedGamedId = gameId ? gameId.toString() : '0';
@@ -50,70 +62,166 @@ const GameInterface = () => {
   const [currentMove, setCurrentMove] = useState<MoveType | null>(null);
   const [refreshToken, setRefreshToken] = useState('');
   
-  const gamesIdResult = useReadContract({
-    abi,
-    address: contractAddress as `0x${string}`,
-    functionName: 'getGameById',
-    args: [BigInt(Number(proofedGamedId))],
-    scopeKey: refreshToken,
-  });
+  const gamesIdResult = useGame(BigInt(Number(proofedGamedId)), refreshToken);
 
-  const { hash, error, isPending, protectedWrite } = useVennProtectedWrite();
+  const moveTimeoutResult = useMoveTimeout();
 
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
+  const moves = useMakeMove();
+  const timeouts = useGameTimeouts();
 
-  const pending = isPending || isConfirming;
+  const pending =
+    moves.isPending || moves.isConfirming || timeouts.isPending || timeouts.isConfirming;
+  const isConfirmed = moves.isConfirmed || timeouts.isConfirmed;
+  const error = moves.error ?? timeouts.error;
 
   const [selectedMove, setSelectedMove] = useState(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [playerMove, setPlayerMove] = useState<number>();
-  const gameDetails = gamesIdResult.data as Game
+  const [playerMove, setPlayerMove] = useState<Choice>();
+  const gameDetails = gamesIdResult.data;
   const userAddress = account.address;
-  const gameEnded = !gameDetails?.isActive && gameDetails?.roundsPlayed > 0;
-
-  useWatchContractEvent({
-    address: contractAddress as `0x${string}`,
-    abi,
-    eventName: 'PlayerMoved',
-    onLogs(logs: any) {
-      if(logs){
-        setRefreshToken(Date.now().toString());
-        const player = logs[0]?.args?.player;
-        if (player === account.address) {
-          toast.success(`Move successfully made!`, {
-            duration: 3000,
-          });
-        } else {
-          toast.success(`Opponent made move`, {
-            duration: 30000,
-          });
-        }
-      }
-    },
+  const gameEnded = !!gameDetails && !gameDetails.isActive && gameDetails.roundsPlayed > 0;
+  const playerIndex =
+    gameDetails && userAddress ? gameDetails.players.indexOf(userAddress) : -1;
+  const roundNumber = gameDetails ? gameDetails.roundsPlayed + 1 : 0;
+  const moveKey = useMemo(
+    () => ({
+      chainId,
+      contractAddress,
+      gameId: BigInt(Number(proofedGamedId)),
+      roundNumber,
+      player: userAddress ?? '',
+    }),
+    [chainId, contractAddress, proofedGamedId, roundNumber, userAddress]
+  );
+  const myCommitted =
+    playerIndex >= 0 && gameDetails?.commitments?.[playerIndex] !== EMPTY_COMMITMENT;
+  const opponentCommitted =
+    playerIndex >= 0 && gameDetails?.commitments?.[1 - playerIndex] !== EMPTY_COMMITMENT;
+  const myRevealed = playerIndex >= 0 && gameDetails?.choices[playerIndex] !== Choice.None;
+  const awaitingReveal =
+    gameDetails?.commitReveal && myCommitted && opponentCommitted && !myRevealed;
+  const revealAttempt = React.useRef<string>();
+  const moveTimeout = moveTimeoutResult.data;
+  const forfeitDeadline =
+    gameDetails?.lastActionAt !== undefined && moveTimeout !== undefined
+      ? Number(gameDetails.lastActionAt + moveTimeout) * 1000
+      : undefined;
+  const timeLeftToMove = useCountdown(forfeitDeadline);
+
+  useWatchRpsEvent('PlayerMoved', (logs) => {
+    setRefreshToken(Date.now().toString());
+    const player = logs[0]?.args.player;
+    if (player === account.address) {
+      toast.success(`Move successfully made!`, {
+        duration: 3000,
+      });
+    } else {
+      toast.success(`Opponent made move`, {
+        duration: 30000,
+      });
+    }
   });
 
-  useWatchContractEvent({
-    address: contractAddress as `0x${string}`,
-    abi,
-    eventName: 'GameJoined',
-    onLogs(logs: any) {
-      if (logs) {
-        setRefreshToken(Date.now().toString());
-      }
-    },
+  useWatchRpsEvent('MoveCommitted', (logs) => {
+    setRefreshToken(Date.now().toString());
+    const player = logs[0]?.args.player;
+    if (player !== account.address) {
+      toast.success(`Opponent committed a move`, {
+        duration: 3000,
+      });
+    }
+  });
+
+  // Games can also end by forfeit, without a last move
+  useWatchRpsEvent('GameEnded', () => {
+    setRefreshToken(Date.now().toString());
+  });
+
+  useWatchRpsEvent('GameJoined', () => {
+    setRefreshToken(Date.now().toString());
   });
 
   const handleMakeMove = async () => {
+    if (gameDetails?.commitReveal) {
+      return handleCommitMove();
+    }
+
+    if (!playerMove) return;
+
     try {
-      await protectedWrite({
-        address: contractAddress as `0x${string}`,
-        abi,
-        functionName: 'makeMove',
-        args: [BigInt(Number(proofedGamedId)), playerMove],
-      });
+      await moves.makeMove(moveKey.gameId, playerMove);
+    } catch (error) {
+      console.log(error);
+    }
+  };
+
+  // Only the commitment goes on-chain, the choice and salt stay in the browser until the reveal
+  const handleCommitMove = async () => {
+    if (!userAddress || !playerMove) return;
+
+    const salt = generateSalt();
+    saveMove(moveKey, { choice: playerMove, salt });
+
+    try {
+      await moves.commitMove(
+        moveKey.gameId,
+        computeCommitment(moveKey.gameId, roundNumber, userAddress, playerMove, salt)
+      );
+    } catch (error) {
+      console.log(error);
+    }
+  };
+
+  const handleRevealMove = async () => {
+    const move = loadMove(moveKey);
+    if (!move) return;
+
+    revealAttempt.current = `${proofedGamedId}:${roundNumber}`;
+
+    try {
+      await moves.revealMove(moveKey.gameId, move.choice, move.salt);
+    } catch (error) {
+      console.log(error);
+    }
+  };
+
+  // Latest reveal handler, so the effect below does not re-run on every render
+  const latestRevealMove = React.useRef(handleRevealMove);
+  React.useEffect(() => {
+    latestRevealMove.current = handleRevealMove;
+  });
+
+  // Reveal automatically once both commitments landed, the button below retries failed reveals
+  React.useEffect(() => {
+    if (!awaitingReveal || pending) return;
+    if (revealAttempt.current === `${proofedGamedId}:${roundNumber}`) return;
+
+    latestRevealMove.current();
+  }, [awaitingReveal, pending, proofedGamedId, roundNumber]);
+
+  // Moves of resolved rounds are public now, no need to keep them
+  React.useEffect(() => {
+    if (!gameDetails?.commitReveal || !userAddress) return;
+
+    for (let round = 1; round < roundNumber; round++) {
+      clearMove({ ...moveKey, roundNumber: round });
+    }
+    if (gameEnded) {
+      clearMove(moveKey);
+    }
+  }, [gameDetails?.commitReveal, userAddress, roundNumber, gameEnded, moveKey]);
+
+  const handleCancelGame = async () => {
+    try {
+      await timeouts.cancelGame(moveKey.gameId);
+    } catch (error) {
+      console.log(error);
+    }
+  };
+
+  const handleClaimForfeit = async () => {
+    try {
+      await timeouts.claimForfeit(moveKey.gameId);
     } catch (error) {
       console.log(error);
     }
@@ -151,7 +259,7 @@ const GameInterface = () => {
   }
 
   // Early return for inactive games
-  if (!gameDetails?.isActive && gameDetails?.roundsPlayed < 1) {
+  if (!gameDetails.isActive && gameDetails.roundsPlayed < 1) {
     return (
       <ErrorBoundary fallback={<div>Something went wrong</div>}>
         <div className='flex flex-col items-center justify-center min-h-[400px] bg-slate-900 text-white p-6'>
@@ -217,6 +325,20 @@ const GameInterface = () => {
             <p className='text-slate-400 text-center'>
               Another player needs to join before the game can begin
             </p>
+            {gameDetails.players[0] === userAddress && (
+              <button
+                onClick={handleCancelGame}
+                disabled={pending}
+                className='mt-6 flex items-center gap-2 px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-xl transition-colors disabled:opacity-50'
+              >
+                {pending ? (
+                  <div className='w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin' />
+                ) : (
+                  <Undo2 className='w-5 h-5' />
+                )}
+                <span>Cancel game and refund stake</span>
+              </button>
+            )}
           </div>
         </div>
       </ErrorBoundary>
@@ -230,21 +352,21 @@ const GameInterface = () => {
 
   const getGameTypeInfo = (type: number) => {
     switch (Number(type)) {
-      case 0:
+      case GameType.OneRound:
         return {
           name: 'Quick Match',
           rounds: 1,
           icon: <Gamepad2 className='h-6 w-6 text-emerald-500' />,
           bgColor: 'bg-emerald-500/10',
         };
-      case 1:
+      case GameType.BestOfThree:
         return {
           name: 'Best of Three',
           rounds: 3,
           icon: <Swords className='h-6 w-6 text-blue-500' />,
           bgColor: 'bg-blue-500/10',
         };
-      case 2:
+      case GameType.BestOfFive:
         return {
           name: 'Championship',
           rounds: 5,
@@ -264,13 +386,7 @@ const GameInterface = () => {
 
   const handleMoveSelection = async (choice: MoveType) => {
     try {
-      const moveMapping = {
-        Rock: 1,
-        Paper: 2,
-        Scissors: 3,
-      };
-
-      setPlayerMove(moveMapping[choice]);
+      setPlayerMove(Choice[choice]);
     } catch (error) {
       console.error('Move submission failed:', error);
     } finally {
@@ -344,11 +460,11 @@ const GameInterface = () => {
 
   const getMoveIcon = (move: number) => {
     switch (move) {
-      case 1:
-                return '🗿';
-      case 2:
+      case Choice.Rock:
+        return '🗿';
+      case Choice.Paper:
         return '📄';
-      case 3:
+      case Choice.Scissors:
         return '✂️';
       default:
         return null;
@@ -363,9 +479,9 @@ const GameInterface = () => {
     }
 
     const isWin =
-      (player1Move === 1 && player2Move === 3) ||
-      (player1Move === 2 && player2Move === 1) ||
-      (player1Move === 3 && player2Move === 2);
+      (player1Move === Choice.Rock && player2Move === Choice.Scissors) ||
+      (player1Move === Choice.Paper && player2Move === Choice.Rock) ||
+      (player1Move === Choice.Scissors && player2Move === Choice.Paper);
 
     return isWin ? (
       <CheckCircle2 className='w-4 h-4 text-green-500' />
@@ -390,9 +506,9 @@ const GameInterface = () => {
         return <Equal className='w-4 h-4 text-yellow-500' />;
       }
       if (
-        (myMove === 1 && opponentMove === 3) ||
-        (myMove === 2 && opponentMove === 1) ||
-        (myMove === 3 && opponentMove === 2)
+        (myMove === Choice.Rock && opponentMove === Choice.Scissors) ||
+        (myMove === Choice.Paper && opponentMove === Choice.Rock) ||
+        (myMove === Choice.Scissors && opponentMove === Choice.Paper)
       ) {
         return <CheckCircle2 className='w-4 h-4 text-green-500' />;
       }
@@ -461,7 +577,7 @@ const GameInterface = () => {
     );
   };
 
-  const WaitingForMove = () => (
+  const WaitingForMove = ({ action = 'make' }: { action?: 'make' | 'reveal' }) => (
     <ErrorBoundary fallback={<div>Something went wrong</div>}>
       <div className='flex flex-col items-center justify-center p-6 bg-slate-800 rounded-xl'>
         <div className='animate-pulse mb-4'>
@@ -472,12 +588,73 @@ const GameInterface = () => {
           {`Waiting for ${formatAddress(
             gameDetails?.players.find((p) => p !== userAddress) ||
               '0x0000000000000000000000000000000000000000'
-          )} to make their move`}
+          )} to ${action} their move`}
         </p>
+        {timeLeftToMove === undefined ? null : timeLeftToMove > 0 ? (
+          <p className='flex items-center gap-2 mt-4 text-sm text-slate-400'>
+            <Hourglass className='w-4 h-4' />
+            <span>
+              You can claim the game in {formatDuration(timeLeftToMove)} if they do not{' '}
+              {action}
+            </span>
+          </p>
+        ) : (
+          <button
+            onClick={handleClaimForfeit}
+            disabled={pending}
+            className='w-full mt-4 py-3 rounded-lg font-semibold flex items-center justify-center space-x-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:opacity-90 disabled:opacity-50'
+          >
+            {pending ? (
+              <div className='w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin' />
+            ) : (
+              <>
+                <Trophy className='w-5 h-5' />
+                <span>Claim the game</span>
+              </>
+            )}
+          </button>
+        )}
       </div>
     </ErrorBoundary>
   );
 
+  const RevealMove = () => {
+    const hasStoredMove = !!loadMove(moveKey);
+
+    return (
+      <ErrorBoundary fallback={<div>Something went wrong</div>}>
+        <div className='flex flex-col items-center justify-center p-6 bg-slate-800 rounded-xl'>
+          <div className='mb-4'>
+            <EyeOff className='w-12 h-12 text-purple-500' />
+          </div>
+          <h3 className='text-lg font-semibold mb-2'>Both Moves Committed</h3>
+          {hasStoredMove ? (
+            <>
+              <p className='text-slate-400 text-center mb-4'>
+                Revealing your move to settle the round
+              </p>
+              <button
+                onClick={handleRevealMove}
+                disabled={pending}
+                className='w-full py-3 rounded-lg font-semibold flex items-center justify-center space-x-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white hover:opacity-90 disabled:opacity-50'
+              >
+                {pending ? (
+                  <div className='w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin' />
+                ) : (
+                  <span>Reveal move</span>
+                )}
+              </button>
+            </>
+          ) : (
+            <p className='text-slate-400 text-center'>
+              Your move was committed from another browser. Open the game there to reveal it.
+            </p>
+          )}
+        </div>
+      </ErrorBoundary>
+    );
+  };
+
   // Main game view
   return (
     <ErrorBoundary fallback={<div>Something went wrong</div>}>
@@ -523,7 +700,7 @@ const GameInterface = () => {
               <div className='text-center mb-4'>
                 {(() => {
                   const getScore = (
-                    address: string | undefined,
+                    address: `0x${string}` | undefined,
                     gameDetails: Game
                   ) => {
                     if (!address) return null;
@@ -629,27 +806,35 @@ const GameInterface = () => {
           {gameDetails?.lastPlayerMove === userAddress && (
             <div className='flex items-center justify-center mb-4'>
               <span className='text-sm text-slate-400 mr-2'>My last move:</span>
-              {gameDetails?.choices[1] === 1 && (
+              {gameDetails?.choices[1] === Choice.Rock && (
                 <span className='text-2xl'>🗿</span>
               )}{' '}
-              {gameDetails?.choices[1] === 2 && (
+              {gameDetails?.choices[1] === Choice.Paper && (
                 <span className='text-2xl'>📄</span>
               )}{' '}
-              {gameDetails?.choices[1] === 3 && (
+              {gameDetails?.choices[1] === Choice.Scissors && (
                 <span className='text-2xl'>✂️</span>
               )}{' '}
-              {gameDetails?.choices[0] === 1 && (
+              {gameDetails?.choices[0] === Choice.Rock && (
                 <span className='text-2xl'>🗿</span>
               )}{' '}
-              {gameDetails?.choices[0] === 2 && (
+              {gameDetails?.choices[0] === Choice.Paper && (
                 <span className='text-2xl'>📄</span>
               )}{' '}
-              {gameDetails?.choices[0] === 3 && (
+              {gameDetails?.choices[0] === Choice.Scissors && (
                 <span className='text-2xl'>✂️</span>
               )}{' '}
             </div>
           )}
-          {gameDetails?.lastPlayerMove !== userAddress && !gameEnded ? (
+          {gameDetails?.commitReveal && !gameEnded && myCommitted ? (
+            !opponentCommitted ? (
+              <WaitingForMove />
+            ) : awaitingReveal ? (
+              <RevealMove />
+            ) : (
+              <WaitingForMove action='reveal' />
+            )
+          ) : gameDetails?.lastPlayerMove !== userAddress && !gameEnded ? (
             <>
               <div className='grid grid-cols-3 gap-4 mb-6'>
                 {getMoveButton('Rock', moveColors.Rock, '🗿')}
@@ -673,7 +858,9 @@ const GameInterface = () => {
                   ) : (
                     <>
                       <CheckCircle2 className='w-5 h-5' />
-                      <span>Make move</span>
+                      <span>
+                        {gameDetails?.commitReveal ? 'Commit move' : 'Make move'}
+                      </span>
                     </>
                   )}
                 </button>
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Users,
   Swords,
@@ -13,40 +13,80 @@ import {
   CheckCircle2,
   Equal,
   ExternalLink,
+  ChevronLeft,
+  ChevronRight,
 } from 'lucide-react';
-import { formatEther } from 'viem';
-import { useAccount, useReadContract, useChainId } from 'wagmi';
-import { getContractInfo } from '../constants';
+import { formatEther, parseEther, zeroAddress } from 'viem';
+import { useAccount, useChainId, useChains } from 'wagmi';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
-import { Game, GameHistoryCardProps } from '../types';
+import { Choice, GameHistoryCardProps, GameType } from '../types';
+import { useRpsContract } from '../hooks/useRockPaperScissors';
+import { useHistoryGame, useHistoryGames } from '../hooks/useGameHistory';
+import { DETECTOR_URL, HistoryQuery } from '../services/historyApi';
+import { buildGameTimeline, getGameResult, HistorySort, TimelineMove } from '../utils/history';
+
+const PAGE_SIZE = 10;
+
+// Outcomes of ended games are filtered by result, the others by status
+const RESULT_OPTIONS: { value: string; label: string; query: HistoryQuery }[] = [
+  { value: 'won', label: 'Won', query: { result: 'won' } },
+  { value: 'lost', label: 'Lost', query: { result: 'lost' } },
+  { value: 'tied', label: 'Tied', query: { result: 'tied' } },
+  { value: 'waiting', label: 'Waiting', query: { status: 'waiting' } },
+  { value: 'active', label: 'Active', query: { status: 'active' } },
+  { value: 'cancelled', label: 'Cancelled', query: { status: 'cancelled' } },
+];
+
+const GAME_TYPE_OPTIONS = [
+  { value: GameType.OneRound, label: 'Quick Match' },
+  { value: GameType.BestOfThree, label: 'Best of Three' },
+  { value: GameType.BestOfFive, label: 'Championship' },
+];
+
+const SORT_OPTIONS: { value: HistorySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'stake-desc', label: 'Highest stake' },
+  { value: 'stake-asc', label: 'Lowest stake' },
+];
+
+// Start of an address, as matched by the `opponent` filter
+const ADDRESS_PREFIX = /^0x[0-9a-fA-F]{0,40}$/;
+
+// Empty or malformed amounts do not filter
+const parseStake = (value: string) => {
+  try {
+    return value ? parseEther(value) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The block explorer of the connected network, as configured in wagmi.ts
+ */
+const useExplorerUrl = () => {
+  const chainId = useChainId();
+  const chains = useChains();
+
+  return chains.find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+};
 
 
 
 const GameHistory = () => {
   const account = useAccount()
   const router = useRouter();
-  const chainId = useChainId();
-  const { abi, contractAddress, networkName } = getContractInfo(chainId);
-
-    const gamesIdResult = useReadContract({
-      abi,
-      address: contractAddress as `0x${string}`,
-      functionName: 'getUserGames',
-      args: [account.address],
-    });
-
-    const contractGamesResult = useReadContract({
-      abi,
-      address: contractAddress as `0x${string}`,
-      functionName: 'getGamesInfo',
-      args: [gamesIdResult.data],
-    });
-
-    const gamesResult = contractGamesResult.data as Game[]
+  const { networkName } = useRpsContract();
 
-    // console.log({ gamesResult });
-    
+    const [result, setResult] = useState<string>();
+    const [gameType, setGameType] = useState<GameType>();
+    const [minStake, setMinStake] = useState('');
+    const [maxStake, setMaxStake] = useState('');
+    const [opponent, setOpponent] = useState('');
+    const [sort, setSort] = useState<HistorySort>('newest');
+    const [page, setPage] = useState(1);
 
     useEffect(() => {
       if (!account.address) {
@@ -54,22 +94,189 @@ const GameHistory = () => {
       } 
     }, [account.address, router]);
 
+    // Back to the first page whenever the filters change
+    useEffect(() => {
+      setPage(1);
+    }, [result, gameType, minStake, maxStake, opponent, sort]);
+
+    const opponentPrefix = opponent.trim();
+    const isOpponentValid = !opponentPrefix || ADDRESS_PREFIX.test(opponentPrefix);
+    const hasFilters = !!(result || gameType !== undefined || minStake || maxStake || opponentPrefix);
+
+    const query = useMemo(
+      () =>
+        account.address && isOpponentValid
+          ? {
+              ...RESULT_OPTIONS.find((option) => option.value === result)?.query,
+              player: account.address,
+              opponent: opponentPrefix || undefined,
+              gameType,
+              minStake: parseStake(minStake),
+              maxStake: parseStake(maxStake),
+              sort,
+              limit: PAGE_SIZE,
+              offset: (page - 1) * PAGE_SIZE,
+            }
+          : undefined,
+      [account.address, isOpponentValid, result, opponentPrefix, gameType, minStake, maxStake, sort, page]
+    );
+    const {
+      page: gamesPage,
+      isLoading,
+      error,
+    } = useHistoryGames(query);
+
+    const games = gamesPage?.games ?? [];
+    const pageCount = Math.max(1, Math.ceil((gamesPage?.total ?? 0) / PAGE_SIZE));
+    const hasGames = !!gamesPage && (gamesPage.total > 0 || hasFilters);
+
 
   return (
     <div className='space-y-4'>
       <div className='text-sm bg-gray-800 p-3 rounded-lg border border-gray-700 flex items-center justify-between mb-4'>
         <span>Active Network: <span className='text-blue-400'>{networkName}</span></span>
       </div>
-      <p className='text-white'>Game History</p>
-      {gamesResult &&
-        gamesResult.map((game) => (
-          <GameHistoryCard
-            key={game.gameId.toString()}
-            game={game}
-            userAddress={account.address}
+      <div className='flex items-center justify-between'>
+        <p className='text-white'>Game History</p>
+        {account.address && (
+          <Link
+            href={`/player/${account.address}`}
+            className='text-sm text-blue-400 hover:text-blue-300'
+          >
+            My statistics
+          </Link>
+        )}
+      </div>
+
+      {!DETECTOR_URL ? (
+        <div className='text-center py-8 bg-gray-800 rounded-lg text-gray-400'>
+          Game history is read from the detector: set NEXT_PUBLIC_DETECTOR_URL to its URL
+        </div>
+      ) : (
+        error && (
+          <div className='text-center py-4 bg-gray-800 rounded-lg text-red-400'>
+            Failed to load the game history: {error.message}
+          </div>
+        )
+      )}
+
+      {/* Filters */}
+      {hasGames && (
+        <div className='space-y-2'>
+          <div className='grid grid-cols-2 gap-2'>
+            <select
+              value={result ?? ''}
+              onChange={(e) => setResult(e.target.value || undefined)}
+              className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+            >
+              <option value=''>All results</option>
+              {RESULT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={gameType ?? ''}
+              onChange={(e) =>
+                setGameType(e.target.value === '' ? undefined : (Number(e.target.value) as GameType))
+              }
+              className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+            >
+              <option value=''>All types</option>
+              {GAME_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className='grid grid-cols-3 gap-2'>
+            <input
+              type='number'
+              step='0.001'
+              min='0'
+              value={minStake}
+              onChange={(e) => setMinStake(e.target.value)}
+              placeholder='Min ETH'
+              className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+            />
+            <input
+              type='number'
+              step='0.001'
+              min='0'
+              value={maxStake}
+              onChange={(e) => setMaxStake(e.target.value)}
+              placeholder='Max ETH'
+              className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+            />
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as HistorySort)}
+              className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            type='text'
+            value={opponent}
+            onChange={(e) => setOpponent(e.target.value)}
+            placeholder='Opponent address (0x...)'
+            className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
           />
-        ))}
-      {gamesResult && gamesResult.length < 1 && (
+          {!isOpponentValid && (
+            <p className='text-xs text-red-400'>Enter the start of an address, e.g. 0x3c44</p>
+          )}
+        </div>
+      )}
+
+      {isLoading && !gamesPage && (
+        <div className='text-center py-8 bg-gray-800 rounded-lg text-gray-400'>Loading games...</div>
+      )}
+
+      {games.map((game) => (
+        <GameHistoryCard
+          key={game.gameId}
+          game={game}
+          userAddress={account.address}
+        />
+      ))}
+      {hasGames && games.length === 0 && (
+        <div className='text-center py-8 bg-gray-800 rounded-lg text-gray-400'>
+          No games match these filters
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className='flex items-center justify-between text-sm text-gray-400'>
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 1}
+            className='flex items-center gap-1 px-3 py-1.5 bg-gray-800 rounded-lg hover:text-white disabled:opacity-50 disabled:cursor-not-allowed'
+          >
+            <ChevronLeft className='w-4 h-4' />
+            <span>Previous</span>
+          </button>
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount}
+            className='flex items-center gap-1 px-3 py-1.5 bg-gray-800 rounded-lg hover:text-white disabled:opacity-50 disabled:cursor-not-allowed'
+          >
+            <span>Next</span>
+            <ChevronRight className='w-4 h-4' />
+          </button>
+        </div>
+      )}
+      {gamesPage && !hasGames && (
         <div className='flex flex-col items-center justify-center p-8 text-center'>
           <div className='mb-4 rounded-full bg-gray-800/50 p-4'>
             <GamepadIcon className='h-8 w-8 text-gray-400' />
@@ -98,28 +305,37 @@ const GameHistory = () => {
 const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const router = useRouter();
+  const explorerUrl = useExplorerUrl();
+  const {
+    game: details,
+    isLoading: isLoadingTimeline,
+    error: timelineError,
+  } = useHistoryGame(game.gameId, isExpanded);
+
+  // The history lowercases addresses
+  const isMe = (address: string) => address.toLowerCase() === userAddress?.toLowerCase();
 
   const formatAddress = (address: string) => {
-    if (address === userAddress) return 'Me';
-    if (address === '0x0000000000000000000000000000000000000000') return null;
+    if (isMe(address)) return 'Me';
+    if (address === zeroAddress) return null;
     return `${address.slice(0, 4)}...${address.slice(-3)}`;
   };
 
   const getGameTypeInfo = (type: number) => {
     switch (Number(type)) {
-      case 0:
+      case GameType.OneRound:
         return {
           name: 'Quick Match',
           rounds: 1,
           icon: <Gamepad2 className='w-5 h-5 text-emerald-500' />,
         };
-      case 1:
+      case GameType.BestOfThree:
         return {
           name: 'Best of Three',
           rounds: 3,
           icon: <Swords className='w-5 h-5 text-blue-500' />,
         };
-      case 2:
+      case GameType.BestOfFive:
         return {
           name: 'Championship',
           rounds: 5,
@@ -134,53 +350,27 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
     }
   };
   const getGameStatus = () => {
-
-    if (game.isActive) {
-      return { label: 'Active', color: 'bg-green-900/50 text-green-400' };
-    }
-
-
-    const playerIndex = userAddress && game.players.indexOf(userAddress);
-
-
-    if (playerIndex === -1) {
-      return { label: 'Not a Player', color: 'bg-gray-900/50 text-gray-400' };
-    }
-
- 
-    if (playerIndex === undefined || playerIndex < 0) {
-      return { label: 'Invalid Player', color: 'bg-red-900/50 text-red-400' };
-    }
-
-  
-    const myScore = game.scores[playerIndex];
-    const opponentScore = game.scores[1 - playerIndex]; 
-
- 
-    if (myScore === undefined || opponentScore === undefined) {
-      return { label: 'Not Scored', color: 'bg-yellow-900/50 text-yellow-400' };
-    }
-
-
-    if (myScore === opponentScore) {
-      return { label: 'Tie', color: 'bg-yellow-900/50 text-yellow-400' };
-    }
-
-
-    if (myScore > opponentScore) {
-      return { label: 'Won', color: 'bg-green-900/50 text-green-400' };
-    } else {
-      return { label: 'Lost', color: 'bg-red-900/50 text-red-400' };
+    switch (getGameResult(game, userAddress ?? '')) {
+      case 'active':
+        return { label: 'Active', color: 'bg-green-900/50 text-green-400' };
+      case 'cancelled':
+        return { label: 'Cancelled', color: 'bg-gray-900/50 text-gray-400' };
+      case 'tied':
+        return { label: 'Tie', color: 'bg-yellow-900/50 text-yellow-400' };
+      case 'won':
+        return { label: 'Won', color: 'bg-green-900/50 text-green-400' };
+      case 'lost':
+        return { label: 'Lost', color: 'bg-red-900/50 text-red-400' };
     }
   };
 
   const getMoveIcon = (move: number) => {
     switch (Number(move)) {
-      case 1:
+      case Choice.Rock:
         return '🗿';
-      case 2:
+      case Choice.Paper:
         return '📄';
-      case 3:
+      case Choice.Scissors:
         return '✂️';
       default:
         return '❓';
@@ -192,9 +382,9 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
       return <Equal className='w-4 h-4 text-yellow-500' />;
     }
     if (
-      (myMove === 1 && opponentMove === 3) ||
-      (myMove === 2 && opponentMove === 1) ||
-      (myMove === 3 && opponentMove === 2)
+      (myMove === Choice.Rock && opponentMove === Choice.Scissors) ||
+      (myMove === Choice.Paper && opponentMove === Choice.Rock) ||
+      (myMove === Choice.Scissors && opponentMove === Choice.Paper)
     ) {
       return <CheckCircle2 className='w-4 h-4 text-green-500' />;
     }
@@ -203,12 +393,37 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
 
   const gameTypeInfo = getGameTypeInfo(game.gameType);
   const gameStatus = getGameStatus();
-  const formattedStake = formatEther(game.stake);
-  const playerIndex =userAddress && game.players.indexOf(userAddress);
-  const isPlayer1 = playerIndex === 0;
-  const myMoves = isPlayer1 ? game.player1Moves : game.player2Moves;
-  const opponentMoves = isPlayer1 ? game.player2Moves : game.player1Moves;
-  const completedRounds = Math.min(myMoves.length, opponentMoves.length);
+  const formattedStake = formatEther(BigInt(game.stake));
+  const players = [game.player1, game.player2 ?? zeroAddress];
+  const isPlayer1 = isMe(game.player1);
+  const opponentAddress = players[isPlayer1 ? 1 : 0];
+  const isActive = game.status === 'waiting' || game.status === 'active';
+  const timeline = details && buildGameTimeline(details.events);
+  const rounds = timeline?.rounds ?? [];
+
+  // The choice of a move stays hidden until its round is played
+  const renderMove = (move: TimelineMove, isPending = false) => (
+    <div
+      key={`${move.transactionHash}-${move.player}`}
+      className='flex items-center justify-between text-xs text-slate-400'
+    >
+      <span>
+        {formatAddress(move.player)} {isPending ? 'moved' : `played ${getMoveIcon(move.choice)}`}{' '}
+        • {new Date(move.emittedAt).toLocaleString()}
+      </span>
+      {explorerUrl && (
+        <a
+          href={`${explorerUrl}/tx/${move.transactionHash}`}
+          target='_blank'
+          rel='noopener noreferrer'
+          className='flex items-center gap-1 text-blue-400 hover:text-blue-300'
+        >
+          <span>Tx</span>
+          <ExternalLink className='w-3 h-3' />
+        </a>
+      )}
+    </div>
+  );
 
   return (
     <div className='w-full overflow-hidden rounded-lg border border-slate-700 bg-slate-800/50 shadow-lg hover:border-slate-600 transition-all duration-200'>
@@ -224,7 +439,7 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
             <div>
               <div className='flex items-center space-x-2'>
                 <h3 className='text-lg font-semibold text-white'>
-                  Game #{game.gameId.toString()}
+                  Game #{game.gameId}
                 </h3>
                 <span
                   className={`rounded-full px-2 py-0.5 text-xs ${gameStatus.color}`}
@@ -238,7 +453,7 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
             </div>
           </div>
           <div className='flex items-center gap-2'>
-            {game.isActive && (
+            {isActive && (
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -268,11 +483,11 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
               <span className='text-sm font-medium'>Players</span>
             </div>
 
-            {game.players.map((player, index) => (
+            {players.map((player, index) => (
               <div
-                key={player}
+                key={index}
                 className={`p-4 rounded-xl ${
-                  player === userAddress
+                  isMe(player)
                     ? 'bg-indigo-500/10 border border-indigo-500/20'
                     : 'bg-slate-800'
                 }`}
@@ -281,14 +496,14 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
                   <div className='flex items-center gap-3'>
                     <div
                       className={`p-2 rounded-lg ${
-                        player === userAddress
+                        isMe(player)
                           ? 'bg-indigo-500/20'
                           : 'bg-slate-700'
                       }`}
                     >
                       <Users
                         className={`w-5 h-5 ${
-                          player === userAddress
+                          isMe(player)
                             ? 'text-indigo-500'
                             : 'text-slate-400'
                         }`}
@@ -298,7 +513,13 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
                       <div className='text-sm text-slate-400'>
                         Player {index + 1}
                       </div>
-                      <div className='font-medium'>{formatAddress(player)}</div>
+                      <div className='font-medium'>
+                        {formatAddress(player) && (
+                          <Link href={`/player/${player}`} className='hover:text-blue-400'>
+                            {formatAddress(player)}
+                          </Link>
+                        )}
+                      </div>
                     </div>
                   </div>
                   <div className='text-2xl font-bold'>{game.scores[index]}</div>
@@ -307,53 +528,71 @@ const GameHistoryCard:React.FC<GameHistoryCardProps> = ({ game, userAddress }) =
             ))}
           </div>
 
-          {/* Move History */}
+          {/* Timeline */}
           <div className='mb-4 text-white'>
             <div className='flex items-center justify-between mb-2'>
-              <h3 className='text-sm font-semibold'>Move History</h3>
+              <h3 className='text-sm font-semibold'>Timeline</h3>
               <span className='text-xs text-slate-400'>
-                {completedRounds} round{completedRounds > 1 ? 's' : ''}
+                {rounds.length} round{rounds.length === 1 ? '' : 's'}
               </span>
             </div>
             <div className='space-y-2'>
-              {completedRounds === 0 ? (
+              {timelineError ? (
+                <div className='p-3 bg-slate-800 rounded-lg text-center text-red-400 text-sm'>
+                  Failed to load the timeline
+                </div>
+              ) : !timeline ? (
+                <div className='p-3 bg-slate-800 rounded-lg text-center text-slate-400 text-sm'>
+                  {isLoadingTimeline ? 'Loading timeline...' : 'No completed rounds yet'}
+                </div>
+              ) : rounds.length === 0 && timeline.pendingMoves.length === 0 ? (
                 <div className='p-3 bg-slate-800 rounded-lg text-center text-slate-400 text-sm'>
                   No completed rounds yet
                 </div>
               ) : (
-                Array.from({ length: completedRounds }).map((_, index) => {
-                  const myMove = myMoves[index];
-                  const opponentMove = opponentMoves[index];
+                rounds.map((round) => {
+                  const myMove = isPlayer1 ? round.player1Choice : round.player2Choice;
+                  const opponentMove = isPlayer1 ? round.player2Choice : round.player1Choice;
 
                   return (
-                    <div
-                      key={index}
-                      className='flex items-center justify-between p-2 bg-slate-800 rounded-lg text-white'
-                    >
-                      <div className='flex items-center gap-1'>
-                        <span className='text-xs text-slate-400 w-4'>
-                          {index + 1}
-                        </span>
-                        <span className='text-xs mr-1'>Me</span>
-                        <div className='p-1.5 bg-slate-700 rounded'>
-                          {getMoveIcon(myMove)}
+                    <div key={round.roundNumber} className='p-2 bg-slate-800 rounded-lg text-white'>
+                      <div className='flex items-center justify-between'>
+                        <div className='flex items-center gap-1'>
+                          <span className='text-xs text-slate-400 w-4'>
+                            {round.roundNumber}
+                          </span>
+                          <span className='text-xs mr-1'>Me</span>
+                          <div className='p-1.5 bg-slate-700 rounded'>
+                            {getMoveIcon(myMove)}
+                          </div>
                         </div>
-                      </div>
-                      <div className='flex items-center gap-1'>
-                        {getResultIcon(myMove, opponentMove)}
-                      </div>
-                      <div className='flex items-center gap-1'>
-                        <div className='p-1.5 bg-slate-700 rounded'>
-                          {getMoveIcon(opponentMove)}
+                        <div className='flex items-center gap-1'>
+                          {getResultIcon(myMove, opponentMove)}
                         </div>
-                        <span className='text-xs'>
-                          {playerIndex && formatAddress(game.players[1 - playerIndex])}
-                        </span>
+                        <div className='flex items-center gap-1'>
+                          <div className='p-1.5 bg-slate-700 rounded'>
+                            {getMoveIcon(opponentMove)}
+                          </div>
+                          <span className='text-xs'>{formatAddress(opponentAddress)}</span>
+                        </div>
+                      </div>
+                      <div className='mt-2 space-y-1'>
+                        {round.moves.map((move) => renderMove(move))}
                       </div>
                     </div>
                   );
                 })
               )}
+              {timeline && timeline.pendingMoves.length > 0 && (
+                <div className='p-2 bg-slate-800 rounded-lg text-white'>
+                  <div className='text-xs text-slate-400 mb-1'>
+                    Round {rounds.length + 1} in progress
+                  </div>
+                  <div className='space-y-1'>
+                    {timeline.pendingMoves.map((move) => renderMove(move, true))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
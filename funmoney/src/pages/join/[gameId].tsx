@@ -0,0 +1,46 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import JoinGame from '../../components/JoinGame';
+import { isInviteCode } from '../../utils/invite';
+
+/**
+ * Join link of a game: `/join/[gameId]`, followed by `#<invite code>` for private games
+ */
+const JoinLink = () => {
+  const router = useRouter();
+  const id = router.query.gameId?.toString();
+  const gameId = id && /^\d+$/.test(id) ? BigInt(id) : undefined;
+
+  const [inviteCode, setInviteCode] = useState<`0x${string}`>();
+  const [isCodeInvalid, setIsCodeInvalid] = useState(false);
+
+  // The fragment is only readable in the browser
+  useEffect(() => {
+    const code = window.location.hash.slice(1);
+    setInviteCode(isInviteCode(code) ? code : undefined);
+    setIsCodeInvalid(!!code && !isInviteCode(code));
+  }, [router.asPath]);
+
+  if (gameId === undefined) {
+    return (
+      <div className='text-center py-8 bg-gray-800 rounded-lg text-gray-400'>
+        {router.isReady ? 'Invalid game ID' : 'Loading...'}
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-4'>
+      {isCodeInvalid && (
+        <div className='text-center py-4 bg-gray-800 rounded-lg text-red-400'>
+          This invite link is broken, ask the game creator for a new copy
+        </div>
+      )}
+      <JoinGame key={gameId.toString()} gameId={gameId} inviteCode={inviteCode} />
+    </div>
+  );
+};
+
+export default JoinLink;
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { formatEther } from 'viem';
+import { useAccount } from 'wagmi';
+import { Crown, Medal, RefreshCcw, Trophy } from 'lucide-react';
+import { leaderboardConfig } from '../constants';
+import { GameType } from '../types';
+import { useRpsContract } from '../hooks/useRockPaperScissors';
+import { useGameRecords } from '../hooks/useGameRecords';
+import { useSelfPlayGames } from '../hooks/useGameHistory';
+import {
+  computeLeaderboard,
+  LeaderboardEntry,
+  LeaderboardSort,
+  rankLeaderboard,
+} from '../utils/stats';
+
+const LEADERBOARD_SIZE = 20;
+
+const SORT_OPTIONS: { value: LeaderboardSort; label: string }[] = [
+  { value: 'wins', label: 'Wins' },
+  { value: 'net', label: 'Net winnings' },
+  { value: 'win-rate', label: 'Win rate' },
+];
+
+const GAME_TYPE_OPTIONS = [
+  { value: GameType.OneRound, label: 'Quick Match' },
+  { value: GameType.BestOfThree, label: 'Best of Three' },
+  { value: GameType.BestOfFive, label: 'Championship' },
+];
+
+// The season running now, all time when none is
+const currentSeasonId = () => {
+  const now = new Date();
+
+  return leaderboardConfig.seasons.find(
+    (season) => season.startsAt <= now && (!season.endsAt || now < season.endsAt)
+  )?.id;
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Signed ETH amount, e.g. `+0.0199` or `-0.01`
+const formatNet = (net: bigint) =>
+  `${net > BigInt(0) ? '+' : net < BigInt(0) ? '-' : ''}${formatEther(net < BigInt(0) ? -net : net)}`;
+
+const getRankIcon = (rank: number) => {
+  switch (rank) {
+    case 1:
+      return <Crown className='w-4 h-4 text-yellow-400' />;
+    case 2:
+      return <Medal className='w-4 h-4 text-gray-300' />;
+    case 3:
+      return <Medal className='w-4 h-4 text-amber-600' />;
+    default:
+      return <span className='text-xs text-slate-400'>{rank}</span>;
+  }
+};
+
+const Leaderboard = () => {
+  const account = useAccount();
+  const { networkName } = useRpsContract();
+  const [seasonId, setSeasonId] = useState(currentSeasonId);
+  const [gameType, setGameType] = useState<GameType>();
+  const [sort, setSort] = useState<LeaderboardSort>('wins');
+
+  const query = useMemo(() => ({ status: 'ended' as const, gameType }), [gameType]);
+  const { records, isLoading, error: recordsError, refresh: refreshRecords } = useGameRecords(query);
+  const {
+    gameIds: selfPlayGames,
+    error: selfPlayError,
+    refresh: refreshSelfPlayGames,
+  } = useSelfPlayGames();
+  // Self-play games would be ranked without the verdicts, so failing to load them fails the page
+  const error = recordsError ?? selfPlayError;
+
+  const refresh = () => {
+    refreshRecords();
+    refreshSelfPlayGames();
+  };
+
+  const season = leaderboardConfig.seasons.find(({ id }) => id === seasonId);
+  // Nothing is ranked before self-play games are known
+  const entries: LeaderboardEntry[] = selfPlayGames
+    ? rankLeaderboard(
+        computeLeaderboard(records, {
+          gameType,
+          from: season?.startsAt,
+          to: season?.endsAt,
+          excludedGames: selfPlayGames,
+        }),
+        sort,
+        leaderboardConfig.minGamesForWinRate
+      ).slice(0, LEADERBOARD_SIZE)
+    : [];
+
+  return (
+    <div className='space-y-4 text-white'>
+      <div className='text-sm bg-gray-800 p-3 rounded-lg border border-gray-700 flex items-center justify-between'>
+        <span>Active Network: <span className='text-blue-400'>{networkName}</span></span>
+        <button onClick={refresh} title='Reload leaderboard'>
+          <RefreshCcw className={`w-4 h-4 text-gray-400 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className='flex items-center gap-2'>
+        <Trophy className='w-5 h-5 text-yellow-500' />
+        <h2 className='text-xl font-semibold text-gray-200'>Leaderboard</h2>
+      </div>
+
+      {/* Filters */}
+      <div className='grid grid-cols-3 gap-2'>
+        <select
+          value={seasonId ?? ''}
+          onChange={(e) => setSeasonId(e.target.value || undefined)}
+          className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+        >
+          <option value=''>All time</option>
+          {leaderboardConfig.seasons.map(({ id, name }) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={gameType ?? ''}
+          onChange={(e) =>
+            setGameType(e.target.value === '' ? undefined : (Number(e.target.value) as GameType))
+          }
+          className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+        >
+          <option value=''>All types</option>
+          {GAME_TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as LeaderboardSort)}
+          className='w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 transition-colors text-white text-sm'
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {season && (
+        <p className='text-xs text-slate-400'>
+          {season.startsAt.toLocaleDateString()} -{' '}
+          {season.endsAt ? season.endsAt.toLocaleDateString() : 'ongoing'}
+        </p>
+      )}
+      {sort === 'win-rate' && (
+        <p className='text-xs text-slate-400'>
+          Players with at least {leaderboardConfig.minGamesForWinRate} games
+        </p>
+      )}
+
+      {/* Ranking */}
+      {error ? (
+        <div className='text-center py-8 bg-gray-800 rounded-lg text-red-400'>
+          Failed to load the leaderboard: {error.message}
+        </div>
+      ) : entries.length === 0 ? (
+        <div className='text-center py-8 bg-gray-800 rounded-lg text-gray-400'>
+          {isLoading || !selfPlayGames ? 'Loading leaderboard...' : 'No finished games yet'}
+        </div>
+      ) : (
+        <div className='space-y-2'>
+          {entries.map((entry, index) => {
+            const isMe = account.address?.toLowerCase() === entry.player.toLowerCase();
+
+            return (
+              <div
+                key={entry.player}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  isMe ? 'bg-indigo-500/10 border border-indigo-500/20' : 'bg-slate-800'
+                }`}
+              >
+                <div className='flex items-center gap-3'>
+                  <div className='flex w-6 justify-center'>{getRankIcon(index + 1)}</div>
+                  <Link href={`/player/${entry.player}`} className='hover:text-blue-400'>
+                    {isMe ? 'You' : formatAddress(entry.player)}
+                  </Link>
+                </div>
+                <div className='text-right text-sm'>
+                  <div>
+                    {entry.won}W / {entry.lost}L / {entry.tied}T
+                    <span className='text-slate-400'>
+                      {' '}
+                      • {Math.round((entry.won / entry.played) * 100)}%
+                    </span>
+                  </div>
+                  <div className={entry.net < BigInt(0) ? 'text-red-400' : 'text-green-400'}>
+                    {formatNet(entry.net)} ETH
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <p className='text-xs text-slate-500'>
+        Games the detector flagged as self-play are not counted.
+      </p>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { formatEther, isAddress } from 'viem';
+import { useAccount } from 'wagmi';
+import {
+  Coins,
+  ExternalLink,
+  Gamepad2,
+  RefreshCcw,
+  Swords,
+  Trophy,
+  User,
+  Users,
+} from 'lucide-react';
+import { Choice, GameType } from '../../types';
+import { useRpsContract, useUserGames } from '../../hooks/useRockPaperScissors';
+import { useGameRecords } from '../../hooks/useGameRecords';
+import { computePlayerStats, RecordTally } from '../../utils/stats';
+
+const GAME_TYPES = [
+  { id: GameType.OneRound, name: 'Quick Match', icon: <Gamepad2 className='h-4 w-4 text-emerald-500' /> },
+  { id: GameType.BestOfThree, name: 'Best of Three', icon: <Swords className='h-4 w-4 text-blue-500' /> },
+  { id: GameType.BestOfFive, name: 'Championship', icon: <Trophy className='h-4 w-4 text-yellow-500' /> },
+];
+
+const MOVES = [
+  { choice: Choice.Rock, name: 'Rock', icon: '🗿' },
+  { choice: Choice.Paper, name: 'Paper', icon: '📄' },
+  { choice: Choice.Scissors, name: 'Scissors', icon: '✂️' },
+] as const;
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Signed ETH amount, e.g. `+0.0199` or `-0.01`
+const formatNet = (net: bigint) =>
+  `${net > BigInt(0) ? '+' : net < BigInt(0) ? '-' : ''}${formatEther(net < BigInt(0) ? -net : net)}`;
+
+const netColor = (net: bigint) =>
+  net > BigInt(0) ? 'text-green-400' : net < BigInt(0) ? 'text-red-400' : 'text-gray-300';
+
+const winRate = ({ played, won }: RecordTally) =>
+  played ? `${Math.round((won / played) * 100)}%` : '-';
+
+const PlayerProfile = () => {
+  const router = useRouter();
+  const account = useAccount();
+  const { networkName, explorerUrl } = useRpsContract();
+  const address = router.query.address?.toString();
+  const player = address && isAddress(address) ? address : undefined;
+
+  const query = useMemo(() => player && { player }, [player]);
+  const { records, isLoading, error, refresh } = useGameRecords(query);
+  const { games } = useUserGames(player);
+
+  if (!player) {
+    return (
+      <div className='text-center py-8 bg-gray-800 rounded-lg text-gray-400'>
+        {router.isReady ? 'Invalid player address' : 'Loading...'}
+      </div>
+    );
+  }
+
+  const stats = computePlayerStats(records, games ?? [], player);
+  const isMe = account.address?.toLowerCase() === player.toLowerCase();
+  const totalMoves = MOVES.reduce((total, { choice }) => total + stats.moves[choice], 0);
+  const favouriteMove = totalMoves
+    ? MOVES.reduce((favourite, move) =>
+        stats.moves[move.choice] > stats.moves[favourite.choice] ? move : favourite
+      )
+    : undefined;
+
+  return (
+    <div className='space-y-4 text-white'>
+      <div className='text-sm bg-gray-800 p-3 rounded-lg border border-gray-700 flex items-center justify-between'>
+        <span>Active Network: <span className='text-blue-400'>{networkName}</span></span>
+        <button onClick={refresh} title='Reload statistics'>
+          <RefreshCcw className={`w-4 h-4 text-gray-400 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* Player */}
+      <div className='flex items-center justify-between p-4 rounded-lg border border-slate-700 bg-slate-800/50'>
+        <div className='flex items-center gap-3'>
+          <div className='p-2 rounded-lg bg-indigo-500/20'>
+            <User className='w-5 h-5 text-indigo-500' />
+          </div>
+          <div>
+            <div className='font-semibold'>
+              {formatAddress(player)}{' '}
+              {isMe && <span className='text-xs text-indigo-400'>(You)</span>}
+            </div>
+            <div className='text-sm text-slate-400'>
+              {stats.played} game{stats.played === 1 ? '' : 's'} played • {stats.active} in
+              progress
+            </div>
+          </div>
+        </div>
+        <a
+          href={`${explorerUrl}/address/${player}`}
+          target='_blank'
+          rel='noopener noreferrer'
+          className='text-blue-400 hover:text-blue-300'
+          title='View on explorer'
+        >
+          <ExternalLink className='w-4 h-4' />
+        </a>
+      </div>
+
+      {error && (
+        <div className='text-center py-4 bg-gray-800 rounded-lg text-red-400'>
+          Failed to load player statistics
+        </div>
+      )}
+
+      {/* Record */}
+      <div className='grid grid-cols-4 gap-2 text-center'>
+        {[
+          { label: 'Won', value: stats.won, color: 'text-green-400' },
+          { label: 'Lost', value: stats.lost, color: 'text-red-400' },
+          { label: 'Tied', value: stats.tied, color: 'text-yellow-400' },
+          { label: 'Win rate', value: winRate(stats), color: 'text-white' },
+        ].map(({ label, value, color }) => (
+          <div key={label} className='p-3 bg-slate-800 rounded-lg'>
+            <div className={`text-xl font-bold ${color}`}>{value}</div>
+            <div className='text-xs text-slate-400'>{label}</div>
+          </div>
+        ))}
+      </div>
+      <div className='flex items-center justify-between p-4 bg-slate-800 rounded-lg'>
+        <div className='flex items-center gap-2 text-slate-400'>
+          <Coins className='w-4 h-4 text-yellow-500' />
+          <span className='text-sm'>Net P&L</span>
+        </div>
+        <div className='text-right'>
+          <div className={`font-bold ${netColor(stats.net)}`}>{formatNet(stats.net)} ETH</div>
+          <div className='text-xs text-slate-400'>
+            after {formatEther(stats.feesPaid)} ETH of creator fees
+          </div>
+        </div>
+      </div>
+
+      {/* Moves */}
+      <div className='p-4 bg-slate-800 rounded-lg space-y-2'>
+        <div className='flex items-center justify-between'>
+          <h3 className='text-sm font-semibold'>Move Distribution</h3>
+          {favouriteMove && (
+            <span className='text-xs text-slate-400'>
+              Favourite: {favouriteMove.icon} {favouriteMove.name}
+            </span>
+          )}
+        </div>
+        {totalMoves === 0 ? (
+          <div className='text-center text-sm text-slate-400'>No moves yet</div>
+        ) : (
+          MOVES.map(({ choice, name, icon }) => {
+            const share = Math.round((stats.moves[choice] / totalMoves) * 100);
+
+            return (
+              <div key={choice} className='flex items-center gap-2 text-sm'>
+                <span className='w-24'>
+                  {icon} {name}
+                </span>
+                <div className='flex-1 h-2 bg-slate-700 rounded-full overflow-hidden'>
+                  <div className='h-full bg-indigo-500' style={{ width: `${share}%` }} />
+                </div>
+                <span className='w-16 text-right text-slate-400'>
+                  {stats.moves[choice]} ({share}%)
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Game types */}
+      <div className='p-4 bg-slate-800 rounded-lg space-y-2'>
+        <h3 className='text-sm font-semibold'>By Game Type</h3>
+        {GAME_TYPES.map(({ id, name, icon }) => {
+          const tally = stats.byGameType[id];
+
+          return (
+            <div key={id} className='flex items-center justify-between text-sm'>
+              <span className='flex items-center gap-2'>
+                {icon} {name}
+              </span>
+              <span className='text-slate-400'>
+                {tally.won}W / {tally.lost}L / {tally.tied}T •{' '}
+                <span className={netColor(tally.net)}>{formatNet(tally.net)} ETH</span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Head to head */}
+      <div className='p-4 bg-slate-800 rounded-lg space-y-2'>
+        <h3 className='text-sm font-semibold'>Head to Head</h3>
+        {stats.headToHead.length === 0 ? (
+          <div className='text-center text-sm text-slate-400'>No finished games yet</div>
+        ) : (
+          stats.headToHead.map((record) => (
+            <div key={record.opponent} className='flex items-center justify-between text-sm'>
+              <Link
+                href={`/player/${record.opponent}`}
+                className='flex items-center gap-2 text-blue-400 hover:text-blue-300'
+              >
+                <Users className='w-4 h-4' />
+                {formatAddress(record.opponent)}
+              </Link>
+              <span className='text-slate-400'>
+                {record.won}W / {record.lost}L / {record.tied}T •{' '}
+                <span className={netColor(record.net)}>{formatNet(record.net)} ETH</span>
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerProfile;
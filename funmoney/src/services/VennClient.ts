@@ -1,4 +1,5 @@
 import { VennClient as VennSDK, errors } from '@vennbuild/venn-dapp-sdk';
+import { getDeployment } from '../constants';
 
 // Transaction interface defining the structure of a transaction to be approved
 export interface Transaction {
@@ -12,34 +13,53 @@ export interface Transaction {
 // Singleton VennClient for the application
 class VennClient {
   private static instance: VennClient;
-  private vennClient: VennSDK | null = null;
+  // One SDK client per chain id, null when the chain has no Venn configuration
+  private vennClients = new Map<number, VennSDK | null>();
 
   private constructor() {
     // Private constructor to prevent direct construction calls with 'new'
-    this.initialize();
   }
 
-  private initialize() {
-    const vennURL = process.env.NEXT_PUBLIC_VENN_NODE_URL || 'https://ethereum-holesky.publicnode.com';
-    const vennPolicyAddress = process.env.NEXT_PUBLIC_VENN_POLICY_ADDRESS || '0x549b94dC5C2c943397bf3097963a6Da1a94fda2C';
+  /**
+   * Creates the SDK client of a chain from its deployment registry entry.
+   * NEXT_PUBLIC_VENN_NODE_URL and NEXT_PUBLIC_VENN_POLICY_ADDRESS override the registry, to point
+   * the app at another signer without regenerating it.
+   */
+  private initialize(chainId?: number): VennSDK | null {
+    const deployment = getDeployment(chainId);
+    const vennURL = process.env.NEXT_PUBLIC_VENN_NODE_URL || deployment?.vennNodeUrl;
+    const vennPolicyAddress =
+      process.env.NEXT_PUBLIC_VENN_POLICY_ADDRESS || deployment?.vennPolicyAddress;
 
     if (!vennURL || !vennPolicyAddress) {
-      console.warn('Venn configuration missing. Transactions will not be protected.');
-      return;
+      console.warn(
+        `Venn configuration missing for chain ${chainId}. Transactions will not be protected.`
+      );
+      return null;
     }
 
     try {
-      this.vennClient = new VennSDK({
+      const vennClient = new VennSDK({
         vennURL,
         vennPolicyAddress,
         strict: true // Enable strict mode for better error handling
       });
-      console.info('Venn client initialized for transaction protection');
+      console.info(`Venn client initialized for transaction protection on chain ${chainId}`);
+      return vennClient;
     } catch (error) {
       console.error('Failed to initialize Venn client:', error);
+      return null;
     }
   }
 
+  private getClient(chainId?: number): VennSDK | null {
+    const key = chainId ?? 0;
+    if (!this.vennClients.has(key)) {
+      this.vennClients.set(key, this.initialize(chainId));
+    }
+    return this.vennClients.get(key) ?? null;
+  }
+
   /**
    * Get the singleton instance of VennClient
    */
@@ -73,7 +93,9 @@ class VennClient {
    * @returns The approved transaction with updated data field
    */
   public async approveTransaction(transaction: Transaction): Promise<Transaction> {
-    if (!this.vennClient) {
+    const vennClient = this.getClient(transaction.chainId);
+
+    if (!vennClient) {
       console.warn('Venn client not initialized. Transaction will not be protected.');
       return transaction;
     }
@@ -83,7 +105,7 @@ class VennClient {
       const preparedTx = this.prepareTxForVenn(transaction);
       
       // Send the prepared transaction to Venn for approval
-      const approvedTx = await this.vennClient.approve({
+      const approvedTx = await vennClient.approve({
         from: preparedTx.from,
         to: preparedTx.to,
         data: preparedTx.data,
@@ -94,7 +116,9 @@ class VennClient {
       return {
         ...transaction,
         // Ensure data is always a string, fallback to original if not available
-        data: approvedTx.data || transaction.data
+        data: approvedTx.data || transaction.data,
+        // The approval signs the value of the call, so it is sent as approved
+        value: approvedTx.value != null ? BigInt(approvedTx.value) : transaction.value
       };
     } catch (e) {
       this.handleVennError(e);
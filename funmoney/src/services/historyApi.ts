@@ -0,0 +1,177 @@
+import { Choice, GameType } from '../types';
+
+/*
+ * Client of the game history served by the custom detector (`venn-custom-detection`), which
+ * indexes the contract events into its database. Addresses are lowercased, amounts are wei as
+ * decimal strings and dates ISO 8601 strings.
+ */
+
+// Base URL of the detector, e.g. `http://localhost:3000`. History pages are disabled without it
+export const DETECTOR_URL = process.env.NEXT_PUBLIC_DETECTOR_URL?.replace(/\/$/, '');
+
+// Largest page the detector serves
+export const MAX_PAGE_SIZE = 100;
+
+export type HistoryGameStatus = 'waiting' | 'active' | 'ended' | 'cancelled';
+
+export type HistoryGame = {
+  gameId: string;
+  player1: string;
+  // Unset until the game is joined
+  player2?: string;
+  stake: string;
+  gameType: GameType;
+  commitReveal: boolean;
+  status: HistoryGameStatus;
+  roundsPlayed: number;
+  scores: [number, number];
+  // Unset while the game runs, and when it ends in a tie or is cancelled
+  winner?: string;
+  // Paid to the winner. `0` for a tie
+  payout?: string;
+  createdAt: string;
+  createdBlock: number;
+  createdTransaction: `0x${string}`;
+  // Unset until the game ends or is cancelled
+  endedAt?: string;
+  endedTransaction?: `0x${string}`;
+};
+
+export type HistoryRound = {
+  roundNumber: number;
+  player1Choice: Choice;
+  player2Choice: Choice;
+  // Unset when the round is a tie
+  winner?: string;
+  blockNumber: number;
+  playedAt: string;
+  transactionHash: `0x${string}`;
+};
+
+// An event of the game, integer arguments as decimal strings
+export type HistoryEvent = {
+  name: string;
+  args: Record<string, string | number>;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  emittedAt: string;
+};
+
+export type HistoryGameDetails = HistoryGame & {
+  rounds: HistoryRound[];
+  // Every event of the game, in chain order
+  events: HistoryEvent[];
+};
+
+export type HistoryGamePage = {
+  total: number;
+  limit: number;
+  offset: number;
+  games: HistoryGame[];
+};
+
+export type HistoryQuery = {
+  // Either player of the game
+  player?: string;
+  // Start of the address of the other player
+  opponent?: string;
+  // Outcome of ended games for `player`
+  result?: 'won' | 'lost' | 'tied';
+  status?: HistoryGameStatus;
+  gameType?: GameType;
+  minStake?: bigint;
+  maxStake?: bigint;
+  sort?: 'newest' | 'oldest' | 'stake-desc' | 'stake-asc';
+  limit?: number;
+  offset?: number;
+};
+
+// An error answered by the detector, with its message
+export class HistoryApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'HistoryApiError';
+  }
+}
+
+/**
+ * The query string of a query, without its unset parameters
+ */
+function toSearchParams(query: HistoryQuery = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+
+  return params;
+}
+
+async function request<T>(path: string, query?: HistoryQuery): Promise<T> {
+  if (!DETECTOR_URL) {
+    throw new HistoryApiError('NEXT_PUBLIC_DETECTOR_URL is not set');
+  }
+
+  const search = toSearchParams(query).toString();
+  const response = await fetch(`${DETECTOR_URL}${path}${search ? `?${search}` : ''}`);
+  const body = await response.json().catch(() => undefined);
+
+  if (!response.ok) {
+    throw new HistoryApiError(
+      body?.message ?? `Request failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  return body as T;
+}
+
+/**
+ * A page of the games matching the query, newest first unless sorted otherwise
+ */
+export function listGames(query: HistoryQuery = {}) {
+  return request<HistoryGamePage>('/history/games', query);
+}
+
+/**
+ * Every game matching the query, read one page at a time
+ */
+export async function listAllGames(query: Omit<HistoryQuery, 'limit' | 'offset'> = {}) {
+  const games: HistoryGame[] = [];
+  let total = Infinity;
+
+  while (games.length < total) {
+    const page = await listGames({ ...query, limit: MAX_PAGE_SIZE, offset: games.length });
+
+    games.push(...page.games);
+    // An empty page ends the list, should games be removed by a reorg while paging
+    total = page.games.length ? page.total : games.length;
+  }
+
+  return games;
+}
+
+/**
+ * A game with its rounds and events
+ */
+export function getGame(gameId: bigint | string) {
+  return request<HistoryGameDetails>(`/history/games/${gameId}`);
+}
+
+/**
+ * Ids of the games the detector flagged as self-play.
+ * Read through the app's `/api/self-play-games` route, which holds the detector's admin key.
+ */
+export async function listSelfPlayGames() {
+  const response = await fetch('/api/self-play-games');
+  const body = await response.json().catch(() => undefined);
+
+  if (!response.ok) {
+    throw new HistoryApiError(
+      body?.message ?? `Request failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  return new Set<string>((body as { gameIds: string[] }).gameIds);
+}
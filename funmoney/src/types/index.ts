@@ -1,27 +1,39 @@
-// Define the type for the game object
-export interface Game {
-  choices: number[];
-  gameId: bigint; 
-  gameType: number;
-  isActive: boolean;
-  lastPlayerMove: string;
-  player1Moves: number[];
-  player2Moves: number[];
-  players: string[];
-  roundsPlayed: number;
-  scores: number[];
-  stake: bigint; 
+import type { ContractFunctionReturnType } from 'viem';
+import type { abi } from '../constants/contractInfo';
+import type { HistoryGame } from '../services/historyApi';
+
+// Mirrors `RockPaperScissors.Choice`
+export enum Choice {
+  None,
+  Rock,
+  Paper,
+  Scissors,
+}
+
+// Mirrors `RockPaperScissors.GameType`
+export enum GameType {
+  OneRound,
+  BestOfThree,
+  BestOfFive,
 }
 
+// A game as returned by `getGameById`
+export type Game = ContractFunctionReturnType<typeof abi, 'view', 'getGameById'>;
+
+// A game as returned by `getGamesInfo`, without the commit-reveal and timeout fields
+export type GameSummary = ContractFunctionReturnType<typeof abi, 'view', 'getGamesInfo'>[number];
+
 export interface GameSearchCardProps {
   game: Game | undefined;
   onJoinGame: (gameId: bigint, stake: bigint) => void;
   isLoading: boolean;
   userAddress: `0x${string}` | undefined;
+  // Whether the user holds the invite code of the game, if it is private
+  hasInviteCode?: boolean;
 }
 
 export interface GameHistoryCardProps {
-  game: Game;
+  game: HistoryGame;
   userAddress: `0x${string}` | undefined;
 }
 
@@ -0,0 +1,65 @@
+import { encodePacked, keccak256, toHex } from 'viem';
+import { Choice } from '../types';
+
+export const EMPTY_COMMITMENT =
+  '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+// A committed move that has not been revealed yet
+export type StoredMove = {
+  choice: Choice;
+  salt: `0x${string}`;
+};
+
+type MoveKey = {
+  chainId: number;
+  contractAddress: string;
+  gameId: bigint;
+  roundNumber: number;
+  player: string;
+};
+
+const storageKey = ({ chainId, contractAddress, gameId, roundNumber, player }: MoveKey) =>
+  `rps:move:${chainId}:${contractAddress.toLowerCase()}:${gameId}:${roundNumber}:${player.toLowerCase()}`;
+
+/**
+ * Generates a random 32 bytes salt, so a committed choice cannot be brute forced
+ */
+export function generateSalt(): `0x${string}` {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Computes the commitment checked by the contract's revealMove:
+ * keccak256(abi.encodePacked(gameId, roundNumber, player, choice, salt))
+ */
+export function computeCommitment(
+  gameId: bigint,
+  roundNumber: number,
+  player: `0x${string}`,
+  choice: Choice,
+  salt: `0x${string}`
+): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ['uint256', 'uint8', 'address', 'uint8', 'bytes32'],
+      [gameId, roundNumber, player, choice, salt]
+    )
+  );
+}
+
+/**
+ * Keeps the choice and salt in local storage until the move is revealed.
+ * Losing them makes the move impossible to reveal, so they are stored before the commit is sent.
+ */
+export function saveMove(key: MoveKey, move: StoredMove) {
+  localStorage.setItem(storageKey(key), JSON.stringify(move));
+}
+
+export function loadMove(key: MoveKey): StoredMove | undefined {
+  const value = localStorage.getItem(storageKey(key));
+  return value ? (JSON.parse(value) as StoredMove) : undefined;
+}
+
+export function clearMove(key: MoveKey) {
+  localStorage.removeItem(storageKey(key));
+}
@@ -0,0 +1,81 @@
+import { Choice } from '../types';
+import type { HistoryEvent, HistoryGame, HistoryQuery } from '../services/historyApi';
+
+// Outcome of a game for one of its players
+export type GameResult = 'won' | 'lost' | 'tied' | 'active' | 'cancelled';
+
+export type HistorySort = NonNullable<HistoryQuery['sort']>;
+
+// A move, as emitted in `PlayerMoved` once the choice is public
+export type TimelineMove = {
+  player: string;
+  choice: Choice;
+  emittedAt: string;
+  transactionHash: `0x${string}`;
+};
+
+// A played round, with the moves that led to it
+export type TimelineRound = {
+  roundNumber: number;
+  player1Choice: Choice;
+  player2Choice: Choice;
+  playedAt: string;
+  transactionHash: `0x${string}`;
+  moves: TimelineMove[];
+};
+
+export type GameTimeline = {
+  rounds: TimelineRound[];
+  // Moves of the round in progress
+  pendingMoves: TimelineMove[];
+};
+
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * The outcome of a game for a player
+ */
+export function getGameResult(game: HistoryGame, player: string): GameResult {
+  switch (game.status) {
+    case 'waiting':
+    case 'active':
+      return 'active';
+    case 'cancelled':
+      return 'cancelled';
+  }
+
+  if (!game.winner) return 'tied';
+  return sameAddress(game.winner, player) ? 'won' : 'lost';
+}
+
+/**
+ * Builds the round by round timeline of a game from its events, in chain order
+ * @param events - Events of the game, as returned by the history API
+ */
+export function buildGameTimeline(events: HistoryEvent[]): GameTimeline {
+  const rounds: TimelineRound[] = [];
+  let moves: TimelineMove[] = [];
+
+  for (const event of events) {
+    if (event.name === 'PlayerMoved') {
+      moves.push({
+        player: String(event.args.player),
+        choice: Number(event.args.choice),
+        emittedAt: event.emittedAt,
+        transactionHash: event.transactionHash,
+      });
+    } else if (event.name === 'RoundPlayed') {
+      rounds.push({
+        roundNumber: Number(event.args.roundNumber),
+        player1Choice: Number(event.args.player1Choice),
+        player2Choice: Number(event.args.player2Choice),
+        playedAt: event.emittedAt,
+        transactionHash: event.transactionHash,
+        moves,
+      });
+      moves = [];
+    }
+  }
+
+  return { rounds, pendingMoves: moves };
+}
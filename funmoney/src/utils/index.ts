@@ -101,3 +101,18 @@ export function extractErrorMessages(error: Error | ErrorObject | string): strin
 }
 
 
+
+/**
+ * Formats a duration as hours, minutes and seconds
+ * @param milliseconds - The duration to format
+ * @returns The duration, e.g. "23h 04m 10s"
+ */
+export function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+}
@@ -0,0 +1,63 @@
+import { encodePacked, isHex, keccak256, zeroAddress } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+/*
+ * Invite codes of private games.
+ * A code is a throwaway private key: the game is created with its address as the invitee,
+ * and whoever holds the code signs the invite of the wallet joining the game.
+ */
+
+export type InviteKey = {
+  chainId: number;
+  contractAddress: `0x${string}`;
+  gameId: bigint;
+  player: `0x${string}`;
+};
+
+/**
+ * Generates an invite code and the invitee address the game is created with
+ */
+export function generateInviteCode() {
+  const code = generatePrivateKey();
+  return { code, invitee: privateKeyToAccount(code).address };
+}
+
+export function isInviteCode(code: string | undefined): code is `0x${string}` {
+  return !!code && isHex(code) && code.length === 66;
+}
+
+/**
+ * Computes the digest checked by the contract's joinGameWithInvite:
+ * keccak256(abi.encodePacked(chainId, contract, gameId, player))
+ */
+export function computeInviteDigest({ chainId, contractAddress, gameId, player }: InviteKey) {
+  return keccak256(
+    encodePacked(
+      ['uint256', 'address', 'uint256', 'address'],
+      [BigInt(chainId), contractAddress, gameId, player]
+    )
+  );
+}
+
+/**
+ * Signs the invite of `player` with the invite code.
+ * The signature is bound to the player, so it is useless to anyone copying it from the mempool.
+ */
+export function signInvite(code: `0x${string}`, key: InviteKey) {
+  return privateKeyToAccount(code).signMessage({ message: { raw: computeInviteDigest(key) } });
+}
+
+/**
+ * Whether `player` may join a game without an invite code
+ */
+export function isInvited(invitee: string, player: string | undefined) {
+  return invitee === zeroAddress || invitee.toLowerCase() === player?.toLowerCase();
+}
+
+/**
+ * Link to the join page of a game. The code goes in the fragment, which browsers never send
+ * to the server.
+ */
+export function inviteLink(origin: string, gameId: bigint, code?: `0x${string}`) {
+  return `${origin}/join/${gameId}${code ? `#${code}` : ''}`;
+}
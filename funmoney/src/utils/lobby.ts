@@ -0,0 +1,88 @@
+import { GameType } from '../types';
+
+// A game waiting for an opponent, as rebuilt from contract events
+export type OpenGame = {
+  gameId: bigint;
+  creator: string;
+  stake: bigint;
+  gameType: GameType;
+  // Block of the GameCreated event
+  createdAt: bigint;
+};
+
+// The subset of a decoded log the lobby relies on
+export type GameLog = {
+  eventName?: string;
+  args: any;
+  blockNumber: bigint | null;
+};
+
+export type LobbySort = 'newest' | 'stake-asc' | 'stake-desc';
+
+export type LobbyFilters = {
+  // Undefined for every game type
+  gameType?: GameType;
+  minStake?: bigint;
+  maxStake?: bigint;
+  sort: LobbySort;
+};
+
+// Events that create or close an open game. Private games leave the lobby once invited
+export const LOBBY_EVENTS = [
+  'GameCreated',
+  'PlayerInvited',
+  'GameJoined',
+  'GameEnded',
+  'GameCancelled',
+];
+
+/**
+ * Applies game events, in chain order, to the open games
+ * @param games - Open games by id, updated in place
+ * @param logs - Decoded logs of the game contract
+ */
+export function applyGameLogs(games: Map<string, OpenGame>, logs: GameLog[]) {
+  for (const log of logs) {
+    const gameId = log.args?.gameId as bigint | undefined;
+    if (gameId === undefined) continue;
+
+    if (log.eventName === 'GameCreated') {
+      games.set(gameId.toString(), {
+        gameId,
+        creator: log.args.player1,
+        stake: log.args.stake,
+        gameType: log.args.gameType,
+        createdAt: log.blockNumber ?? BigInt(0),
+      });
+    } else if (LOBBY_EVENTS.includes(log.eventName ?? '')) {
+      games.delete(gameId.toString());
+    }
+  }
+
+  return games;
+}
+
+/**
+ * Filters and sorts open games for display
+ */
+export function filterOpenGames(games: OpenGame[], filters: LobbyFilters): OpenGame[] {
+  const compare = (a: bigint, b: bigint) => (a > b ? 1 : a < b ? -1 : 0);
+
+  return games
+    .filter(
+      (game) =>
+        (filters.gameType === undefined || game.gameType === filters.gameType) &&
+        (filters.minStake === undefined || game.stake >= filters.minStake) &&
+        (filters.maxStake === undefined || game.stake <= filters.maxStake)
+    )
+    .sort((a, b) => {
+      switch (filters.sort) {
+        case 'stake-asc':
+          return compare(a.stake, b.stake);
+        case 'stake-desc':
+          return compare(b.stake, a.stake);
+        default:
+          return compare(b.createdAt, a.createdAt) || compare(b.gameId, a.gameId);
+      }
+    });
+}
@@ -0,0 +1,180 @@
+import { Choice, GameSummary, GameType } from '../types';
+import type { HistoryGame } from '../services/historyApi';
+
+// Win, loss and tie counts, and the ETH won or lost over them
+export type RecordTally = {
+  played: number;
+  won: number;
+  lost: number;
+  tied: number;
+  // Payouts minus stakes, in wei. Stakes of tied games are refunded
+  net: bigint;
+};
+
+export type HeadToHead = RecordTally & { opponent: string };
+
+export type PlayerStats = RecordTally & {
+  // Games waiting for an opponent or still being played
+  active: number;
+  // Creator fees taken from the payouts won, in wei
+  feesPaid: bigint;
+  byGameType: Record<GameType, RecordTally>;
+  // Moves played, by choice
+  moves: Record<Choice.Rock | Choice.Paper | Choice.Scissors, number>;
+  // Opponents the player met the most, most frequent first
+  headToHead: HeadToHead[];
+};
+
+const emptyTally = (): RecordTally => ({ played: 0, won: 0, lost: 0, tied: 0, net: BigInt(0) });
+
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Adds an ended game to a tally, from the point of view of `player`
+ */
+export function tallyGame(tally: RecordTally, game: HistoryGame, player: string) {
+  tally.played++;
+
+  if (!game.winner) {
+    tally.tied++;
+  } else if (sameAddress(game.winner, player)) {
+    tally.won++;
+    tally.net += BigInt(game.payout ?? 0) - BigInt(game.stake);
+  } else {
+    tally.lost++;
+    tally.net -= BigInt(game.stake);
+  }
+
+  return tally;
+}
+
+/**
+ * Computes the record of a player over the games they created or joined
+ * @param records - Games of the player, from the game history
+ * @param games - Games of the player as read from the contract, for their moves
+ * @param player - The player
+ * @param headToHeadSize - Number of opponents kept in the head-to-head records
+ */
+export function computePlayerStats(
+  records: HistoryGame[],
+  games: readonly GameSummary[],
+  player: string,
+  headToHeadSize = 5
+): PlayerStats {
+  const stats: PlayerStats = {
+    ...emptyTally(),
+    active: 0,
+    feesPaid: BigInt(0),
+    byGameType: {
+      [GameType.OneRound]: emptyTally(),
+      [GameType.BestOfThree]: emptyTally(),
+      [GameType.BestOfFive]: emptyTally(),
+    },
+    moves: { [Choice.Rock]: 0, [Choice.Paper]: 0, [Choice.Scissors]: 0 },
+    headToHead: [],
+  };
+  const opponents = new Map<string, HeadToHead>();
+
+  for (const record of records) {
+    const isPlayer1 = sameAddress(record.player1, player);
+    if (!isPlayer1 && !sameAddress(record.player2, player)) continue;
+
+    if (record.status === 'waiting' || record.status === 'active') {
+      stats.active++;
+      continue;
+    }
+    if (record.status !== 'ended') continue;
+
+    const opponent = (isPlayer1 ? record.player2 : record.player1) as string;
+    const key = opponent.toLowerCase();
+    if (!opponents.has(key)) opponents.set(key, { opponent, ...emptyTally() });
+
+    tallyGame(stats, record, player);
+    tallyGame(stats.byGameType[record.gameType] ?? emptyTally(), record, player);
+    tallyGame(opponents.get(key) as HeadToHead, record, player);
+
+    if (sameAddress(record.winner, player) && record.payout !== undefined) {
+      stats.feesPaid += BigInt(record.stake) * BigInt(2) - BigInt(record.payout);
+    }
+  }
+
+  for (const game of games) {
+    const moves = sameAddress(game.players[0], player) ? game.player1Moves : game.player2Moves;
+
+    for (const move of moves) {
+      if (move in stats.moves) stats.moves[move as keyof PlayerStats['moves']]++;
+    }
+  }
+
+  stats.headToHead = [...opponents.values()]
+    .sort((a, b) => b.played - a.played || b.won - a.won)
+    .slice(0, headToHeadSize);
+
+  return stats;
+}
+
+export type LeaderboardSort = 'wins' | 'net' | 'win-rate';
+
+export type LeaderboardEntry = RecordTally & { player: string };
+
+export type LeaderboardFilters = {
+  // Undefined for every game type
+  gameType?: GameType;
+  // Time range of the season, `to` excluded. Undefined bounds are open
+  from?: Date;
+  to?: Date;
+  // Ids of the games left out, e.g. self-play
+  excludedGames?: Set<string>;
+};
+
+/**
+ * Tallies the ended games of every player
+ */
+export function computeLeaderboard(
+  records: HistoryGame[],
+  { gameType, from, to, excludedGames }: LeaderboardFilters
+): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>();
+
+  for (const record of records) {
+    if (record.status !== 'ended' || !record.player2 || record.endedAt === undefined) continue;
+    if (gameType !== undefined && record.gameType !== gameType) continue;
+    if (from !== undefined && new Date(record.endedAt) < from) continue;
+    if (to !== undefined && new Date(record.endedAt) >= to) continue;
+    if (excludedGames?.has(record.gameId)) continue;
+
+    for (const player of [record.player1, record.player2]) {
+      const key = player.toLowerCase();
+      if (!entries.has(key)) entries.set(key, { player, ...emptyTally() });
+
+      tallyGame(entries.get(key) as LeaderboardEntry, record, player);
+    }
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * Ranks leaderboard entries, best first.
+ * Ranking by win rate only keeps players with at least `minGames` games.
+ */
+export function rankLeaderboard(
+  entries: LeaderboardEntry[],
+  sort: LeaderboardSort,
+  minGames: number
+): LeaderboardEntry[] {
+  const compareNet = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+    a.net > b.net ? -1 : a.net < b.net ? 1 : 0;
+  const winRate = ({ won, played }: LeaderboardEntry) => won / played;
+
+  switch (sort) {
+    case 'net':
+      return [...entries].sort((a, b) => compareNet(a, b) || b.won - a.won);
+    case 'win-rate':
+      return entries
+        .filter((entry) => entry.played >= minGames)
+        .sort((a, b) => winRate(b) - winRate(a) || b.played - a.played);
+    default:
+      return [...entries].sort((a, b) => b.won - a.won || compareNet(a, b));
+  }
+}
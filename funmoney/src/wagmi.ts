@@ -1,13 +1,13 @@
 import { getDefaultConfig } from "@rainbow-me/rainbowkit";
 
-import { http } from 'wagmi';
+import { http, Transport } from 'wagmi';
 import { Chain } from 'wagmi/chains';
-// import { taikoHekla as taikotemp } from "viem/_types/chains";
+import { Deployment, deployments } from './constants';
 
-// Define custom vennHolesky chain based on hardhat.config.ts
-const vennHolesky: Chain = {
-  id: 17000,
-  name: 'Venn Holesky',
+// One chain per network of the deployment registry
+const toChain = (deployment: Deployment): Chain => ({
+  id: deployment.chainId,
+  name: deployment.name,
   nativeCurrency: {
     decimals: 18,
     name: 'Ether',
@@ -15,29 +15,26 @@ const vennHolesky: Chain = {
   },
   rpcUrls: {
     default: {
-      http: ['https://ethereum-holesky.publicnode.com'],
+      http: [deployment.rpcUrl],
     },
     public: {
-      http: ['https://ethereum-holesky.publicnode.com'],
+      http: [deployment.rpcUrl],
     },
   },
   blockExplorers: {
-    default: { name: 'Explorer', url: 'https://holesky.etherscan.io' },
+    default: { name: 'Explorer', url: deployment.explorerUrl },
   },
   testnet: true,
-};
+});
+
+const [defaultChain, ...otherChains] = deployments.map(toChain);
 
 export const config = getDefaultConfig({
   appName: 'RockPaperScissors',
   projectId: '6ff8eb59587cd5a38c24cc85d30763ea',
-  chains: [
-    vennHolesky,
-    // taikotemp
-    // ...(process.env.NEXT_PUBLIC_ENABLE_TESTNETS === "true" ? [sepolia] : []),
-  ],
+  chains: [defaultChain, ...otherChains],
   ssr: true,
-  transports: {
-    [vennHolesky.id]: http('https://ethereum-holesky.publicnode.com'),
-
-  },
+  transports: Object.fromEntries(
+    deployments.map((deployment) => [deployment.chainId, http(deployment.rpcUrl)])
+  ) as Record<number, Transport>,
 });
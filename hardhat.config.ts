@@ -1,5 +1,7 @@
 require('dotenv').config();
 require("@nomicfoundation/hardhat-toolbox");
+// `hre.viem`, installed as a peer dependency of @nomicfoundation/hardhat-toolbox-viem
+require("@nomicfoundation/hardhat-viem");
 
 // Reading vennURL from the VENN_NODE_URL env variable
 // allows you to easily switch between the real endpoint
@@ -22,7 +24,7 @@ module.exports = {
 
     vennHolesky: {
       url: vennURL,
-      accounts: [process.env.YOUR_PRIVATE_KEY],
+      accounts: process.env.YOUR_PRIVATE_KEY ? [process.env.YOUR_PRIVATE_KEY] : [],
       chainId: 17000,
       gasPrice: 1000000000, // 1 gwei
       timeout: 60000
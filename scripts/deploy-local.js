@@ -0,0 +1,58 @@
+const { ethers } = require("hardhat");
+const { NETWORKS, REGISTRY_PATH, updateDeployment } = require("./deployments");
+const { LOCAL_VENN_SIGNER_KEY, LOCAL_VENN_SIGNER_URL } = require("./local-venn");
+
+// Deploys RockPaperScissors behind the mock Venn firewall, for `npx hardhat node`
+async function main() {
+    const { chainId } = await ethers.provider.getNetwork();
+    if (chainId !== 31337n) {
+        throw new Error(`deploy-local.js deploys mocks, run it with --network localhost (chain ${chainId})`);
+    }
+    const details = NETWORKS[chainId];
+
+    const signer = new ethers.Wallet(LOCAL_VENN_SIGNER_KEY);
+
+    const MockVennPolicy = await ethers.getContractFactory("MockVennPolicy");
+    const policy = await MockVennPolicy.deploy(signer.address);
+    await policy.waitForDeployment();
+    const policyAddress = await policy.getAddress();
+
+    const MockFirewall = await ethers.getContractFactory("MockFirewall");
+    const firewall = await MockFirewall.deploy(policyAddress);
+    await firewall.waitForDeployment();
+    const firewallAddress = await firewall.getAddress();
+
+    const RPSContract = await ethers.getContractFactory("RockPaperScissors");
+    const rpsContract = await RPSContract.deploy();
+    await rpsContract.waitForDeployment();
+    const contractAddress = await rpsContract.getAddress();
+    const receipt = await rpsContract.deploymentTransaction().wait();
+
+    // The deployer is the firewall admin
+    await (await rpsContract.setFirewall(firewallAddress)).wait();
+    await (await rpsContract.setAttestationCenterProxy(policyAddress)).wait();
+
+    console.log(`Venn signer: ${signer.address}`);
+    console.log(`MockVennPolicy: ${policyAddress}`);
+    console.log(`MockFirewall: ${firewallAddress}`);
+    console.log(`RockPaperScissors: ${contractAddress}`);
+
+    updateDeployment(chainId.toString(), {
+        name: details.name,
+        rpcUrl: details.rpcUrl,
+        explorerUrl: details.explorerUrl,
+        vennNodeUrl: LOCAL_VENN_SIGNER_URL,
+        vennPolicyAddress: policyAddress,
+        contractAddress,
+        deploymentBlock: receipt.blockNumber.toString(),
+    });
+    console.log(`Deployment registry updated: ${REGISTRY_PATH}`);
+    console.log("Start the signer with `npx hardhat run scripts/local-venn-signer.js --network localhost`");
+}
+
+main()
+.then(() => process.exit(0))
+.catch(error => {
+    console.error(error);
+    process.exit(1);
+});
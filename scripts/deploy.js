@@ -1,4 +1,5 @@
-const { ethers } = require("hardhat");
+const { ethers, network } = require("hardhat");
+const { NETWORKS, REGISTRY_PATH, updateDeployment, updateVennConfig } = require("./deployments");
 
 async function main() {
     const RPSContract = await ethers.getContractFactory("RockPaperScissors");
@@ -9,11 +10,41 @@ async function main() {
 
     // Get the deployer's address from the signer
     const [deployer] = await ethers.getSigners();
-    
+    const contractAddress = await rpsContract.getAddress();
+    const receipt = await rpsContract.deploymentTransaction().wait();
+    const { chainId } = await ethers.provider.getNetwork();
+
     console.log("Contract deployed successfully.");
     console.log(`Deployer: ${deployer.address}`);
-    console.log(`Deployed to: ${await rpsContract.getAddress()}`);
+    console.log(`Deployed to: ${contractAddress}`);
     console.log(`Transaction hash: ${rpsContract.deploymentTransaction().hash}`);
+
+    // Networks missing from NETWORKS, like a local node, are registered with the Hardhat config
+    const details = NETWORKS[chainId] ?? {
+        name: network.name,
+        rpcUrl: network.config.url,
+        explorerUrl: "",
+    };
+
+    updateDeployment(chainId.toString(), {
+        name: details.name,
+        rpcUrl: details.rpcUrl,
+        explorerUrl: details.explorerUrl,
+        // The Venn node is the RPC endpoint of the Hardhat network
+        vennNodeUrl: network.config.url,
+        vennPolicyAddress: undefined,
+        contractAddress,
+        deploymentBlock: receipt.blockNumber.toString(),
+    });
+    console.log(`Deployment registry updated: ${REGISTRY_PATH}`);
+
+    if (details.vennNetwork) {
+        updateVennConfig(details.vennNetwork, contractAddress);
+        console.log(
+            `venn.config.json updated, run \`venn enable --network ${details.vennNetwork}\` ` +
+            "then `node scripts/sync-venn-policy.js` to register the new policy"
+        );
+    }
 }
 
 main()
@@ -21,4 +52,4 @@ main()
 .catch(error => {
     console.error(error);
     process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,100 @@
+const fs = require("fs");
+const path = require("path");
+
+// Deployment registry read by the frontend: getContractInfo, VennClient and the wagmi chains
+const REGISTRY_PATH = path.join(__dirname, "..", "funmoney", "src", "constants", "deployments.json");
+const VENN_CONFIG_PATH = path.join(__dirname, "..", "venn.config.json");
+
+// Network details the Hardhat config does not hold, keyed by chain id
+const NETWORKS = {
+    17000: {
+        name: "Venn Holesky",
+        // Network name in venn.config.json
+        vennNetwork: "holesky",
+        rpcUrl: "https://ethereum-holesky.publicnode.com",
+        explorerUrl: "https://holesky.etherscan.io",
+    },
+    // `npx hardhat node`, protected by the local Venn stand-in of scripts/deploy-local.js
+    31337: {
+        name: "Hardhat Local",
+        rpcUrl: "http://127.0.0.1:8545",
+        explorerUrl: "",
+    },
+};
+
+function readJson(file) {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+}
+
+function writeJson(file, value, indent = 2) {
+    fs.writeFileSync(file, JSON.stringify(value, null, indent) + "\n");
+}
+
+/**
+ * The registry entry of a chain, undefined if nothing was deployed there
+ */
+function getDeployment(chainId) {
+    return readJson(REGISTRY_PATH)[chainId];
+}
+
+/**
+ * Records a deployment in the registry. Missing fields keep their previous value, undefined ones are removed
+ * @param chainId - Chain the contract was deployed to
+ * @param fields - Registry fields, `deploymentBlock` is stored as a decimal string
+ */
+function updateDeployment(chainId, fields) {
+    const registry = readJson(REGISTRY_PATH);
+    registry[chainId] = { ...registry[chainId], ...fields };
+    writeJson(REGISTRY_PATH, registry);
+    return registry[chainId];
+}
+
+/**
+ * Points venn.config.json at a new contract address, so `venn enable` protects it.
+ * The previous policy does not cover the new contract, so it is dropped until `venn enable` runs.
+ */
+function updateVennConfig(vennNetwork, contractAddress) {
+    const vennConfig = readJson(VENN_CONFIG_PATH);
+    const networks = vennConfig.networks ?? {};
+    networks[vennNetwork] = {
+        ...networks[vennNetwork],
+        contracts: { ...networks[vennNetwork]?.contracts, RockPaperScissors: contractAddress },
+        policyAddress: undefined,
+    };
+    writeJson(VENN_CONFIG_PATH, { ...vennConfig, networks }, 4);
+}
+
+/**
+ * Copies the policy address written by `venn enable` into the registry.
+ * Only networks whose venn.config.json contract is the registry contract are updated.
+ */
+function syncVennPolicies() {
+    const registry = readJson(REGISTRY_PATH);
+    const vennNetworks = readJson(VENN_CONFIG_PATH).networks ?? {};
+    const updated = [];
+
+    for (const [chainId, deployment] of Object.entries(registry)) {
+        const vennNetwork = vennNetworks[NETWORKS[chainId]?.vennNetwork];
+        const contractAddress = vennNetwork?.contracts?.RockPaperScissors;
+
+        if (
+            vennNetwork?.policyAddress &&
+            contractAddress?.toLowerCase() === deployment.contractAddress.toLowerCase()
+        ) {
+            deployment.vennPolicyAddress = vennNetwork.policyAddress;
+            updated.push(chainId);
+        }
+    }
+
+    writeJson(REGISTRY_PATH, registry);
+    return updated;
+}
+
+module.exports = {
+    NETWORKS,
+    REGISTRY_PATH,
+    getDeployment,
+    syncVennPolicies,
+    updateDeployment,
+    updateVennConfig,
+};
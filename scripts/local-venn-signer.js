@@ -0,0 +1,103 @@
+const http = require("http");
+const { ethers } = require("hardhat");
+const { getDeployment } = require("./deployments");
+const { LOCAL_VENN_SIGNER_KEY, LOCAL_VENN_SIGNER_PORT, LOCAL_VENN_SIGNER_URL } = require("./local-venn");
+
+// How long an approval can wait before being sent, in seconds
+const APPROVAL_TTL = 600n;
+
+const consumerInterface = new ethers.Interface([
+    "function safeFunctionCall(uint256 userNativeFee, bytes proxyPayload, bytes data) payable",
+]);
+
+/**
+ * Stand-in for the Venn node of the local deployment, answering like the Venn signer.
+ * POST / approves any transaction: the response wraps its calldata in a safeFunctionCall that
+ * submits an approval signed for MockVennPolicy. POST /reject rejects every transaction, to try
+ * the frontend's rejection handling.
+ */
+async function main() {
+    const { chainId } = await ethers.provider.getNetwork();
+    const deployment = getDeployment(chainId.toString());
+    if (!deployment?.vennPolicyAddress) {
+        throw new Error(`No local deployment on chain ${chainId}, run scripts/deploy-local.js first`);
+    }
+
+    const signer = new ethers.Wallet(LOCAL_VENN_SIGNER_KEY);
+    const policy = await ethers.getContractAt("MockVennPolicy", deployment.vennPolicyAddress);
+
+    async function approve({ from, to, data, value }) {
+        const txOrigin = ethers.getAddress(from);
+        const callHash = await policy.getCallHash(to, txOrigin, txOrigin, data, BigInt(value ?? 0));
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        const expiration = BigInt(timestamp) + APPROVAL_TTL;
+        const nonce = await policy.nonces(txOrigin);
+        const message = await policy.getApprovalMessage([callHash], expiration, txOrigin, nonce);
+        const signature = await signer.signMessage(ethers.getBytes(message));
+
+        const proxyPayload = policy.interface.encodeFunctionData("approveCallsViaSignature", [
+            [callHash],
+            expiration,
+            txOrigin,
+            nonce,
+            signature,
+        ]);
+
+        return {
+            from,
+            to,
+            value,
+            data: consumerInterface.encodeFunctionData("safeFunctionCall", [0, proxyPayload, data]),
+        };
+    }
+
+    // Status and body of the answer to a signing request, in the Venn node's format
+    async function handle(path, request) {
+        if (!request.from || !request.to || !request.data) {
+            return [400, { status: "Error", message: "Invalid request: from, to and data are required" }];
+        }
+        if (request.approvingPolicyAddress?.toLowerCase() !== deployment.vennPolicyAddress.toLowerCase()) {
+            return [400, { status: "Error", message: `Unknown policy ${request.approvingPolicyAddress}` }];
+        }
+        // The Venn node answers rejections with a 200, the SDK only raises TxRejectedError for those
+        if (path === "/reject") {
+            return [200, { status: "Rejected", message: "Transaction rejected by the local Venn signer" }];
+        }
+        return [200, { status: "Approved", data: await approve(request) }];
+    }
+
+    const server = http.createServer((req, res) => {
+        // The frontend calls the signer from the browser
+        res.setHeader("Access-Control-Allow-Origin", "*");
+        res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+        if (req.method === "OPTIONS") {
+            res.writeHead(204).end();
+            return;
+        }
+
+        let body = "";
+        req.on("data", chunk => (body += chunk));
+        req.on("end", async () => {
+            let status, response;
+            try {
+                [status, response] = req.method === "POST"
+                    ? await handle(req.url.replace(/\/$/, "") || "/", JSON.parse(body || "{}"))
+                    : [405, { status: "Error", message: "Invalid request: only POST is supported" }];
+            } catch (error) {
+                [status, response] = [500, { status: "Error", message: error.message }];
+            }
+            console.log(`${req.method} ${req.url} ${status} ${response.status}`);
+            res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(response));
+        });
+    });
+
+    server.listen(LOCAL_VENN_SIGNER_PORT, "127.0.0.1", () => {
+        console.log(`Local Venn signer ${signer.address} listening on ${LOCAL_VENN_SIGNER_URL}`);
+        console.log(`Approving for policy ${deployment.vennPolicyAddress} on chain ${chainId}`);
+    });
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
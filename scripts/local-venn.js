@@ -0,0 +1,13 @@
+// Settings shared by the local Venn stand-in: scripts/deploy-local.js and scripts/local-venn-signer.js
+
+// Hardhat's second default account, a well-known key that must never hold real funds
+const LOCAL_VENN_SIGNER_KEY =
+    process.env.LOCAL_VENN_SIGNER_KEY || "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const LOCAL_VENN_SIGNER_PORT = Number(process.env.LOCAL_VENN_SIGNER_PORT) || 3100;
+const LOCAL_VENN_SIGNER_URL = `http://127.0.0.1:${LOCAL_VENN_SIGNER_PORT}`;
+
+module.exports = {
+    LOCAL_VENN_SIGNER_KEY,
+    LOCAL_VENN_SIGNER_PORT,
+    LOCAL_VENN_SIGNER_URL,
+};
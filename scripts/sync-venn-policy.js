@@ -0,0 +1,10 @@
+const { syncVennPolicies } = require("./deployments");
+
+// Run after `venn enable` to copy the new policy address into the deployment registry
+const updated = syncVennPolicies();
+
+if (updated.length === 0) {
+    console.log("No policy matches a registered contract, run `venn enable` for the deployed contract first.");
+} else {
+    console.log(`Venn policy updated for chain ${updated.join(", ")}`);
+}
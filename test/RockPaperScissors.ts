@@ -0,0 +1,1204 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  encodePacked,
+  getAddress,
+  keccak256,
+  parseEther,
+  toHex,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+
+enum Choice {
+  None,
+  Rock,
+  Paper,
+  Scissors,
+}
+
+enum GameType {
+  OneRound,
+  BestOfThree,
+  BestOfFive,
+}
+
+const STAKE = parseEther("0.01");
+
+// Mirrors the hash checked by revealMove
+function commitment(
+  gameId: bigint,
+  roundNumber: number,
+  player: Address,
+  choice: Choice,
+  salt: Hex
+) {
+  return keccak256(
+    encodePacked(
+      ["uint256", "uint8", "address", "uint8", "bytes32"],
+      [gameId, roundNumber, player, choice, salt]
+    )
+  );
+}
+
+describe("RockPaperScissors", function () {
+  async function deployFixture() {
+    const [owner, player1, player2, outsider] = await hre.viem.getWalletClients();
+
+    const rps = await hre.viem.deployContract("RockPaperScissors");
+    const publicClient = await hre.viem.getPublicClient();
+
+    const asPlayer = async (player: typeof player1) =>
+      hre.viem.getContractAt("RockPaperScissors", rps.address, {
+        client: { wallet: player },
+      });
+
+    return {
+      rps,
+      publicClient,
+      owner,
+      player1,
+      player2,
+      outsider,
+      rpsAsPlayer1: await asPlayer(player1),
+      rpsAsPlayer2: await asPlayer(player2),
+      rpsAsOutsider: await asPlayer(outsider),
+    };
+  }
+
+  async function commitRevealGameFixture(gameType = GameType.OneRound) {
+    const fixture = await deployFixture();
+    const { rpsAsPlayer1, rpsAsPlayer2 } = fixture;
+
+    await rpsAsPlayer1.write.createCommitRevealGame([gameType], { value: STAKE });
+    await rpsAsPlayer2.write.joinGame([1n], { value: STAKE });
+
+    return { ...fixture, gameId: 1n };
+  }
+
+  const oneRoundFixture = () => commitRevealGameFixture(GameType.OneRound);
+  const bestOfThreeFixture = () => commitRevealGameFixture(GameType.BestOfThree);
+
+  async function plainGameFixture(gameType: GameType) {
+    const fixture = await deployFixture();
+    const { rpsAsPlayer1, rpsAsPlayer2 } = fixture;
+
+    await rpsAsPlayer1.write.createGame([gameType], { value: STAKE });
+    await rpsAsPlayer2.write.joinGame([1n], { value: STAKE });
+
+    // Player 1 moves first, so player 2's move resolves the round
+    const playRound = async (player1Choice: Choice, player2Choice: Choice) => {
+      await rpsAsPlayer1.write.makeMove([1n, player1Choice]);
+      const hash = await rpsAsPlayer2.write.makeMove([1n, player2Choice]);
+      return fixture.publicClient.waitForTransactionReceipt({ hash });
+    };
+
+    return { ...fixture, gameId: 1n, playRound };
+  }
+
+  const plainOneRoundFixture = () => plainGameFixture(GameType.OneRound);
+  const plainBestOfThreeFixture = () => plainGameFixture(GameType.BestOfThree);
+  const plainBestOfFiveFixture = () => plainGameFixture(GameType.BestOfFive);
+
+  describe("Deployment", function () {
+    it("Should set the deployer as owner", async function () {
+      const { rps, owner } = await loadFixture(deployFixture);
+
+      expect(await rps.read.owner()).to.equal(getAddress(owner.account.address));
+    });
+
+    it("Should take a 0.25% creator fee", async function () {
+      const { rps } = await loadFixture(deployFixture);
+
+      expect(await rps.read.creatorFee()).to.equal(25n);
+    });
+  });
+
+  describe("Creating games", function () {
+    for (const gameType of [GameType.OneRound, GameType.BestOfThree, GameType.BestOfFive]) {
+      it(`Should create a ${GameType[gameType]} game`, async function () {
+        const { rps, rpsAsPlayer1, player1 } = await loadFixture(deployFixture);
+
+        await rpsAsPlayer1.write.createGame([gameType], { value: STAKE });
+
+        const game = await rps.read.getGameById([1n]);
+        expect(game.gameId).to.equal(1n);
+        expect(game.players).to.deep.equal([
+          getAddress(player1.account.address),
+          zeroAddress,
+        ]);
+        expect(game.stake).to.equal(STAKE);
+        expect(game.gameType).to.equal(gameType);
+        expect(game.isActive).to.equal(true);
+        expect(game.commitReveal).to.equal(false);
+
+        const createdEvents = await rps.getEvents.GameCreated();
+        expect(createdEvents).to.have.lengthOf(1);
+        expect(createdEvents[0].args).to.deep.equal({
+          gameId: 1n,
+          player1: getAddress(player1.account.address),
+          stake: STAKE,
+          gameType,
+        });
+      });
+    }
+
+    it("Should hold the stake and number games from 1", async function () {
+      const { rps, rpsAsPlayer1, player1, publicClient } = await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+      await rpsAsPlayer1.write.createGame([GameType.BestOfThree], { value: STAKE });
+
+      expect(await rps.read.getUserGames([player1.account.address])).to.deep.equal([1n, 2n]);
+      expect(await publicClient.getBalance({ address: rps.address })).to.equal(STAKE * 2n);
+    });
+
+    it("Should reject games without stake", async function () {
+      const { rpsAsPlayer1 } = await loadFixture(deployFixture);
+
+      await expect(
+        rpsAsPlayer1.write.createGame([GameType.OneRound], { value: 0n })
+      ).to.be.rejectedWith("Stake must be greater than 0");
+      await expect(
+        rpsAsPlayer1.write.createCommitRevealGame([GameType.OneRound], { value: 0n })
+      ).to.be.rejectedWith("Stake must be greater than 0");
+    });
+  });
+
+  describe("Joining games", function () {
+    it("Should add the second player", async function () {
+      const { rps, player1, player2, gameId } = await loadFixture(plainOneRoundFixture);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.players).to.deep.equal([
+        getAddress(player1.account.address),
+        getAddress(player2.account.address),
+      ]);
+      expect(await rps.read.getUserGames([player2.account.address])).to.deep.equal([gameId]);
+
+      const joinedEvents = await rps.getEvents.GameJoined();
+      expect(joinedEvents).to.have.lengthOf(1);
+      expect(joinedEvents[0].args).to.deep.equal({
+        gameId,
+        player2: getAddress(player2.account.address),
+      });
+    });
+
+    it("Should reject games that do not exist", async function () {
+      const { rpsAsPlayer2 } = await loadFixture(deployFixture);
+
+      await expect(
+        rpsAsPlayer2.write.joinGame([1n], { value: STAKE })
+      ).to.be.rejectedWith("Game is not active");
+    });
+
+    it("Should reject full games", async function () {
+      const { rpsAsOutsider, gameId } = await loadFixture(plainOneRoundFixture);
+
+      await expect(
+        rpsAsOutsider.write.joinGame([gameId], { value: STAKE })
+      ).to.be.rejectedWith("Game is full");
+    });
+
+    it("Should reject the creator", async function () {
+      const { rpsAsPlayer1 } = await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+
+      await expect(
+        rpsAsPlayer1.write.joinGame([1n], { value: STAKE })
+      ).to.be.rejectedWith("Already in game");
+    });
+
+    it("Should reject a different stake", async function () {
+      const { rpsAsPlayer1, rpsAsPlayer2 } = await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+
+      await expect(
+        rpsAsPlayer2.write.joinGame([1n], { value: STAKE - 1n })
+      ).to.be.rejectedWith("Incorrect stake amount");
+      await expect(
+        rpsAsPlayer2.write.joinGame([1n], { value: STAKE + 1n })
+      ).to.be.rejectedWith("Incorrect stake amount");
+    });
+  });
+
+  describe("Private games", function () {
+    async function privateGameFixture() {
+      const fixture = await deployFixture();
+      const inviteKey = privateKeyToAccount(generatePrivateKey());
+
+      await fixture.rpsAsPlayer1.write.createPrivateGame(
+        [GameType.OneRound, false, inviteKey.address],
+        { value: STAKE }
+      );
+
+      // The invite code lets its holder sign their own way in
+      const invite = async (player: Address) =>
+        inviteKey.signMessage({
+          message: { raw: await fixture.rps.read.inviteDigest([1n, player]) },
+        });
+
+      return { ...fixture, gameId: 1n, inviteKey, invite };
+    }
+
+    it("Should record and announce the invitee", async function () {
+      const { rps, inviteKey, gameId } = await loadFixture(privateGameFixture);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.invitee).to.equal(inviteKey.address);
+
+      const invitedEvents = await rps.getEvents.PlayerInvited();
+      expect(invitedEvents).to.have.lengthOf(1);
+      expect(invitedEvents[0].args).to.deep.equal({ gameId, invitee: inviteKey.address });
+    });
+
+    it("Should let the invited address join", async function () {
+      const { rps, rpsAsPlayer1, rpsAsPlayer2, rpsAsOutsider, player2 } =
+        await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.createPrivateGame(
+        [GameType.OneRound, false, getAddress(player2.account.address)],
+        { value: STAKE }
+      );
+
+      await expect(
+        rpsAsOutsider.write.joinGame([1n], { value: STAKE })
+      ).to.be.rejectedWith("Not invited");
+      await rpsAsPlayer2.write.joinGame([1n], { value: STAKE });
+
+      const game = await rps.read.getGameById([1n]);
+      expect(game.players[1]).to.equal(getAddress(player2.account.address));
+    });
+
+    it("Should let the holder of the invite code join", async function () {
+      const { rps, rpsAsPlayer2, player2, gameId, invite } =
+        await loadFixture(privateGameFixture);
+
+      await expect(
+        rpsAsPlayer2.write.joinGame([gameId], { value: STAKE })
+      ).to.be.rejectedWith("Not invited");
+      await rpsAsPlayer2.write.joinGameWithInvite(
+        [gameId, await invite(player2.account.address)],
+        { value: STAKE }
+      );
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.players[1]).to.equal(getAddress(player2.account.address));
+    });
+
+    it("Should reject an invite signed for another player", async function () {
+      const { rpsAsOutsider, player2, gameId, invite } = await loadFixture(privateGameFixture);
+
+      // e.g. read from the mempool
+      await expect(
+        rpsAsOutsider.write.joinGameWithInvite(
+          [gameId, await invite(player2.account.address)],
+          { value: STAKE }
+        )
+      ).to.be.rejectedWith("Invalid invite");
+    });
+
+    it("Should reject an invite of another key", async function () {
+      const { rpsAsPlayer2, rps, player2, gameId } = await loadFixture(privateGameFixture);
+      const otherKey = privateKeyToAccount(generatePrivateKey());
+
+      await expect(
+        rpsAsPlayer2.write.joinGameWithInvite(
+          [
+            gameId,
+            await otherKey.signMessage({
+              message: { raw: await rps.read.inviteDigest([gameId, player2.account.address]) },
+            }),
+          ],
+          { value: STAKE }
+        )
+      ).to.be.rejectedWith("Invalid invite");
+    });
+
+    it("Should reject invite codes for open games", async function () {
+      const { rpsAsPlayer1, rpsAsPlayer2, player2 } = await loadFixture(deployFixture);
+      const inviteKey = privateKeyToAccount(generatePrivateKey());
+
+      await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+
+      await expect(
+        rpsAsPlayer2.write.joinGameWithInvite(
+          [1n, await inviteKey.signMessage({ message: player2.account.address })],
+          { value: STAKE }
+        )
+      ).to.be.rejectedWith("Game is not private");
+    });
+
+    it("Should reject a missing invitee or the creator", async function () {
+      const { rpsAsPlayer1, player1 } = await loadFixture(deployFixture);
+
+      await expect(
+        rpsAsPlayer1.write.createPrivateGame([GameType.OneRound, false, zeroAddress], {
+          value: STAKE,
+        })
+      ).to.be.rejectedWith("Invalid invitee");
+      await expect(
+        rpsAsPlayer1.write.createPrivateGame(
+          [GameType.OneRound, false, getAddress(player1.account.address)],
+          { value: STAKE }
+        )
+      ).to.be.rejectedWith("Cannot invite yourself");
+    });
+
+    it("Should create private commit-reveal games", async function () {
+      const { rps, rpsAsPlayer1, player2 } = await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.createPrivateGame(
+        [GameType.BestOfThree, true, getAddress(player2.account.address)],
+        { value: STAKE }
+      );
+
+      const game = await rps.read.getGameById([1n]);
+      expect(game.commitReveal).to.equal(true);
+      expect(game.gameType).to.equal(GameType.BestOfThree);
+    });
+  });
+
+  describe("Making moves", function () {
+    it("Should record the move", async function () {
+      const { rps, rpsAsPlayer1, player1, gameId } = await loadFixture(
+        plainBestOfThreeFixture
+      );
+
+      await rpsAsPlayer1.write.makeMove([gameId, Choice.Paper]);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.choices).to.deep.equal([Choice.Paper, Choice.None]);
+      expect(game.lastPlayerMove).to.equal(getAddress(player1.account.address));
+      expect(game.player1Moves).to.deep.equal([Choice.Paper]);
+
+      const movedEvents = await rps.getEvents.PlayerMoved();
+      expect(movedEvents).to.have.lengthOf(1);
+      expect(movedEvents[0].args).to.deep.equal({
+        gameId,
+        player: getAddress(player1.account.address),
+        choice: Choice.Paper,
+      });
+    });
+
+    it("Should resolve the round once both players moved", async function () {
+      const { rps, gameId, playRound } = await loadFixture(plainBestOfThreeFixture);
+
+      await playRound(Choice.Rock, Choice.Paper);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.roundsPlayed).to.equal(1);
+      expect(game.scores).to.deep.equal([0, 1]);
+      expect(game.choices).to.deep.equal([Choice.None, Choice.None]);
+      expect(game.lastPlayerMove).to.equal(zeroAddress);
+      expect(game.player1Moves).to.deep.equal([Choice.Rock]);
+      expect(game.player2Moves).to.deep.equal([Choice.Paper]);
+
+      const roundEvents = await rps.getEvents.RoundPlayed();
+      expect(roundEvents).to.have.lengthOf(1);
+      expect(roundEvents[0].args).to.deep.equal({
+        gameId,
+        roundNumber: 1,
+        player1Choice: Choice.Rock,
+        player2Choice: Choice.Paper,
+      });
+    });
+
+    it("Should let either player move first in the next round", async function () {
+      const { rps, rpsAsPlayer1, rpsAsPlayer2, gameId, playRound } = await loadFixture(
+        plainBestOfThreeFixture
+      );
+
+      await playRound(Choice.Rock, Choice.Rock);
+      await rpsAsPlayer2.write.makeMove([gameId, Choice.Scissors]);
+      await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.roundsPlayed).to.equal(2);
+      expect(game.scores).to.deep.equal([1, 0]);
+    });
+
+    it("Should award no point on ties", async function () {
+      const { rps, gameId, playRound } = await loadFixture(plainBestOfThreeFixture);
+
+      await playRound(Choice.Scissors, Choice.Scissors);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.roundsPlayed).to.equal(1);
+      expect(game.scores).to.deep.equal([0, 0]);
+      expect(game.isActive).to.equal(true);
+    });
+
+    it("Should reject invalid choices", async function () {
+      const { rpsAsPlayer1, gameId } = await loadFixture(plainOneRoundFixture);
+
+      await expect(
+        rpsAsPlayer1.write.makeMove([gameId, Choice.None])
+      ).to.be.rejectedWith("Invalid choice");
+    });
+
+    it("Should reject two moves in a row", async function () {
+      const { rpsAsPlayer1, gameId } = await loadFixture(plainBestOfThreeFixture);
+
+      await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+
+      // This check runs before "Choice already made", which no move can reach
+      await expect(
+        rpsAsPlayer1.write.makeMove([gameId, Choice.Paper])
+      ).to.be.rejectedWith("Cannot make two moves in a row");
+    });
+
+    it("Should reject non-players", async function () {
+      const { rpsAsOutsider, gameId } = await loadFixture(plainOneRoundFixture);
+
+      await expect(
+        rpsAsOutsider.write.makeMove([gameId, Choice.Rock])
+      ).to.be.rejectedWith("Not a player in this game");
+    });
+
+    it("Should reject moves in ended games", async function () {
+      const { rpsAsPlayer1, gameId, playRound } = await loadFixture(plainOneRoundFixture);
+
+      await playRound(Choice.Rock, Choice.Scissors);
+
+      await expect(
+        rpsAsPlayer1.write.makeMove([gameId, Choice.Rock])
+      ).to.be.rejectedWith("Game is not active");
+    });
+  });
+
+  describe("Game types", function () {
+    it("Should end a OneRound game after one round", async function () {
+      const { rps, gameId, playRound } = await loadFixture(plainOneRoundFixture);
+
+      await playRound(Choice.Paper, Choice.Rock);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.isActive).to.equal(false);
+      expect(game.scores).to.deep.equal([1, 0]);
+    });
+
+    it("Should end a BestOfThree game when a player wins two rounds", async function () {
+      const { rps, gameId, playRound } = await loadFixture(plainBestOfThreeFixture);
+
+      await playRound(Choice.Paper, Choice.Rock);
+      await playRound(Choice.Paper, Choice.Scissors);
+      expect((await rps.read.getGameById([gameId])).isActive).to.equal(true);
+
+      await playRound(Choice.Scissors, Choice.Paper);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.isActive).to.equal(false);
+      expect(game.roundsPlayed).to.equal(3);
+      expect(game.scores).to.deep.equal([2, 1]);
+    });
+
+    it("Should not count ties towards a BestOfThree win", async function () {
+      const { rps, gameId, playRound } = await loadFixture(plainBestOfThreeFixture);
+
+      await playRound(Choice.Rock, Choice.Rock);
+      await playRound(Choice.Paper, Choice.Paper);
+      await playRound(Choice.Rock, Choice.Paper);
+      expect((await rps.read.getGameById([gameId])).isActive).to.equal(true);
+
+      await playRound(Choice.Scissors, Choice.Rock);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.isActive).to.equal(false);
+      expect(game.roundsPlayed).to.equal(4);
+      expect(game.scores).to.deep.equal([0, 2]);
+    });
+
+    it("Should end a BestOfFive game when a player wins three rounds", async function () {
+      const { rps, gameId, playRound } = await loadFixture(plainBestOfFiveFixture);
+
+      await playRound(Choice.Rock, Choice.Scissors);
+      await playRound(Choice.Rock, Choice.Scissors);
+      await playRound(Choice.Rock, Choice.Paper);
+      await playRound(Choice.Rock, Choice.Paper);
+      expect((await rps.read.getGameById([gameId])).isActive).to.equal(true);
+
+      await playRound(Choice.Rock, Choice.Scissors);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.isActive).to.equal(false);
+      expect(game.roundsPlayed).to.equal(5);
+      expect(game.scores).to.deep.equal([3, 2]);
+    });
+  });
+
+  describe("Payouts", function () {
+    it("Should pay the winner the pot minus the creator fee", async function () {
+      const { rps, rpsAsPlayer1, rpsAsPlayer2, owner, player1, gameId, publicClient } =
+        await loadFixture(plainOneRoundFixture);
+      const pot = STAKE * 2n;
+      const payout = (pot * (10000n - 25n)) / 10000n;
+
+      await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+      const winnerBalance = await publicClient.getBalance({ address: player1.account.address });
+      const ownerBalance = await publicClient.getBalance({ address: owner.account.address });
+
+      // The loser sends the move ending the game, so the winner pays no gas for it
+      await rpsAsPlayer2.write.makeMove([gameId, Choice.Scissors]);
+
+      expect(
+        await publicClient.getBalance({ address: player1.account.address })
+      ).to.equal(winnerBalance + payout);
+      expect(
+        await publicClient.getBalance({ address: owner.account.address })
+      ).to.equal(ownerBalance + pot - payout);
+      expect(await publicClient.getBalance({ address: rps.address })).to.equal(0n);
+
+      const endedEvents = await rps.getEvents.GameEnded();
+      expect(endedEvents).to.have.lengthOf(1);
+      expect(endedEvents[0].args).to.deep.equal({
+        gameId,
+        winner: getAddress(player1.account.address),
+        payout,
+      });
+    });
+
+    it("Should round the payout down and leave the remainder to the fee", async function () {
+      const { rps, rpsAsPlayer1, rpsAsPlayer2, owner, publicClient } = await loadFixture(
+        deployFixture
+      );
+      const ownerBalance = await publicClient.getBalance({ address: owner.account.address });
+
+      // 2 wei pot: the payout is 1.995 wei, rounded down to 1
+      await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: 1n });
+      await rpsAsPlayer2.write.joinGame([1n], { value: 1n });
+      await rpsAsPlayer1.write.makeMove([1n, Choice.Rock]);
+      await rpsAsPlayer2.write.makeMove([1n, Choice.Scissors]);
+
+      const endedEvents = await rps.getEvents.GameEnded();
+      expect(endedEvents[0].args.payout).to.equal(1n);
+      expect(
+        await publicClient.getBalance({ address: owner.account.address })
+      ).to.equal(ownerBalance + 1n);
+      expect(await publicClient.getBalance({ address: rps.address })).to.equal(0n);
+    });
+
+    it("Should refund both stakes without fee on a OneRound tie", async function () {
+      const { rps, rpsAsPlayer1, rpsAsPlayer2, owner, player1, player2, gameId, publicClient } =
+        await loadFixture(plainOneRoundFixture);
+      const ownerBalance = await publicClient.getBalance({ address: owner.account.address });
+
+      await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+      const player1Balance = await publicClient.getBalance({ address: player1.account.address });
+      const player2Balance = await publicClient.getBalance({ address: player2.account.address });
+
+      const hash = await rpsAsPlayer2.write.makeMove([gameId, Choice.Rock]);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
+
+      expect(
+        await publicClient.getBalance({ address: player1.account.address })
+      ).to.equal(player1Balance + STAKE);
+      expect(
+        await publicClient.getBalance({ address: player2.account.address })
+      ).to.equal(player2Balance + STAKE - gasCost);
+      expect(
+        await publicClient.getBalance({ address: owner.account.address })
+      ).to.equal(ownerBalance);
+      expect(await publicClient.getBalance({ address: rps.address })).to.equal(0n);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.isActive).to.equal(false);
+
+      const endedEvents = await rps.getEvents.GameEnded();
+      expect(endedEvents).to.have.lengthOf(1);
+      expect(endedEvents[0].args).to.deep.equal({
+        gameId,
+        winner: zeroAddress,
+        payout: 0n,
+      });
+    });
+  });
+
+  describe("Views", function () {
+    it("Should return the games of a list of ids", async function () {
+      const { rps, rpsAsPlayer1, player1, player2, gameId, playRound } = await loadFixture(
+        plainBestOfThreeFixture
+      );
+
+      await playRound(Choice.Rock, Choice.Scissors);
+      await rpsAsPlayer1.write.createGame([GameType.BestOfFive], { value: STAKE * 2n });
+
+      const [first, second] = await rps.read.getGamesInfo([[gameId, 2n]]);
+
+      expect(first).to.deep.equal({
+        gameId,
+        players: [getAddress(player1.account.address), getAddress(player2.account.address)],
+        stake: STAKE,
+        gameType: GameType.BestOfThree,
+        roundsPlayed: 1,
+        scores: [1, 0],
+        choices: [Choice.None, Choice.None],
+        isActive: true,
+        lastPlayerMove: zeroAddress,
+        player1Moves: [Choice.Rock],
+        player2Moves: [Choice.Scissors],
+      });
+      expect(second.gameId).to.equal(2n);
+      expect(second.stake).to.equal(STAKE * 2n);
+      expect(second.gameType).to.equal(GameType.BestOfFive);
+      expect(second.players[1]).to.equal(zeroAddress);
+    });
+
+    it("Should return an empty game for unknown ids", async function () {
+      const { rps } = await loadFixture(deployFixture);
+
+      const [game] = await rps.read.getGamesInfo([[42n]]);
+
+      expect(game.gameId).to.equal(42n);
+      expect(game.players).to.deep.equal([zeroAddress, zeroAddress]);
+      expect(game.isActive).to.equal(false);
+    });
+
+    it("Should return the moves of each player", async function () {
+      const { rps, player1, player2, gameId, playRound } = await loadFixture(
+        plainBestOfThreeFixture
+      );
+
+      await playRound(Choice.Rock, Choice.Rock);
+      await playRound(Choice.Paper, Choice.Scissors);
+
+      expect(
+        await rps.read.getPlayerMoves([gameId, player1.account.address])
+      ).to.deep.equal([Choice.Rock, Choice.Paper]);
+      expect(
+        await rps.read.getPlayerMoves([gameId, player2.account.address])
+      ).to.deep.equal([Choice.Rock, Choice.Scissors]);
+    });
+
+    it("Should reject moves of non-players", async function () {
+      const { rps, outsider, gameId } = await loadFixture(plainOneRoundFixture);
+
+      await expect(
+        rps.read.getPlayerMoves([gameId, outsider.account.address])
+      ).to.be.rejectedWith("Player not in this game");
+    });
+  });
+
+  describe("Commit-reveal", function () {
+    const salt1 = toHex("player1 salt", { size: 32 });
+    const salt2 = toHex("player2 salt", { size: 32 });
+
+    it("Should create games in commit-reveal mode", async function () {
+      const { rps, gameId } = await loadFixture(oneRoundFixture);
+
+      const game = await rps.read.getGameById([gameId]);
+
+      expect(game.commitReveal).to.equal(true);
+      expect(game.commitments).to.deep.equal([
+        toHex(0, { size: 32 }),
+        toHex(0, { size: 32 }),
+      ]);
+    });
+
+    it("Should store commitments without revealing the choice", async function () {
+      const { rps, rpsAsPlayer1, player1, gameId } = await loadFixture(
+        oneRoundFixture
+      );
+      const hash = commitment(gameId, 1, player1.account.address, Choice.Rock, salt1);
+
+      await rpsAsPlayer1.write.commitMove([gameId, hash]);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.commitments[0]).to.equal(hash);
+      expect(game.choices).to.deep.equal([Choice.None, Choice.None]);
+      expect(game.player1Moves).to.deep.equal([]);
+
+      const commitEvents = await rps.getEvents.MoveCommitted();
+      expect(commitEvents).to.have.lengthOf(1);
+      expect(commitEvents[0].args).to.deep.equal({
+        gameId,
+        player: getAddress(player1.account.address),
+        roundNumber: 1,
+      });
+    });
+
+    it("Should resolve the round once both moves are revealed", async function () {
+      const { rps, rpsAsPlayer1, rpsAsPlayer2, player1, player2, gameId, publicClient } =
+        await loadFixture(oneRoundFixture);
+
+      await rpsAsPlayer1.write.commitMove([
+        gameId,
+        commitment(gameId, 1, player1.account.address, Choice.Rock, salt1),
+      ]);
+      await rpsAsPlayer2.write.commitMove([
+        gameId,
+        commitment(gameId, 1, player2.account.address, Choice.Scissors, salt2),
+      ]);
+
+      await rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt1]);
+      const hash = await rpsAsPlayer2.write.revealMove([gameId, Choice.Scissors, salt2]);
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.isActive).to.equal(false);
+      expect(game.scores).to.deep.equal([1, 0]);
+      expect(game.player1Moves).to.deep.equal([Choice.Rock]);
+      expect(game.player2Moves).to.deep.equal([Choice.Scissors]);
+
+      const endedEvents = await rps.getEvents.GameEnded();
+      expect(endedEvents).to.have.lengthOf(1);
+      expect(endedEvents[0].args.winner).to.equal(getAddress(player1.account.address));
+    });
+
+    it("Should clear commitments between rounds", async function () {
+      const { rps, rpsAsPlayer1, rpsAsPlayer2, player1, player2, gameId } =
+        await loadFixture(bestOfThreeFixture);
+
+      await rpsAsPlayer1.write.commitMove([
+        gameId,
+        commitment(gameId, 1, player1.account.address, Choice.Paper, salt1),
+      ]);
+      await rpsAsPlayer2.write.commitMove([
+        gameId,
+        commitment(gameId, 1, player2.account.address, Choice.Rock, salt2),
+      ]);
+      await rpsAsPlayer1.write.revealMove([gameId, Choice.Paper, salt1]);
+      await rpsAsPlayer2.write.revealMove([gameId, Choice.Rock, salt2]);
+
+      const game = await rps.read.getGameById([gameId]);
+      expect(game.isActive).to.equal(true);
+      expect(game.roundsPlayed).to.equal(1);
+      expect(game.commitments).to.deep.equal([
+        toHex(0, { size: 32 }),
+        toHex(0, { size: 32 }),
+      ]);
+    });
+
+    it("Should reject plain moves in commit-reveal games", async function () {
+      const { rpsAsPlayer1, gameId } = await loadFixture(oneRoundFixture);
+
+      await expect(
+        rpsAsPlayer1.write.makeMove([gameId, Choice.Rock])
+      ).to.be.rejectedWith("Game uses commit-reveal");
+    });
+
+    it("Should reject commits in plain games", async function () {
+      const { rpsAsPlayer1, rpsAsPlayer2, player1 } = await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+      await rpsAsPlayer2.write.joinGame([1n], { value: STAKE });
+
+      await expect(
+        rpsAsPlayer1.write.commitMove([
+          1n,
+          commitment(1n, 1, player1.account.address, Choice.Rock, salt1),
+        ])
+      ).to.be.rejectedWith("Game does not use commit-reveal");
+    });
+
+    it("Should reject commits before an opponent joined", async function () {
+      const { rpsAsPlayer1, player1 } = await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.createCommitRevealGame([GameType.OneRound], {
+        value: STAKE,
+      });
+
+      await expect(
+        rpsAsPlayer1.write.commitMove([
+          1n,
+          commitment(1n, 1, player1.account.address, Choice.Rock, salt1),
+        ])
+      ).to.be.rejectedWith("Waiting for opponent");
+    });
+
+    it("Should reject commits from non-players and empty commitments", async function () {
+      const { rpsAsPlayer1, rpsAsOutsider, outsider, gameId } = await loadFixture(
+        oneRoundFixture
+      );
+
+      await expect(
+        rpsAsOutsider.write.commitMove([
+          gameId,
+          commitment(gameId, 1, outsider.account.address, Choice.Rock, salt1),
+        ])
+      ).to.be.rejectedWith("Not a player in this game");
+      await expect(
+        rpsAsPlayer1.write.commitMove([gameId, toHex(0, { size: 32 })])
+      ).to.be.rejectedWith("Invalid commitment");
+    });
+
+    it("Should reject a second commit in the same round", async function () {
+      const { rpsAsPlayer1, player1, gameId } = await loadFixture(oneRoundFixture);
+
+      await rpsAsPlayer1.write.commitMove([
+        gameId,
+        commitment(gameId, 1, player1.account.address, Choice.Rock, salt1),
+      ]);
+
+      await expect(
+        rpsAsPlayer1.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player1.account.address, Choice.Paper, salt1),
+        ])
+      ).to.be.rejectedWith("Move already committed");
+    });
+
+    it("Should reject reveals before both players committed", async function () {
+      const { rpsAsPlayer1, player1, gameId } = await loadFixture(oneRoundFixture);
+
+      await rpsAsPlayer1.write.commitMove([
+        gameId,
+        commitment(gameId, 1, player1.account.address, Choice.Rock, salt1),
+      ]);
+
+      await expect(
+        rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt1])
+      ).to.be.rejectedWith("Waiting for both commitments");
+    });
+
+    describe("Mismatched reveals", function () {
+      async function committedFixture() {
+        const fixture = await commitRevealGameFixture(GameType.OneRound);
+        const { rpsAsPlayer1, rpsAsPlayer2, player1, player2, gameId } = fixture;
+
+        await rpsAsPlayer1.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player1.account.address, Choice.Rock, salt1),
+        ]);
+        await rpsAsPlayer2.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player2.account.address, Choice.Paper, salt2),
+        ]);
+
+        return fixture;
+      }
+
+      it("Should reject a different choice than the committed one", async function () {
+        const { rpsAsPlayer1, gameId } = await loadFixture(committedFixture);
+
+        await expect(
+          rpsAsPlayer1.write.revealMove([gameId, Choice.Scissors, salt1])
+        ).to.be.rejectedWith("Reveal does not match commitment");
+      });
+
+      it("Should reject a different salt than the committed one", async function () {
+        const { rpsAsPlayer1, gameId } = await loadFixture(committedFixture);
+
+        await expect(
+          rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt2])
+        ).to.be.rejectedWith("Reveal does not match commitment");
+      });
+
+      it("Should reject invalid choices", async function () {
+        const { rpsAsPlayer1, gameId } = await loadFixture(committedFixture);
+
+        await expect(
+          rpsAsPlayer1.write.revealMove([gameId, Choice.None, salt1])
+        ).to.be.rejectedWith("Invalid choice");
+      });
+    });
+
+    describe("Replays", function () {
+      it("Should reject revealing the same move twice", async function () {
+        const { rpsAsPlayer1, rpsAsPlayer2, player1, player2, gameId } =
+          await loadFixture(oneRoundFixture);
+
+        await rpsAsPlayer1.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player1.account.address, Choice.Rock, salt1),
+        ]);
+        await rpsAsPlayer2.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player2.account.address, Choice.Paper, salt2),
+        ]);
+        await rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt1]);
+
+        await expect(
+          rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt1])
+        ).to.be.rejectedWith("Move already revealed");
+      });
+
+      it("Should not let a player copy the opponent's commitment", async function () {
+        const { rps, rpsAsPlayer1, rpsAsPlayer2, player1, gameId } =
+          await loadFixture(oneRoundFixture);
+
+        await rpsAsPlayer1.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player1.account.address, Choice.Rock, salt1),
+        ]);
+
+        // Player 2 submits player 1's commitment, then replays player 1's reveal
+        const [player1Commitment] = (await rps.read.getGameById([gameId])).commitments;
+        await rpsAsPlayer2.write.commitMove([gameId, player1Commitment]);
+        await rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt1]);
+
+        await expect(
+          rpsAsPlayer2.write.revealMove([gameId, Choice.Rock, salt1])
+        ).to.be.rejectedWith("Reveal does not match commitment");
+      });
+
+      it("Should not accept a commitment from a previous round", async function () {
+        const { rpsAsPlayer1, rpsAsPlayer2, player1, player2, gameId } =
+          await loadFixture(bestOfThreeFixture);
+        const roundOneCommitment = commitment(
+          gameId,
+          1,
+          player1.account.address,
+          Choice.Rock,
+          salt1
+        );
+
+        await rpsAsPlayer1.write.commitMove([gameId, roundOneCommitment]);
+        await rpsAsPlayer2.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player2.account.address, Choice.Rock, salt2),
+        ]);
+        await rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt1]);
+        await rpsAsPlayer2.write.revealMove([gameId, Choice.Rock, salt2]);
+
+        // Round two: player 1 reuses the commitment and reveal of round one
+        await rpsAsPlayer1.write.commitMove([gameId, roundOneCommitment]);
+        await rpsAsPlayer2.write.commitMove([
+          gameId,
+          commitment(gameId, 2, player2.account.address, Choice.Paper, salt2),
+        ]);
+
+        await expect(
+          rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt1])
+        ).to.be.rejectedWith("Reveal does not match commitment");
+      });
+
+      it("Should not accept a commitment from another game", async function () {
+        const { rpsAsPlayer1, rpsAsPlayer2, player1, player2, gameId } =
+          await loadFixture(oneRoundFixture);
+
+        await rpsAsPlayer1.write.createCommitRevealGame([GameType.OneRound], {
+          value: STAKE,
+        });
+        await rpsAsPlayer2.write.joinGame([2n], { value: STAKE });
+
+        await rpsAsPlayer1.write.commitMove([
+          2n,
+          commitment(gameId, 1, player1.account.address, Choice.Rock, salt1),
+        ]);
+        await rpsAsPlayer2.write.commitMove([
+          2n,
+          commitment(2n, 1, player2.account.address, Choice.Paper, salt2),
+        ]);
+
+        await expect(
+          rpsAsPlayer1.write.revealMove([2n, Choice.Rock, salt1])
+        ).to.be.rejectedWith("Reveal does not match commitment");
+      });
+    });
+  });
+
+  describe("Timeouts", function () {
+    const salt = toHex("salt", { size: 32 });
+
+    async function timeoutGameFixture() {
+      const fixture = await plainBestOfThreeFixture();
+
+      return {
+        ...fixture,
+        moveTimeout: await fixture.rps.read.MOVE_TIMEOUT(),
+      };
+    }
+
+    describe("cancelGame", function () {
+      it("Should refund the creator of a game nobody joined", async function () {
+        const { rps, rpsAsPlayer1, publicClient } = await loadFixture(deployFixture);
+
+        await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+        const hash = await rpsAsPlayer1.write.cancelGame([1n]);
+        await publicClient.waitForTransactionReceipt({ hash });
+
+        expect((await rps.read.getGameById([1n])).isActive).to.equal(false);
+        expect(await publicClient.getBalance({ address: rps.address })).to.equal(0n);
+
+        const cancelEvents = await rps.getEvents.GameCancelled();
+        expect(cancelEvents).to.have.lengthOf(1);
+        expect(cancelEvents[0].args.gameId).to.equal(1n);
+      });
+
+      it("Should not let anyone join a cancelled game", async function () {
+        const { rpsAsPlayer1, rpsAsPlayer2 } = await loadFixture(deployFixture);
+
+        await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+        await rpsAsPlayer1.write.cancelGame([1n]);
+
+        await expect(
+          rpsAsPlayer2.write.joinGame([1n], { value: STAKE })
+        ).to.be.rejectedWith("Game is not active");
+        await expect(rpsAsPlayer1.write.cancelGame([1n])).to.be.rejectedWith(
+          "Game is not active"
+        );
+      });
+
+      it("Should only let the creator cancel", async function () {
+        const { rpsAsPlayer1, rpsAsOutsider } = await loadFixture(deployFixture);
+
+        await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+
+        await expect(rpsAsOutsider.write.cancelGame([1n])).to.be.rejectedWith(
+          "Only the creator can cancel"
+        );
+      });
+
+      it("Should not cancel joined games", async function () {
+        const { rpsAsPlayer1, gameId } = await loadFixture(timeoutGameFixture);
+
+        await expect(rpsAsPlayer1.write.cancelGame([gameId])).to.be.rejectedWith(
+          "Game already joined"
+        );
+      });
+    });
+
+    describe("claimForfeit", function () {
+      it("Should pay the winnings to the player whose opponent did not move in time", async function () {
+        const { rps, rpsAsPlayer1, player1, gameId, moveTimeout, publicClient } =
+          await loadFixture(timeoutGameFixture);
+
+        await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+        await time.increase(moveTimeout);
+
+        const hash = await rpsAsPlayer1.write.claimForfeit([gameId]);
+        await publicClient.waitForTransactionReceipt({ hash });
+
+        expect((await rps.read.getGameById([gameId])).isActive).to.equal(false);
+        expect(await publicClient.getBalance({ address: rps.address })).to.equal(0n);
+
+        const endedEvents = await rps.getEvents.GameEnded();
+        expect(endedEvents).to.have.lengthOf(1);
+        expect(endedEvents[0].args).to.deep.equal({
+          gameId,
+          winner: getAddress(player1.account.address),
+          payout: (STAKE * 2n * (10000n - 25n)) / 10000n,
+        });
+      });
+
+      it("Should reject claims before the move timeout", async function () {
+        const { rpsAsPlayer1, gameId, moveTimeout } = await loadFixture(
+          timeoutGameFixture
+        );
+
+        await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+        await time.increase(moveTimeout - 60n);
+
+        await expect(
+          rpsAsPlayer1.write.claimForfeit([gameId])
+        ).to.be.rejectedWith("Move timeout not reached");
+      });
+
+      it("Should restart the timeout when the round resolves", async function () {
+        const { rpsAsPlayer1, rpsAsPlayer2, gameId, moveTimeout } =
+          await loadFixture(timeoutGameFixture);
+
+        await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+        await time.increase(moveTimeout - 60n);
+        await rpsAsPlayer2.write.makeMove([gameId, Choice.Scissors]);
+        await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+        await time.increase(120n);
+
+        await expect(
+          rpsAsPlayer1.write.claimForfeit([gameId])
+        ).to.be.rejectedWith("Move timeout not reached");
+      });
+
+      it("Should reject claims from the player who has to move", async function () {
+        const { rpsAsPlayer1, rpsAsPlayer2, gameId, moveTimeout } =
+          await loadFixture(timeoutGameFixture);
+
+        await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+        await time.increase(moveTimeout);
+
+        await expect(
+          rpsAsPlayer2.write.claimForfeit([gameId])
+        ).to.be.rejectedWith("Opponent is not late");
+      });
+
+      it("Should reject claims when nobody moved in the round", async function () {
+        const { rpsAsPlayer1, gameId, moveTimeout } = await loadFixture(
+          timeoutGameFixture
+        );
+
+        await time.increase(moveTimeout);
+
+        await expect(
+          rpsAsPlayer1.write.claimForfeit([gameId])
+        ).to.be.rejectedWith("Opponent is not late");
+      });
+
+      it("Should reject claims on games nobody joined", async function () {
+        const { rps, rpsAsPlayer1 } = await loadFixture(deployFixture);
+
+        await rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE });
+        await time.increase(await rps.read.MOVE_TIMEOUT());
+
+        await expect(rpsAsPlayer1.write.claimForfeit([1n])).to.be.rejectedWith(
+          "Waiting for opponent"
+        );
+      });
+
+      it("Should reject claims from non-players", async function () {
+        const { rpsAsPlayer1, rpsAsOutsider, gameId, moveTimeout } =
+          await loadFixture(timeoutGameFixture);
+
+        await rpsAsPlayer1.write.makeMove([gameId, Choice.Rock]);
+        await time.increase(moveTimeout);
+
+        await expect(
+          rpsAsOutsider.write.claimForfeit([gameId])
+        ).to.be.rejectedWith("Not a player in this game");
+      });
+
+      it("Should let a player claim when the opponent never commits", async function () {
+        const { rps, rpsAsPlayer1, player1, gameId } = await loadFixture(
+          oneRoundFixture
+        );
+        const moveTimeout = await rps.read.MOVE_TIMEOUT();
+
+        await rpsAsPlayer1.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player1.account.address, Choice.Rock, salt),
+        ]);
+        await time.increase(moveTimeout);
+
+        await expect(rpsAsPlayer1.write.claimForfeit([gameId])).to.be.fulfilled;
+      });
+
+      it("Should let a player claim when the opponent never reveals", async function () {
+        const { rps, rpsAsPlayer1, rpsAsPlayer2, player1, player2, gameId } =
+          await loadFixture(oneRoundFixture);
+        const moveTimeout = await rps.read.MOVE_TIMEOUT();
+
+        await rpsAsPlayer1.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player1.account.address, Choice.Rock, salt),
+        ]);
+        await rpsAsPlayer2.write.commitMove([
+          gameId,
+          commitment(gameId, 1, player2.account.address, Choice.Paper, salt),
+        ]);
+        await time.increase(moveTimeout);
+
+        // Nobody revealed yet, both are late
+        await expect(
+          rpsAsPlayer1.write.claimForfeit([gameId])
+        ).to.be.rejectedWith("Opponent is not late");
+
+        await rpsAsPlayer1.write.revealMove([gameId, Choice.Rock, salt]);
+        await time.increase(moveTimeout);
+
+        await expect(
+          rpsAsPlayer2.write.claimForfeit([gameId])
+        ).to.be.rejectedWith("Opponent is not late");
+        await expect(rpsAsPlayer1.write.claimForfeit([gameId])).to.be.fulfilled;
+      });
+    });
+  });
+});
@@ -0,0 +1,448 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  encodeFunctionData,
+  getAddress,
+  parseEther,
+  type Address,
+  type Hex,
+} from "viem";
+
+enum Choice {
+  None,
+  Rock,
+  Paper,
+  Scissors,
+}
+
+enum GameType {
+  OneRound,
+  BestOfThree,
+  BestOfFive,
+}
+
+const STAKE = parseEther("0.01");
+const APPROVAL_TTL = 600n;
+
+describe("Venn firewall", function () {
+  async function deployFixture() {
+    const [owner, player1, player2, vennSigner, otherSigner] =
+      await hre.viem.getWalletClients();
+
+    const policy = await hre.viem.deployContract("MockVennPolicy", [
+      vennSigner.account.address,
+    ]);
+    const firewall = await hre.viem.deployContract("MockFirewall", [policy.address]);
+    const rps = await hre.viem.deployContract("RockPaperScissors");
+
+    await rps.write.setFirewall([firewall.address]);
+    await rps.write.setAttestationCenterProxy([policy.address]);
+
+    const asPlayer = async (player: typeof player1) =>
+      hre.viem.getContractAt("RockPaperScissors", rps.address, {
+        client: { wallet: player },
+      });
+
+    /**
+     * Signs the approval of one protected call, as the Venn node does, and returns the
+     * safeFunctionCall arguments that submit it along with the call
+     */
+    async function approve(
+      player: typeof player1,
+      data: Hex,
+      value = 0n,
+      {
+        signer = vennSigner,
+        expiration,
+      }: { signer?: typeof vennSigner; expiration?: bigint } = {}
+    ) {
+      const origin = player.account.address;
+      const callHash = await policy.read.getCallHash([
+        rps.address,
+        origin,
+        origin,
+        data,
+        value,
+      ]);
+      const deadline =
+        expiration ?? BigInt(await time.latest()) + APPROVAL_TTL;
+      const nonce = await policy.read.nonces([origin]);
+      const message = await policy.read.getApprovalMessage([
+        [callHash],
+        deadline,
+        origin,
+        nonce,
+      ]);
+      const signature = await signer.signMessage({ message: { raw: message } });
+
+      const proxyPayload = encodeFunctionData({
+        abi: policy.abi,
+        functionName: "approveCallsViaSignature",
+        args: [[callHash], deadline, origin, nonce, signature],
+      });
+
+      return [0n, proxyPayload, data] as const;
+    }
+
+    // Calldata of the protected calls, as sent to the Venn node
+    const createGameData = (gameType: GameType) =>
+      encodeFunctionData({ abi: rps.abi, functionName: "createGame", args: [gameType] });
+    const joinGameData = (gameId: bigint) =>
+      encodeFunctionData({ abi: rps.abi, functionName: "joinGame", args: [gameId] });
+    const makeMoveData = (gameId: bigint, choice: Choice) =>
+      encodeFunctionData({ abi: rps.abi, functionName: "makeMove", args: [gameId, choice] });
+
+    return {
+      rps,
+      policy,
+      firewall,
+      owner,
+      player1,
+      player2,
+      vennSigner,
+      otherSigner,
+      rpsAsPlayer1: await asPlayer(player1),
+      rpsAsPlayer2: await asPlayer(player2),
+      approve,
+      createGameData,
+      joinGameData,
+      makeMoveData,
+    };
+  }
+
+  describe("Configuration", function () {
+    it("Should route the protected calls through the mock firewall and policy", async function () {
+      const { policy, firewall, vennSigner } = await loadFixture(deployFixture);
+
+      expect(await firewall.read.policy()).to.equal(getAddress(policy.address));
+      expect(await policy.read.signer()).to.equal(
+        getAddress(vennSigner.account.address)
+      );
+    });
+
+    it("Should only let the firewall admin change the firewall", async function () {
+      const { rpsAsPlayer1, player1 } = await loadFixture(deployFixture);
+
+      await expect(
+        rpsAsPlayer1.write.setFirewall([player1.account.address])
+      ).to.be.rejectedWith("FirewallConsumer: not firewall admin");
+    });
+
+    it("Should reject attestation proxies that cannot approve calls", async function () {
+      const { rps, firewall } = await loadFixture(deployFixture);
+
+      await expect(rps.write.setAttestationCenterProxy([firewall.address])).to.be
+        .rejected;
+    });
+  });
+
+  describe("Approved calls", function () {
+    it("Should run an approved call through safeFunctionCall", async function () {
+      const { rps, rpsAsPlayer1, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const data = createGameData(GameType.OneRound);
+      await rpsAsPlayer1.write.safeFunctionCall(
+        await approve(player1, data, STAKE),
+        { value: STAKE }
+      );
+
+      const game = await rps.read.getGameById([1n]);
+      expect(game.players[0]).to.equal(getAddress(player1.account.address));
+      expect(game.stake).to.equal(STAKE);
+    });
+
+    it("Should approve a whole game, including the call that ends it", async function () {
+      const {
+        rps,
+        rpsAsPlayer1,
+        rpsAsPlayer2,
+        player1,
+        player2,
+        approve,
+        createGameData,
+        joinGameData,
+        makeMoveData,
+      } = await loadFixture(deployFixture);
+
+      await rpsAsPlayer1.write.safeFunctionCall(
+        await approve(player1, createGameData(GameType.OneRound), STAKE),
+        { value: STAKE }
+      );
+      await rpsAsPlayer2.write.safeFunctionCall(
+        await approve(player2, joinGameData(1n), STAKE),
+        { value: STAKE }
+      );
+      await rpsAsPlayer1.write.safeFunctionCall(
+        await approve(player1, makeMoveData(1n, Choice.Rock))
+      );
+      // The last move also runs the protected _endGame with the same call
+      await rpsAsPlayer2.write.safeFunctionCall(
+        await approve(player2, makeMoveData(1n, Choice.Scissors))
+      );
+
+      const game = await rps.read.getGameById([1n]);
+      expect(game.isActive).to.be.false;
+      expect(game.scores).to.deep.equal([1, 0]);
+
+      const [ended] = await rps.getEvents.GameEnded();
+      expect(ended.args.winner).to.equal(getAddress(player1.account.address));
+    });
+
+    it("Should emit the approved call hashes", async function () {
+      const { rpsAsPlayer1, policy, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const args = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE
+      );
+      await rpsAsPlayer1.write.safeFunctionCall(args, { value: STAKE });
+
+      const events = await policy.getEvents.CallsApproved();
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].args.txOrigin).to.equal(getAddress(player1.account.address));
+    });
+  });
+
+  describe("Rejected calls", function () {
+    it("Should reject protected calls sent without an approval", async function () {
+      const { rpsAsPlayer1 } = await loadFixture(deployFixture);
+
+      await expect(
+        rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE })
+      ).to.be.rejectedWith("MockVennPolicy: call not approved");
+    });
+
+    it("Should reject approvals signed by another signer", async function () {
+      const { rpsAsPlayer1, player1, otherSigner, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const args = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE,
+        { signer: otherSigner }
+      );
+
+      await expect(
+        rpsAsPlayer1.write.safeFunctionCall(args, { value: STAKE })
+      ).to.be.rejectedWith("VennFirewallConsumer: Proxy call failed");
+    });
+
+    it("Should reject expired approvals", async function () {
+      const { rpsAsPlayer1, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const args = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE,
+        { expiration: BigInt(await time.latest()) }
+      );
+      await time.increase(1);
+
+      await expect(
+        rpsAsPlayer1.write.safeFunctionCall(args, { value: STAKE })
+      ).to.be.rejectedWith("VennFirewallConsumer: Proxy call failed");
+    });
+
+    it("Should reject calls that differ from the approved one", async function () {
+      const { rpsAsPlayer1, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const [fee, proxyPayload] = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE
+      );
+
+      await expect(
+        rpsAsPlayer1.write.safeFunctionCall(
+          [fee, proxyPayload, createGameData(GameType.BestOfFive)],
+          { value: STAKE }
+        )
+      ).to.be.rejectedWith("MockVennPolicy: call not approved");
+    });
+
+    it("Should reject a different value than the approved one", async function () {
+      const { rpsAsPlayer1, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const args = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE
+      );
+
+      await expect(
+        rpsAsPlayer1.write.safeFunctionCall(args, { value: STAKE * 2n })
+      ).to.be.rejectedWith("MockVennPolicy: call not approved");
+    });
+
+    it("Should reject approvals sent by another account", async function () {
+      const { rpsAsPlayer2, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const args = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE
+      );
+
+      await expect(
+        rpsAsPlayer2.write.safeFunctionCall(args, { value: STAKE })
+      ).to.be.rejectedWith("VennFirewallConsumer: Proxy call failed");
+    });
+
+    it("Should not accept the same approval twice", async function () {
+      const { rpsAsPlayer1, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const args = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE
+      );
+      await rpsAsPlayer1.write.safeFunctionCall(args, { value: STAKE });
+
+      await expect(
+        rpsAsPlayer1.write.safeFunctionCall(args, { value: STAKE })
+      ).to.be.rejectedWith("VennFirewallConsumer: Proxy call failed");
+    });
+
+    it("Should not carry approvals over to later blocks", async function () {
+      const { rpsAsPlayer1, player1, approve, createGameData } =
+        await loadFixture(deployFixture);
+
+      const args = await approve(
+        player1,
+        createGameData(GameType.OneRound),
+        STAKE
+      );
+      await rpsAsPlayer1.write.safeFunctionCall(args, { value: STAKE });
+
+      await expect(
+        rpsAsPlayer1.write.createGame([GameType.OneRound], { value: STAKE })
+      ).to.be.rejectedWith("MockVennPolicy: call not approved");
+    });
+  });
+
+  describe("MockVennPolicy", function () {
+    async function approvalFixture() {
+      const fixture = await deployFixture();
+      const { policy, rps, player1, vennSigner } = fixture;
+
+      const origin: Address = player1.account.address;
+      const callHash = await policy.read.getCallHash([
+        rps.address,
+        origin,
+        origin,
+        "0x",
+        0n,
+      ]);
+      const expiration = BigInt(await time.latest()) + APPROVAL_TTL;
+      const sign = async (nonce: bigint, signer = vennSigner) =>
+        signer.signMessage({
+          message: {
+            raw: await policy.read.getApprovalMessage([
+              [callHash],
+              expiration,
+              origin,
+              nonce,
+            ]),
+          },
+        });
+      const policyAsPlayer1 = await hre.viem.getContractAt(
+        "MockVennPolicy",
+        policy.address,
+        { client: { wallet: player1 } }
+      );
+
+      return { ...fixture, origin, callHash, expiration, sign, policyAsPlayer1 };
+    }
+
+    it("Should advance the nonce of the transaction origin", async function () {
+      const { policy, policyAsPlayer1, origin, callHash, expiration, sign } =
+        await loadFixture(approvalFixture);
+
+      await policyAsPlayer1.write.approveCallsViaSignature([
+        [callHash],
+        expiration,
+        origin,
+        0n,
+        await sign(0n),
+      ]);
+
+      expect(await policy.read.nonces([origin])).to.equal(1n);
+    });
+
+    it("Should reject signatures from another signer", async function () {
+      const { policyAsPlayer1, origin, callHash, expiration, sign, otherSigner } =
+        await loadFixture(approvalFixture);
+
+      await expect(
+        policyAsPlayer1.write.approveCallsViaSignature([
+          [callHash],
+          expiration,
+          origin,
+          0n,
+          await sign(0n, otherSigner),
+        ])
+      ).to.be.rejectedWith("MockVennPolicy: invalid signature");
+    });
+
+    it("Should reject stale nonces", async function () {
+      const { policyAsPlayer1, origin, callHash, expiration, sign } =
+        await loadFixture(approvalFixture);
+
+      await expect(
+        policyAsPlayer1.write.approveCallsViaSignature([
+          [callHash],
+          expiration,
+          origin,
+          1n,
+          await sign(1n),
+        ])
+      ).to.be.rejectedWith("MockVennPolicy: invalid nonce");
+    });
+
+    it("Should reject approvals for another transaction origin", async function () {
+      const { policy, origin, callHash, expiration, sign } =
+        await loadFixture(approvalFixture);
+
+      await expect(
+        policy.write.approveCallsViaSignature([
+          [callHash],
+          expiration,
+          origin,
+          0n,
+          await sign(0n),
+        ])
+      ).to.be.rejectedWith("MockVennPolicy: wrong origin");
+    });
+
+    it("Should reject expired approvals", async function () {
+      const { policyAsPlayer1, origin, callHash, expiration, sign } =
+        await loadFixture(approvalFixture);
+
+      const signature = await sign(0n);
+      await time.increaseTo(expiration + 1n);
+
+      await expect(
+        policyAsPlayer1.write.approveCallsViaSignature([
+          [callHash],
+          expiration,
+          origin,
+          0n,
+          signature,
+        ])
+      ).to.be.rejectedWith("MockVennPolicy: expired");
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Dumps the `DetectionRequest` of a mined transaction as a JSON fixture.
+ *
+ * yarn trace:dump <tx hash> [--rpc-url http://127.0.0.1:8545] [--protocol <address>] [--out <file>]
+ *
+ * The protocol address defaults to the transaction target. Without `--out`, the request is
+ * printed to stdout.
+ */
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { Hash, isHash } from 'viem'
+
+import { TraceBuilder } from '@/modules/detection-module/trace'
+
+const DEFAULT_RPC_URL = 'http://127.0.0.1:8545'
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'rpc-url': { type: 'string', default: process.env.LOCAL_APPROVAL_RPC_URL },
+            protocol: { type: 'string' },
+            'protocol-name': { type: 'string' },
+            id: { type: 'string' },
+            out: { type: 'string' },
+        },
+    })
+
+    const [hash] = positionals
+    if (!hash || !isHash(hash)) {
+        throw new Error(
+            'Usage: trace:dump <tx hash> [--rpc-url url] [--protocol address] [--out file]',
+        )
+    }
+
+    const builder = new TraceBuilder(values['rpc-url'] || DEFAULT_RPC_URL)
+    const request = await builder.buildRequest(hash as Hash, {
+        id: values.id,
+        protocolName: values['protocol-name'],
+        protocolAddress: values.protocol,
+    })
+    request.protocolAddress ??= request.trace.to
+
+    const json = `${JSON.stringify(request, null, 4)}\n`
+
+    if (!values.out) {
+        process.stdout.write(json)
+        return
+    }
+
+    fs.mkdirSync(path.dirname(values.out), { recursive: true })
+    fs.writeFileSync(values.out, json)
+    console.error(`Wrote ${hash} to ${values.out}`)
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+})
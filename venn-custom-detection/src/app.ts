@@ -5,8 +5,26 @@ import dotenv from 'dotenv'
 import express from 'express'
 import http from 'http'
 import morgan from 'morgan'
-
-import { createLogger } from '@/helpers'
+import { Address, Hex } from 'viem'
+
+import { createLogger, trackHttpRequests } from '@/helpers'
+import {
+    approvalService,
+    ApprovalSigner,
+    detectorConfig,
+    fundingGraph,
+    gameTracker,
+    HARDHAT_APPROVAL_SIGNER_KEY,
+    HardhatChain,
+    historyIndexer,
+    historyStore,
+    loadDetectorConfig,
+    parseRuleIds,
+    reputationStore,
+    RpcHistoryChain,
+    ruleRegistry,
+    verdictStore,
+} from '@/modules'
 import { router } from '@/router'
 
 export const logger = createLogger()
@@ -20,6 +38,77 @@ const PORT = Number(process.env.PORT) || 3000
 const HOST = process.env.HOST || 'localhost'
 const URL = `http://${HOST}:${PORT}`
 
+const DETECTOR_CONFIG_PATH = process.env.DETECTOR_CONFIG_PATH || 'detector.config.json'
+// Tests get a fresh in-memory store on every run
+const VERDICT_DB_PATH =
+    process.env.NODE_ENV === 'test' ? ':memory:' : process.env.VERDICT_DB_PATH || 'data/verdicts.db'
+const HISTORY_DB_PATH =
+    process.env.NODE_ENV === 'test' ? ':memory:' : process.env.HISTORY_DB_PATH || 'data/history.db'
+
+// Detector config, rules & stores
+//
+try {
+    const config = loadDetectorConfig(DETECTOR_CONFIG_PATH)
+    const order = parseRuleIds(process.env.DETECTION_RULES_ORDER)
+    const disabled = parseRuleIds(process.env.DETECTION_RULES_DISABLED)
+
+    detectorConfig.use(config)
+
+    verdictStore.open(VERDICT_DB_PATH)
+
+    if (process.env.GAME_STATE_PATH) {
+        gameTracker.load(process.env.GAME_STATE_PATH)
+    }
+
+    if (process.env.FUNDING_GRAPH_PATH) {
+        fundingGraph.load(process.env.FUNDING_GRAPH_PATH)
+    }
+
+    if (process.env.REPUTATION_STORE_PATH) {
+        reputationStore.load(process.env.REPUTATION_STORE_PATH)
+    }
+
+    // Environment variables take precedence over the config file
+    ruleRegistry.configure({
+        order: order.length ? order : config.rules.order,
+        disabled: disabled.length ? disabled : config.rules.disabled,
+    })
+
+    // Local stand-in for the Venn node, never enabled unless asked for
+    if (process.env.LOCAL_APPROVAL_RPC_URL) {
+        approvalService.configure(
+            new HardhatChain(process.env.LOCAL_APPROVAL_RPC_URL),
+            new ApprovalSigner(
+                (process.env.LOCAL_APPROVAL_SIGNER_KEY || HARDHAT_APPROVAL_SIGNER_KEY) as Hex,
+            ),
+        )
+    }
+
+    // Game history, only indexed when a chain and contract are given
+    if (process.env.HISTORY_RPC_URL && process.env.HISTORY_CONTRACT_ADDRESS) {
+        historyStore.open(HISTORY_DB_PATH)
+        historyIndexer.configure(
+            new RpcHistoryChain(
+                process.env.HISTORY_RPC_URL,
+                process.env.HISTORY_CONTRACT_ADDRESS as Address,
+            ),
+            {
+                startBlock: Number(process.env.HISTORY_START_BLOCK) || 0,
+                batchSize: Number(process.env.HISTORY_BATCH_SIZE) || undefined,
+                onError: error =>
+                    logger.error(
+                        `History indexing failed. ${
+                            error instanceof Error ? error.message : error
+                        }`,
+                    ),
+            },
+        )
+    }
+} catch (error) {
+    logger.error(`Failed to load configuration. ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+}
+
 // App setup
 //
 const app = express()
@@ -33,6 +122,7 @@ app.use(
     }),
 )
 
+app.use(trackHttpRequests)
 app.use(cors())
 app.use(express.json({ limit: '50mb' }))
 app.use(router)
@@ -46,6 +136,12 @@ const handleShutDown = (signal: NodeJS.Signals) => {
             return
         }
 
+        historyIndexer.stop()
+        gameTracker.flush()
+        fundingGraph.flush()
+        verdictStore.close()
+        historyStore.close()
+
         logger.info('Server process terminated')
         process.exit(0)
     })
@@ -60,7 +156,11 @@ const handleShutDown = (signal: NodeJS.Signals) => {
 
 // Start the server
 //
-server.listen(PORT, HOST, () => logger.info(`Custom detector service started on ${URL}`))
+server.listen(PORT, HOST, () => {
+    logger.info(`Custom detector service started on ${URL}`)
+
+    if (historyIndexer.enabled) historyIndexer.start()
+})
 
 // Listen for termination signals
 process.on('SIGINT', handleShutDown)
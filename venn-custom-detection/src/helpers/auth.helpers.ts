@@ -0,0 +1,39 @@
+import crypto from 'crypto'
+import { NextFunction, Request, Response } from 'express'
+
+import { errors } from '@/errors'
+
+import { ErrorHandler } from './error.helpers'
+
+const API_KEY_HEADER = 'x-api-key'
+
+/**
+ * Express middleware guarding admin routes with the `ADMIN_API_KEY` environment variable.
+ *
+ * Clients pass the key in the `x-api-key` header. Every request is rejected
+ * while `ADMIN_API_KEY` is not set, so admin routes are disabled by default.
+ *
+ * @example
+ * ```typescript
+ * adminRouter.use(requireAdminApiKey)
+ * ```
+ */
+export function requireAdminApiKey(req: Request, res: Response, next: NextFunction) {
+    const expectedKey = process.env.ADMIN_API_KEY
+    const providedKey = req.header(API_KEY_HEADER)
+
+    if (!expectedKey || !providedKey || !isSameKey(providedKey, expectedKey)) {
+        ErrorHandler.processApiError(res, new errors.UnauthorizedError('Invalid API key'))
+        return
+    }
+
+    next()
+}
+
+// Constant time comparison, so the key cannot be guessed from response times
+const isSameKey = (providedKey: string, expectedKey: string) => {
+    const provided = Buffer.from(providedKey)
+    const expected = Buffer.from(expectedKey)
+
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected)
+}
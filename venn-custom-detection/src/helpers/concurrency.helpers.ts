@@ -0,0 +1,59 @@
+/**
+ * Maps every item with an async function, running at most `limit` calls at the same time.
+ *
+ * @param items - The items to process.
+ * @param limit - Maximum number of pending calls. Values below `1` are treated as `1`.
+ * @param mapper - Async function applied to every item.
+ *
+ * @returns The results, in the order of `items`. Rejects with the first error thrown by `mapper`.
+ *
+ * @example
+ * ```typescript
+ * const responses = await mapWithConcurrency(urls, 5, url => fetch(url))
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    const results: R[] = new Array(items.length)
+    let nextIndex = 0
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++
+            results[index] = await mapper(items[index], index)
+        }
+    }
+
+    const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker)
+
+    await Promise.all(workers)
+
+    return results
+}
+
+/**
+ * Creates a lock running the tasks passed to it one at a time, in call order.
+ *
+ * @returns A function running `task` once every task passed before it settled, and resolving
+ * or rejecting with its result.
+ *
+ * @example
+ * ```typescript
+ * const runExclusive = createLock()
+ * const [first, second] = await Promise.all([runExclusive(read), runExclusive(read)])
+ * ```
+ */
+export function createLock() {
+    let tail: Promise<unknown> = Promise.resolve()
+
+    return <T>(task: () => Promise<T>): Promise<T> => {
+        const result = tail.then(task)
+        // A failed task does not block the next ones
+        tail = result.catch(() => undefined)
+
+        return result
+    }
+}
@@ -4,6 +4,8 @@ import { logger } from '@/app'
 import { errors } from '@/errors'
 import { RequestError } from '@/errors/http.errors'
 
+import { metrics } from './metrics.helpers'
+
 /* Singleton Error Handler class to process every error in app. Extend logic to your needs */
 
 export class ErrorHandler {
@@ -42,6 +44,7 @@ export class ErrorHandler {
         }
 
         logger.error({ ...errorResponse })
+        metrics.errors.inc({ code: _error.code })
 
         res.status(_error.code).json(errorResponse)
     }
@@ -1,3 +1,6 @@
+export * from './auth.helpers'
+export * from './concurrency.helpers'
 export * from './error.helpers'
 export * from './log.helpers'
+export * from './metrics.helpers'
 export * from './validation.helpers'
@@ -0,0 +1,55 @@
+import { NextFunction, Request, Response } from 'express'
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client'
+
+/* Prometheus registry exposed by `GET /app/metrics` */
+export const metricsRegistry = new Registry()
+
+collectDefaultMetrics({ register: metricsRegistry })
+
+export const metrics = {
+    httpRequests: new Counter({
+        name: 'detector_http_requests_total',
+        help: 'HTTP requests handled, by route and status code',
+        labelNames: ['method', 'route', 'status'] as const,
+        registers: [metricsRegistry],
+    }),
+    detectDuration: new Histogram({
+        name: 'detector_detect_duration_seconds',
+        help: 'Time spent in DetectionService.detect',
+        buckets: [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+        registers: [metricsRegistry],
+    }),
+    ruleFindings: new Counter({
+        name: 'detector_rule_findings_total',
+        help: 'Findings reported by each detection rule',
+        labelNames: ['rule', 'severity'] as const,
+        registers: [metricsRegistry],
+    }),
+    validationFailures: new Counter({
+        name: 'detector_validation_failures_total',
+        help: 'Requests rejected by validateRequest',
+        registers: [metricsRegistry],
+    }),
+    errors: new Counter({
+        name: 'detector_errors_total',
+        help: 'Errors processed by ErrorHandler, by status code',
+        labelNames: ['code'] as const,
+        registers: [metricsRegistry],
+    }),
+}
+
+/**
+ * Express middleware counting every handled request.
+ *
+ * Requests are labelled with the route pattern (e.g. `/reputation/:address`) rather than
+ * the actual path, so label cardinality stays bounded.
+ */
+export function trackHttpRequests(req: Request, res: Response, next: NextFunction) {
+    res.on('finish', () => {
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched'
+
+        metrics.httpRequests.inc({ method: req.method, route, status: res.statusCode })
+    })
+
+    next()
+}
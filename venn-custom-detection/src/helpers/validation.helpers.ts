@@ -1,7 +1,9 @@
-import { validate, ValidationError } from 'class-validator'
+import { validate, validateSync, ValidationError } from 'class-validator'
 
 import { errors } from '@/errors'
 
+import { metrics } from './metrics.helpers'
+
 type FormattedError = {
     message: string
     details: string
@@ -34,6 +36,8 @@ export async function validateRequest(classToValidate: object) {
 
     if (!validationErrors.length) return
 
+    metrics.validationFailures.inc()
+
     const formattedErrors = formatValidationErrors(validationErrors)
 
     throw new errors.BadRequestError(
@@ -43,6 +47,32 @@ export async function validateRequest(classToValidate: object) {
     )
 }
 
+/**
+ * Synchronously validates a configuration object loaded during startup.
+ *
+ * @param classToValidate - The instance of the configuration class to be validated.
+ * @param source - Where the configuration was loaded from. Included in the error message.
+ *
+ * @throws If the validation fails, throws an `Error` listing every invalid field.
+ */
+export function validateConfig(classToValidate: object, source: string) {
+    const validationErrors = validateSync(classToValidate, {
+        // Reject misspelled keys instead of silently falling back to defaults
+        whitelist: true,
+        forbidNonWhitelisted: true,
+    })
+
+    if (!validationErrors.length) return
+
+    const formattedErrors = formatValidationErrors(validationErrors)
+
+    throw new Error(
+        `Invalid configuration in ${source}: \n${formattedErrors
+            .map(el => `${el.message}: ${el.details}`)
+            .join('\n')}`,
+    )
+}
+
 /**
  * Recursively formats a list of validation errors into a more readable format.
  *
@@ -1,2 +1,3 @@
 export * from './health-check'
+export * from './metrics'
 export * from './version'
@@ -0,0 +1,12 @@
+import { Request, Response } from 'express'
+
+import { ErrorHandler, metricsRegistry } from '@/helpers'
+
+export const getMetrics = async (req: Request, res: Response) => {
+    try {
+        res.set('Content-Type', metricsRegistry.contentType)
+        res.send(await metricsRegistry.metrics())
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
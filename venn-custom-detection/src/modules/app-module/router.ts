@@ -6,5 +6,6 @@ const appRouter = Router()
 
 appRouter.get('/version', AppController.getAppVersion)
 appRouter.get('/health-check', AppController.healthCheck)
+appRouter.get('/metrics', AppController.getMetrics)
 
 export { appRouter }
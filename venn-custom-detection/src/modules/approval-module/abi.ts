@@ -0,0 +1,10 @@
+import { parseAbi } from 'viem'
+
+export { vennConsumerAbi } from '@/modules/detection-module/rps'
+
+/* Local Venn policy of the root `contracts/mocks/MockVennPolicy.sol` */
+export const mockVennPolicyAbi = parseAbi([
+    'function signer() view returns (address)',
+    'function nonces(address txOrigin) view returns (uint256)',
+    'function approveCallsViaSignature(bytes32[] callHashes, uint256 expiration, address txOrigin, uint256 nonce, bytes signature) payable',
+])
@@ -0,0 +1,114 @@
+import {
+    Address,
+    BaseError,
+    createPublicClient,
+    createTestClient,
+    createWalletClient,
+    http,
+    isAddressEqual,
+    PublicClient,
+    TestClient,
+    WalletClient,
+} from 'viem'
+
+import { createLock } from '@/helpers'
+import { TraceBuilder } from '@/modules/detection-module/trace'
+
+import { mockVennPolicyAbi } from './abi'
+import { ApprovalContext, ApprovalTransaction, LocalChain, Simulation } from './types'
+
+/**
+ * A local Hardhat node, reached over JSON-RPC.
+ *
+ * Transactions are simulated by sending them from the sender, impersonated unless the node
+ * holds its key, inside an `evm_snapshot` which is reverted once the transaction is traced.
+ * Simulations run one at a time, so they never see or revert each other's transactions.
+ * Transactions sent to the node by others during a simulation are reverted with it, so the
+ * node should only be used by the local app.
+ */
+export class HardhatChain implements LocalChain {
+    private publicClient: PublicClient
+    private walletClient: WalletClient
+    private testClient: TestClient
+    private traces: TraceBuilder
+    private runExclusive = createLock()
+
+    constructor(rpcUrl: string) {
+        const transport = http(rpcUrl)
+
+        this.publicClient = createPublicClient({ transport })
+        this.walletClient = createWalletClient({ transport })
+        this.testClient = createTestClient({ mode: 'hardhat', transport })
+        this.traces = new TraceBuilder(rpcUrl)
+    }
+
+    public getChainId() {
+        return this.publicClient.getChainId()
+    }
+
+    public async getApprovalContext(policy: Address, txOrigin: Address): Promise<ApprovalContext> {
+        const [signer, nonce, block] = await Promise.all([
+            this.publicClient.readContract({
+                address: policy,
+                abi: mockVennPolicyAbi,
+                functionName: 'signer',
+            }),
+            this.publicClient.readContract({
+                address: policy,
+                abi: mockVennPolicyAbi,
+                functionName: 'nonces',
+                args: [txOrigin],
+            }),
+            this.publicClient.getBlock(),
+        ])
+
+        return { signer, nonce, timestamp: block.timestamp }
+    }
+
+    public simulate(transaction: ApprovalTransaction): Promise<Simulation> {
+        return this.runExclusive(() => this.simulateOnSnapshot(transaction))
+    }
+
+    private async simulateOnSnapshot(transaction: ApprovalTransaction): Promise<Simulation> {
+        const { from, to, data, value } = transaction
+
+        // A reverting transaction would still be mined, read its reason without sending it
+        try {
+            await this.publicClient.call({ account: from, to, data, value })
+        } catch (error) {
+            return {
+                reverted: true,
+                // Hardhat puts the revert reason in the error details
+                reason:
+                    error instanceof BaseError
+                        ? (error.details || error.shortMessage).replace(/^Error: /, '')
+                        : String(error),
+            }
+        }
+
+        const accounts = await this.walletClient.getAddresses()
+        const impersonate = !accounts.some(account => isAddressEqual(account, from))
+        const snapshot = await this.testClient.snapshot()
+
+        try {
+            if (impersonate) await this.testClient.impersonateAccount({ address: from })
+
+            const hash = await this.walletClient.sendTransaction({
+                account: from,
+                chain: null,
+                to,
+                data,
+                value,
+            })
+
+            if (!(await this.testClient.getAutomine())) {
+                await this.testClient.mine({ blocks: 1 })
+            }
+
+            return { reverted: false, hash, trace: await this.traces.buildTrace(hash) }
+        } finally {
+            if (impersonate) await this.testClient.stopImpersonatingAccount({ address: from })
+            await this.testClient.revert({ id: snapshot })
+        }
+    }
+}
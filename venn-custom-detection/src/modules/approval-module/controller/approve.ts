@@ -0,0 +1,58 @@
+import { plainToInstance } from 'class-transformer'
+import { Request, Response } from 'express'
+
+import { logger } from '@/app'
+import { errors } from '@/errors'
+import { RequestError } from '@/errors/http.errors'
+import { validateRequest } from '@/helpers'
+import { metrics } from '@/helpers/metrics.helpers'
+import {
+    ApprovalRequest,
+    ApprovalResponse,
+    toApprovedResponse,
+} from '@/modules/approval-module/dtos'
+import { approvalService } from '@/modules/approval-module/service'
+import { PublicClassFields } from '@/types'
+
+export const approve = async (
+    req: Request<Record<string, string>, ApprovalResponse, PublicClassFields<ApprovalRequest>>,
+    res: Response<ApprovalResponse>,
+) => {
+    const request = plainToInstance(ApprovalRequest, req.body)
+
+    try {
+        if (!approvalService.enabled) {
+            throw new errors.NotFoundError(
+                'Invalid request: local approvals are disabled, set LOCAL_APPROVAL_RPC_URL to enable them',
+            )
+        }
+
+        await validateRequest(request).catch((error: RequestError) => {
+            throw new errors.BadRequestError(`Invalid request. ${error.message}`)
+        })
+
+        const result = await approvalService.approve(request)
+
+        if (!result.approved) {
+            logger.info(`Rejected transaction of ${request.from}: ${result.message}`)
+            // Rejections are answered with a 200 like the Venn node, the SDK turns any 4xx into a
+            // `BadRequestError` without the message
+            res.json({
+                status: 'Rejected',
+                message: result.message,
+            })
+            return
+        }
+
+        res.json(toApprovedResponse(result.transaction))
+    } catch (error) {
+        // Errors keep the Venn node format, so the SDK maps them to its own error classes
+        const requestError =
+            error instanceof RequestError ? error : new errors.InternalError(String(error))
+
+        logger.error({ message: requestError.message, code: requestError.code })
+        metrics.errors.inc({ code: requestError.code })
+
+        res.status(requestError.code).json({ status: 'Error', message: requestError.message })
+    }
+}
@@ -0,0 +1,35 @@
+import {
+    IsEthereumAddress,
+    IsNumber,
+    IsNumberString,
+    IsOptional,
+    IsString,
+    Matches,
+} from 'class-validator'
+
+/* Body of `POST /approve`, as sent by the Venn SDK's `approve` */
+export class ApprovalRequest {
+    @IsEthereumAddress()
+    @IsString()
+    from!: string
+
+    @IsEthereumAddress()
+    @IsString()
+    to!: string
+
+    @Matches(/^0x([0-9a-fA-F]{2})*$/, { message: 'data must be hex encoded bytes' })
+    @IsString()
+    data!: string
+
+    @IsNumberString({ no_symbols: true })
+    @IsOptional()
+    value?: string
+
+    @IsNumber()
+    @IsOptional()
+    chainId?: number
+
+    @IsEthereumAddress()
+    @IsString()
+    approvingPolicyAddress!: string
+}
@@ -0,0 +1,33 @@
+import { ApprovalTransaction } from '@/modules/approval-module/types'
+
+/**
+ * Answers of `POST /approve`, in the format of the Venn node.
+ *
+ * The Venn SDK returns `data` of approved transactions. `Rejected` answers are sent with a 200
+ * status, which the SDK throws as a `TxRejectedError` carrying the message: it maps every 4xx
+ * to a `BadRequestError` before reading the body. Other `Error` answers keep their status.
+ */
+export type ApprovalResponse =
+    | {
+          status: 'Approved'
+          data: {
+              from: string
+              to: string
+              value: string
+              data: string
+          }
+      }
+    | {
+          status: 'Rejected' | 'Error'
+          message: string
+      }
+
+export const toApprovedResponse = (transaction: ApprovalTransaction): ApprovalResponse => ({
+    status: 'Approved',
+    data: {
+        from: transaction.from,
+        to: transaction.to,
+        value: transaction.value.toString(),
+        data: transaction.data,
+    },
+})
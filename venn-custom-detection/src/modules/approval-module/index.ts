@@ -0,0 +1,5 @@
+export * from './chain'
+export * from './router'
+export * from './service'
+export * from './signer'
+export * from './types'
@@ -0,0 +1,9 @@
+import { Router } from 'express'
+
+import * as ApprovalController from './controller'
+
+const approvalRouter = Router()
+
+approvalRouter.post('/', ApprovalController.approve)
+
+export { approvalRouter }
@@ -0,0 +1,129 @@
+import { Address, getAddress, Hex, isAddressEqual } from 'viem'
+
+import { errors } from '@/errors'
+import { DetectionRequest } from '@/modules/detection-module/dtos'
+import { DetectionService } from '@/modules/detection-module/service'
+import { recordVerdict } from '@/modules/verdict-module/recorder'
+
+import { ApprovalRequest } from './dtos'
+import { ApprovalSigner } from './signer'
+import { ApprovalContext, ApprovalResult, ApprovalTransaction, LocalChain } from './types'
+
+// How long an approval can wait before being sent, in seconds
+const APPROVAL_TTL = BigInt(600)
+
+/**
+ * Local stand-in for the Venn node.
+ *
+ * Approves transactions the way Venn does, but against a local node: the transaction is signed
+ * for MockVennPolicy, simulated on the node, and its trace is run through `DetectionService.detect`.
+ * Transactions the detector flags are rejected, the others are returned wrapped in `safeFunctionCall`.
+ */
+export class ApprovalService {
+    private chain?: LocalChain
+    private signer?: ApprovalSigner
+
+    public configure(chain: LocalChain, signer: ApprovalSigner) {
+        this.chain = chain
+        this.signer = signer
+    }
+
+    public get enabled() {
+        return !!this.chain && !!this.signer
+    }
+
+    /**
+     * @throws `BadRequestError` if the request does not match the local node or policy
+     */
+    public async approve(request: ApprovalRequest): Promise<ApprovalResult> {
+        if (!this.chain || !this.signer) {
+            throw new errors.NotFoundError('Local approvals are disabled')
+        }
+
+        const transaction: ApprovalTransaction = {
+            from: getAddress(request.from),
+            to: getAddress(request.to),
+            data: request.data as Hex,
+            value: BigInt(request.value ?? 0),
+        }
+        const policy = getAddress(request.approvingPolicyAddress)
+
+        const chainId = await this.chain.getChainId()
+        if (request.chainId !== undefined && request.chainId !== chainId) {
+            throw new errors.BadRequestError(
+                `Invalid request: chain ${request.chainId} is not the local chain ${chainId}`,
+            )
+        }
+
+        let context: ApprovalContext
+        try {
+            context = await this.chain.getApprovalContext(policy, transaction.from)
+        } catch {
+            throw new errors.BadRequestError(`Invalid request: ${policy} is not a MockVennPolicy`)
+        }
+        if (!isAddressEqual(context.signer, this.signer.address)) {
+            throw new errors.BadRequestError(
+                `Invalid request: ${policy} does not trust the local signer ${this.signer.address}`,
+            )
+        }
+
+        const approved = {
+            ...transaction,
+            data: await this.signer.approve(transaction, {
+                policy,
+                chainId,
+                nonce: context.nonce,
+                expiration: context.timestamp + APPROVAL_TTL,
+            }),
+        }
+
+        const simulation = await this.chain.simulate(approved)
+        if (simulation.reverted) {
+            return { approved: false, message: `Transaction reverted: ${simulation.reason}` }
+        }
+
+        // The original call runs in a delegatecall of the consumer to itself, after the approval
+        const delegated = simulation.trace.calls?.find(
+            call =>
+                isAddressEqual(call.to as Address, transaction.to) &&
+                call.input.toLowerCase() === transaction.data.toLowerCase(),
+        )
+
+        // The detector sees the original call, as it would on Venn, without the approval
+        const detectionRequest: DetectionRequest = {
+            id: `local-approval-${simulation.hash}`,
+            detectorName: 'local-approval',
+            chainId,
+            hash: simulation.hash,
+            protocolAddress: transaction.to,
+            trace: {
+                ...simulation.trace,
+                input: transaction.data,
+                calls: delegated?.calls ?? [],
+                logs: simulation.trace.logs?.filter(
+                    log => !isAddressEqual(log.address as Address, policy),
+                ),
+            },
+        }
+
+        const startedAt = performance.now()
+        const response = DetectionService.detect(detectionRequest)
+        recordVerdict({
+            request: detectionRequest,
+            response,
+            latencyMs: performance.now() - startedAt,
+        })
+
+        if (response.detected) {
+            return {
+                approved: false,
+                message: response.message ?? 'Transaction flagged by the detector',
+            }
+        }
+
+        return { approved: true, transaction: approved }
+    }
+}
+
+/* Approvals of `POST /approve`, enabled by `LOCAL_APPROVAL_RPC_URL` */
+export const approvalService = new ApprovalService()
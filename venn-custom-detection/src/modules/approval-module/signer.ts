@@ -0,0 +1,81 @@
+import { Address, encodeFunctionData, encodePacked, Hex, keccak256, PrivateKeyAccount } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+
+import { mockVennPolicyAbi, vennConsumerAbi } from './abi'
+import { ApprovalTransaction } from './types'
+
+/* Hardhat's second default account, the signer `scripts/deploy-local.js` trusts by default */
+export const HARDHAT_APPROVAL_SIGNER_KEY =
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+
+export type ApprovalOptions = {
+    policy: Address
+    chainId: number
+    nonce: bigint
+    // Unix time in seconds
+    expiration: bigint
+}
+
+/**
+ * Signs approvals for MockVennPolicy, the way the Venn node signs them for a Venn policy.
+ *
+ * @example
+ * ```typescript
+ * const signer = new ApprovalSigner(HARDHAT_APPROVAL_SIGNER_KEY)
+ *
+ * // Calldata of `safeFunctionCall`, approving then running `transaction.data`
+ * const data = await signer.approve(transaction, { policy, chainId: 31337, nonce, expiration })
+ * ```
+ */
+export class ApprovalSigner {
+    private account: PrivateKeyAccount
+
+    constructor(privateKey: Hex) {
+        this.account = privateKeyToAccount(privateKey)
+    }
+
+    public get address(): Address {
+        return this.account.address
+    }
+
+    /**
+     * Wraps the transaction calldata in a `safeFunctionCall` that submits its approval first
+     */
+    public async approve(
+        transaction: ApprovalTransaction,
+        { policy, chainId, nonce, expiration }: ApprovalOptions,
+    ): Promise<Hex> {
+        // Mirrors MockVennPolicy.getCallHash and getApprovalMessage
+        const callHash = keccak256(
+            encodePacked(
+                ['address', 'address', 'address', 'bytes', 'uint256'],
+                [
+                    transaction.to,
+                    transaction.from,
+                    transaction.from,
+                    transaction.data,
+                    transaction.value,
+                ],
+            ),
+        )
+        const message = keccak256(
+            encodePacked(
+                ['bytes32[]', 'uint256', 'address', 'uint256', 'address', 'uint256'],
+                [[callHash], expiration, transaction.from, nonce, policy, BigInt(chainId)],
+            ),
+        )
+        const signature = await this.account.signMessage({ message: { raw: message } })
+
+        const proxyPayload = encodeFunctionData({
+            abi: mockVennPolicyAbi,
+            functionName: 'approveCallsViaSignature',
+            args: [[callHash], expiration, transaction.from, nonce, signature],
+        })
+
+        return encodeFunctionData({
+            abi: vennConsumerAbi,
+            functionName: 'safeFunctionCall',
+            args: [BigInt(0), proxyPayload, transaction.data],
+        })
+    }
+}
@@ -0,0 +1,60 @@
+import { Address, Hex } from 'viem'
+
+import { DetectionRequestTrace } from '@/modules/detection-module/dtos'
+
+/* A transaction as posted by the Venn SDK, once parsed */
+export type ApprovalTransaction = {
+    from: Address
+    to: Address
+    data: Hex
+    value: bigint
+}
+
+/* On-chain values an approval is signed against */
+export type ApprovalContext = {
+    // Signer trusted by the policy
+    signer: Address
+    // Next approval nonce of the transaction origin
+    nonce: bigint
+    // Timestamp of the latest block
+    timestamp: bigint
+}
+
+export type Simulation =
+    | {
+          reverted: false
+          hash: Hex
+          trace: DetectionRequestTrace
+      }
+    | {
+          reverted: true
+          reason: string
+      }
+
+/**
+ * The local node approvals are signed for and simulated on
+ */
+export interface LocalChain {
+    getChainId(): Promise<number>
+
+    /**
+     * @throws If `policy` is not a MockVennPolicy
+     */
+    getApprovalContext(policy: Address, txOrigin: Address): Promise<ApprovalContext>
+
+    /**
+     * Runs the transaction without keeping its effects
+     */
+    simulate(transaction: ApprovalTransaction): Promise<Simulation>
+}
+
+export type ApprovalResult =
+    | {
+          approved: true
+          // The approved transaction, calling `safeFunctionCall`
+          transaction: ApprovalTransaction
+      }
+    | {
+          approved: false
+          message: string
+      }
@@ -0,0 +1,220 @@
+import { Type } from 'class-transformer'
+import {
+    IsArray,
+    IsEthereumAddress,
+    IsInt,
+    IsNumber,
+    IsPositive,
+    IsString,
+    Max,
+    Min,
+    ValidateIf,
+    ValidateNested,
+} from 'class-validator'
+
+/* Shape of `detector.config.json`. Omitted sections fall back to the defaults below */
+
+export class DetectorRulesConfig {
+    // Rule ids evaluated first, in this order
+    @IsArray()
+    @IsString({ each: true })
+    order: string[] = []
+
+    @IsArray()
+    @IsString({ each: true })
+    disabled: string[] = []
+}
+
+export class DetectorThresholds {
+    // Combined price impact (%) of the transactions wrapping the player's transaction
+    @IsNumber()
+    @Min(0)
+    sandwichPriceImpact = 1
+
+    // Reorgs deeper than this many blocks are treated as time-bandit attacks
+    @IsInt()
+    @Min(0)
+    reorgDepth = 2
+
+    // Liquidity provided for less than this many seconds is treated as JIT liquidity
+    @IsNumber()
+    @IsPositive()
+    jitLiquidityDuration = 30
+
+    // Oracle price change (%) between two updates considered suspicious
+    @IsNumber()
+    @IsPositive()
+    oraclePriceChange = 10
+
+    // Attack volatility must exceed normal volatility by this factor
+    @IsNumber()
+    @IsPositive()
+    oracleVolatilityMultiplier = 3
+
+    // Minimum confidence score of the volatility analysis
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    oracleConfidenceScore = 0.8
+
+    // Funding hops followed when linking a game's players to each other
+    @IsInt()
+    @Min(1)
+    selfPlayFundingDepth = 2
+
+    // Funders of more addresses than this (exchanges, faucets, ...) do not link their recipients
+    @IsInt()
+    @Min(1)
+    selfPlayFundingHubSize = 20
+
+    // Wins of the same address against the same opponent considered farming
+    @IsInt()
+    @Min(2)
+    selfPlayPairWins = 3
+
+    // Rounds an address must have played second before its win rate is trusted
+    @IsInt()
+    @Min(1)
+    movePeekingMinRounds = 5
+
+    // Share of the rounds played second an address must win to be considered peeking
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    movePeekingWinRate = 0.8
+}
+
+export class DetectorAddresses {
+    // Addresses known for MEV activity
+    @IsArray()
+    @IsEthereumAddress({ each: true })
+    knownMev: string[] = [
+        '0x4206904396d558D6fA240E0F788d30C831D4a6E7',
+        '0xC8F68Eccf2F05F32d29A8e949fDA3A222f6a9Bd7',
+    ]
+
+    // Addresses of known players (multisig participants)
+    @IsArray()
+    @IsEthereumAddress({ each: true })
+    players: string[] = [
+        '0xD8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
+        '0x690B9A9E9aa1C9dB991C7721a92d351Db4FaC990',
+    ]
+}
+
+// Override fields may be omitted but not `null`, which would replace the default once merged
+const IsOmittable = () => ValidateIf((_, value) => value !== undefined)
+
+export class DetectorThresholdOverrides {
+    @IsNumber()
+    @Min(0)
+    @IsOmittable()
+    sandwichPriceImpact?: number
+
+    @IsInt()
+    @Min(0)
+    @IsOmittable()
+    reorgDepth?: number
+
+    @IsNumber()
+    @IsPositive()
+    @IsOmittable()
+    jitLiquidityDuration?: number
+
+    @IsNumber()
+    @IsPositive()
+    @IsOmittable()
+    oraclePriceChange?: number
+
+    @IsNumber()
+    @IsPositive()
+    @IsOmittable()
+    oracleVolatilityMultiplier?: number
+
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    @IsOmittable()
+    oracleConfidenceScore?: number
+
+    @IsInt()
+    @Min(1)
+    @IsOmittable()
+    selfPlayFundingDepth?: number
+
+    @IsInt()
+    @Min(1)
+    @IsOmittable()
+    selfPlayFundingHubSize?: number
+
+    @IsInt()
+    @Min(2)
+    @IsOmittable()
+    selfPlayPairWins?: number
+
+    @IsInt()
+    @Min(1)
+    @IsOmittable()
+    movePeekingMinRounds?: number
+
+    @IsNumber()
+    @Min(0)
+    @Max(1)
+    @IsOmittable()
+    movePeekingWinRate?: number
+}
+
+export class DetectorAddressOverrides {
+    @IsArray()
+    @IsEthereumAddress({ each: true })
+    @IsOmittable()
+    knownMev?: string[]
+
+    @IsArray()
+    @IsEthereumAddress({ each: true })
+    @IsOmittable()
+    players?: string[]
+}
+
+/**
+ * Settings applied to requests matching `chainId` and/or `protocolAddress`.
+ * An override without either applies to every request.
+ */
+export class DetectorConfigOverride {
+    @IsInt()
+    @IsOmittable()
+    chainId?: number
+
+    @IsEthereumAddress()
+    @IsOmittable()
+    protocolAddress?: string
+
+    @ValidateNested()
+    @Type(() => DetectorThresholdOverrides)
+    @IsOmittable()
+    thresholds?: DetectorThresholdOverrides
+
+    @ValidateNested()
+    @Type(() => DetectorAddressOverrides)
+    @IsOmittable()
+    addresses?: DetectorAddressOverrides
+}
+
+export class DetectorConfig {
+    @ValidateNested()
+    @Type(() => DetectorRulesConfig)
+    rules = new DetectorRulesConfig()
+
+    @ValidateNested()
+    @Type(() => DetectorThresholds)
+    thresholds = new DetectorThresholds()
+
+    @ValidateNested()
+    @Type(() => DetectorAddresses)
+    addresses = new DetectorAddresses()
+
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => DetectorConfigOverride)
+    overrides: DetectorConfigOverride[] = []
+}
@@ -0,0 +1,7 @@
+import { DetectorConfigStore } from './store'
+
+export * from './detector-config'
+export * from './store'
+
+/* Configuration used by `DetectionService`. Replaced at startup with the contents of the config file */
+export const detectorConfig = new DetectorConfigStore()
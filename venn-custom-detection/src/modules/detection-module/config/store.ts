@@ -0,0 +1,98 @@
+import { plainToInstance } from 'class-transformer'
+import fs from 'fs'
+import path from 'path'
+
+import { validateConfig } from '@/helpers/validation.helpers'
+
+import { DetectorAddresses, DetectorConfig, DetectorThresholds } from './detector-config'
+
+/**
+ * Settings that apply to a single detection request, after overrides are merged.
+ * Addresses are lowercased.
+ */
+export type ResolvedDetectorConfig = {
+    thresholds: DetectorThresholds
+    addresses: DetectorAddresses
+}
+
+/**
+ * Reads and validates a detector configuration file.
+ *
+ * @param filePath - Path to a JSON file, relative to the working directory.
+ *
+ * @throws If the file cannot be read or parsed, or does not pass the validation.
+ */
+export function loadDetectorConfig(filePath: string): DetectorConfig {
+    const source = path.resolve(filePath)
+
+    let plain: unknown
+
+    try {
+        plain = JSON.parse(fs.readFileSync(source, 'utf-8'))
+    } catch (error) {
+        throw new Error(`Failed to read detector configuration from ${source}: ${error}`)
+    }
+
+    if (typeof plain !== 'object' || plain === null || Array.isArray(plain)) {
+        throw new Error(`Invalid configuration in ${source}: expected a JSON object`)
+    }
+
+    const config = plainToInstance(DetectorConfig, plain)
+
+    validateConfig(config, source)
+
+    return config
+}
+
+/**
+ * Holds the active detector configuration and resolves it for each request.
+ *
+ * Overrides are applied from the least to the most specific: global ones first,
+ * then those matching the chain id, the protocol address, and finally both.
+ * Entries with the same specificity are applied in file order.
+ */
+export class DetectorConfigStore {
+    private config = new DetectorConfig()
+
+    public use(config: DetectorConfig) {
+        this.config = config
+    }
+
+    public get(): DetectorConfig {
+        return this.config
+    }
+
+    public resolve(chainId: number, protocolAddress?: string): ResolvedDetectorConfig {
+        const thresholds = { ...this.config.thresholds }
+        const addresses = { ...this.config.addresses }
+
+        const specificity = ({
+            chainId,
+            protocolAddress,
+        }: {
+            chainId?: number
+            protocolAddress?: string
+        }) => Number(chainId !== undefined) + Number(protocolAddress !== undefined) * 2
+
+        this.config.overrides
+            .filter(
+                override =>
+                    (override.chainId === undefined || override.chainId === chainId) &&
+                    (override.protocolAddress === undefined ||
+                        override.protocolAddress.toLowerCase() === protocolAddress?.toLowerCase()),
+            )
+            .sort((a, b) => specificity(a) - specificity(b))
+            .forEach(override => {
+                Object.assign(thresholds, override.thresholds)
+                Object.assign(addresses, override.addresses)
+            })
+
+        return {
+            thresholds,
+            addresses: {
+                knownMev: addresses.knownMev.map(address => address.toLowerCase()),
+                players: addresses.players.map(address => address.toLowerCase()),
+            },
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import { plainToInstance } from 'class-transformer'
+import { Request, Response } from 'express'
+
+import { logger } from '@/app'
+import { errors } from '@/errors'
+import { RequestError } from '@/errors/http.errors'
+import { ErrorHandler, mapWithConcurrency, metrics, validateRequest } from '@/helpers'
+import {
+    DetectionBatchItemResponse,
+    DetectionRequest,
+    toDetectionResponse,
+} from '@/modules/detection-module/dtos'
+import { DetectionService } from '@/modules/detection-module/service'
+import { recordVerdict } from '@/modules/verdict-module/recorder'
+import { PublicClassFields } from '@/types'
+
+const DEFAULT_BATCH_CONCURRENCY = 10
+const DEFAULT_BATCH_MAX_SIZE = 1000
+
+export const detectBatch = async (
+    req: Request<Record<string, string>, PublicClassFields<DetectionRequest>[]>,
+    res: Response,
+) => {
+    const concurrency = Number(process.env.DETECTION_BATCH_CONCURRENCY) || DEFAULT_BATCH_CONCURRENCY
+    const maxSize = Number(process.env.DETECTION_BATCH_MAX_SIZE) || DEFAULT_BATCH_MAX_SIZE
+
+    try {
+        if (!Array.isArray(req.body) || req.body.length === 0) {
+            throw new errors.BadRequestError(
+                'Batch must be a non-empty array of detection requests',
+            )
+        }
+
+        if (req.body.length > maxSize) {
+            throw new errors.BadRequestError(`Batch size exceeds the limit of ${maxSize} requests`)
+        }
+
+        logger.debug(`detect batch started. Size: ${req.body.length}`)
+
+        // Items are settled one by one, so a single invalid request does not fail the batch
+        const results = await mapWithConcurrency(
+            req.body,
+            concurrency,
+            async (body, index): Promise<DetectionBatchItemResponse> => {
+                const startedAt = performance.now()
+
+                try {
+                    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+                        throw new errors.BadRequestError('Batch item must be a detection request')
+                    }
+
+                    const request = plainToInstance(DetectionRequest, body)
+
+                    await validateRequest(request)
+
+                    const result = DetectionService.detect(request)
+
+                    recordVerdict({
+                        request,
+                        response: result,
+                        latencyMs: performance.now() - startedAt,
+                    })
+
+                    return { index, result: toDetectionResponse(result) }
+                } catch (error) {
+                    const requestError =
+                        error instanceof RequestError
+                            ? error
+                            : new errors.InternalError(String(error))
+
+                    logger.debug(`detect batch item ${index} failed: ${requestError.message}`)
+                    // Counted like the errors of a single /detect request
+                    metrics.errors.inc({ code: requestError.code })
+
+                    return {
+                        index,
+                        error: { message: requestError.message, code: requestError.code },
+                    }
+                }
+            },
+        )
+
+        logger.debug('detect batch finished succesfully')
+
+        res.json(results)
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
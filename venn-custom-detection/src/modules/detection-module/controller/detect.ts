@@ -5,12 +5,14 @@ import { logger } from '@/app'
 import { ErrorHandler, validateRequest } from '@/helpers'
 import { DetectionRequest, toDetectionResponse } from '@/modules/detection-module/dtos'
 import { DetectionService } from '@/modules/detection-module/service'
+import { recordVerdict } from '@/modules/verdict-module/recorder'
 import { PublicClassFields } from '@/types'
 
 export const detect = async (
     req: Request<Record<string, string>, PublicClassFields<DetectionRequest>>,
     res: Response,
 ) => {
+    const startedAt = performance.now()
     const request = plainToInstance(DetectionRequest, req.body)
 
     logger.debug(`detect request started. Request id: ${request.id}`)
@@ -22,6 +24,9 @@ export const detect = async (
         // perform business logic
         const result = DetectionService.detect(request)
 
+        // keep an audit trail of the verdict
+        recordVerdict({ request, response: result, latencyMs: performance.now() - startedAt })
+
         logger.debug('detect request finished succesfully')
 
         // return response
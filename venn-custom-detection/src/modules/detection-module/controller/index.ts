@@ -1 +1,2 @@
 export * from './detect'
+export * from './detect-batch'
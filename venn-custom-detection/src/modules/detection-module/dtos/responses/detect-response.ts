@@ -1,13 +1,30 @@
-import { Expose, plainToInstance } from 'class-transformer'
+import { Expose, plainToInstance, Type } from 'class-transformer'
 
 import { DetectionRequest } from '@/modules/detection-module/dtos/requests'
 
+export type DetectionFindingEvidence = {
+    // Hashes of the offending transactions
+    transactions?: string[]
+    // Addresses involved in the attack (attackers, validators, liquidity providers, ...)
+    addresses?: string[]
+}
+
+export type DetectionFinding = {
+    ruleId: string
+    severity: string
+    // Between 0 and 1
+    confidence: number
+    message: string
+    evidence: DetectionFindingEvidence
+}
+
 export type DetectionResponseInitOpts = {
     request: DetectionRequest
     detectionInfo: {
         error?: boolean
         message?: string
         detected: boolean
+        findings?: DetectionFinding[]
     }
 }
 
@@ -17,13 +34,14 @@ export class DetectionResponse {
     detected: boolean
     error?: boolean
     message?: string
+    findings: DetectionFinding[]
     protocolAddress?: string
     protocolName?: string
     additionalData?: Record<string, unknown>
 
     constructor({
         request,
-        detectionInfo: { error, message, detected },
+        detectionInfo: { error, message, detected, findings = [] },
     }: DetectionResponseInitOpts) {
         this.requestId = request.id ?? ''
         this.chainId = request.chainId
@@ -33,9 +51,36 @@ export class DetectionResponse {
         this.error = error
         this.message = message
         this.detected = detected
+        this.findings = findings
     }
 }
 
+class DetectionFindingEvidenceDTO {
+    @Expose()
+    transactions?: string[]
+
+    @Expose()
+    addresses?: string[]
+}
+
+class DetectionFindingDTO {
+    @Expose()
+    ruleId!: string
+
+    @Expose()
+    severity!: string
+
+    @Expose()
+    confidence!: number
+
+    @Expose()
+    message!: string
+
+    @Expose()
+    @Type(() => DetectionFindingEvidenceDTO)
+    evidence!: DetectionFindingEvidenceDTO
+}
+
 class DetectionResponseDTO {
     @Expose()
     requestId!: string
@@ -52,6 +97,10 @@ class DetectionResponseDTO {
     @Expose()
     message?: string
 
+    @Expose()
+    @Type(() => DetectionFindingDTO)
+    findings!: DetectionFindingDTO[]
+
     @Expose()
     protocolAddress?: string
 
@@ -65,3 +114,13 @@ class DetectionResponseDTO {
 export const toDetectionResponse = (detectorEntity: DetectionResponse): DetectionResponseDTO => {
     return plainToInstance(DetectionResponseDTO, detectorEntity)
 }
+
+export type DetectionBatchItemResponse = {
+    // Position of the request in the batch
+    index: number
+    result?: DetectionResponseDTO
+    error?: {
+        message: string
+        code: number
+    }
+}
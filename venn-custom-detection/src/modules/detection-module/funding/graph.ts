@@ -0,0 +1,156 @@
+import fs from 'fs'
+import path from 'path'
+
+import { ValueTransfer } from './transfers'
+
+export type FundingLink =
+    // One address sent ETH to the other, possibly through intermediate accounts
+    | { type: 'funded'; funder: string; recipient: string; hops: number }
+    // Both addresses were funded by the same account
+    | { type: 'common-funder'; funder: string }
+
+export type FundingLinkOptions = {
+    // Funding hops followed from each address
+    maxDepth: number
+    // Funders of more recipients than this do not link anything
+    hubSize: number
+}
+
+// Delay before changes are written, so a burst of transfers is written once
+const PERSIST_DELAY_MS = 1000
+
+/**
+ * Who funded whom, built from the ETH transfers seen by the detector.
+ * When a file is set, the graph is rewritten shortly after changes and survives restarts.
+ * `flush` writes pending changes right away, e.g. on shutdown.
+ */
+export class FundingGraph {
+    // recipient -> funders
+    private funders = new Map<string, Set<string>>()
+    // funder -> recipients
+    private recipients = new Map<string, Set<string>>()
+    private filePath?: string
+    private persistTimer?: NodeJS.Timeout
+
+    /**
+     * Backs the graph with a JSON file and reads its transfers, if it exists.
+     */
+    public load(filePath: string) {
+        this.filePath = path.resolve(filePath)
+
+        if (!fs.existsSync(this.filePath)) return
+
+        const edges = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as [string, string][]
+
+        this.funders.clear()
+        this.recipients.clear()
+        edges.forEach(([from, to]) => this.addEdge(from, to))
+    }
+
+    public record(transfers: ValueTransfer[]) {
+        transfers.forEach(({ from, to }) => this.addEdge(from.toLowerCase(), to.toLowerCase()))
+
+        if (transfers.length) this.persist()
+    }
+
+    public clear() {
+        this.funders.clear()
+        this.recipients.clear()
+        this.persist()
+    }
+
+    /**
+     * Finds how two addresses are linked through funding.
+     *
+     * @returns The closest link, or `undefined` when none is found within `maxDepth` hops.
+     */
+    public findLink(
+        address: string,
+        otherAddress: string,
+        options: FundingLinkOptions,
+    ): FundingLink | undefined {
+        const a = address.toLowerCase()
+        const b = otherAddress.toLowerCase()
+        const ancestorsOfA = this.getAncestors(a, options)
+        const ancestorsOfB = this.getAncestors(b, options)
+
+        if (ancestorsOfA.has(b)) {
+            return { type: 'funded', funder: b, recipient: a, hops: ancestorsOfA.get(b)! }
+        }
+        if (ancestorsOfB.has(a)) {
+            return { type: 'funded', funder: a, recipient: b, hops: ancestorsOfB.get(a)! }
+        }
+
+        const commonFunder = [...ancestorsOfA.keys()]
+            .filter(funder => ancestorsOfB.has(funder))
+            .sort(
+                (x, y) =>
+                    ancestorsOfA.get(x)! +
+                    ancestorsOfB.get(x)! -
+                    (ancestorsOfA.get(y)! + ancestorsOfB.get(y)!),
+            )[0]
+
+        return commonFunder ? { type: 'common-funder', funder: commonFunder } : undefined
+    }
+
+    // Breadth-first walk up the funders of an address, with the hops needed to reach each of them
+    private getAncestors(address: string, { maxDepth, hubSize }: FundingLinkOptions) {
+        const ancestors = new Map<string, number>()
+        let frontier = [address]
+
+        for (let depth = 1; depth <= maxDepth && frontier.length; depth++) {
+            frontier = frontier.flatMap(current =>
+                [...(this.funders.get(current) ?? [])].filter(funder => {
+                    const isHub = (this.recipients.get(funder)?.size ?? 0) > hubSize
+
+                    if (isHub || funder === address || ancestors.has(funder)) return false
+
+                    ancestors.set(funder, depth)
+                    return true
+                }),
+            )
+        }
+
+        return ancestors
+    }
+
+    private addEdge(from: string, to: string) {
+        if (from === to) return
+
+        if (!this.funders.has(to)) this.funders.set(to, new Set())
+        if (!this.recipients.has(from)) this.recipients.set(from, new Set())
+
+        this.funders.get(to)!.add(from)
+        this.recipients.get(from)!.add(to)
+    }
+
+    /**
+     * Writes pending changes to the backing file, if any.
+     */
+    public flush() {
+        if (!this.persistTimer) return
+
+        clearTimeout(this.persistTimer)
+        this.persistTimer = undefined
+        this.write()
+    }
+
+    private persist() {
+        if (!this.filePath || this.persistTimer) return
+
+        this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS)
+        // A pending write does not keep the process alive, shutdown flushes it
+        this.persistTimer.unref()
+    }
+
+    private write() {
+        if (!this.filePath) return
+
+        const edges = [...this.recipients].flatMap(([from, recipients]) =>
+            [...recipients].map(to => [from, to]),
+        )
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+        fs.writeFileSync(this.filePath, JSON.stringify(edges))
+    }
+}
@@ -0,0 +1,7 @@
+import { FundingGraph } from './graph'
+
+export * from './graph'
+export * from './transfers'
+
+/* Funding relations shared by every `DetectionService.detect` call */
+export const fundingGraph = new FundingGraph()
@@ -0,0 +1,58 @@
+import {
+    DetectionRequestState,
+    DetectionRequestTrace,
+    DetectionRequestTraceCall,
+} from '@/modules/detection-module/dtos/requests'
+import { parseWei } from '@/modules/detection-module/rps'
+
+/* ETH sent from one account to another. Addresses are lowercased */
+export type ValueTransfer = {
+    from: string
+    to: string
+    value: bigint
+}
+
+/**
+ * Extracts the ETH transfers of a transaction that fund an account: the transaction itself
+ * and every nested call carrying value to an address without code.
+ *
+ * Transfers from or to the game contract (stakes and payouts) are ignored, and so are transfers
+ * whose recipient balance did not grow according to `trace.pre`/`trace.post`.
+ *
+ * @param trace - The transaction trace from the `DetectionRequest`.
+ * @param protocolAddress - The game contract address.
+ */
+export function extractValueTransfers(
+    trace: DetectionRequestTrace,
+    protocolAddress?: string,
+): ValueTransfer[] {
+    const protocol = protocolAddress?.toLowerCase()
+    const pre = lowercaseKeys(trace.pre)
+    const post = lowercaseKeys(trace.post)
+    const transfers: ValueTransfer[] = []
+
+    const visit = (frame: DetectionRequestTrace | DetectionRequestTraceCall) => {
+        const from = frame.from.toLowerCase()
+        const to = frame.to.toLowerCase()
+        const value = parseWei(frame.value)
+
+        const isAccount = !pre[to]?.code || pre[to].code === '0x'
+        const balanceGrew =
+            !pre[to] || !post[to] || parseWei(post[to].balance) > parseWei(pre[to].balance)
+
+        if (value > 0 && from !== protocol && to !== protocol && isAccount && balanceGrew) {
+            transfers.push({ from, to, value })
+        }
+
+        frame.calls?.forEach(visit)
+    }
+
+    visit(trace)
+
+    return transfers
+}
+
+const lowercaseKeys = (states: Record<string, DetectionRequestState> = {}) =>
+    Object.fromEntries(
+        Object.entries(states).map(([address, state]) => [address.toLowerCase(), state]),
+    )
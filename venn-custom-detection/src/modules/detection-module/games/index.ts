@@ -0,0 +1,7 @@
+import { GameTracker } from './tracker'
+
+export * from './tracker'
+export * from './types'
+
+/* Game state shared by every `DetectionService.detect` call */
+export const gameTracker = new GameTracker()
@@ -0,0 +1,292 @@
+import fs from 'fs'
+import path from 'path'
+import { zeroAddress } from 'viem'
+
+import { beats, GameEvent } from '@/modules/detection-module/rps'
+
+import { TrackedGame } from './types'
+
+// Delay before changes are written, so a burst of events is written once
+const PERSIST_DELAY_MS = 1000
+
+// Most recently ended games kept in full. Older ones only count towards the player statistics
+const MAX_ENDED_GAMES = 1000
+
+type SecondMoves = { rounds: number; wins: number }
+
+// Contents of the backing file
+type TrackerState = {
+    games: TrackedGame[]
+    // `winner:loser` -> wins, in pruned games
+    pairWins: [string, number][]
+    // player -> rounds played second, in pruned games
+    secondMoves: [string, SecondMoves][]
+}
+
+/**
+ * In-memory model of every game, fed with the events of the transactions the detector lets through.
+ *
+ * Games created before the detector started are unknown until their `GameCreated` event
+ * is replayed, so rules must treat a missing game as "no information" rather than a violation.
+ * Past `maxEndedGames`, the oldest ended games are pruned and only their wins and rounds are kept.
+ * When a file is set, the state is rewritten shortly after changes and survives restarts.
+ * `flush` writes pending changes right away, e.g. on shutdown.
+ */
+export class GameTracker {
+    private games = new Map<string, TrackedGame>()
+    // Ids of the ended games still held in `games`, in the order they ended
+    private endedGames = new Set<string>()
+    private pairWins = new Map<string, number>()
+    private secondMoves = new Map<string, SecondMoves>()
+    private filePath?: string
+    private persistTimer?: NodeJS.Timeout
+
+    constructor(private readonly maxEndedGames = MAX_ENDED_GAMES) {}
+
+    /**
+     * Backs the tracker with a JSON file and reads its games, if it exists.
+     */
+    public load(filePath: string) {
+        this.filePath = path.resolve(filePath)
+
+        if (!fs.existsSync(this.filePath)) return
+
+        const state = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as TrackerState
+
+        this.games = new Map(
+            state.games.map(game => [
+                String(game.gameId),
+                {
+                    ...game,
+                    gameId: BigInt(game.gameId),
+                    stake: BigInt(game.stake),
+                    payout: game.payout === undefined ? undefined : BigInt(game.payout),
+                },
+            ]),
+        )
+        this.endedGames = new Set(
+            state.games.filter(game => !game.isActive).map(game => String(game.gameId)),
+        )
+        this.pairWins = new Map(state.pairWins)
+        this.secondMoves = new Map(state.secondMoves)
+    }
+
+    public get(gameId: bigint): TrackedGame | undefined {
+        return this.games.get(gameId.toString())
+    }
+
+    public list(): TrackedGame[] {
+        return [...this.games.values()]
+    }
+
+    /**
+     * Counts the ended games `winner` won against `loser`.
+     */
+    public countWins(winner: string, loser: string): number {
+        const [winnerAddress, loserAddress] = [winner.toLowerCase(), loser.toLowerCase()]
+
+        const wins = this.list().filter(
+            game =>
+                !game.isActive &&
+                game.winner === winnerAddress &&
+                [game.player1, game.player2].includes(loserAddress),
+        ).length
+
+        return wins + (this.pairWins.get(`${winnerAddress}:${loserAddress}`) ?? 0)
+    }
+
+    /**
+     * Counts the rounds of plain-move games `player` played second, when the first move was public,
+     * and how many of them they won.
+     */
+    public countSecondMoves(player: string): SecondMoves {
+        const address = player.toLowerCase()
+        const total = { ...(this.secondMoves.get(address) ?? { rounds: 0, wins: 0 }) }
+
+        for (const game of this.games.values()) {
+            const moves = countGameSecondMoves(game, address)
+
+            total.rounds += moves.rounds
+            total.wins += moves.wins
+        }
+
+        return total
+    }
+
+    public clear() {
+        this.games.clear()
+        this.endedGames.clear()
+        this.pairWins.clear()
+        this.secondMoves.clear()
+        this.persist()
+    }
+
+    /**
+     * Updates the games with events, in emission order. Events of unknown games are ignored.
+     */
+    public apply(events: GameEvent[]) {
+        events.forEach(event => this.applyEvent(event))
+
+        if (events.length) {
+            this.prune()
+            this.persist()
+        }
+    }
+
+    private applyEvent(event: GameEvent) {
+        if (event.name === 'GameCreated') {
+            this.games.set(event.gameId.toString(), {
+                gameId: event.gameId,
+                player1: event.player1.toLowerCase(),
+                stake: event.stake,
+                gameType: event.gameType,
+                roundsPlayed: 0,
+                scores: [0, 0],
+                movedPlayers: [],
+                choices: {},
+                rounds: [],
+                commitReveal: false,
+                isActive: true,
+            })
+            return
+        }
+
+        const game = this.get(event.gameId)
+        if (!game) return
+
+        switch (event.name) {
+            case 'PlayerInvited':
+                game.invitee = event.invitee.toLowerCase()
+                break
+            case 'GameJoined':
+                game.player2 = event.player2.toLowerCase()
+                break
+            case 'MoveCommitted':
+                game.commitReveal = true
+                break
+            case 'PlayerMoved':
+                game.movedPlayers.push(event.player.toLowerCase())
+                game.choices[event.player.toLowerCase()] = event.choice
+                break
+            case 'RoundPlayed':
+                game.rounds.push({
+                    firstMover: game.movedPlayers[0],
+                    player1Choice: event.player1Choice,
+                    player2Choice: event.player2Choice,
+                })
+                game.roundsPlayed = event.roundNumber
+                game.movedPlayers = []
+                game.choices = {}
+
+                if (beats(event.player1Choice, event.player2Choice)) game.scores[0]++
+                else if (beats(event.player2Choice, event.player1Choice)) game.scores[1]++
+                break
+            case 'GameEnded':
+                game.isActive = false
+                game.winner = event.winner === zeroAddress ? undefined : event.winner.toLowerCase()
+                game.payout = event.payout
+                this.endedGames.add(game.gameId.toString())
+                break
+            case 'GameCancelled':
+                game.isActive = false
+                this.endedGames.add(game.gameId.toString())
+                break
+        }
+    }
+
+    /**
+     * Drops the oldest ended games past `maxEndedGames`, keeping their wins and rounds.
+     */
+    private prune() {
+        for (const gameId of this.endedGames) {
+            if (this.endedGames.size <= this.maxEndedGames) break
+
+            const game = this.games.get(gameId)
+
+            this.endedGames.delete(gameId)
+            this.games.delete(gameId)
+            if (!game) continue
+
+            const players = [game.player1, game.player2].filter(
+                (player): player is string => player !== undefined,
+            )
+
+            for (const player of players) {
+                if (game.winner && player !== game.winner) {
+                    const key = `${game.winner}:${player}`
+                    this.pairWins.set(key, (this.pairWins.get(key) ?? 0) + 1)
+                }
+
+                const moves = countGameSecondMoves(game, player)
+                if (!moves.rounds) continue
+
+                const total = this.secondMoves.get(player) ?? { rounds: 0, wins: 0 }
+                this.secondMoves.set(player, {
+                    rounds: total.rounds + moves.rounds,
+                    wins: total.wins + moves.wins,
+                })
+            }
+        }
+    }
+
+    /**
+     * Writes pending changes to the backing file, if any.
+     */
+    public flush() {
+        if (!this.persistTimer) return
+
+        clearTimeout(this.persistTimer)
+        this.persistTimer = undefined
+        this.write()
+    }
+
+    private persist() {
+        if (!this.filePath || this.persistTimer) return
+
+        this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS)
+        // A pending write does not keep the process alive, shutdown flushes it
+        this.persistTimer.unref()
+    }
+
+    private write() {
+        if (!this.filePath) return
+
+        const state: TrackerState = {
+            games: this.list(),
+            pairWins: [...this.pairWins],
+            secondMoves: [...this.secondMoves],
+        }
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+        fs.writeFileSync(
+            this.filePath,
+            JSON.stringify(state, (_, value) =>
+                typeof value === 'bigint' ? value.toString() : value,
+            ),
+        )
+    }
+}
+
+/**
+ * Counts the rounds of a plain-move game `player` played second, and how many of them they won.
+ */
+function countGameSecondMoves(game: TrackedGame, player: string): SecondMoves {
+    const moves = { rounds: 0, wins: 0 }
+
+    if (game.commitReveal || ![game.player1, game.player2].includes(player)) return moves
+
+    const isPlayer1 = game.player1 === player
+
+    for (const round of game.rounds) {
+        if (round.firstMover === player) continue
+
+        const [choice, opponentChoice] = isPlayer1
+            ? [round.player1Choice, round.player2Choice]
+            : [round.player2Choice, round.player1Choice]
+
+        moves.rounds++
+        if (beats(choice, opponentChoice)) moves.wins++
+    }
+
+    return moves
+}
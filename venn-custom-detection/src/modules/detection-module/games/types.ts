@@ -0,0 +1,36 @@
+import { Choice, GameType } from '@/modules/detection-module/rps'
+
+export type PlayedRound = {
+    // Player that moved first, whose choice was public while the other player picked theirs
+    firstMover: string
+    player1Choice: Choice
+    player2Choice: Choice
+}
+
+/**
+ * What the detector knows about a game, rebuilt from the events it has seen.
+ * Addresses are lowercased.
+ */
+export type TrackedGame = {
+    gameId: bigint
+    player1: string
+    // Unset until the game is joined
+    player2?: string
+    // Only set for private games: the opponent, or the key signing their invites
+    invitee?: string
+    stake: bigint
+    gameType: GameType
+    roundsPlayed: number
+    scores: [number, number]
+    // Players that already moved in the current round
+    movedPlayers: string[]
+    // Choices of those players, by player
+    choices: Record<string, Choice>
+    rounds: PlayedRound[]
+    // Set once a move is committed. Moves of commit-reveal games are hidden until both players played
+    commitReveal: boolean
+    isActive: boolean
+    // Unset while the game is running and when it ends in a tie
+    winner?: string
+    payout?: bigint
+}
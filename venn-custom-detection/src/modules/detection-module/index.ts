@@ -1,2 +1,7 @@
+export * from './config'
+export * from './funding'
+export * from './games'
 export * from './router'
+export * from './rules'
 export * from './service'
+export * from './trace'
@@ -5,5 +5,6 @@ import * as DetectionController from './controller'
 const detectionRouter = Router()
 
 detectionRouter.post('/', DetectionController.detect)
+detectionRouter.post('/batch', DetectionController.detectBatch)
 
 export { detectionRouter }
@@ -0,0 +1,248 @@
+import { decodeEventLog, decodeFunctionData, Hex } from 'viem'
+
+import {
+    DetectionRequestTrace,
+    DetectionRequestTraceCall,
+    DetectionRequestTraceLog,
+} from '@/modules/detection-module/dtos/requests'
+
+import { rockPaperScissorsAbi, vennConsumerAbi } from './abi'
+import { Choice, GameAction, GameCall, GameEvent, GameType } from './types'
+
+const SELECTOR_LENGTH = 10 // '0x' + 4 bytes
+
+/**
+ * Decodes RockPaperScissors calldata into a typed game call.
+ *
+ * @param input - Raw calldata of a transaction or nested call.
+ *
+ * @returns The decoded game call, an `unknown` call when the selector is not part of the ABI,
+ * or `undefined` when the input carries no selector or targets a read-only or owner function.
+ *
+ * @example
+ * ```typescript
+ * decodeGameCall('0x7fd6f7c4...') // { name: 'makeMove', gameId: 1n, choice: Choice.Rock }
+ * ```
+ */
+export function decodeGameCall(input: string): GameCall | undefined {
+    if (!input || input.length < SELECTOR_LENGTH) return
+
+    let decoded
+
+    try {
+        decoded = decodeFunctionData({ abi: rockPaperScissorsAbi, data: input as Hex })
+    } catch {
+        return { name: 'unknown', selector: input.slice(0, SELECTOR_LENGTH).toLowerCase() }
+    }
+
+    switch (decoded.functionName) {
+        case 'createGame':
+            return {
+                name: 'createGame',
+                gameType: decoded.args[0] as GameType,
+                commitReveal: false,
+            }
+        case 'createCommitRevealGame':
+            return { name: 'createGame', gameType: decoded.args[0] as GameType, commitReveal: true }
+        case 'createPrivateGame':
+            return {
+                name: 'createGame',
+                gameType: decoded.args[0] as GameType,
+                commitReveal: decoded.args[1],
+                invitee: decoded.args[2],
+            }
+        case 'joinGame':
+            return { name: 'joinGame', gameId: decoded.args[0] }
+        // Joining a private game with its invite code is still joining it
+        case 'joinGameWithInvite':
+            return { name: 'joinGame', gameId: decoded.args[0], signature: decoded.args[1] }
+        case 'makeMove':
+            return { name: 'makeMove', gameId: decoded.args[0], choice: decoded.args[1] as Choice }
+        case 'commitMove':
+            return { name: 'commitMove', gameId: decoded.args[0], commitment: decoded.args[1] }
+        case 'revealMove':
+            return {
+                name: 'revealMove',
+                gameId: decoded.args[0],
+                choice: decoded.args[1] as Choice,
+                salt: decoded.args[2],
+            }
+        case 'cancelGame':
+        case 'claimForfeit':
+            return { name: decoded.functionName, gameId: decoded.args[0] }
+        default:
+            return
+    }
+}
+
+/**
+ * Unwraps a call approved by Venn: `safeFunctionCall(userNativeFee, proxyPayload, data)` checks the
+ * approval in `proxyPayload`, then runs `data` on the consumer.
+ *
+ * @returns The wrapped calldata and the fee paid out of the call value, or `undefined` when the
+ * input is not a `safeFunctionCall`.
+ */
+export function unwrapSafeFunctionCall(input: string): { data: Hex; fee: bigint } | undefined {
+    if (!input || input.length < SELECTOR_LENGTH) return
+
+    try {
+        const { args } = decodeFunctionData({ abi: vennConsumerAbi, data: input as Hex })
+        return { data: args[2], fee: args[0] }
+    } catch {
+        return
+    }
+}
+
+/**
+ * Decodes the transaction and every nested call that targets the game contract
+ * into a flat, depth-first list of game actions.
+ * Calls approved by Venn are decoded as the call they wrap, without their self-delegatecall.
+ *
+ * @param trace - The transaction trace from the `DetectionRequest`.
+ * @param protocolAddress - The game contract address. Calls to other contracts are ignored.
+ *
+ * @returns Decoded actions, the transaction itself first (depth `0`).
+ */
+export function decodeTraceActions(
+    trace: DetectionRequestTrace,
+    protocolAddress?: string,
+): GameAction[] {
+    const actions: GameAction[] = []
+    const target = protocolAddress?.toLowerCase()
+
+    const visit = (frame: DetectionRequestTrace | DetectionRequestTraceCall, depth: number) => {
+        // The consumer runs calls approved by Venn in a delegatecall to itself
+        const isSelfCall = frame.from.toLowerCase() === frame.to.toLowerCase()
+
+        if ((!target || frame.to.toLowerCase() === target) && !isSelfCall) {
+            const approved = unwrapSafeFunctionCall(frame.input)
+            const call = decodeGameCall(approved?.data ?? frame.input)
+
+            if (call) {
+                actions.push({
+                    ...call,
+                    from: frame.from,
+                    to: frame.to,
+                    stake: parseWei(frame.value) - (approved?.fee ?? BigInt(0)),
+                    depth,
+                })
+            }
+        }
+
+        frame.calls?.forEach(child => visit(child, depth + 1))
+    }
+
+    visit(trace, 0)
+
+    return actions
+}
+
+/**
+ * Decodes the game events emitted by the transaction.
+ *
+ * @param logs - The `trace.logs` of the `DetectionRequest`.
+ * @param protocolAddress - The game contract address. Logs of other contracts are ignored.
+ *
+ * @returns Decoded events, in emission order. Logs that are not game events are skipped.
+ */
+export function decodeGameEvents(
+    logs: DetectionRequestTraceLog[] = [],
+    protocolAddress?: string,
+): GameEvent[] {
+    const target = protocolAddress?.toLowerCase()
+
+    return logs.flatMap((log): GameEvent[] => {
+        if (target && log.address.toLowerCase() !== target) return []
+
+        let decoded
+
+        try {
+            decoded = decodeEventLog({
+                abi: rockPaperScissorsAbi,
+                data: log.data as Hex,
+                topics: log.topics as [Hex, ...Hex[]],
+            })
+        } catch {
+            return []
+        }
+
+        switch (decoded.eventName) {
+            case 'GameCreated':
+                return [
+                    {
+                        name: 'GameCreated',
+                        gameId: decoded.args.gameId,
+                        player1: decoded.args.player1,
+                        stake: decoded.args.stake,
+                        gameType: decoded.args.gameType as GameType,
+                    },
+                ]
+            case 'PlayerInvited':
+                return [{ name: 'PlayerInvited', ...decoded.args }]
+            case 'GameJoined':
+                return [{ name: 'GameJoined', ...decoded.args }]
+            case 'PlayerMoved':
+                return [
+                    {
+                        name: 'PlayerMoved',
+                        gameId: decoded.args.gameId,
+                        player: decoded.args.player,
+                        choice: decoded.args.choice as Choice,
+                    },
+                ]
+            case 'MoveCommitted':
+                return [{ name: 'MoveCommitted', ...decoded.args }]
+            case 'RoundPlayed':
+                return [
+                    {
+                        name: 'RoundPlayed',
+                        gameId: decoded.args.gameId,
+                        roundNumber: decoded.args.roundNumber,
+                        player1Choice: decoded.args.player1Choice as Choice,
+                        player2Choice: decoded.args.player2Choice as Choice,
+                    },
+                ]
+            case 'GameEnded':
+                return [{ name: 'GameEnded', ...decoded.args }]
+            case 'GameCancelled':
+                return [{ name: 'GameCancelled', ...decoded.args }]
+            default:
+                return []
+        }
+    })
+}
+
+/**
+ * Checks whether two calldata payloads perform the same game call.
+ *
+ * Calls are compared by their decoded arguments (game id, choice, game type, ...),
+ * falling back to raw calldata equality when either side cannot be decoded.
+ */
+export function isSameGameCall(input: string, otherInput: string): boolean {
+    const call = decodeGameCall(input)
+    const otherCall = decodeGameCall(otherInput)
+
+    if (!call || !otherCall || call.name === 'unknown' || otherCall.name === 'unknown') {
+        return input === otherInput
+    }
+
+    const otherArgs = otherCall as Record<string, unknown>
+
+    return (
+        Object.keys(call).length === Object.keys(otherArgs).length &&
+        Object.entries(call).every(([key, value]) => otherArgs[key] === value)
+    )
+}
+
+/**
+ * Parses a decimal or hex encoded wei amount, falling back to zero for missing or malformed values.
+ */
+export function parseWei(value?: string): bigint {
+    if (!value) return BigInt(0)
+
+    try {
+        return BigInt(value)
+    } catch {
+        return BigInt(0)
+    }
+}
@@ -0,0 +1,5 @@
+export * from './abi'
+export * from './decoder'
+export * from './moves'
+export * from './storage'
+export * from './types'
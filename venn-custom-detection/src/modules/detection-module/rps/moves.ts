@@ -0,0 +1,15 @@
+import { Choice } from './types'
+
+// Choice each choice wins against
+const BEATS: Partial<Record<Choice, Choice>> = {
+    [Choice.Rock]: Choice.Scissors,
+    [Choice.Paper]: Choice.Rock,
+    [Choice.Scissors]: Choice.Paper,
+}
+
+/**
+ * Returns whether `choice` wins against `opponentChoice`.
+ */
+export function beats(choice: Choice, opponentChoice: Choice): boolean {
+    return BEATS[choice] === opponentChoice
+}
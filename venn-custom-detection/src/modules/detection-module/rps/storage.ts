@@ -0,0 +1,57 @@
+import { encodeAbiParameters, keccak256, parseAbiParameters } from 'viem'
+
+import { Choice } from './types'
+
+// Storage layout of `RockPaperScissors.sol`, as reported by `solc --storage-layout`
+const GAMES_SLOT = BigInt(4)
+const PLAYER1_OFFSET = BigInt(1)
+const PLAYER2_OFFSET = BigInt(2)
+const CHOICES_OFFSET = BigInt(6)
+
+/**
+ * The parts of a stored game found in a prestate storage diff.
+ * Fields are unset when their slot is not part of the diff. Addresses are lowercased.
+ */
+export type StoredGame = {
+    players?: [string, string]
+    // Current round choices, by player index
+    choices?: [Choice, Choice]
+}
+
+/**
+ * Reads a game from the storage of the game contract, as found in `trace.pre[protocolAddress].storage`.
+ *
+ * @param storage - Storage slots of the game contract, keyed by 32 bytes hex slot.
+ * @param gameId - The game to read.
+ */
+export function readStoredGame(storage: Record<string, string> = {}, gameId: bigint): StoredGame {
+    const slots = new Map(Object.entries(storage).map(([slot, value]) => [BigInt(slot), value]))
+    const base = BigInt(
+        keccak256(
+            encodeAbiParameters(parseAbiParameters('uint256, uint256'), [gameId, GAMES_SLOT]),
+        ),
+    )
+
+    const read = (offset: bigint) => {
+        const value = slots.get(base + offset)
+        return value === undefined ? undefined : BigInt(value)
+    }
+
+    const player1 = read(PLAYER1_OFFSET)
+    const player2 = read(PLAYER2_OFFSET)
+    const choices = read(CHOICES_OFFSET)
+
+    const toAddress = (value: bigint) => `0x${value.toString(16).padStart(40, '0')}`
+
+    return {
+        players:
+            player1 === undefined || player2 === undefined
+                ? undefined
+                : [toAddress(player1), toAddress(player2)],
+        // `Choice[2]` is packed in a single slot, one byte per choice from the lowest-order byte
+        choices:
+            choices === undefined
+                ? undefined
+                : [Number(choices & BigInt(0xff)), Number((choices >> BigInt(8)) & BigInt(0xff))],
+    }
+}
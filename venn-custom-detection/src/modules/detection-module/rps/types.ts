@@ -0,0 +1,161 @@
+import { Hex } from 'viem'
+
+/* Mirrors of the enums declared in `RockPaperScissors.sol` */
+
+export enum Choice {
+    None = 0,
+    Rock = 1,
+    Paper = 2,
+    Scissors = 3,
+}
+
+export enum GameType {
+    OneRound = 0,
+    BestOfThree = 1,
+    BestOfFive = 2,
+}
+
+/* `createGame`, `createCommitRevealGame` or `createPrivateGame` */
+export type CreateGameCall = {
+    name: 'createGame'
+    gameType: GameType
+    commitReveal: boolean
+    // Set for private games, see `PlayerInvitedEvent`
+    invitee?: string
+}
+
+/* `joinGame`, or `joinGameWithInvite` with the invite key's `signature` */
+export type JoinGameCall = {
+    name: 'joinGame'
+    gameId: bigint
+    signature?: Hex
+}
+
+export type MakeMoveCall = {
+    name: 'makeMove'
+    gameId: bigint
+    choice: Choice
+}
+
+export type CommitMoveCall = {
+    name: 'commitMove'
+    gameId: bigint
+    commitment: Hex
+}
+
+export type RevealMoveCall = {
+    name: 'revealMove'
+    gameId: bigint
+    choice: Choice
+    salt: Hex
+}
+
+export type CancelGameCall = {
+    name: 'cancelGame'
+    gameId: bigint
+}
+
+export type ClaimForfeitCall = {
+    name: 'claimForfeit'
+    gameId: bigint
+}
+
+/**
+ * A call into the game contract whose selector is not part of the public ABI
+ * (e.g. an attempt to reach a private function such as `_endGame`).
+ */
+export type UnknownCall = {
+    name: 'unknown'
+    selector: string
+}
+
+export type GameCall =
+    | CreateGameCall
+    | JoinGameCall
+    | MakeMoveCall
+    | CommitMoveCall
+    | RevealMoveCall
+    | CancelGameCall
+    | ClaimForfeitCall
+    | UnknownCall
+
+/**
+ * A decoded game call together with the frame it was found in.
+ *
+ * `depth` is `0` for the transaction itself and grows by one for every nested call.
+ * `stake` is the ETH value (in wei) attached to the frame.
+ */
+export type GameAction = GameCall & {
+    from: string
+    to: string
+    stake: bigint
+    depth: number
+}
+
+export type GameCreatedEvent = {
+    name: 'GameCreated'
+    gameId: bigint
+    player1: string
+    stake: bigint
+    gameType: GameType
+}
+
+export type GameJoinedEvent = {
+    name: 'GameJoined'
+    gameId: bigint
+    player2: string
+}
+
+export type PlayerMovedEvent = {
+    name: 'PlayerMoved'
+    gameId: bigint
+    player: string
+    choice: Choice
+}
+
+export type RoundPlayedEvent = {
+    name: 'RoundPlayed'
+    gameId: bigint
+    roundNumber: number
+    player1Choice: Choice
+    player2Choice: Choice
+}
+
+/* Emitted with `GameCreated` for private games, which only `invitee` or its signed players join */
+export type PlayerInvitedEvent = {
+    name: 'PlayerInvited'
+    gameId: bigint
+    invitee: string
+}
+
+/* Only emitted by commit-reveal games, where `PlayerMoved` follows once the move is revealed */
+export type MoveCommittedEvent = {
+    name: 'MoveCommitted'
+    gameId: bigint
+    player: string
+    roundNumber: number
+}
+
+/* `winner` is the zero address when the game ends in a tie */
+export type GameEndedEvent = {
+    name: 'GameEnded'
+    gameId: bigint
+    winner: string
+    payout: bigint
+}
+
+/* Emitted when the creator cancels a game nobody joined */
+export type GameCancelledEvent = {
+    name: 'GameCancelled'
+    gameId: bigint
+}
+
+export type GameEvent =
+    | GameCreatedEvent
+    | PlayerInvitedEvent
+    | GameJoinedEvent
+    | PlayerMovedEvent
+    | MoveCommittedEvent
+    | RoundPlayedEvent
+    | GameEndedEvent
+    | GameCancelledEvent
@@ -0,0 +1,61 @@
+/* Shapes of the `additionalData` sections read by the detection rules */
+
+export interface Transaction {
+    hash: string
+    from: string
+    to: string
+    gasPrice: string
+    input: string
+}
+
+export interface MempoolContext {
+    blockTransactions?: Transaction[]
+    pendingTransactions?: Transaction[]
+    currentTransaction?: Transaction
+    priceImpact?: {
+        before: string
+        after: string
+    }
+    similarityAnalysis?: {
+        isExactCopy: boolean
+        inputSimilarity: string
+    }
+}
+
+export interface BlockchainContext {
+    isReorg?: boolean
+    reorgDepth?: number
+    blockNumber?: number
+    timestamp?: number
+}
+
+export interface LiquidityEvent {
+    type: string
+    address: string
+    amount: string
+}
+
+export interface LiquidityContext {
+    recentLiquidityEvents?: LiquidityEvent[]
+    liquidityDuration?: number
+}
+
+export interface OracleUpdate {
+    oldValue: string
+    newValue: string
+    updater: string
+}
+
+export interface OracleContext {
+    recentOracleUpdates?: OracleUpdate[]
+    volatilityAnalysis?: {
+        normalVolatility: string
+        attackVolatility: string
+        confidenceScore: number
+    }
+}
+
+export interface MultisigInfo {
+    presentPlayers: number
+    requiredPlayers: number
+}
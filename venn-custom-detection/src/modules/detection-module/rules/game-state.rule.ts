@@ -0,0 +1,74 @@
+import { GameAction } from '@/modules/detection-module/rps'
+
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks game calls against the state of the games they target
+ *
+ * Joining or moving in a game in a way the contract does not allow (moving in a game
+ * nobody joined, playing both sides, joining a private game uninvited, moving twice
+ * in a round, ...) reveals a player probing for inconsistencies or attempting to bypass
+ * the game rules.
+ */
+export const gameStateConsistencyRule: DetectionRule = {
+    id: 'game-state-consistency',
+    severity: RuleSeverity.High,
+    description: 'A game call does not match the known state, stake or participants of its game',
+    message:
+        'Game state inconsistency detected: Transaction does not match the known state of the game',
+
+    evaluate({ request, actions, games }) {
+        const violations: { action: GameAction; reason: string }[] = []
+
+        for (const action of actions) {
+            if (action.name !== 'joinGame' && action.name !== 'makeMove') continue
+
+            // Games created before the detector started are unknown, nothing to compare against
+            const game = games.get(action.gameId)
+            if (!game) continue
+
+            const from = action.from.toLowerCase()
+            const addViolation = (reason: string) =>
+                violations.push({ action, reason: `game ${action.gameId}: ${reason}` })
+
+            if (!game.isActive) {
+                addViolation('game already ended')
+                continue
+            }
+
+            if (action.name === 'joinGame') {
+                if (game.player2) addViolation('game is already full')
+                if (from === game.player1) addViolation('same address on both sides of the game')
+                if (action.stake !== game.stake) addViolation('stake does not match the game stake')
+                // Private games are joined by the invitee, or with a signature of its invite key
+                if (game.invitee && !action.signature && from !== game.invitee) {
+                    addViolation('join by an address that was not invited')
+                }
+                continue
+            }
+
+            if (!game.player2) {
+                addViolation('move in a game that was never joined')
+            } else if (from !== game.player1 && from !== game.player2) {
+                addViolation('move from an address that is not a player')
+            } else if (game.movedPlayers.includes(from)) {
+                addViolation('player already moved in this round')
+            }
+        }
+
+        if (violations.length === 0) {
+            return
+        }
+
+        return {
+            confidence: 0.9,
+            message: `Game state inconsistency detected: ${violations
+                .map(({ reason }) => reason)
+                .join(', ')}`,
+            evidence: {
+                transactions: [request.hash],
+                addresses: [...new Set(violations.map(({ action }) => action.from))],
+            },
+        }
+    },
+}
@@ -0,0 +1,78 @@
+import { isSameGameCall } from '@/modules/detection-module/rps'
+
+import { MempoolContext } from './context.types'
+import { isKnownMevAddress } from './helpers'
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks if the transaction is a generalized frontrunning attack
+ *
+ * Generalized frontrunning occurs when a bot observes profitable transaction
+ * patterns in the mempool and copies them with a higher gas price.
+ */
+export const generalizedFrontrunningRule: DetectionRule = {
+    id: 'generalized-frontrunning',
+    severity: RuleSeverity.High,
+    description: 'A known MEV address copies a pending game call with a higher gas price',
+    message:
+        'Generalized frontrunning attack detected: Transaction copies player moves with higher gas price',
+
+    evaluate(context) {
+        const { request } = context
+
+        const mempoolContext = request.additionalData?.mempoolContext as MempoolContext
+        if (!mempoolContext) {
+            return
+        }
+
+        // Check for pending transactions and current transaction
+        const pendingTxs = mempoolContext.pendingTransactions || []
+        const currentTx = mempoolContext.currentTransaction
+
+        if (!currentTx || pendingTxs.length === 0) {
+            return
+        }
+
+        const isFromKnownMevAddress = isKnownMevAddress(context, currentTx.from)
+
+        // Check for similar transactions with lower gas price
+        for (const pendingTx of pendingTxs) {
+            // Check for the same game call (copying the exact move)
+            if (isSameGameCall(pendingTx.input, currentTx.input)) {
+                // If the current transaction has higher gas price and is from a different sender
+                if (
+                    parseInt(currentTx.gasPrice) > parseInt(pendingTx.gasPrice) &&
+                    currentTx.from.toLowerCase() !== pendingTx.from.toLowerCase()
+                ) {
+                    // Check if the frontrunning address is a known MEV bot
+                    return isFromKnownMevAddress
+                        ? {
+                              confidence: 0.9,
+                              evidence: {
+                                  transactions: [pendingTx.hash, currentTx.hash],
+                                  addresses: [currentTx.from],
+                              },
+                          }
+                        : undefined
+                }
+            }
+        }
+
+        // Check if similarity analysis is available
+        if (mempoolContext.similarityAnalysis) {
+            const analysis = mempoolContext.similarityAnalysis
+
+            // If transaction is an exact copy and from a known MEV address
+            if (
+                analysis.isExactCopy &&
+                analysis.inputSimilarity === '100%' &&
+                isFromKnownMevAddress
+            ) {
+                return {
+                    confidence: 0.8,
+                    evidence: { transactions: [currentTx.hash], addresses: [currentTx.from] },
+                }
+            }
+        }
+    },
+}
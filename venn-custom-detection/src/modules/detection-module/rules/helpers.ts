@@ -0,0 +1,10 @@
+import { ReputationLabel } from '@/modules/reputation-module/types'
+
+import { DetectionContext } from './types'
+
+/**
+ * Checks the address against the configured MEV addresses and the labels of the reputation store.
+ */
+export const isKnownMevAddress = ({ config, reputation }: DetectionContext, address: string) =>
+    config.addresses.knownMev.includes(address.toLowerCase()) ||
+    reputation.hasLabel(address, ReputationLabel.MevBot, ReputationLabel.Sandwicher)
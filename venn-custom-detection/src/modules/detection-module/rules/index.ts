@@ -0,0 +1,40 @@
+import { gameStateConsistencyRule } from './game-state.rule'
+import { generalizedFrontrunningRule } from './generalized-frontrunning.rule'
+import { jitLiquidityRule } from './jit-liquidity.rule'
+import { movePeekingRule } from './move-peeking.rule'
+import { multisigBypassRule } from './multisig-bypass.rule'
+import { oracleManipulationRule } from './oracle-manipulation.rule'
+import { RuleRegistry } from './registry'
+import { sandwichAttackRule } from './sandwich-attack.rule'
+import { selfPlayRule } from './self-play.rule'
+import { timeBanditRule } from './time-bandit.rule'
+
+export * from './context.types'
+export * from './game-state.rule'
+export * from './generalized-frontrunning.rule'
+export * from './helpers'
+export * from './jit-liquidity.rule'
+export * from './move-peeking.rule'
+export * from './multisig-bypass.rule'
+export * from './oracle-manipulation.rule'
+export * from './registry'
+export * from './sandwich-attack.rule'
+export * from './self-play.rule'
+export * from './time-bandit.rule'
+export * from './types'
+
+/* Built-in rules, in their default evaluation order */
+export const defaultRules = [
+    sandwichAttackRule,
+    timeBanditRule,
+    jitLiquidityRule,
+    multisigBypassRule,
+    oracleManipulationRule,
+    generalizedFrontrunningRule,
+    gameStateConsistencyRule,
+    selfPlayRule,
+    movePeekingRule,
+]
+
+/* Registry used by `DetectionService`. Register protocol-specific rules here */
+export const ruleRegistry = new RuleRegistry(defaultRules)
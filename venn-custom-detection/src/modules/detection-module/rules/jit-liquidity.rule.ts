@@ -0,0 +1,59 @@
+import { LiquidityContext, LiquidityEvent } from './context.types'
+import { isKnownMevAddress } from './helpers'
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks if the transaction is part of a JIT (Just-In-Time) liquidity attack
+ *
+ * JIT liquidity attacks involve adding liquidity just before a high-value
+ * transaction, capturing fees, and removing liquidity immediately after.
+ */
+export const jitLiquidityRule: DetectionRule = {
+    id: 'jit-liquidity',
+    severity: RuleSeverity.Medium,
+    description: 'Short-lived liquidity is added and removed around a player transaction',
+    message:
+        'JIT liquidity attack detected: Temporary liquidity provision to extract fees from players',
+
+    evaluate(context) {
+        const { request, config } = context
+
+        const liquidityContext = request.additionalData?.liquidityContext as LiquidityContext
+        if (!liquidityContext || !liquidityContext.recentLiquidityEvents) {
+            return
+        }
+
+        const events = liquidityContext.recentLiquidityEvents
+
+        // Check for the JIT pattern: add liquidity -> player tx -> remove liquidity
+        const addEvents = events.filter((e: LiquidityEvent) => e.type === 'add')
+        const removeEvents = events.filter((e: LiquidityEvent) => e.type === 'remove')
+        const playerEvents = events.filter((e: LiquidityEvent) => e.type === 'playerTransaction')
+
+        if (addEvents.length === 0 || removeEvents.length === 0 || playerEvents.length === 0) {
+            return
+        }
+
+        // Check if there's very short-lived liquidity (typical for JIT attacks)
+        // Liquidity provided for less than 30 seconds (by default) is suspicious
+        if (
+            liquidityContext.liquidityDuration &&
+            liquidityContext.liquidityDuration < config.thresholds.jitLiquidityDuration
+        ) {
+            // Check if liquidity provider is a known MEV address
+            const provider = addEvents[0].address.toLowerCase()
+            const evidence = { transactions: [request.hash], addresses: [addEvents[0].address] }
+
+            if (isKnownMevAddress(context, provider)) {
+                return { confidence: 0.9, evidence }
+            }
+
+            // Check if there's profit from the quick liquidity provision
+            const addedAmount = parseFloat(addEvents[0].amount)
+            const removedAmount = parseFloat(removeEvents[0].amount)
+
+            // If removed amount > added amount, liquidity provider profited
+            return removedAmount > addedAmount ? { confidence: 0.7, evidence } : undefined
+        }
+    },
+}
@@ -0,0 +1,121 @@
+import { beats, Choice, decodeGameCall, readStoredGame } from '@/modules/detection-module/rps'
+
+import { MempoolContext } from './context.types'
+import { DetectionRule, RuleSeverity } from './types'
+
+/* An opponent move the mover could see before submitting their own */
+type ObservedMove = {
+    choice: Choice
+    source: string
+    transaction?: string
+}
+
+/**
+ * Checks if a player counters opponent moves they read before moving
+ *
+ * Plain `makeMove` calls put the choice in public calldata, then in the `choices` storage
+ * of the game, so the second mover of a round can read it and play the counter.
+ * Honest players counter a third of the moves by chance, so a single counter is not enough:
+ * the mover must also have won at least `movePeekingWinRate` of the rounds they played second.
+ */
+export const movePeekingRule: DetectionRule = {
+    id: 'move-peeking',
+    severity: RuleSeverity.High,
+    description:
+        'A player counters an opponent move that was public before they moved, and wins most rounds played second',
+    message: 'Move peeking detected: Player counters opponent moves read before moving',
+
+    evaluate({ request, actions, games, config }) {
+        const mempoolContext = request.additionalData?.mempoolContext as MempoolContext | undefined
+        const visibleTransactions = [
+            ...(mempoolContext?.blockTransactions ?? []),
+            ...(mempoolContext?.pendingTransactions ?? []),
+        ]
+        const protocol = request.protocolAddress?.toLowerCase()
+        const protocolState = Object.entries(request.trace.pre ?? {}).find(
+            ([address]) => address.toLowerCase() === protocol,
+        )?.[1]
+
+        const reasons: string[] = []
+        const transactions = new Set([request.hash])
+        const addresses = new Set<string>()
+        let confidence = 0
+
+        for (const action of actions) {
+            if (action.name !== 'makeMove') continue
+
+            const game = games.get(action.gameId)
+            if (game?.commitReveal) continue
+
+            const mover = action.from.toLowerCase()
+            const stored = readStoredGame(protocolState?.storage, action.gameId)
+            const players = game ? [game.player1, game.player2] : stored.players
+            const opponentIndex = players?.[0] === mover ? 1 : 0
+            const opponent = players?.[opponentIndex]
+
+            const observed: ObservedMove[] = []
+
+            // Opponent moves already mined, seen by the detector or read from the prestate
+            if (opponent && game?.choices[opponent]) {
+                observed.push({ choice: game.choices[opponent], source: 'a mined move' })
+            }
+            if (players && stored.choices?.[opponentIndex]) {
+                observed.push({ choice: stored.choices[opponentIndex], source: 'contract storage' })
+            }
+
+            // Opponent moves still in the mempool, or earlier in the block
+            for (const transaction of visibleTransactions) {
+                const from = transaction.from.toLowerCase()
+                const call = decodeGameCall(transaction.input)
+
+                if (
+                    call?.name === 'makeMove' &&
+                    call.gameId === action.gameId &&
+                    from !== mover &&
+                    (!opponent || from === opponent)
+                ) {
+                    observed.push({
+                        choice: call.choice,
+                        source: `transaction ${transaction.hash}`,
+                        transaction: transaction.hash,
+                    })
+                }
+            }
+
+            const countered = observed.find(move => beats(action.choice, move.choice))
+            if (!countered) continue
+
+            // This move counts as a won round played second
+            const secondMoves = games.countSecondMoves(mover)
+            const rounds = secondMoves.rounds + 1
+            const wins = secondMoves.wins + 1
+            const winRate = wins / rounds
+
+            if (
+                rounds < config.thresholds.movePeekingMinRounds ||
+                winRate < config.thresholds.movePeekingWinRate
+            ) {
+                continue
+            }
+
+            reasons.push(
+                `game ${action.gameId}: ${mover} played ${Choice[action.choice]} against ` +
+                    `${Choice[countered.choice]} read from ${countered.source}, ` +
+                    `winning ${wins} of ${rounds} rounds played second`,
+            )
+            if (countered.transaction) transactions.add(countered.transaction)
+            addresses.add(mover)
+            confidence = Math.max(confidence, Math.min(winRate, 0.95))
+        }
+
+        if (reasons.length === 0) {
+            return
+        }
+
+        return {
+            confidence,
+            message: `Move peeking detected: ${reasons.join(', ')}`,
+            evidence: { transactions: [...transactions], addresses: [...addresses] },
+        }
+    },
+}
@@ -0,0 +1,49 @@
+import { MultisigInfo } from './context.types'
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks if the transaction attempts to bypass multisig validation
+ *
+ * In the RockPaperScissors contract, certain operations require both players
+ * to participate. This check detects attempts to circumvent this requirement.
+ */
+export const multisigBypassRule: DetectionRule = {
+    id: 'multisig-bypass',
+    severity: RuleSeverity.Critical,
+    description: 'A move is combined with calls into non-public entry points of the game contract',
+    message:
+        'Multisig validation bypass attempt detected: Transaction attempts to circumvent two-player validation',
+
+    evaluate({ request, actions }) {
+        // Check if the transaction is calling the makeMove function
+        const [transactionAction] = actions
+        if (transactionAction?.depth !== 0 || transactionAction.name !== 'makeMove') {
+            return
+        }
+
+        // Look for nested calls into the game contract that do not match any public
+        // entry point, i.e. attempts to reach private functions like _endGame directly
+        const suspiciousCalls = actions.filter(
+            action => action.depth > 0 && action.name === 'unknown',
+        )
+
+        if (suspiciousCalls.length > 0) {
+            const evidence = {
+                transactions: [request.hash],
+                addresses: [...new Set(suspiciousCalls.map(action => action.from))],
+            }
+
+            // Check multisig context for confirmation
+            const multisigInfo = request.additionalData?.multisigInfo as MultisigInfo
+            if (multisigInfo) {
+                // If only one player has provided their signature, this is an attack
+                return multisigInfo.presentPlayers < multisigInfo.requiredPlayers
+                    ? { confidence: 1, evidence }
+                    : undefined
+            }
+
+            // If we can't confirm from multisig info, err on the side of caution
+            return { confidence: 0.8, evidence }
+        }
+    },
+}
@@ -0,0 +1,76 @@
+import { OracleContext } from './context.types'
+import { isKnownMevAddress } from './helpers'
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks if the transaction is part of an oracle manipulation attack
+ *
+ * Oracle manipulation can affect game outcomes by altering random number
+ * generation or price feeds used by the contract.
+ */
+export const oracleManipulationRule: DetectionRule = {
+    id: 'oracle-manipulation',
+    severity: RuleSeverity.High,
+    description: 'Oracle updates show abnormal volatility or large swings by known MEV addresses',
+    message:
+        'Oracle manipulation attack detected: Price feed manipulation could affect game outcomes',
+
+    evaluate(context) {
+        const { request, config } = context
+
+        const oracleContext = request.additionalData?.oracleContext as OracleContext
+        if (!oracleContext || !oracleContext.recentOracleUpdates) {
+            return
+        }
+
+        const updates = oracleContext.recentOracleUpdates
+
+        // Check for rapid price changes that might indicate manipulation
+        if (updates.length < 2) {
+            return
+        }
+
+        // Check for large price swings within a short time period
+        for (let i = 0; i < updates.length - 1; i++) {
+            const oldValue = parseFloat(updates[i].oldValue)
+            const newValue = parseFloat(updates[i].newValue)
+
+            // Calculate percentage change
+            const percentChange = Math.abs((newValue - oldValue) / oldValue) * 100
+
+            // If volatility analysis is available, use it
+            if (oracleContext.volatilityAnalysis) {
+                const normalVolatility = parseFloat(
+                    oracleContext.volatilityAnalysis.normalVolatility,
+                )
+                const attackVolatility = parseFloat(
+                    oracleContext.volatilityAnalysis.attackVolatility,
+                )
+                const confidenceScore = oracleContext.volatilityAnalysis.confidenceScore
+
+                // If the measured volatility is significantly higher than normal
+                // and confidence score is high, likely manipulation
+                if (
+                    attackVolatility >
+                        normalVolatility * config.thresholds.oracleVolatilityMultiplier &&
+                    confidenceScore > config.thresholds.oracleConfidenceScore
+                ) {
+                    return {
+                        confidence: confidenceScore,
+                        evidence: { addresses: [...new Set(updates.map(u => u.updater))] },
+                    }
+                }
+            } else {
+                // Without volatility analysis, use a simple heuristic
+                // Price changes >10% (by default) in a short period are suspicious
+                if (percentChange > config.thresholds.oraclePriceChange) {
+                    // Check if updater is a known MEV address
+                    const updater = updates[i].updater.toLowerCase()
+                    if (isKnownMevAddress(context, updater)) {
+                        return { confidence: 0.85, evidence: { addresses: [updates[i].updater] } }
+                    }
+                }
+            }
+        }
+    },
+}
@@ -0,0 +1,113 @@
+import { DetectionRule } from './types'
+
+export type RuleRegistryConfig = {
+    // Rule ids evaluated first, in this order. Remaining rules keep their registration order
+    order?: string[]
+    // Rule ids that are skipped during detection
+    disabled?: string[]
+}
+
+/**
+ * Holds every detection rule known to the service and decides which of them
+ * run, and in which order, for each `DetectionService.detect` call.
+ *
+ * @example
+ * ```typescript
+ * const registry = new RuleRegistry([sandwichAttackRule, timeBanditRule])
+ *
+ * registry.register(myProtocolRule)
+ * registry.configure({ order: ['my-protocol-rule'], disabled: ['time-bandit'] })
+ *
+ * registry.getActiveRules() // [myProtocolRule, sandwichAttackRule]
+ * ```
+ */
+export class RuleRegistry {
+    private readonly rules = new Map<string, DetectionRule>()
+    private readonly disabled = new Set<string>()
+    private order: string[] = []
+
+    constructor(rules: DetectionRule[] = []) {
+        rules.forEach(rule => this.register(rule))
+    }
+
+    /**
+     * Adds a rule to the registry. Newly registered rules are enabled.
+     *
+     * @throws If a rule with the same id is already registered.
+     */
+    public register(rule: DetectionRule) {
+        if (this.rules.has(rule.id)) {
+            throw new Error(`Detection rule '${rule.id}' is already registered`)
+        }
+
+        this.rules.set(rule.id, rule)
+    }
+
+    public unregister(id: string) {
+        this.rules.delete(id)
+        this.disabled.delete(id)
+        this.order = this.order.filter(ruleId => ruleId !== id)
+    }
+
+    public get(id: string): DetectionRule | undefined {
+        return this.rules.get(id)
+    }
+
+    public list(): DetectionRule[] {
+        return [...this.rules.values()]
+    }
+
+    public enable(id: string) {
+        this.assertRegistered(id)
+        this.disabled.delete(id)
+    }
+
+    public disable(id: string) {
+        this.assertRegistered(id)
+        this.disabled.add(id)
+    }
+
+    public isEnabled(id: string): boolean {
+        return this.rules.has(id) && !this.disabled.has(id)
+    }
+
+    /**
+     * Replaces the ordering and enabled state of the registered rules.
+     *
+     * @throws If the configuration references a rule id that is not registered.
+     */
+    public configure({ order = [], disabled = [] }: RuleRegistryConfig) {
+        for (const id of [...order, ...disabled]) {
+            this.assertRegistered(id)
+        }
+
+        this.order = [...new Set(order)]
+        this.disabled.clear()
+        disabled.forEach(id => this.disabled.add(id))
+    }
+
+    /**
+     * Returns the enabled rules in evaluation order.
+     */
+    public getActiveRules(): DetectionRule[] {
+        const ordered = this.order.map(id => this.rules.get(id)!)
+        const remaining = this.list().filter(rule => !this.order.includes(rule.id))
+
+        return [...ordered, ...remaining].filter(rule => !this.disabled.has(rule.id))
+    }
+
+    private assertRegistered(id: string) {
+        if (!this.rules.has(id)) {
+            throw new Error(`Unknown detection rule '${id}'`)
+        }
+    }
+}
+
+/**
+ * Parses a comma separated list of rule ids, e.g. from an environment variable.
+ */
+export const parseRuleIds = (value?: string): string[] =>
+    (value ?? '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean)
@@ -0,0 +1,76 @@
+import { MempoolContext } from './context.types'
+import { isKnownMevAddress } from './helpers'
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks if the transaction is part of a sandwich attack pattern
+ *
+ * Sandwich attacks occur when an attacker observes a pending transaction,
+ * then executes transactions before and after it to profit from price movements.
+ */
+export const sandwichAttackRule: DetectionRule = {
+    id: 'sandwich-attack',
+    severity: RuleSeverity.High,
+    description:
+        'Transaction is wrapped by higher-gas transactions from the same known MEV address',
+    message:
+        'Sandwich attack pattern detected: Transaction is part of a sandwich attack that may extract value from players',
+
+    evaluate(context) {
+        const { request, config } = context
+
+        const mempoolContext = request.additionalData?.mempoolContext as MempoolContext
+        if (!mempoolContext || !mempoolContext.blockTransactions) {
+            return
+        }
+
+        const transactions = mempoolContext.blockTransactions
+
+        // Need at least 3 transactions for a sandwich (before, target, after)
+        if (transactions.length < 3) {
+            return
+        }
+
+        // Check if the transactions follow the sandwich pattern:
+        // 1. Same address for first and last transaction
+        // 2. Target transaction in the middle
+        // 3. Higher gas price in the attacking transactions
+        const firstTx = transactions[0]
+        const lastTx = transactions[transactions.length - 1]
+        const targetTxHash = request.hash
+
+        // Find target transaction position
+        const targetPosition = transactions.findIndex(tx => tx.hash === targetTxHash)
+        if (targetPosition <= 0 || targetPosition >= transactions.length - 1) {
+            return
+        }
+
+        // Check if first and last transactions are from the same address
+        // and gas price is higher than the target transaction
+        if (
+            firstTx.from.toLowerCase() === lastTx.from.toLowerCase() &&
+            isKnownMevAddress(context, firstTx.from) &&
+            parseInt(firstTx.gasPrice) > parseInt(transactions[targetPosition].gasPrice) &&
+            parseInt(lastTx.gasPrice) > parseInt(transactions[targetPosition].gasPrice)
+        ) {
+            const evidence = {
+                transactions: [firstTx.hash, targetTxHash, lastTx.hash],
+                addresses: [firstTx.from],
+            }
+
+            // If there's price impact data, check if it shows exploitation
+            if (mempoolContext.priceImpact) {
+                const beforeImpact = parseFloat(mempoolContext.priceImpact.before)
+                const afterImpact = parseFloat(mempoolContext.priceImpact.after)
+
+                // If price impact is significant (>1% total by default), likely a sandwich
+                return beforeImpact + afterImpact > config.thresholds.sandwichPriceImpact
+                    ? { confidence: 0.95, evidence }
+                    : undefined
+            }
+
+            // Without price impact data, use pattern matching alone
+            return { confidence: 0.7, evidence }
+        }
+    },
+}
@@ -0,0 +1,85 @@
+import { FundingLink } from '@/modules/detection-module/funding'
+
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks if a game is joined by a wallet of the same owner as its creator
+ *
+ * Players farm wins (and the leaderboard) by playing against their own alt wallets.
+ * Such wallets are usually funded by the creator, or by the same source, and the same
+ * side keeps winning every game between them.
+ */
+export const selfPlayRule: DetectionRule = {
+    id: 'self-play',
+    severity: RuleSeverity.High,
+    description:
+        'A game is joined by a wallet sharing funding with its creator, or a pair keeps trading wins',
+    message:
+        'Self-play detected: Both players of the game appear to be controlled by the same owner',
+
+    evaluate({ request, actions, games, funding, config }) {
+        const reasons: string[] = []
+        const addresses = new Set<string>()
+        let confidence = 0
+
+        for (const action of actions) {
+            if (action.name !== 'joinGame') continue
+
+            const game = games.get(action.gameId)
+            const joiner = action.from.toLowerCase()
+            const creator = game?.player1
+
+            // Playing against yourself with a single address is covered by game-state-consistency
+            if (!creator || creator === joiner) continue
+
+            // Check if the players are linked through funding
+            const link = funding.findLink(joiner, creator, {
+                maxDepth: config.thresholds.selfPlayFundingDepth,
+                hubSize: config.thresholds.selfPlayFundingHubSize,
+            })
+
+            if (link) {
+                reasons.push(`game ${action.gameId}: ${describeLink(link)}`)
+                addresses.add(creator).add(joiner).add(link.funder)
+                confidence = Math.max(
+                    confidence,
+                    link.type === 'funded' && link.hops === 1 ? 0.9 : 0.7,
+                )
+            }
+
+            // Check if one side keeps winning every game between the pair
+            const creatorWins = games.countWins(creator, joiner)
+            const joinerWins = games.countWins(joiner, creator)
+            const streak = Math.max(creatorWins, joinerWins)
+
+            if (
+                streak >= config.thresholds.selfPlayPairWins &&
+                Math.min(creatorWins, joinerWins) === 0
+            ) {
+                const [winner, loser] = creatorWins ? [creator, joiner] : [joiner, creator]
+
+                reasons.push(
+                    `game ${action.gameId}: ${winner} won all ${streak} games against ${loser}`,
+                )
+                addresses.add(creator).add(joiner)
+                confidence = Math.max(confidence, link ? 0.95 : 0.6)
+            }
+        }
+
+        if (reasons.length === 0) {
+            return
+        }
+
+        return {
+            confidence,
+            message: `Self-play detected: ${reasons.join(', ')}`,
+            evidence: { transactions: [request.hash], addresses: [...addresses] },
+        }
+    },
+}
+
+const describeLink = (link: FundingLink) =>
+    link.type === 'funded'
+        ? `${link.recipient} was funded by ${link.funder}` +
+          (link.hops > 1 ? ` through ${link.hops - 1} intermediate accounts` : '')
+        : `both players were funded by ${link.funder}`
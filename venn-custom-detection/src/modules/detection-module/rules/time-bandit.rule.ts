@@ -0,0 +1,39 @@
+import { BlockchainContext } from './context.types'
+import { DetectionRule, RuleSeverity } from './types'
+
+/**
+ * Checks if the transaction is part of a time-bandit attack
+ *
+ * Time-bandit attacks involve miners/validators reorganizing blocks to
+ * extract value from transactions, particularly targeting high-stake games.
+ */
+export const timeBanditRule: DetectionRule = {
+    id: 'time-bandit',
+    severity: RuleSeverity.Critical,
+    description: 'Transaction is part of a deep chain reorganization',
+    message:
+        'Time-bandit attack detected: Potential chain reorganization targeting high-value games',
+
+    evaluate({ request, config }) {
+        const blockchainContext = request.additionalData?.blockchainContext as BlockchainContext
+        if (!blockchainContext) {
+            return
+        }
+
+        // Check for blockchain reorganization
+        if (
+            blockchainContext.isReorg &&
+            blockchainContext.reorgDepth &&
+            blockchainContext.reorgDepth > config.thresholds.reorgDepth
+        ) {
+            // Deep reorgs (>2 blocks by default) are suspicious in MEV context
+            const extraDepth = blockchainContext.reorgDepth - config.thresholds.reorgDepth
+
+            return {
+                // Every block beyond the threshold makes an accidental reorg less likely
+                confidence: Math.min(0.6 + extraDepth * 0.1, 1),
+                evidence: { transactions: [request.hash] },
+            }
+        }
+    },
+}
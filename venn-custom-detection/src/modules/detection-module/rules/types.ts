@@ -0,0 +1,59 @@
+import { ResolvedDetectorConfig } from '@/modules/detection-module/config'
+import { DetectionFindingEvidence, DetectionRequest } from '@/modules/detection-module/dtos'
+import { FundingGraph } from '@/modules/detection-module/funding'
+import { GameTracker } from '@/modules/detection-module/games'
+import { GameAction, GameEvent } from '@/modules/detection-module/rps'
+import { ReputationStore } from '@/modules/reputation-module/store'
+
+export enum RuleSeverity {
+    Low = 'low',
+    Medium = 'medium',
+    High = 'high',
+    Critical = 'critical',
+}
+
+/**
+ * Everything a rule may inspect while evaluating a single transaction.
+ * Built once per `DetectionService.detect` call and shared by every rule.
+ */
+export type DetectionContext = {
+    request: DetectionRequest
+    actions: GameAction[]
+    // Events emitted by the game contract during the transaction
+    events: GameEvent[]
+    // State of the games seen by the detector so far, before this transaction
+    games: GameTracker
+    // Who funded whom, including the transfers of this transaction
+    funding: FundingGraph
+    // Thresholds and address lists for the request's chain and protocol
+    config: ResolvedDetectorConfig
+    // Labels of addresses managed through the `/reputation` admin routes
+    reputation: ReputationStore
+}
+
+/**
+ * What a rule reports when it matches. Omitted fields fall back to the rule defaults:
+ * full confidence, the rule `message` and no evidence.
+ */
+export type RuleEvaluation = {
+    // Between 0 and 1
+    confidence?: number
+    message?: string
+    evidence?: DetectionFindingEvidence
+}
+
+/**
+ * A single detection rule.
+ *
+ * Rules are registered in the `RuleRegistry`, and every active rule is evaluated
+ * by `DetectionService.detect`.
+ * Ids must be unique, stable and kebab-cased, since they are referenced from configuration.
+ */
+export interface DetectionRule {
+    id: string
+    severity: RuleSeverity
+    description: string
+    message: string
+    // Returns `undefined` when the transaction does not match the rule
+    evaluate(context: DetectionContext): RuleEvaluation | undefined
+}
@@ -0,0 +1,223 @@
+import {
+    Address,
+    BaseError,
+    createPublicClient,
+    getAddress,
+    Hash,
+    http,
+    rpcSchema,
+    zeroAddress,
+} from 'viem'
+
+import {
+    DetectionRequest,
+    DetectionRequestState,
+    DetectionRequestTrace,
+    DetectionRequestTraceCall,
+} from '@/modules/detection-module/dtos/requests'
+
+import { rebuildCalls } from './struct-logs'
+import { CallFrame, PrestateAccount, PrestateDiff, StructLogTrace, TouchedState } from './types'
+
+const TRACE_TIMEOUT = 60_000 // ms
+
+type TraceOptions = {
+    tracer?: 'callTracer' | 'prestateTracer'
+    tracerConfig?: { diffMode?: boolean }
+    enableMemory?: boolean
+    disableStorage?: boolean
+}
+
+type TraceRpcSchema = [
+    {
+        Method: 'debug_traceTransaction'
+        Parameters: [Hash, TraceOptions]
+        ReturnType: unknown
+    },
+]
+
+/* The parts of a trace read from `debug_traceTransaction` */
+type TracedExecution = Pick<DetectionRequestTrace, 'output' | 'calls' | 'pre' | 'post'>
+
+export type TraceRequestOptions = Pick<
+    DetectionRequest,
+    'id' | 'detectorName' | 'protocolName' | 'protocolAddress'
+>
+
+const toState = ({ balance, nonce, code, storage }: PrestateAccount): DetectionRequestState => ({
+    balance: balance ?? '0x0',
+    ...(nonce !== undefined && { nonce }),
+    ...(code && { code }),
+    ...(storage && { storage }),
+})
+
+const toTraceCall = (frame: CallFrame): DetectionRequestTraceCall => ({
+    from: getAddress(frame.from),
+    to: getAddress(frame.to ?? zeroAddress),
+    input: frame.input,
+    ...(frame.output && { output: frame.output }),
+    ...(frame.value && { value: BigInt(frame.value).toString() }),
+    gasUsed: BigInt(frame.gasUsed).toString(),
+    ...(frame.calls && { calls: frame.calls.map(toTraceCall) }),
+})
+
+/**
+ * Builds the `DetectionRequest` of a mined transaction from `debug_traceTransaction`.
+ *
+ * Nested calls come from the `callTracer`, and `pre`/`post` state from the `prestateTracer`.
+ * Nodes with only the default tracer, like Hardhat, are traced step by step instead: calls and
+ * storage slots are rebuilt from the steps, and the state of the touched accounts is read at the
+ * blocks before and after the transaction. That state is exact when the transaction is alone in
+ * its block, as with automining.
+ */
+export class TraceBuilder {
+    private client
+
+    constructor(rpcUrl: string) {
+        // Step traces with memory run past the default response size and timeout
+        const transport = http(rpcUrl, { maxResponseBodySize: false, timeout: TRACE_TIMEOUT })
+
+        this.client = createPublicClient({ transport, rpcSchema: rpcSchema<TraceRpcSchema>() })
+    }
+
+    public async buildRequest(
+        hash: Hash,
+        options: TraceRequestOptions = {},
+    ): Promise<DetectionRequest> {
+        const [chainId, trace] = await Promise.all([
+            this.client.getChainId(),
+            this.buildTrace(hash),
+        ])
+
+        return { ...options, chainId, hash, trace }
+    }
+
+    public async buildTrace(hash: Hash): Promise<DetectionRequestTrace> {
+        const [transaction, receipt] = await Promise.all([
+            this.client.getTransaction({ hash }),
+            this.client.getTransactionReceipt({ hash }),
+        ])
+        const to = getAddress(transaction.to ?? receipt.contractAddress ?? zeroAddress)
+
+        const execution =
+            (await this.traceWithTracers(hash)) ??
+            (await this.traceWithStructLogs(hash, transaction.from, to, receipt.blockNumber))
+
+        return {
+            transactionHash: hash,
+            blockNumber: Number(receipt.blockNumber),
+            from: getAddress(transaction.from),
+            to,
+            value: transaction.value.toString(),
+            gas: transaction.gas.toString(),
+            gasUsed: receipt.gasUsed.toString(),
+            input: transaction.input,
+            ...execution,
+            logs: receipt.logs.map(({ address, data, topics }) => ({ address, data, topics })),
+        }
+    }
+
+    /* Traces with the `callTracer` and `prestateTracer`, unset when the node does not have them */
+    private async traceWithTracers(hash: Hash): Promise<TracedExecution | undefined> {
+        let frame: CallFrame
+
+        try {
+            frame = (await this.client.request({
+                method: 'debug_traceTransaction',
+                params: [hash, { tracer: 'callTracer' }],
+            })) as CallFrame
+        } catch (error) {
+            if (error instanceof BaseError && /tracer/i.test(error.details)) return
+            throw error
+        }
+
+        const [prestate, diff] = (await Promise.all([
+            this.client.request({
+                method: 'debug_traceTransaction',
+                params: [hash, { tracer: 'prestateTracer' }],
+            }),
+            this.client.request({
+                method: 'debug_traceTransaction',
+                params: [hash, { tracer: 'prestateTracer', tracerConfig: { diffMode: true } }],
+            }),
+        ])) as [Record<string, PrestateAccount>, PrestateDiff]
+
+        const pre = Object.entries(prestate).map(([address, account]) => [
+            getAddress(address),
+            toState(account),
+        ])
+        // The diff only has the accounts that changed, and no post state for deleted ones
+        const post = Object.entries({ ...prestate, ...diff.post })
+            .filter(([address]) => !diff.pre[address] || diff.post[address])
+            .map(([address]) => {
+                const changed = diff.post[address]
+
+                return [
+                    getAddress(address),
+                    toState({
+                        ...prestate[address],
+                        ...changed,
+                        storage: { ...prestate[address]?.storage, ...changed?.storage },
+                    }),
+                ]
+            })
+
+        return {
+            output: frame.output,
+            calls: (frame.calls ?? []).map(toTraceCall),
+            pre: Object.fromEntries(pre),
+            post: Object.fromEntries(post),
+        }
+    }
+
+    private async traceWithStructLogs(
+        hash: Hash,
+        from: string,
+        to: string,
+        blockNumber: bigint,
+    ): Promise<TracedExecution> {
+        const trace = (await this.client.request({
+            method: 'debug_traceTransaction',
+            params: [hash, { enableMemory: true, disableStorage: true }],
+        })) as StructLogTrace
+
+        const { calls, touched } = rebuildCalls(trace.structLogs, { from, to })
+        const [pre, post] = await Promise.all([
+            this.readState(touched, blockNumber - BigInt(1)),
+            this.readState(touched, blockNumber),
+        ])
+
+        return { output: `0x${trace.returnValue.replace(/^0x/, '')}`, calls, pre, post }
+    }
+
+    private async readState(touched: TouchedState, blockNumber: bigint) {
+        const states = await Promise.all(
+            [...touched].map(async ([address, slots]) => {
+                const account = { address: address as Address, blockNumber }
+                const [balance, nonce, code, values] = await Promise.all([
+                    this.client.getBalance(account),
+                    this.client.getTransactionCount(account),
+                    this.client.getCode(account),
+                    Promise.all(
+                        [...slots].map(slot =>
+                            this.client.getStorageAt({ ...account, slot: slot as Hash }),
+                        ),
+                    ),
+                ])
+                const storage = [...slots].map((slot, index) => [slot, values[index] ?? '0x0'])
+
+                return [
+                    address,
+                    toState({
+                        balance: `0x${balance.toString(16)}`,
+                        nonce,
+                        code,
+                        storage: storage.length ? Object.fromEntries(storage) : undefined,
+                    }),
+                ] as const
+            }),
+        )
+
+        return Object.fromEntries(states)
+    }
+}
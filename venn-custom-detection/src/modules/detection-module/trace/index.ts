@@ -0,0 +1,3 @@
+export * from './builder'
+export * from './struct-logs'
+export * from './types'
@@ -0,0 +1,171 @@
+import { getAddress } from 'viem'
+
+import { DetectionRequestTraceCall } from '@/modules/detection-module/dtos/requests'
+
+import { StructLog, TouchedState } from './types'
+
+const CALL_OPCODES = ['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL']
+const CREATE_OPCODES = ['CREATE', 'CREATE2']
+// Opcodes that run the callee in the storage of the caller
+const DELEGATING_OPCODES = ['CALLCODE', 'DELEGATECALL']
+const RETURNING_OPCODES = ['RETURN', 'REVERT']
+const STORAGE_OPCODES = ['SLOAD', 'SSTORE']
+
+const ADDRESS_MASK = (BigInt(1) << BigInt(160)) - BigInt(1)
+
+/* A contract whose storage is used by a frame. The address of a contract being created is unset */
+type StorageContext = {
+    address?: string
+    slots: Set<string>
+}
+
+/* A call being executed. The transaction itself has no `call` */
+type Frame = {
+    call?: DetectionRequestTraceCall
+    calls: DetectionRequestTraceCall[]
+    context: StorageContext
+    startGas: number
+}
+
+/* A contract creation whose address is on the stack once the frame at `depth` resumes */
+type PendingCreate = {
+    depth: number
+    call: DetectionRequestTraceCall
+    context: StorageContext
+}
+
+export type StructLogCalls = {
+    calls: DetectionRequestTraceCall[]
+    touched: TouchedState
+}
+
+const stackWord = (step: StructLog, position: number) => {
+    const word = step.stack?.[step.stack.length - 1 - position] ?? '0'
+    return BigInt(word.startsWith('0x') ? word : `0x${word}`)
+}
+
+const toAddress = (word: bigint) =>
+    getAddress(`0x${(word & ADDRESS_MASK).toString(16).padStart(40, '0')}`)
+
+const toSlot = (word: bigint) => `0x${word.toString(16).padStart(64, '0')}`
+
+const readMemory = (step: StructLog, offset: bigint, size: bigint) => {
+    const length = Number(size) * 2
+    if (!length) return '0x'
+
+    const start = Number(offset) * 2
+    const memory = (step.memory ?? []).map(word => word.replace(/^0x/, '')).join('')
+
+    // Memory past the last word is zero, it is expanded by the step itself
+    return `0x${memory.slice(start, start + length).padEnd(length, '0')}`
+}
+
+/**
+ * Rebuilds the nested calls of a transaction from the steps of the default tracer,
+ * for nodes without the `callTracer`, like Hardhat.
+ *
+ * Calls are read from the stack and memory of the `CALL`/`CREATE` steps, their output from the
+ * `RETURN`/`REVERT` step ending them. Memory must not be disabled in the trace options.
+ *
+ * @param structLogs - Steps of `debug_traceTransaction`.
+ * @param transaction - Sender and target of the transaction.
+ *
+ * @returns The nested calls, and the accounts the transaction touched with the storage slots
+ * read or written by `SLOAD`/`SSTORE`.
+ */
+export function rebuildCalls(
+    structLogs: StructLog[],
+    transaction: { from: string; to: string },
+): StructLogCalls {
+    const root: Frame = {
+        calls: [],
+        context: { address: getAddress(transaction.to), slots: new Set() },
+        startGas: structLogs[0]?.gas ?? 0,
+    }
+    const frames = [root]
+    const contexts = [root.context]
+    // Calls whose `from` is the address of a storage context, known once the trace is read
+    const callers: [DetectionRequestTraceCall, StorageContext][] = []
+    const pendingCreates: PendingCreate[] = []
+
+    structLogs.forEach((step, index) => {
+        const next = structLogs[index + 1] as StructLog | undefined
+        const frame = frames[frames.length - 1]
+
+        const pending = pendingCreates[pendingCreates.length - 1]
+        if (pending && pending.depth === step.depth) {
+            const address = toAddress(stackWord(step, 0))
+            pending.call.to = address
+            pending.context.address = address
+            pendingCreates.pop()
+        }
+
+        if (STORAGE_OPCODES.includes(step.op)) {
+            frame.context.slots.add(toSlot(stackWord(step, 0)))
+        }
+
+        const isCall = CALL_OPCODES.includes(step.op)
+        if (isCall || CREATE_OPCODES.includes(step.op)) {
+            const hasValue = step.op === 'CALL' || step.op === 'CALLCODE'
+            // Stack of calls: gas, address, [value], argsOffset, argsSize
+            // Stack of creations: value, offset, size, [salt]
+            const argsPosition = isCall ? (hasValue ? 3 : 2) : 1
+            const value = isCall ? (hasValue ? stackWord(step, 2) : undefined) : stackWord(step, 0)
+
+            const call: DetectionRequestTraceCall = {
+                from: '',
+                to: isCall ? toAddress(stackWord(step, 1)) : '',
+                input: readMemory(
+                    step,
+                    stackWord(step, argsPosition),
+                    stackWord(step, argsPosition + 1),
+                ),
+                ...(value !== undefined && { value: value.toString() }),
+                gasUsed: '0',
+            }
+            frame.calls.push(call)
+            callers.push([call, frame.context])
+
+            const context = DELEGATING_OPCODES.includes(step.op)
+                ? frame.context
+                : { address: isCall ? call.to : undefined, slots: new Set<string>() }
+            if (context !== frame.context) contexts.push(context)
+
+            if (!isCall) pendingCreates.push({ depth: step.depth, call, context })
+
+            // Calls to accounts without code, and precompiles, run no steps
+            if (next && next.depth > step.depth) {
+                frames.push({ call, calls: [], context, startGas: next.gas })
+            }
+
+            return
+        }
+
+        if (frame.call && (!next || next.depth < step.depth)) {
+            frames.pop()
+
+            // The gas left after the last step is returned to the caller, none when it ran out of gas
+            const gasLeft = Math.max(step.gas - step.gasCost, 0)
+            frame.call.gasUsed = String(frame.startGas - gasLeft)
+            if (RETURNING_OPCODES.includes(step.op)) {
+                frame.call.output = readMemory(step, stackWord(step, 0), stackWord(step, 1))
+            }
+            if (frame.calls.length) frame.call.calls = frame.calls
+        }
+    })
+
+    callers.forEach(([call, context]) => {
+        call.from = context.address ?? getAddress(transaction.to)
+    })
+
+    const touched: TouchedState = new Map([[getAddress(transaction.from), new Set<string>()]])
+    const touch = (address: string, slots: Set<string> = new Set()) => {
+        const known = touched.get(address)
+        touched.set(address, known ? new Set([...known, ...slots]) : slots)
+    }
+
+    contexts.forEach(({ address, slots }) => address && touch(address, slots))
+    callers.forEach(([call]) => call.to && touch(call.to))
+
+    return { calls: root.calls, touched }
+}
@@ -0,0 +1,52 @@
+/**
+ * A step of the default `debug_traceTransaction` tracer.
+ * Stack and memory words are 32 bytes hex, the top of the stack last.
+ */
+export type StructLog = {
+    depth: number
+    gas: number
+    gasCost: number
+    op: string
+    pc: number
+    stack?: string[]
+    memory?: string[]
+}
+
+/* Result of `debug_traceTransaction` with the default tracer */
+export type StructLogTrace = {
+    failed: boolean
+    gas: number
+    returnValue: string
+    structLogs: StructLog[]
+}
+
+/* A frame of the `callTracer`. Quantities are hex */
+export type CallFrame = {
+    type: string
+    from: string
+    to?: string
+    value?: string
+    gas: string
+    gasUsed: string
+    input: string
+    output?: string
+    error?: string
+    calls?: CallFrame[]
+}
+
+/* An account of the `prestateTracer` */
+export type PrestateAccount = {
+    balance?: string
+    nonce?: number
+    code?: string
+    storage?: Record<string, string>
+}
+
+/* Result of the `prestateTracer` in diff mode, accounts the transaction changed */
+export type PrestateDiff = {
+    pre: Record<string, PrestateAccount>
+    post: Record<string, PrestateAccount>
+}
+
+/* Accounts a transaction touched, with the storage slots it read or wrote */
+export type TouchedState = Map<string, Set<string>>
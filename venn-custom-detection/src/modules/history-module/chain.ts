@@ -0,0 +1,47 @@
+import { Address, BlockNotFoundError, createPublicClient, http, PublicClient } from 'viem'
+
+import { ChainLog, HistoryChain, IndexedBlock } from './types'
+
+/**
+ * The RockPaperScissors contract on a chain reached over JSON-RPC.
+ */
+export class RpcHistoryChain implements HistoryChain {
+    private publicClient: PublicClient
+
+    constructor(rpcUrl: string, private contractAddress: Address) {
+        this.publicClient = createPublicClient({ transport: http(rpcUrl) })
+    }
+
+    public async getBlockNumber() {
+        return Number(await this.publicClient.getBlockNumber({ cacheTime: 0 }))
+    }
+
+    public async getBlock(blockNumber: number): Promise<IndexedBlock | undefined> {
+        try {
+            const block = await this.publicClient.getBlock({ blockNumber: BigInt(blockNumber) })
+
+            return { number: blockNumber, hash: block.hash, timestamp: Number(block.timestamp) }
+        } catch (error) {
+            if (error instanceof BlockNotFoundError) return
+            throw error
+        }
+    }
+
+    public async getLogs(fromBlock: number, toBlock: number): Promise<ChainLog[]> {
+        const logs = await this.publicClient.getLogs({
+            address: this.contractAddress,
+            fromBlock: BigInt(fromBlock),
+            toBlock: BigInt(toBlock),
+        })
+
+        return logs.map(log => ({
+            address: log.address,
+            data: log.data,
+            topics: log.topics,
+            blockNumber: Number(log.blockNumber),
+            blockHash: log.blockHash,
+            logIndex: log.logIndex,
+            transactionHash: log.transactionHash,
+        }))
+    }
+}
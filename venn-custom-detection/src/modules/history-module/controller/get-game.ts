@@ -0,0 +1,28 @@
+import { Request, Response } from 'express'
+
+import { errors } from '@/errors'
+import { ErrorHandler } from '@/helpers'
+import { toGameDetailsResponse } from '@/modules/history-module/dtos'
+import { historyIndexer } from '@/modules/history-module/indexer'
+import { historyStore } from '@/modules/history-module/store'
+
+export const getGame = (req: Request<{ gameId: string }>, res: Response) => {
+    try {
+        if (!historyIndexer.enabled) {
+            throw new errors.NotFoundError('History indexer is disabled')
+        }
+        if (!/^\d+$/.test(req.params.gameId)) {
+            throw new errors.BadRequestError(`Invalid game id ${req.params.gameId}`)
+        }
+
+        const game = historyStore.getGame(Number(req.params.gameId))
+
+        if (!game) {
+            throw new errors.NotFoundError(`Game ${req.params.gameId} not found`)
+        }
+
+        res.json(toGameDetailsResponse(game))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
@@ -0,0 +1,12 @@
+import { Request, Response } from 'express'
+
+import { ErrorHandler } from '@/helpers'
+import { historyIndexer } from '@/modules/history-module/indexer'
+
+export const getStatus = (_req: Request, res: Response) => {
+    try {
+        res.json(historyIndexer.getStatus())
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
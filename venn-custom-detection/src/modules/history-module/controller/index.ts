@@ -0,0 +1,3 @@
+export * from './get-game'
+export * from './get-status'
+export * from './list-games'
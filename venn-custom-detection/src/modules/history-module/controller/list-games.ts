@@ -0,0 +1,43 @@
+import { plainToInstance } from 'class-transformer'
+import { Request, Response } from 'express'
+
+import { errors } from '@/errors'
+import { ErrorHandler, validateRequest } from '@/helpers'
+import { ListGamesRequest, toGamePageResponse } from '@/modules/history-module/dtos'
+import { historyIndexer } from '@/modules/history-module/indexer'
+import { historyStore } from '@/modules/history-module/store'
+
+const DEFAULT_LIMIT = 20
+
+export const listGames = async (req: Request, res: Response) => {
+    const request = plainToInstance(ListGamesRequest, req.query)
+
+    try {
+        if (!historyIndexer.enabled) {
+            throw new errors.NotFoundError('History indexer is disabled')
+        }
+
+        await validateRequest(request)
+
+        if (request.result && !request.player) {
+            throw new errors.BadRequestError('result requires a player')
+        }
+
+        const pagination = { limit: request.limit ?? DEFAULT_LIMIT, offset: request.offset ?? 0 }
+        const page = historyStore.listGames({
+            player: request.player,
+            opponent: request.opponent,
+            result: request.result,
+            status: request.status,
+            gameType: request.gameType,
+            minStake: request.minStake ? BigInt(request.minStake) : undefined,
+            maxStake: request.maxStake ? BigInt(request.maxStake) : undefined,
+            sort: request.sort,
+            ...pagination,
+        })
+
+        res.json(toGamePageResponse(page, pagination))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
@@ -0,0 +1,68 @@
+import { Type } from 'class-transformer'
+import {
+    IsEnum,
+    IsEthereumAddress,
+    IsIn,
+    IsInt,
+    IsNumberString,
+    IsOptional,
+    Matches,
+    Max,
+    Min,
+} from 'class-validator'
+
+import { GameType } from '@/modules/detection-module/rps'
+import { GameResult, GameSort, GameStatus } from '@/modules/history-module/types'
+
+export const GAME_STATUSES: GameStatus[] = ['waiting', 'active', 'ended', 'cancelled']
+export const GAME_RESULTS: GameResult[] = ['won', 'lost', 'tied']
+export const GAME_SORTS: GameSort[] = ['newest', 'oldest', 'stake-desc', 'stake-asc']
+
+/* Query string of `GET /history/games` */
+export class ListGamesRequest {
+    @IsEthereumAddress()
+    @IsOptional()
+    player?: string
+
+    @Matches(/^0x[0-9a-fA-F]{0,40}$/, { message: 'opponent must be the start of an address' })
+    @IsOptional()
+    opponent?: string
+
+    @IsIn(GAME_RESULTS)
+    @IsOptional()
+    result?: GameResult
+
+    @IsIn(GAME_STATUSES)
+    @IsOptional()
+    status?: GameStatus
+
+    @Type(() => Number)
+    @IsEnum(GameType)
+    @IsOptional()
+    gameType?: GameType
+
+    @IsNumberString({ no_symbols: true })
+    @IsOptional()
+    minStake?: string
+
+    @IsNumberString({ no_symbols: true })
+    @IsOptional()
+    maxStake?: string
+
+    @IsIn(GAME_SORTS)
+    @IsOptional()
+    sort?: GameSort
+
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    @IsOptional()
+    limit?: number
+
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    offset?: number
+}
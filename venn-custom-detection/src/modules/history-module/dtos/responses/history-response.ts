@@ -0,0 +1,112 @@
+import { Expose, plainToInstance, Type } from 'class-transformer'
+
+import { Choice, GameType } from '@/modules/detection-module/rps'
+import { GameDetails, GamePage, GameStatus, HistoryEvent } from '@/modules/history-module/types'
+
+class HistoryGameDTO {
+    @Expose()
+    gameId!: string
+
+    @Expose()
+    player1!: string
+
+    @Expose()
+    player2?: string
+
+    @Expose()
+    stake!: string
+
+    @Expose()
+    gameType!: GameType
+
+    @Expose()
+    commitReveal!: boolean
+
+    @Expose()
+    status!: GameStatus
+
+    @Expose()
+    roundsPlayed!: number
+
+    @Expose()
+    scores!: [number, number]
+
+    @Expose()
+    winner?: string
+
+    @Expose()
+    payout?: string
+
+    @Expose()
+    createdAt!: string
+
+    @Expose()
+    createdBlock!: number
+
+    @Expose()
+    createdTransaction!: string
+
+    @Expose()
+    endedAt?: string
+
+    @Expose()
+    endedTransaction?: string
+}
+
+class HistoryRoundDTO {
+    @Expose()
+    roundNumber!: number
+
+    @Expose()
+    player1Choice!: Choice
+
+    @Expose()
+    player2Choice!: Choice
+
+    @Expose()
+    winner?: string
+
+    @Expose()
+    blockNumber!: number
+
+    @Expose()
+    playedAt!: string
+
+    @Expose()
+    transactionHash!: string
+}
+
+class GameDetailsDTO extends HistoryGameDTO {
+    @Expose()
+    @Type(() => HistoryRoundDTO)
+    rounds!: HistoryRoundDTO[]
+
+    @Expose()
+    events!: HistoryEvent[]
+}
+
+class GamePageDTO {
+    @Expose()
+    total!: number
+
+    @Expose()
+    limit!: number
+
+    @Expose()
+    offset!: number
+
+    @Expose()
+    @Type(() => HistoryGameDTO)
+    games!: HistoryGameDTO[]
+}
+
+export const toGamePageResponse = (
+    page: GamePage,
+    pagination: { limit: number; offset: number },
+): GamePageDTO => {
+    return plainToInstance(GamePageDTO, { ...page, ...pagination })
+}
+
+export const toGameDetailsResponse = (game: GameDetails): GameDetailsDTO => {
+    return plainToInstance(GameDetailsDTO, game)
+}
@@ -0,0 +1,5 @@
+export * from './chain'
+export * from './indexer'
+export * from './router'
+export * from './store'
+export * from './types'
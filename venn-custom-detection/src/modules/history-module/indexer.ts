@@ -0,0 +1,172 @@
+import { decodeGameEvents } from '@/modules/detection-module/rps'
+
+import { HistoryStore, historyStore } from './store'
+import { HistoryChain, IndexedEvent, IndexerStatus } from './types'
+
+export type HistoryIndexerOptions = {
+    // First block to index, usually the deployment block of the contract
+    startBlock: number
+    // Blocks per `eth_getLogs` call, public RPCs cap the range
+    batchSize?: number
+    // Pause between two syncs once the head is reached, in ms
+    pollInterval?: number
+    onError?: (error: unknown) => void
+}
+
+const DEFAULT_BATCH_SIZE = 2000
+const DEFAULT_POLL_INTERVAL = 4000 // ms
+
+/**
+ * Follows the events of the RockPaperScissors contract into a `HistoryStore`.
+ *
+ * Every sync first checks the last indexed block is still part of the chain. When it is not,
+ * the indexer walks back to the last indexed block that is, and rolls the store back to it.
+ *
+ * @example
+ * ```typescript
+ * historyIndexer.configure(new RpcHistoryChain(rpcUrl, contractAddress), { startBlock: 7000000 })
+ * historyIndexer.start()
+ * ```
+ */
+export class HistoryIndexer {
+    private chain?: HistoryChain
+    private options?: HistoryIndexerOptions
+    private timer?: NodeJS.Timeout
+    private running = false
+    private headBlock?: number
+    private synced = false
+    private lastError?: string
+
+    constructor(private store: HistoryStore) {}
+
+    public configure(chain: HistoryChain, options: HistoryIndexerOptions) {
+        this.stop()
+        this.chain = chain
+        this.options = options
+        this.headBlock = undefined
+        this.synced = false
+        this.lastError = undefined
+    }
+
+    public get enabled() {
+        return !!this.chain && this.store.isOpen
+    }
+
+    public start() {
+        this.running = true
+        this.schedule(0)
+    }
+
+    public stop() {
+        this.running = false
+        clearTimeout(this.timer)
+    }
+
+    public getStatus(): IndexerStatus {
+        return {
+            enabled: this.enabled,
+            startBlock: this.options?.startBlock,
+            indexedBlock: this.enabled ? this.store.getLastBlock()?.number : undefined,
+            headBlock: this.headBlock,
+            synced: this.synced,
+            lastError: this.lastError,
+        }
+    }
+
+    /**
+     * Indexes the next range of blocks, after undoing the ones a reorg removed.
+     *
+     * @returns Whether the index reached the head of the chain.
+     */
+    public async sync(): Promise<boolean> {
+        const { chain, options } = this
+        if (!chain || !options) {
+            throw new Error('History indexer is not configured')
+        }
+
+        const { startBlock, batchSize = DEFAULT_BATCH_SIZE } = options
+        const head = await chain.getBlockNumber()
+        this.headBlock = head
+
+        await this.rollbackReorg(chain, startBlock)
+
+        const fromBlock = (this.store.getLastBlock()?.number ?? startBlock - 1) + 1
+        if (fromBlock > head) {
+            this.synced = true
+            return true
+        }
+
+        const toBlock = Math.min(head, fromBlock + batchSize - 1)
+        const logs = await chain.getLogs(fromBlock, toBlock)
+        const blockNumbers = [...new Set([...logs.map(log => log.blockNumber), toBlock])]
+        const blocks = await Promise.all(
+            blockNumbers.map(async blockNumber => {
+                const block = await chain.getBlock(blockNumber)
+                if (!block) throw new Error(`Block ${blockNumber} is missing`)
+                return block
+            }),
+        )
+        const blocksByNumber = new Map(blocks.map(block => [block.number, block]))
+
+        // A reorg between reading the logs and their blocks, retried on the next sync
+        if (logs.some(log => blocksByNumber.get(log.blockNumber)?.hash !== log.blockHash)) {
+            throw new Error(`Blocks ${fromBlock} to ${toBlock} changed while being indexed`)
+        }
+
+        const events = logs.flatMap(log =>
+            decodeGameEvents([log]).map(
+                (event): IndexedEvent => ({
+                    event,
+                    blockNumber: log.blockNumber,
+                    logIndex: log.logIndex,
+                    transactionHash: log.transactionHash,
+                    timestamp: blocksByNumber.get(log.blockNumber)?.timestamp ?? 0,
+                }),
+            ),
+        )
+
+        this.store.append(blocks, events)
+        this.synced = toBlock === head
+
+        return this.synced
+    }
+
+    private async rollbackReorg(chain: HistoryChain, startBlock: number) {
+        const lastBlock = this.store.getLastBlock()
+        let block = lastBlock
+
+        while (block) {
+            const canonical = await chain.getBlock(block.number)
+            if (canonical?.hash === block.hash) break
+
+            block = this.store.getBlockBefore(block.number)
+        }
+
+        if (lastBlock && block?.number !== lastBlock.number) {
+            this.store.rollback(block?.number ?? startBlock - 1)
+        }
+    }
+
+    private schedule(delay: number) {
+        clearTimeout(this.timer)
+        this.timer = setTimeout(() => this.poll(), delay)
+    }
+
+    private async poll() {
+        let delay = this.options?.pollInterval ?? DEFAULT_POLL_INTERVAL
+
+        try {
+            // Catch up without waiting until the head is reached
+            if (!(await this.sync())) delay = 0
+            this.lastError = undefined
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error)
+            this.options?.onError?.(error)
+        }
+
+        if (this.running) this.schedule(delay)
+    }
+}
+
+/* Indexer of the `/history` routes, enabled by `HISTORY_RPC_URL` */
+export const historyIndexer = new HistoryIndexer(historyStore)
@@ -0,0 +1,124 @@
+import { zeroAddress } from 'viem'
+
+import { beats } from '@/modules/detection-module/rps'
+
+import { HistoryEvent, HistoryGame, HistoryRound, IndexedEvent } from './types'
+
+export type ProjectedGame = {
+    game: HistoryGame
+    rounds: HistoryRound[]
+}
+
+const toDate = (timestamp: number) => new Date(timestamp * 1000).toISOString()
+
+/**
+ * Rebuilds a game and its rounds by replaying its events in chain order.
+ *
+ * @param events - Every indexed event of the game.
+ *
+ * @returns The game, or `undefined` when its `GameCreated` event is not indexed, as for games
+ * created before the indexer start block.
+ */
+export function projectGame(events: IndexedEvent[]): ProjectedGame | undefined {
+    let game: HistoryGame | undefined
+    const rounds: HistoryRound[] = []
+
+    for (const { event, blockNumber, transactionHash, timestamp } of events) {
+        if (event.name === 'GameCreated') {
+            game = {
+                gameId: event.gameId.toString(),
+                player1: event.player1.toLowerCase(),
+                stake: event.stake.toString(),
+                gameType: event.gameType,
+                commitReveal: false,
+                status: 'waiting',
+                roundsPlayed: 0,
+                scores: [0, 0],
+                createdAt: toDate(timestamp),
+                createdBlock: blockNumber,
+                createdTransaction: transactionHash,
+            }
+            continue
+        }
+
+        if (!game) continue
+
+        switch (event.name) {
+            case 'GameJoined':
+                game.player2 = event.player2.toLowerCase()
+                game.status = 'active'
+                break
+            case 'MoveCommitted':
+                game.commitReveal = true
+                break
+            case 'RoundPlayed': {
+                const { player1Choice, player2Choice } = event
+                const winnerIndex = beats(player1Choice, player2Choice)
+                    ? 0
+                    : beats(player2Choice, player1Choice)
+                    ? 1
+                    : undefined
+
+                if (winnerIndex !== undefined) game.scores[winnerIndex]++
+                game.roundsPlayed = event.roundNumber
+
+                rounds.push({
+                    roundNumber: event.roundNumber,
+                    player1Choice,
+                    player2Choice,
+                    winner:
+                        winnerIndex === undefined
+                            ? undefined
+                            : [game.player1, game.player2][winnerIndex],
+                    blockNumber,
+                    playedAt: toDate(timestamp),
+                    transactionHash,
+                })
+                break
+            }
+            case 'GameEnded':
+                game.status = 'ended'
+                game.winner = event.winner === zeroAddress ? undefined : event.winner.toLowerCase()
+                game.payout = event.payout.toString()
+                game.endedAt = toDate(timestamp)
+                game.endedTransaction = transactionHash
+                break
+            case 'GameCancelled':
+                game.status = 'cancelled'
+                game.endedAt = toDate(timestamp)
+                game.endedTransaction = transactionHash
+                break
+        }
+    }
+
+    return game && { game, rounds }
+}
+
+/* An event as shown in the game timeline, addresses lowercased */
+export function toHistoryEvent({
+    event,
+    blockNumber,
+    logIndex,
+    transactionHash,
+    timestamp,
+}: IndexedEvent): HistoryEvent {
+    const { name, ...args } = event
+
+    return {
+        name,
+        args: Object.fromEntries(
+            Object.entries(args).map(([key, value]) => [
+                key,
+                typeof value === 'bigint'
+                    ? value.toString()
+                    : typeof value === 'string'
+                    ? value.toLowerCase()
+                    : value,
+            ]),
+        ),
+        blockNumber,
+        logIndex,
+        transactionHash,
+        emittedAt: toDate(timestamp),
+    }
+}
@@ -0,0 +1,11 @@
+import { Router } from 'express'
+
+import * as HistoryController from './controller'
+
+const historyRouter = Router()
+
+historyRouter.get('/status', HistoryController.getStatus)
+historyRouter.get('/games', HistoryController.listGames)
+historyRouter.get('/games/:gameId', HistoryController.getGame)
+
+export { historyRouter }
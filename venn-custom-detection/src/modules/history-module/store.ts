@@ -0,0 +1,449 @@
+import Database from 'better-sqlite3'
+import fs from 'fs'
+import path from 'path'
+
+import { GameEvent } from '@/modules/detection-module/rps'
+
+import { projectGame, toHistoryEvent } from './projection'
+import {
+    GameDetails,
+    GameFilter,
+    GamePage,
+    GameSort,
+    HistoryGame,
+    HistoryRound,
+    IndexedBlock,
+    IndexedEvent,
+} from './types'
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS blocks (
+        number INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS events (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        game_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        args TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS events_game_id ON events (game_id);
+    CREATE TABLE IF NOT EXISTS games (
+        game_id INTEGER PRIMARY KEY,
+        player1 TEXT NOT NULL,
+        player2 TEXT,
+        stake TEXT NOT NULL,
+        game_type INTEGER NOT NULL,
+        commit_reveal INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        rounds_played INTEGER NOT NULL,
+        scores TEXT NOT NULL,
+        winner TEXT,
+        payout TEXT,
+        created_at TEXT NOT NULL,
+        created_block INTEGER NOT NULL,
+        created_transaction TEXT NOT NULL,
+        ended_at TEXT,
+        ended_transaction TEXT
+    );
+    CREATE INDEX IF NOT EXISTS games_player1 ON games (player1);
+    CREATE INDEX IF NOT EXISTS games_player2 ON games (player2);
+    CREATE TABLE IF NOT EXISTS rounds (
+        game_id INTEGER NOT NULL,
+        round_number INTEGER NOT NULL,
+        player1_choice INTEGER NOT NULL,
+        player2_choice INTEGER NOT NULL,
+        winner TEXT,
+        block_number INTEGER NOT NULL,
+        played_at TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        PRIMARY KEY (game_id, round_number)
+    );
+`
+
+// Integer arguments of game events, stored as decimal strings
+const BIGINT_ARGS = ['gameId', 'stake', 'payout']
+
+// Stakes are decimal strings without leading zeros: the longer one is the larger
+const ORDER_BY: Record<GameSort, string> = {
+    newest: 'game_id DESC',
+    oldest: 'game_id ASC',
+    'stake-desc': 'length(stake) DESC, stake DESC, game_id DESC',
+    'stake-asc': 'length(stake) ASC, stake ASC, game_id DESC',
+}
+
+type EventRow = {
+    block_number: number
+    log_index: number
+    transaction_hash: string
+    timestamp: number
+    game_id: number
+    name: string
+    args: string
+}
+
+type GameRow = {
+    game_id: number
+    player1: string
+    player2: string | null
+    stake: string
+    game_type: number
+    commit_reveal: number
+    status: HistoryGame['status']
+    rounds_played: number
+    scores: string
+    winner: string | null
+    payout: string | null
+    created_at: string
+    created_block: number
+    created_transaction: string
+    ended_at: string | null
+    ended_transaction: string | null
+}
+
+type RoundRow = {
+    game_id: number
+    round_number: number
+    player1_choice: number
+    player2_choice: number
+    winner: string | null
+    block_number: number
+    played_at: string
+    transaction_hash: string
+}
+
+/**
+ * Event-sourced index of the games of the RockPaperScissors contract, kept in SQLite.
+ *
+ * Game events are the source of truth. Games and rounds are projections of them, rebuilt for
+ * every game whose events change, so undoing the blocks of a reorg is deleting their events.
+ *
+ * @example
+ * ```typescript
+ * const store = new HistoryStore()
+ *
+ * store.open(':memory:')
+ * store.append([{ number: 12, hash: '0x…', timestamp: 1700000000 }], events)
+ * store.listGames({ player: '0x…', limit: 20, offset: 0 })
+ * ```
+ */
+export class HistoryStore {
+    private db?: Database.Database
+
+    /**
+     * Opens (and creates, if needed) the database. Use `:memory:` for a throwaway store.
+     */
+    public open(filePath: string) {
+        if (filePath !== ':memory:') {
+            fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true })
+        }
+
+        this.close()
+        this.db = new Database(filePath)
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+    }
+
+    public close() {
+        this.db?.close()
+        this.db = undefined
+    }
+
+    public get isOpen() {
+        return !!this.db
+    }
+
+    /* The last indexed block, unset before the first sync */
+    public getLastBlock(): IndexedBlock | undefined {
+        return this.getDb().prepare('SELECT * FROM blocks ORDER BY number DESC LIMIT 1').get() as
+            | IndexedBlock
+            | undefined
+    }
+
+    /* The indexed block preceding `blockNumber`, to walk back to the start of a reorg */
+    public getBlockBefore(blockNumber: number): IndexedBlock | undefined {
+        return this.getDb()
+            .prepare('SELECT * FROM blocks WHERE number < ? ORDER BY number DESC LIMIT 1')
+            .get(blockNumber) as IndexedBlock | undefined
+    }
+
+    /**
+     * Stores the events of new blocks and updates the games they belong to.
+     *
+     * @param blocks - Blocks of the events, and the last block of the indexed range.
+     * @param events - Events in chain order.
+     */
+    public append(blocks: IndexedBlock[], events: IndexedEvent[]) {
+        const db = this.getDb()
+        const insertBlock = db.prepare(
+            'INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)',
+        )
+        const insertEvent = db.prepare(
+            `INSERT OR REPLACE INTO events (
+                block_number, log_index, transaction_hash, timestamp, game_id, name, args
+            ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        )
+
+        db.transaction(() => {
+            blocks.forEach(block => insertBlock.run(block.number, block.hash, block.timestamp))
+            events.forEach(({ event, blockNumber, logIndex, transactionHash, timestamp }) => {
+                const { name, ...args } = event
+
+                insertEvent.run(
+                    blockNumber,
+                    logIndex,
+                    transactionHash,
+                    timestamp,
+                    Number(event.gameId),
+                    name,
+                    JSON.stringify(args, (_, value) =>
+                        typeof value === 'bigint' ? value.toString() : value,
+                    ),
+                )
+            })
+
+            this.reproject(new Set(events.map(({ event }) => Number(event.gameId))))
+        })()
+    }
+
+    /**
+     * Forgets the blocks after `blockNumber`, and their events, when they left the chain.
+     */
+    public rollback(blockNumber: number) {
+        const db = this.getDb()
+
+        db.transaction(() => {
+            const gameIds = db
+                .prepare('SELECT DISTINCT game_id FROM events WHERE block_number > ?')
+                .all(blockNumber) as { game_id: number }[]
+
+            db.prepare('DELETE FROM events WHERE block_number > ?').run(blockNumber)
+            db.prepare('DELETE FROM blocks WHERE number > ?').run(blockNumber)
+
+            this.reproject(new Set(gameIds.map(row => row.game_id)))
+        })()
+    }
+
+    /**
+     * Lists the games matching every given filter, newest first unless sorted otherwise.
+     */
+    public listGames(filter: GameFilter): GamePage {
+        const conditions: string[] = []
+        const params: (string | number)[] = []
+
+        const player = filter.player?.toLowerCase()
+        const opponent = filter.opponent?.toLowerCase()
+
+        if (player !== undefined) {
+            conditions.push('(player1 = ? OR player2 = ?)')
+            params.push(player, player)
+        }
+        if (opponent !== undefined) {
+            if (player !== undefined) {
+                conditions.push(
+                    '((player1 = ? AND player2 LIKE ?) OR (player2 = ? AND player1 LIKE ?))',
+                )
+                params.push(player, `${opponent}%`, player, `${opponent}%`)
+            } else {
+                conditions.push('(player1 LIKE ? OR player2 LIKE ?)')
+                params.push(`${opponent}%`, `${opponent}%`)
+            }
+        }
+        if (player !== undefined) {
+            switch (filter.result) {
+                case 'won':
+                    conditions.push('winner = ?')
+                    params.push(player)
+                    break
+                case 'lost':
+                    // Comparisons with a NULL winner are never true
+                    conditions.push("status = 'ended' AND winner != ?")
+                    params.push(player)
+                    break
+                case 'tied':
+                    conditions.push("status = 'ended' AND winner IS NULL")
+                    break
+            }
+        }
+        if (filter.status !== undefined) {
+            conditions.push('status = ?')
+            params.push(filter.status)
+        }
+        if (filter.gameType !== undefined) {
+            conditions.push('game_type = ?')
+            params.push(filter.gameType)
+        }
+        if (filter.minStake !== undefined) {
+            const stake = filter.minStake.toString()
+
+            conditions.push('(length(stake) > ? OR (length(stake) = ? AND stake >= ?))')
+            params.push(stake.length, stake.length, stake)
+        }
+        if (filter.maxStake !== undefined) {
+            const stake = filter.maxStake.toString()
+
+            conditions.push('(length(stake) < ? OR (length(stake) = ? AND stake <= ?))')
+            params.push(stake.length, stake.length, stake)
+        }
+
+        const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+        const orderBy = ORDER_BY[filter.sort ?? 'newest']
+        const db = this.getDb()
+
+        const { total } = db
+            .prepare(`SELECT COUNT(*) AS total FROM games ${where}`)
+            .get(...params) as { total: number }
+        const rows = db
+            .prepare(`SELECT * FROM games ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+            .all(...params, filter.limit, filter.offset) as GameRow[]
+
+        return { total, games: rows.map(toGame) }
+    }
+
+    /* A game with its rounds and event timeline */
+    public getGame(gameId: number): GameDetails | undefined {
+        const db = this.getDb()
+        const row = db.prepare('SELECT * FROM games WHERE game_id = ?').get(gameId) as
+            | GameRow
+            | undefined
+
+        if (!row) return
+
+        const rounds = db
+            .prepare('SELECT * FROM rounds WHERE game_id = ? ORDER BY round_number')
+            .all(gameId) as RoundRow[]
+
+        return {
+            ...toGame(row),
+            rounds: rounds.map(toRound),
+            events: this.getEvents(gameId).map(toHistoryEvent),
+        }
+    }
+
+    private getEvents(gameId: number): IndexedEvent[] {
+        const rows = this.getDb()
+            .prepare('SELECT * FROM events WHERE game_id = ? ORDER BY block_number, log_index')
+            .all(gameId) as EventRow[]
+
+        return rows.map(toIndexedEvent)
+    }
+
+    /* Rebuilds the games and rounds of `gameIds` from their events */
+    private reproject(gameIds: Set<number>) {
+        const db = this.getDb()
+        const deleteGame = db.prepare('DELETE FROM games WHERE game_id = ?')
+        const deleteRounds = db.prepare('DELETE FROM rounds WHERE game_id = ?')
+        const insertGame = db.prepare(
+            `INSERT INTO games (
+                game_id, player1, player2, stake, game_type, commit_reveal, status, rounds_played,
+                scores, winner, payout, created_at, created_block, created_transaction,
+                ended_at, ended_transaction
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        const insertRound = db.prepare(
+            `INSERT INTO rounds (
+                game_id, round_number, player1_choice, player2_choice, winner,
+                block_number, played_at, transaction_hash
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+
+        gameIds.forEach(gameId => {
+            deleteGame.run(gameId)
+            deleteRounds.run(gameId)
+
+            const projected = projectGame(this.getEvents(gameId))
+            if (!projected) return
+
+            const { game, rounds } = projected
+            insertGame.run(
+                gameId,
+                game.player1,
+                game.player2 ?? null,
+                game.stake,
+                game.gameType,
+                Number(game.commitReveal),
+                game.status,
+                game.roundsPlayed,
+                JSON.stringify(game.scores),
+                game.winner ?? null,
+                game.payout ?? null,
+                game.createdAt,
+                game.createdBlock,
+                game.createdTransaction,
+                game.endedAt ?? null,
+                game.endedTransaction ?? null,
+            )
+            rounds.forEach(round =>
+                insertRound.run(
+                    gameId,
+                    round.roundNumber,
+                    round.player1Choice,
+                    round.player2Choice,
+                    round.winner ?? null,
+                    round.blockNumber,
+                    round.playedAt,
+                    round.transactionHash,
+                ),
+            )
+        })
+    }
+
+    private getDb(): Database.Database {
+        if (!this.db) {
+            throw new Error('History store is not open')
+        }
+
+        return this.db
+    }
+}
+
+const toIndexedEvent = (row: EventRow): IndexedEvent => {
+    const args = JSON.parse(row.args, (key, value) =>
+        BIGINT_ARGS.includes(key) ? BigInt(value) : value,
+    )
+
+    return {
+        event: { name: row.name, ...args } as GameEvent,
+        blockNumber: row.block_number,
+        logIndex: row.log_index,
+        transactionHash: row.transaction_hash,
+        timestamp: row.timestamp,
+    }
+}
+
+const toGame = (row: GameRow): HistoryGame => ({
+    gameId: row.game_id.toString(),
+    player1: row.player1,
+    player2: row.player2 ?? undefined,
+    stake: row.stake,
+    gameType: row.game_type,
+    commitReveal: Boolean(row.commit_reveal),
+    status: row.status,
+    roundsPlayed: row.rounds_played,
+    scores: JSON.parse(row.scores),
+    winner: row.winner ?? undefined,
+    payout: row.payout ?? undefined,
+    createdAt: row.created_at,
+    createdBlock: row.created_block,
+    createdTransaction: row.created_transaction,
+    endedAt: row.ended_at ?? undefined,
+    endedTransaction: row.ended_transaction ?? undefined,
+})
+
+const toRound = (row: RoundRow): HistoryRound => ({
+    roundNumber: row.round_number,
+    player1Choice: row.player1_choice,
+    player2Choice: row.player2_choice,
+    winner: row.winner ?? undefined,
+    blockNumber: row.block_number,
+    playedAt: row.played_at,
+    transactionHash: row.transaction_hash,
+})
+
+/* Store written by the history indexer and read through the `/history` routes */
+export const historyStore = new HistoryStore()
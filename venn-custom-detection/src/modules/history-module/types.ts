@@ -0,0 +1,130 @@
+import { DetectionRequestTraceLog } from '@/modules/detection-module/dtos'
+import { Choice, GameEvent, GameType } from '@/modules/detection-module/rps'
+
+/* A block the index is built on, remembered to detect reorgs. `timestamp` is in seconds */
+export type IndexedBlock = {
+    number: number
+    hash: string
+    timestamp: number
+}
+
+/* A log of the game contract, with the block and transaction that emitted it */
+export type ChainLog = DetectionRequestTraceLog & {
+    blockNumber: number
+    blockHash: string
+    logIndex: number
+    transactionHash: string
+}
+
+/* The chain followed by the indexer, reduced to what it reads */
+export interface HistoryChain {
+    getBlockNumber(): Promise<number>
+    // Unset when the chain has no such block, e.g. after a reorg to a shorter chain
+    getBlock(blockNumber: number): Promise<IndexedBlock | undefined>
+    // Logs of the game contract, in chain order
+    getLogs(fromBlock: number, toBlock: number): Promise<ChainLog[]>
+}
+
+/* A decoded game event and where it was emitted */
+export type IndexedEvent = {
+    event: GameEvent
+    blockNumber: number
+    logIndex: number
+    transactionHash: string
+    timestamp: number
+}
+
+export type GameStatus = 'waiting' | 'active' | 'ended' | 'cancelled'
+
+/**
+ * A game as rebuilt from its events.
+ *
+ * Addresses are lowercased, amounts are decimal strings in wei and dates ISO 8601 strings.
+ */
+export type HistoryGame = {
+    gameId: string
+    player1: string
+    // Unset until the game is joined
+    player2?: string
+    stake: string
+    gameType: GameType
+    commitReveal: boolean
+    status: GameStatus
+    roundsPlayed: number
+    scores: [number, number]
+    // Unset while the game runs, and when it ends in a tie or is cancelled
+    winner?: string
+    // Paid to the winner, after the creator fee. `0` for a tie, where both stakes are refunded
+    payout?: string
+    createdAt: string
+    createdBlock: number
+    createdTransaction: string
+    // Unset until the game ends or is cancelled
+    endedAt?: string
+    endedTransaction?: string
+}
+
+export type HistoryRound = {
+    roundNumber: number
+    player1Choice: Choice
+    player2Choice: Choice
+    // Unset when the round is a tie
+    winner?: string
+    blockNumber: number
+    playedAt: string
+    transactionHash: string
+}
+
+/* An event of the game timeline. Integer arguments are decimal strings */
+export type HistoryEvent = {
+    name: GameEvent['name']
+    args: Record<string, string | number>
+    blockNumber: number
+    logIndex: number
+    transactionHash: string
+    emittedAt: string
+}
+
+export type GameDetails = HistoryGame & {
+    rounds: HistoryRound[]
+    events: HistoryEvent[]
+}
+
+/* Outcome of an ended game for `GameFilter.player` */
+export type GameResult = 'won' | 'lost' | 'tied'
+
+export type GameSort = 'newest' | 'oldest' | 'stake-desc' | 'stake-asc'
+
+export type GameFilter = {
+    // Either player of the game
+    player?: string
+    // Start of the address of the other player, or of either player without `player`
+    opponent?: string
+    // Only applies with `player`
+    result?: GameResult
+    status?: GameStatus
+    gameType?: GameType
+    // Bounds of the stake, in wei
+    minStake?: bigint
+    maxStake?: bigint
+    // Newest first by default
+    sort?: GameSort
+    limit: number
+    offset: number
+}
+
+/* A page of games, in the order of the filter, and the number of games matching it */
+export type GamePage = {
+    total: number
+    games: HistoryGame[]
+}
+
+export type IndexerStatus = {
+    enabled: boolean
+    startBlock?: number
+    // Last block indexed, and last block of the chain seen by the indexer
+    indexedBlock?: number
+    headBlock?: number
+    synced: boolean
+    lastError?: string
+}
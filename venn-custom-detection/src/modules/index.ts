@@ -1,2 +1,6 @@
 export * from './app-module'
+export * from './approval-module'
 export * from './detection-module'
+export * from './history-module'
+export * from './reputation-module'
+export * from './verdict-module'
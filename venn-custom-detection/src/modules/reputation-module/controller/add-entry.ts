@@ -0,0 +1,30 @@
+import { plainToInstance } from 'class-transformer'
+import { Request, Response } from 'express'
+
+import { logger } from '@/app'
+import { ErrorHandler, validateRequest } from '@/helpers'
+import {
+    ReputationEntryRequest,
+    toReputationEntriesResponse,
+} from '@/modules/reputation-module/dtos'
+import { reputationStore } from '@/modules/reputation-module/store'
+import { HTTP_STATUS_CODES, PublicClassFields } from '@/types'
+
+export const addEntry = async (
+    req: Request<Record<string, string>, PublicClassFields<ReputationEntryRequest>>,
+    res: Response,
+) => {
+    const request = plainToInstance(ReputationEntryRequest, req.body)
+
+    try {
+        await validateRequest(request)
+
+        const [entry] = reputationStore.add([{ ...request, source: request.source ?? 'manual' }])
+
+        logger.info(`reputation label '${entry.label}' set for ${entry.address}`)
+
+        res.status(HTTP_STATUS_CODES.CREATED).json(toReputationEntriesResponse([entry])[0])
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
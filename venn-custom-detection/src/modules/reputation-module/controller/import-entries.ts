@@ -0,0 +1,37 @@
+import { plainToInstance } from 'class-transformer'
+import { Request, Response } from 'express'
+
+import { logger } from '@/app'
+import { ErrorHandler, validateRequest } from '@/helpers'
+import {
+    ReputationImportRequest,
+    toReputationEntriesResponse,
+} from '@/modules/reputation-module/dtos'
+import { reputationStore } from '@/modules/reputation-module/store'
+import { PublicClassFields } from '@/types'
+
+export const importEntries = async (
+    req: Request<Record<string, string>, PublicClassFields<ReputationImportRequest>>,
+    res: Response,
+) => {
+    const request = plainToInstance(ReputationImportRequest, req.body)
+
+    try {
+        await validateRequest(request)
+
+        const entries = request.entries.map(entry => ({
+            ...entry,
+            source: entry.source ?? 'import',
+        }))
+
+        const imported = request.replace
+            ? reputationStore.replace(entries)
+            : reputationStore.add(entries)
+
+        logger.info(`imported ${imported.length} reputation entries`)
+
+        res.json(toReputationEntriesResponse(imported))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
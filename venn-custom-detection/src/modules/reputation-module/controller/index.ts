@@ -0,0 +1,5 @@
+export * from './add-entry'
+export * from './import-entries'
+export * from './list-entries'
+export * from './reload-entries'
+export * from './remove-entry'
@@ -0,0 +1,35 @@
+import { Request, Response } from 'express'
+
+import { errors } from '@/errors'
+import { ErrorHandler } from '@/helpers'
+import { toReputationEntriesResponse } from '@/modules/reputation-module/dtos'
+import { reputationStore } from '@/modules/reputation-module/store'
+import { ReputationLabel } from '@/modules/reputation-module/types'
+
+export const listEntries = (req: Request, res: Response) => {
+    const label = req.query.label as ReputationLabel | undefined
+
+    try {
+        if (label && !Object.values(ReputationLabel).includes(label)) {
+            throw new errors.BadRequestError(`Unknown reputation label '${label}'`)
+        }
+
+        res.json(toReputationEntriesResponse(reputationStore.list(label)))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
+
+export const getEntries = (req: Request<{ address: string }>, res: Response) => {
+    try {
+        const entries = reputationStore.get(req.params.address)
+
+        if (!entries.length) {
+            throw new errors.NotFoundError(`No reputation entries for ${req.params.address}`)
+        }
+
+        res.json(toReputationEntriesResponse(entries))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
@@ -0,0 +1,19 @@
+import { Request, Response } from 'express'
+
+import { logger } from '@/app'
+import { ErrorHandler } from '@/helpers'
+import { reputationStore } from '@/modules/reputation-module/store'
+
+export const reloadEntries = (req: Request, res: Response) => {
+    try {
+        reputationStore.reload()
+
+        const count = reputationStore.list().length
+
+        logger.info(`reloaded ${count} reputation entries`)
+
+        res.json({ count })
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
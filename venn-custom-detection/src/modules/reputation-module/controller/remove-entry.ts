@@ -0,0 +1,26 @@
+import { Request, Response } from 'express'
+
+import { logger } from '@/app'
+import { errors } from '@/errors'
+import { ErrorHandler } from '@/helpers'
+import { toReputationEntriesResponse } from '@/modules/reputation-module/dtos'
+import { reputationStore } from '@/modules/reputation-module/store'
+import { ReputationLabel } from '@/modules/reputation-module/types'
+
+export const removeEntry = (req: Request<{ address: string }>, res: Response) => {
+    const label = req.query.label as ReputationLabel | undefined
+
+    try {
+        const removed = reputationStore.remove(req.params.address, label)
+
+        if (!removed.length) {
+            throw new errors.NotFoundError(`No reputation entries for ${req.params.address}`)
+        }
+
+        logger.info(`removed ${removed.length} reputation entries for ${req.params.address}`)
+
+        res.json(toReputationEntriesResponse(removed))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
@@ -0,0 +1,42 @@
+import { Type } from 'class-transformer'
+import {
+    IsArray,
+    IsBoolean,
+    IsEnum,
+    IsEthereumAddress,
+    IsISO8601,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator'
+
+import { ReputationLabel } from '@/modules/reputation-module/types'
+
+export class ReputationEntryRequest {
+    @IsEthereumAddress()
+    @IsString()
+    address!: string
+
+    @IsEnum(ReputationLabel)
+    label!: ReputationLabel
+
+    @IsString()
+    @IsOptional()
+    source?: string
+
+    @IsISO8601()
+    @IsOptional()
+    timestamp?: string
+}
+
+export class ReputationImportRequest {
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => ReputationEntryRequest)
+    entries!: ReputationEntryRequest[]
+
+    // Drop every existing entry before importing
+    @IsBoolean()
+    @IsOptional()
+    replace?: boolean
+}
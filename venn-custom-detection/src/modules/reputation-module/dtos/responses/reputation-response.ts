@@ -0,0 +1,21 @@
+import { Expose, plainToInstance } from 'class-transformer'
+
+import { ReputationEntry, ReputationLabel } from '@/modules/reputation-module/types'
+
+class ReputationEntryDTO {
+    @Expose()
+    address!: string
+
+    @Expose()
+    label!: ReputationLabel
+
+    @Expose()
+    source!: string
+
+    @Expose()
+    timestamp!: string
+}
+
+export const toReputationEntriesResponse = (entries: ReputationEntry[]): ReputationEntryDTO[] => {
+    return plainToInstance(ReputationEntryDTO, entries, { excludeExtraneousValues: true })
+}
@@ -0,0 +1,18 @@
+import { Router } from 'express'
+
+import { requireAdminApiKey } from '@/helpers'
+
+import * as ReputationController from './controller'
+
+const reputationRouter = Router()
+
+reputationRouter.use(requireAdminApiKey)
+
+reputationRouter.get('/', ReputationController.listEntries)
+reputationRouter.post('/', ReputationController.addEntry)
+reputationRouter.post('/import', ReputationController.importEntries)
+reputationRouter.post('/reload', ReputationController.reloadEntries)
+reputationRouter.get('/:address', ReputationController.getEntries)
+reputationRouter.delete('/:address', ReputationController.removeEntry)
+
+export { reputationRouter }
@@ -0,0 +1,139 @@
+import { plainToInstance } from 'class-transformer'
+import fs from 'fs'
+import path from 'path'
+
+import { validateConfig } from '@/helpers/validation.helpers'
+
+import { ReputationImportRequest } from './dtos'
+import { ReputationEntry, ReputationLabel } from './types'
+
+export type ReputationEntryInput = Omit<ReputationEntry, 'timestamp'> & { timestamp?: string }
+
+const entryKey = (address: string, label: ReputationLabel) => `${address.toLowerCase()}:${label}`
+
+/**
+ * In-memory reputation list of addresses, optionally backed by a JSON file.
+ *
+ * When a file is set, it is read by `reload` and rewritten after every change,
+ * so the list survives restarts and can be edited without redeploying.
+ *
+ * @example
+ * ```typescript
+ * const store = new ReputationStore()
+ *
+ * store.load('reputation.json')
+ * store.add([{ address: '0x42...', label: ReputationLabel.MevBot, source: 'manual' }])
+ * store.hasLabel('0x42...', ReputationLabel.MevBot) // true
+ * ```
+ */
+export class ReputationStore {
+    private entries = new Map<string, ReputationEntry>()
+    private filePath?: string
+
+    /**
+     * Backs the store with a JSON file and reads its entries, if it exists.
+     *
+     * @throws If the file cannot be parsed or holds invalid entries.
+     */
+    public load(filePath: string) {
+        this.filePath = path.resolve(filePath)
+        this.reload()
+    }
+
+    /**
+     * Adds or refreshes entries. Addresses are stored lowercased.
+     */
+    public add(entries: ReputationEntryInput[]): ReputationEntry[] {
+        const timestamp = new Date().toISOString()
+
+        const added = entries.map(entry => {
+            const stored = {
+                ...entry,
+                address: entry.address.toLowerCase(),
+                timestamp: entry.timestamp ?? timestamp,
+            }
+
+            this.entries.set(entryKey(stored.address, stored.label), stored)
+
+            return stored
+        })
+
+        this.persist()
+
+        return added
+    }
+
+    /**
+     * Replaces every entry with the given ones.
+     */
+    public replace(entries: ReputationEntryInput[]): ReputationEntry[] {
+        this.entries.clear()
+
+        return this.add(entries)
+    }
+
+    /**
+     * Removes the given label from the address, or every label when none is given.
+     *
+     * @returns The removed entries.
+     */
+    public remove(address: string, label?: ReputationLabel): ReputationEntry[] {
+        const removed = this.get(address).filter(entry => !label || entry.label === label)
+
+        removed.forEach(entry => this.entries.delete(entryKey(entry.address, entry.label)))
+
+        if (removed.length) this.persist()
+
+        return removed
+    }
+
+    public get(address: string): ReputationEntry[] {
+        return this.list().filter(entry => entry.address === address.toLowerCase())
+    }
+
+    public list(label?: ReputationLabel): ReputationEntry[] {
+        return [...this.entries.values()].filter(entry => !label || entry.label === label)
+    }
+
+    public hasLabel(address: string, ...labels: ReputationLabel[]): boolean {
+        return labels.some(label => this.entries.has(entryKey(address, label)))
+    }
+
+    /**
+     * Re-reads the backing file, dropping in-memory changes that were not persisted.
+     * Does nothing when the store has no file or the file does not exist yet.
+     *
+     * @throws If the file cannot be parsed or holds invalid entries. The current entries are kept.
+     */
+    public reload() {
+        if (!this.filePath || !fs.existsSync(this.filePath)) return
+
+        const file = plainToInstance(ReputationImportRequest, {
+            entries: JSON.parse(fs.readFileSync(this.filePath, 'utf-8')),
+        })
+
+        validateConfig(file, this.filePath)
+
+        this.entries = new Map(
+            file.entries.map(entry => [
+                entryKey(entry.address, entry.label),
+                {
+                    address: entry.address.toLowerCase(),
+                    label: entry.label,
+                    source: entry.source ?? 'file',
+                    timestamp: entry.timestamp ?? new Date().toISOString(),
+                },
+            ]),
+        )
+    }
+
+    private persist() {
+        if (!this.filePath) return
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+        fs.writeFileSync(this.filePath, JSON.stringify(this.list(), null, 4))
+    }
+}
+
+/* Store queried by the detection rules and managed through the `/reputation` routes */
+export const reputationStore = new ReputationStore()
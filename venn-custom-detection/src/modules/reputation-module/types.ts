@@ -0,0 +1,18 @@
+export enum ReputationLabel {
+    MevBot = 'mev-bot',
+    Sandwicher = 'sandwicher',
+    TrustedPlayer = 'trusted-player',
+}
+
+/**
+ * A label attached to an address.
+ *
+ * `source` tells where the label comes from (e.g. `manual`, `import`, an analytics feed),
+ * `timestamp` is the ISO date of the last time it was set.
+ */
+export type ReputationEntry = {
+    address: string
+    label: ReputationLabel
+    source: string
+    timestamp: string
+}
@@ -0,0 +1,20 @@
+import { Request, Response } from 'express'
+
+import { errors } from '@/errors'
+import { ErrorHandler } from '@/helpers'
+import { toVerdictResponse } from '@/modules/verdict-module/dtos'
+import { verdictStore } from '@/modules/verdict-module/store'
+
+export const getVerdict = (req: Request<{ id: string }>, res: Response) => {
+    try {
+        const verdict = verdictStore.get(Number(req.params.id))
+
+        if (!verdict) {
+            throw new errors.NotFoundError(`Verdict ${req.params.id} not found`)
+        }
+
+        res.json(toVerdictResponse(verdict))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
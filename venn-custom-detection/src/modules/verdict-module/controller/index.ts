@@ -0,0 +1,2 @@
+export * from './get-verdict'
+export * from './list-verdicts'
@@ -0,0 +1,32 @@
+import { plainToInstance } from 'class-transformer'
+import { Request, Response } from 'express'
+
+import { ErrorHandler, validateRequest } from '@/helpers'
+import { ListVerdictsRequest, toVerdictsResponse } from '@/modules/verdict-module/dtos'
+import { verdictStore } from '@/modules/verdict-module/store'
+
+const DEFAULT_LIMIT = 100
+
+export const listVerdicts = async (req: Request, res: Response) => {
+    const request = plainToInstance(ListVerdictsRequest, req.query)
+
+    try {
+        await validateRequest(request)
+
+        const verdicts = verdictStore.list({
+            from: request.from ? Date.parse(request.from) : undefined,
+            to: request.to ? Date.parse(request.to) : undefined,
+            address: request.address,
+            gameId: request.gameId,
+            ruleId: request.ruleId,
+            hash: request.hash,
+            detected: request.detected ? request.detected === 'true' : undefined,
+            limit: request.limit ?? DEFAULT_LIMIT,
+            offset: request.offset ?? 0,
+        })
+
+        res.json(toVerdictsResponse(verdicts))
+    } catch (error) {
+        ErrorHandler.processApiError(res, error)
+    }
+}
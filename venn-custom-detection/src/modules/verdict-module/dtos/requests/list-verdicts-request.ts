@@ -0,0 +1,57 @@
+import { Type } from 'class-transformer'
+import {
+    IsEthereumAddress,
+    IsIn,
+    IsInt,
+    IsISO8601,
+    IsNumberString,
+    IsOptional,
+    IsString,
+    Max,
+    Min,
+} from 'class-validator'
+
+/* Query string of `GET /verdicts` */
+export class ListVerdictsRequest {
+    @IsISO8601()
+    @IsOptional()
+    from?: string
+
+    @IsISO8601()
+    @IsOptional()
+    to?: string
+
+    @IsEthereumAddress()
+    @IsOptional()
+    address?: string
+
+    @IsNumberString({ no_symbols: true })
+    @IsOptional()
+    gameId?: string
+
+    @IsString()
+    @IsOptional()
+    ruleId?: string
+
+    @IsString()
+    @IsOptional()
+    hash?: string
+
+    // Only the literal strings: `IsBooleanString` also accepts `1` and `0`
+    @IsIn(['true', 'false'])
+    @IsOptional()
+    detected?: string
+
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(1000)
+    @IsOptional()
+    limit?: number
+
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    offset?: number
+}
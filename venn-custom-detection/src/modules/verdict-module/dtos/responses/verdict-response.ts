@@ -0,0 +1,50 @@
+import { Expose, plainToInstance } from 'class-transformer'
+
+import { DetectionFinding } from '@/modules/detection-module/dtos'
+import { Verdict } from '@/modules/verdict-module/types'
+
+class VerdictDTO {
+    @Expose()
+    id!: number
+
+    @Expose()
+    requestId!: string
+
+    @Expose()
+    chainId!: number
+
+    @Expose()
+    hash!: string
+
+    @Expose()
+    protocolAddress?: string
+
+    @Expose()
+    detected!: boolean
+
+    @Expose()
+    message?: string
+
+    @Expose()
+    findings!: DetectionFinding[]
+
+    @Expose()
+    addresses!: string[]
+
+    @Expose()
+    gameIds!: string[]
+
+    @Expose()
+    latencyMs!: number
+
+    @Expose()
+    createdAt!: string
+}
+
+export const toVerdictResponse = (verdict: Verdict): VerdictDTO => {
+    return plainToInstance(VerdictDTO, verdict)
+}
+
+export const toVerdictsResponse = (verdicts: Verdict[]): VerdictDTO[] => {
+    return plainToInstance(VerdictDTO, verdicts)
+}
@@ -0,0 +1,14 @@
+import { logger } from '@/app'
+
+import { VerdictRecord, verdictStore } from './store'
+
+/**
+ * Persists a verdict. Failures are logged, so an unavailable store never blocks detection.
+ */
+export function recordVerdict(record: VerdictRecord) {
+    try {
+        verdictStore.record(record)
+    } catch (error) {
+        logger.error(`Failed to record verdict of request ${record.response.requestId}: ${error}`)
+    }
+}
@@ -0,0 +1,14 @@
+import { Router } from 'express'
+
+import { requireAdminApiKey } from '@/helpers'
+
+import * as VerdictController from './controller'
+
+const verdictRouter = Router()
+
+verdictRouter.use(requireAdminApiKey)
+
+verdictRouter.get('/', VerdictController.listVerdicts)
+verdictRouter.get('/:id', VerdictController.getVerdict)
+
+export { verdictRouter }
@@ -0,0 +1,205 @@
+import Database from 'better-sqlite3'
+import fs from 'fs'
+import path from 'path'
+
+import { DetectionRequest, DetectionResponse } from '@/modules/detection-module/dtos'
+import { decodeTraceActions } from '@/modules/detection-module/rps'
+
+import { Verdict, VerdictFilter } from './types'
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS verdicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        request_id TEXT NOT NULL,
+        chain_id INTEGER NOT NULL,
+        hash TEXT NOT NULL,
+        protocol_address TEXT,
+        detected INTEGER NOT NULL,
+        message TEXT,
+        findings TEXT NOT NULL,
+        addresses TEXT NOT NULL,
+        game_ids TEXT NOT NULL,
+        latency_ms REAL NOT NULL,
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS verdicts_created_at ON verdicts (created_at);
+    CREATE INDEX IF NOT EXISTS verdicts_hash ON verdicts (hash);
+`
+
+type VerdictRow = {
+    id: number
+    request_id: string
+    chain_id: number
+    hash: string
+    protocol_address: string | null
+    detected: number
+    message: string | null
+    findings: string
+    addresses: string
+    game_ids: string
+    latency_ms: number
+    created_at: number
+}
+
+export type VerdictRecord = {
+    request: DetectionRequest
+    response: DetectionResponse
+    latencyMs: number
+}
+
+/**
+ * Audit trail of every detection verdict, kept in an embedded SQLite database.
+ *
+ * @example
+ * ```typescript
+ * const store = new VerdictStore()
+ *
+ * store.open(':memory:')
+ * store.record({ request, response, latencyMs: 3.2 })
+ * store.list({ ruleId: 'sandwich-attack', limit: 10, offset: 0 })
+ * ```
+ */
+export class VerdictStore {
+    private db?: Database.Database
+
+    /**
+     * Opens (and creates, if needed) the database. Use `:memory:` for a throwaway store.
+     */
+    public open(filePath: string) {
+        if (filePath !== ':memory:') {
+            fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true })
+        }
+
+        this.close()
+        this.db = new Database(filePath)
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(SCHEMA)
+    }
+
+    public close() {
+        this.db?.close()
+        this.db = undefined
+    }
+
+    public record({ request, response, latencyMs }: VerdictRecord): number {
+        const actions = decodeTraceActions(request.trace, request.protocolAddress)
+
+        const addresses = [
+            request.trace.from,
+            request.trace.to,
+            request.protocolAddress,
+            ...actions.map(action => action.from),
+            ...response.findings.flatMap(finding => finding.evidence.addresses ?? []),
+        ]
+            .filter((address): address is string => !!address)
+            .map(address => address.toLowerCase())
+
+        const gameIds = actions.flatMap(action =>
+            'gameId' in action ? [action.gameId.toString()] : [],
+        )
+
+        const { lastInsertRowid } = this.getDb()
+            .prepare(
+                `INSERT INTO verdicts (
+                    request_id, chain_id, hash, protocol_address, detected, message,
+                    findings, addresses, game_ids, latency_ms, created_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            )
+            .run(
+                response.requestId,
+                request.chainId,
+                request.hash,
+                request.protocolAddress?.toLowerCase() ?? null,
+                Number(response.detected),
+                response.message ?? null,
+                JSON.stringify(response.findings),
+                JSON.stringify([...new Set(addresses)]),
+                JSON.stringify([...new Set(gameIds)]),
+                latencyMs,
+                Date.now(),
+            )
+
+        return Number(lastInsertRowid)
+    }
+
+    /**
+     * Lists verdicts matching every given filter, newest first.
+     */
+    public list(filter: VerdictFilter): Verdict[] {
+        const conditions: string[] = []
+        const params: (string | number)[] = []
+
+        if (filter.from !== undefined) {
+            conditions.push('created_at >= ?')
+            params.push(filter.from)
+        }
+        if (filter.to !== undefined) {
+            conditions.push('created_at <= ?')
+            params.push(filter.to)
+        }
+        if (filter.hash !== undefined) {
+            conditions.push('hash = ?')
+            params.push(filter.hash)
+        }
+        if (filter.detected !== undefined) {
+            conditions.push('detected = ?')
+            params.push(Number(filter.detected))
+        }
+        if (filter.address !== undefined) {
+            conditions.push('EXISTS (SELECT 1 FROM json_each(addresses) WHERE value = ?)')
+            params.push(filter.address.toLowerCase())
+        }
+        if (filter.gameId !== undefined) {
+            conditions.push('EXISTS (SELECT 1 FROM json_each(game_ids) WHERE value = ?)')
+            params.push(filter.gameId)
+        }
+        if (filter.ruleId !== undefined) {
+            conditions.push(
+                "EXISTS (SELECT 1 FROM json_each(findings) WHERE json_extract(value, '$.ruleId') = ?)",
+            )
+            params.push(filter.ruleId)
+        }
+
+        const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+
+        const rows = this.getDb()
+            .prepare(`SELECT * FROM verdicts ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+            .all(...params, filter.limit, filter.offset) as VerdictRow[]
+
+        return rows.map(toVerdict)
+    }
+
+    public get(id: number): Verdict | undefined {
+        const row = this.getDb().prepare('SELECT * FROM verdicts WHERE id = ?').get(id) as
+            | VerdictRow
+            | undefined
+
+        return row && toVerdict(row)
+    }
+
+    private getDb(): Database.Database {
+        if (!this.db) {
+            throw new Error('Verdict store is not open')
+        }
+
+        return this.db
+    }
+}
+
+const toVerdict = (row: VerdictRow): Verdict => ({
+    id: row.id,
+    requestId: row.request_id,
+    chainId: row.chain_id,
+    hash: row.hash,
+    protocolAddress: row.protocol_address ?? undefined,
+    detected: Boolean(row.detected),
+    message: row.message ?? undefined,
+    findings: JSON.parse(row.findings),
+    addresses: JSON.parse(row.addresses),
+    gameIds: JSON.parse(row.game_ids),
+    latencyMs: row.latency_ms,
+    createdAt: new Date(row.created_at).toISOString(),
+})
+
+/* Store written by the detection controllers and read through the `/verdicts` routes */
+export const verdictStore = new VerdictStore()
@@ -0,0 +1,36 @@
+import { DetectionFinding } from '@/modules/detection-module/dtos'
+
+/**
+ * A persisted detection verdict.
+ *
+ * `addresses` holds every address involved in the transaction (sender, receiver, protocol
+ * and finding evidence), `gameIds` the games it touches. Both are lowercased/decimal strings.
+ */
+export type Verdict = {
+    id: number
+    requestId: string
+    chainId: number
+    hash: string
+    protocolAddress?: string
+    detected: boolean
+    message?: string
+    findings: DetectionFinding[]
+    addresses: string[]
+    gameIds: string[]
+    // Time spent validating and evaluating the request
+    latencyMs: number
+    createdAt: string
+}
+
+export type VerdictFilter = {
+    // Unix time in ms, inclusive
+    from?: number
+    to?: number
+    address?: string
+    gameId?: string
+    ruleId?: string
+    hash?: string
+    detected?: boolean
+    limit: number
+    offset: number
+}
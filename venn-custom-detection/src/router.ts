@@ -1,12 +1,23 @@
 import { Router } from 'express'
 
 /* IMPORT ALL YOUR ROUTERS */
-import { appRouter, detectionRouter } from '@/modules'
+import {
+    appRouter,
+    approvalRouter,
+    detectionRouter,
+    historyRouter,
+    reputationRouter,
+    verdictRouter,
+} from '@/modules'
 
 const router = Router()
 
 /* ASSIGN EACH ROUTER TO DEDICATED SUBROUTE */
 router.use('/app', appRouter)
+router.use('/approve', approvalRouter)
 router.use('/detect', detectionRouter)
+router.use('/history', historyRouter)
+router.use('/reputation', reputationRouter)
+router.use('/verdicts', verdictRouter)
 
 export { router }
@@ -1,8 +1,11 @@
 import { name, version } from '@root/package.json'
 import request from 'supertest'
+import { encodeFunctionData, toFunctionSelector } from 'viem'
 
 import { app, server } from '@/app'
+import { metrics } from '@/helpers/metrics.helpers'
 import { DetectionRequest, DetectionResponse } from '@/modules/detection-module/dtos'
+import { Choice, GameType, rockPaperScissorsAbi } from '@/modules/detection-module/rps'
 import { HTTP_STATUS_CODES } from '@/types'
 
 const ethereumAddress = '0xfdD055Cf3EaD343AD51f4C7d1F12558c52BaDFA5'
@@ -43,11 +46,33 @@ describe('Service Tests', () => {
             expect(response.status).toBe(HTTP_STATUS_CODES.OK)
             expect(response.body).toEqual(expectedData)
         })
+
+        test('metrics', async () => {
+            // Arrange
+            await request(app).get('/app/health-check')
+
+            // Act
+            const response = await request(app).get('/app/metrics')
+
+            // Assert
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.text).toContain(
+                'detector_http_requests_total{method="GET",route="/app/health-check",status="200"}',
+            )
+            expect(response.text).toContain('detector_detect_duration_seconds')
+            expect(response.text).toContain('detector_rule_findings_total')
+            expect(response.text).toContain('detector_validation_failures_total')
+            expect(response.text).toContain('detector_errors_total')
+        })
     })
 
     describe('RockPaperScissors Value Extraction Attack Detection', () => {
         // Base request payload for testing
-        const createBaseRequestPayload = (from: string, to: string, input: string): Partial<DetectionRequest> => ({
+        const createBaseRequestPayload = (
+            from: string,
+            to: string,
+            input: string,
+        ): Partial<DetectionRequest> => ({
             id: 'rps-attack-detection-test',
             detectorName: 'rps-value-extraction-detector',
             chainId: 17000, // Holesky testnet chainId
@@ -71,8 +96,8 @@ describe('Service Tests', () => {
                     },
                     [to]: {
                         balance: '0x0',
-                        code: '0x608060405234801561001057600080fd5b50600436106100cf5760003560e01c8063981b24d011610...'
-                    }
+                        code: '0x608060405234801561001057600080fd5b50600436106100cf5760003560e01c8063981b24d011610...',
+                    },
                 },
                 post: {
                     [from]: {
@@ -80,32 +105,36 @@ describe('Service Tests', () => {
                     },
                     [to]: {
                         balance: '0x10000000000000000',
-                    }
+                    },
                 },
                 logs: [],
-                calls: []
+                calls: [],
             },
-        });
+        })
 
         /**
          * Test Case 1: Classic Sandwich Attack Detection
-         * 
+         *
          * This test simulates a sandwich attack pattern where an attacker observes a pending game
          * creation with a high stake and tries to manipulate the market before and after the transaction
          * to extract value.
-         * 
+         *
          * Should trigger detection as this pattern could result in value extraction from players.
          */
         test('should detect classic sandwich attack pattern', async () => {
-            // Function signature for createGame(GameType.OneRound) with high stake
-            const createGameInput = '0x25aa99cd0000000000000000000000000000000000000000000000000000000000000000';
-            
+            // createGame(GameType.OneRound) with high stake
+            const createGameInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'createGame',
+                args: [GameType.OneRound],
+            })
+
             const requestPayload = createBaseRequestPayload(
-                player1Address, 
+                player1Address,
                 contractAddress,
-                createGameInput
-            );
-            
+                createGameInput,
+            )
+
             // Add a mempool context showing sandwich attack pattern
             requestPayload.additionalData = {
                 mempoolContext: {
@@ -116,7 +145,7 @@ describe('Service Tests', () => {
                             to: liquidityPoolAddress,
                             input: '0xabcdef01', // Buy tokens before player's transaction
                             gasPrice: '35000000000', // 35 Gwei
-                            blockPosition: 0 // First in block
+                            blockPosition: 0, // First in block
                         },
                         {
                             hash: requestPayload.hash, // Player's transaction
@@ -125,7 +154,7 @@ describe('Service Tests', () => {
                             input: createGameInput,
                             value: '1000000000000000000', // 1 ETH stake
                             gasPrice: '30000000000', // 30 Gwei
-                            blockPosition: 1 // Second in block
+                            blockPosition: 1, // Second in block
                         },
                         {
                             hash: '0xf9e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a2f1e0',
@@ -133,49 +162,68 @@ describe('Service Tests', () => {
                             to: liquidityPoolAddress,
                             input: '0xfedcba98', // Sell tokens after player's transaction
                             gasPrice: '35000000000', // 35 Gwei
-                            blockPosition: 2 // Third in block
-                        }
+                            blockPosition: 2, // Third in block
+                        },
                     ],
                     priceImpact: {
                         before: '2.5%', // Price impact from first transaction
-                        after: '2.7%'   // Price impact from last transaction
-                    }
-                }
-            };
+                        after: '2.7%', // Price impact from last transaction
+                    },
+                },
+            }
 
             // Act
             const response = await request(app)
                 .post('/detect')
                 .send(requestPayload)
-                .set('Content-Type', 'application/json');
+                .set('Content-Type', 'application/json')
 
-            const body: DetectionResponse = response.body;
+            const body: DetectionResponse = response.body
 
             // Assert
-            expect(response.status).toBe(HTTP_STATUS_CODES.OK);
-            expect(body.detected).toBe(true);
-            expect(body.message).toContain('Sandwich attack pattern detected');
-        });
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(body.detected).toBe(true)
+            expect(body.message).toContain('Sandwich attack pattern detected')
+            expect(body.findings).toEqual([
+                {
+                    ruleId: 'sandwich-attack',
+                    severity: 'high',
+                    confidence: 0.95,
+                    message: expect.stringContaining('Sandwich attack pattern detected'),
+                    evidence: {
+                        transactions: [
+                            '0xa1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0',
+                            requestPayload.hash,
+                            '0xf9e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a2f1e0',
+                        ],
+                        addresses: [sandwichBotAddress],
+                    },
+                },
+            ])
+        })
 
         /**
          * Test Case 2: Time-bandit Attack Detection
-         * 
-         * This test simulates a time-bandit attack where a miner/validator attempts to 
+         *
+         * This test simulates a time-bandit attack where a miner/validator attempts to
          * reorganize blocks to extract value from a high-stake game.
-         * 
+         *
          * Should trigger detection as this is a severe form of MEV extraction.
          */
         test('should detect time-bandit attack attempt', async () => {
-            // Function signature for makeMove with a winning move after seeing opponent's move
-            const makeMoveInput = '0x57a33a7c0000000000000000000000000000000000000000000000000000000000000001' + 
-                              '0000000000000000000000000000000000000000000000000000000000000002'; // Choice.Paper
-            
+            // makeMove with a winning move after seeing opponent's move
+            const makeMoveInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'makeMove',
+                args: [BigInt(1), Choice.Paper],
+            })
+
             const requestPayload = createBaseRequestPayload(
                 player2Address,
                 contractAddress,
-                makeMoveInput
-            );
-            
+                makeMoveInput,
+            )
+
             // Add blockchain context showing reorganization attempt
             requestPayload.additionalData = {
                 blockchainContext: {
@@ -186,49 +234,56 @@ describe('Service Tests', () => {
                             hash: '0xd1c2b3a4f5e6d7c8b9a0f1e2d3c4b5a6',
                             from: player1Address,
                             to: contractAddress,
-                            input: '0x57a33a7c0000000000000000000000000000000000000000000000000000000000000001' + 
-                                  '0000000000000000000000000000000000000000000000000000000000000001', // Rock
+                            input: encodeFunctionData({
+                                abi: rockPaperScissorsAbi,
+                                functionName: 'makeMove',
+                                args: [BigInt(1), Choice.Rock],
+                            }),
                             gameId: 1,
-                            stake: '5000000000000000000' // 5 ETH (high value game)
-                        }
+                            stake: '5000000000000000000', // 5 ETH (high value game)
+                        },
                     ],
                     validatorAddress: mevBotAddress,
-                    potentialProfit: '1500000000000000000' // 1.5 ETH potential MEV extraction
-                }
-            };
+                    potentialProfit: '1500000000000000000', // 1.5 ETH potential MEV extraction
+                },
+            }
 
             // Act
             const response = await request(app)
                 .post('/detect')
                 .send(requestPayload)
-                .set('Content-Type', 'application/json');
+                .set('Content-Type', 'application/json')
 
-            const body: DetectionResponse = response.body;
+            const body: DetectionResponse = response.body
 
             // Assert
-            expect(response.status).toBe(HTTP_STATUS_CODES.OK);
-            expect(body.detected).toBe(true);
-            expect(body.message).toContain('Time-bandit attack detected');
-        });
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(body.detected).toBe(true)
+            expect(body.message).toContain('Time-bandit attack detected')
+        })
 
         /**
          * Test Case 3: JIT (Just-In-Time) Liquidity Attack
-         * 
+         *
          * This test simulates a JIT liquidity attack where an attacker adds liquidity
          * just before a high-value game creation to capture fees and then removes liquidity.
-         * 
+         *
          * Should trigger detection as this extracts value from players through temporary liquidity.
          */
         test('should detect JIT liquidity attack pattern', async () => {
-            // Function signature for createGame with BestOfFive (high stake)
-            const createGameInput = '0x25aa99cd0000000000000000000000000000000000000000000000000000000000000002';
-            
+            // createGame with BestOfFive (high stake)
+            const createGameInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'createGame',
+                args: [GameType.BestOfFive],
+            })
+
             const requestPayload = createBaseRequestPayload(
                 player1Address,
                 contractAddress,
-                createGameInput
-            );
-            
+                createGameInput,
+            )
+
             // Add liquidity context showing JIT pattern
             requestPayload.additionalData = {
                 liquidityContext: {
@@ -238,61 +293,64 @@ describe('Service Tests', () => {
                             address: mevBotAddress,
                             amount: '100000000000000000000', // 100 ETH
                             timestamp: Date.now() - 5000, // 5 seconds before
-                            pool: liquidityPoolAddress
+                            pool: liquidityPoolAddress,
                         },
                         {
                             type: 'playerTransaction',
                             address: player1Address,
                             amount: '10000000000000000000', // 10 ETH stake
                             timestamp: Date.now(),
-                            fees: '100000000000000000' // 0.1 ETH in fees paid
+                            fees: '100000000000000000', // 0.1 ETH in fees paid
                         },
                         {
                             type: 'remove',
                             address: mevBotAddress,
                             amount: '100200000000000000000', // 100.2 ETH (initial + fees)
                             timestamp: Date.now() + 5000, // 5 seconds after
-                            pool: liquidityPoolAddress
-                        }
+                            pool: liquidityPoolAddress,
+                        },
                     ],
                     liquidityDuration: 10, // Only 10 seconds of liquidity provided
-                    priceImpact: '1.2%'
-                }
-            };
+                    priceImpact: '1.2%',
+                },
+            }
 
             // Act
             const response = await request(app)
                 .post('/detect')
                 .send(requestPayload)
-                .set('Content-Type', 'application/json');
+                .set('Content-Type', 'application/json')
 
-            const body: DetectionResponse = response.body;
+            const body: DetectionResponse = response.body
 
             // Assert
-            expect(response.status).toBe(HTTP_STATUS_CODES.OK);
-            expect(body.detected).toBe(true);
-            expect(body.message).toContain('JIT liquidity attack detected');
-        });
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(body.detected).toBe(true)
+            expect(body.message).toContain('JIT liquidity attack detected')
+        })
 
         /**
          * Test Case 4: Multisig Validation Bypass Attack
-         * 
+         *
          * This test simulates an attack where a transaction tries to bypass the multisig
          * validation by exploiting a timing issue when both players are submitting moves.
-         * 
+         *
          * Should trigger detection as this could allow incorrect validation of game results.
          */
         test('should detect multisig validation bypass attempt', async () => {
-            // Function signature for makeMove followed by _endGame in same transaction
-            const complexAttackInput = '0x57a33a7c0000000000000000000000000000000000000000000000000000000000000001' + 
-                                   '0000000000000000000000000000000000000000000000000000000000000002';
-            
+            // makeMove followed by _endGame in same transaction
+            const complexAttackInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'makeMove',
+                args: [BigInt(1), Choice.Paper],
+            })
+
             const requestPayload = createBaseRequestPayload(
                 player1Address,
                 contractAddress,
-                complexAttackInput
-            );
-            
+                complexAttackInput,
+            )
+
             // Add call trace showing bypass attempt
             requestPayload.trace!.calls = [
                 {
@@ -307,13 +365,15 @@ describe('Service Tests', () => {
                     from: player1Address,
                     to: contractAddress,
                     // Attempt to directly call _endGame to bypass second player validation
-                    input: '0x3e4372d00000000000000000000000000000000000000000000000000000000000000001',
+                    input:
+                        toFunctionSelector('_endGame(uint256)') +
+                        '0000000000000000000000000000000000000000000000000000000000000001',
                     output: '0x00',
                     gasUsed: '40000',
                     value: '0',
-                }
-            ];
-            
+                },
+            ]
+
             // Add multisig context
             requestPayload.additionalData = {
                 multisigInfo: {
@@ -322,48 +382,51 @@ describe('Service Tests', () => {
                     presentPlayers: 1, // Only one player has moved
                     authorizationState: {
                         player1Signature: true,
-                        player2Signature: false
+                        player2Signature: false,
                     },
                     validationRules: [
-                        "both_players_must_move_before_resolution",
-                        "game_must_complete_required_rounds"
-                    ]
-                }
-            };
+                        'both_players_must_move_before_resolution',
+                        'game_must_complete_required_rounds',
+                    ],
+                },
+            }
 
             // Act
             const response = await request(app)
                 .post('/detect')
                 .send(requestPayload)
-                .set('Content-Type', 'application/json');
+                .set('Content-Type', 'application/json')
 
-            const body: DetectionResponse = response.body;
+            const body: DetectionResponse = response.body
 
             // Assert
-            expect(response.status).toBe(HTTP_STATUS_CODES.OK);
-            expect(body.detected).toBe(true);
-            expect(body.message).toContain('Multisig validation bypass attempt detected');
-        });
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(body.detected).toBe(true)
+            expect(body.message).toContain('Multisig validation bypass attempt detected')
+        })
 
         /**
          * Test Case 5: Oracle Manipulation Attack
-         * 
+         *
          * This test simulates an attack where an external oracle (used for random number
          * generation or price feed) is manipulated to influence game outcome.
-         * 
+         *
          * Should trigger detection as this could allow extracting value by predicting outcomes.
          */
         test('should detect oracle manipulation attempt', async () => {
-            // Function signature for makeMove with Oracle integration
-            const oracleIntegratedMoveInput = '0x57a33a7c0000000000000000000000000000000000000000000000000000000000000001' + 
-                                         '0000000000000000000000000000000000000000000000000000000000000003'; // Scissors
-            
+            // makeMove with Oracle integration
+            const oracleIntegratedMoveInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'makeMove',
+                args: [BigInt(1), Choice.Scissors],
+            })
+
             const requestPayload = createBaseRequestPayload(
                 player1Address,
                 contractAddress,
-                oracleIntegratedMoveInput
-            );
-            
+                oracleIntegratedMoveInput,
+            )
+
             // Add oracle context showing price manipulation
             requestPayload.additionalData = {
                 oracleContext: {
@@ -373,65 +436,68 @@ describe('Service Tests', () => {
                             updateTx: '0xa1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0',
                             updater: mevBotAddress,
                             oldValue: '10500000000', // Regular price
-                            newValue: '9200000000',  // Manipulated price (-12.4%)
-                            timestamp: Date.now() - 10000
+                            newValue: '9200000000', // Manipulated price (-12.4%)
+                            timestamp: Date.now() - 10000,
                         },
                         {
                             updateTx: '0xc3d4e5f6a7b8a9b0c1d2e3f4a5b6c7d8e9f0a1b2',
                             updater: mevBotAddress,
-                            oldValue: '9200000000',  // Manipulated price
+                            oldValue: '9200000000', // Manipulated price
                             newValue: '10600000000', // Price restored after attack (+15.2%)
-                            timestamp: Date.now() + 60000
-                        }
+                            timestamp: Date.now() + 60000,
+                        },
                     ],
                     volatilityAnalysis: {
                         normalVolatility: '1.2%',
                         attackVolatility: '12.4%',
-                        confidenceScore: 0.96 // 96% confidence of manipulation
+                        confidenceScore: 0.96, // 96% confidence of manipulation
                     },
                     impactedGames: [
                         {
                             gameId: 5,
                             stake: '8000000000000000000', // 8 ETH
-                            potentialProfit: '7500000000000000000' // 7.5 ETH through oracle manipulation
-                        }
-                    ]
-                }
-            };
+                            potentialProfit: '7500000000000000000', // 7.5 ETH through oracle manipulation
+                        },
+                    ],
+                },
+            }
 
             // Act
             const response = await request(app)
                 .post('/detect')
                 .send(requestPayload)
-                .set('Content-Type', 'application/json');
+                .set('Content-Type', 'application/json')
 
-            const body: DetectionResponse = response.body;
+            const body: DetectionResponse = response.body
 
             // Assert
-            expect(response.status).toBe(HTTP_STATUS_CODES.OK);
-            expect(body.detected).toBe(true);
-            expect(body.message).toContain('Oracle manipulation attack detected');
-        });
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(body.detected).toBe(true)
+            expect(body.message).toContain('Oracle manipulation attack detected')
+        })
 
         /**
          * Test Case 6: Generalized Frontrunning Attack
-         * 
-         * This test simulates a generalized frontrunning attack where a bot copies a 
+         *
+         * This test simulates a generalized frontrunning attack where a bot copies a
          * profitable transaction pattern but with higher gas price.
-         * 
+         *
          * Should trigger detection as this extracts value meant for legitimate players.
          */
         test('should detect generalized frontrunning attack', async () => {
-            // Function signature for strategic winning move in a high-stake game
-            const strategicMoveInput = '0x57a33a7c0000000000000000000000000000000000000000000000000000000000000005' + 
-                                   '0000000000000000000000000000000000000000000000000000000000000002'; // Paper in game #5
-            
+            // Strategic winning move (Paper in game #5) in a high-stake game
+            const strategicMoveInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'makeMove',
+                args: [BigInt(5), Choice.Paper],
+            })
+
             const requestPayload = createBaseRequestPayload(
                 mevBotAddress,
                 contractAddress,
-                strategicMoveInput
-            );
-            
+                strategicMoveInput,
+            )
+
             // Add mempool context showing frontrunning pattern
             requestPayload.additionalData = {
                 mempoolContext: {
@@ -442,8 +508,8 @@ describe('Service Tests', () => {
                             to: contractAddress,
                             input: strategicMoveInput, // Same exact move
                             gasPrice: '25000000000', // 25 Gwei
-                            timestamp: Date.now() - 2000 // 2 seconds earlier
-                        }
+                            timestamp: Date.now() - 2000, // 2 seconds earlier
+                        },
                     ],
                     currentTransaction: {
                         hash: requestPayload.hash,
@@ -451,47 +517,51 @@ describe('Service Tests', () => {
                         to: contractAddress,
                         input: strategicMoveInput, // Same exact move
                         gasPrice: '35000000000', // 35 Gwei (higher to ensure it mines first)
-                        timestamp: Date.now()
+                        timestamp: Date.now(),
                     },
                     similarityAnalysis: {
                         inputSimilarity: '100%', // Identical input data
-                        methodSignature: '0x57a33a7c', // makeMove function
-                        isExactCopy: true
-                    }
-                }
-            };
+                        methodSignature: strategicMoveInput.slice(0, 10), // makeMove function
+                        isExactCopy: true,
+                    },
+                },
+            }
 
             // Act
             const response = await request(app)
                 .post('/detect')
                 .send(requestPayload)
-                .set('Content-Type', 'application/json');
+                .set('Content-Type', 'application/json')
 
-            const body: DetectionResponse = response.body;
+            const body: DetectionResponse = response.body
 
             // Assert
-            expect(response.status).toBe(HTTP_STATUS_CODES.OK);
-            expect(body.detected).toBe(true);
-            expect(body.message).toContain('Generalized frontrunning attack detected');
-        });
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(body.detected).toBe(true)
+            expect(body.message).toContain('Generalized frontrunning attack detected')
+        })
 
         /**
          * Test Case 7: Regular Legitimate Game Transaction
-         * 
+         *
          * This test simulates a normal game interaction without MEV or value extraction attempts.
-         * 
+         *
          * Should NOT trigger detection as there's no attack pattern.
          */
         test('should not detect legitimate game transaction', async () => {
-            // Normal function signature for joinGame(1)
-            const joinGameInput = '0xee9a31a20000000000000000000000000000000000000000000000000000000000000001';
-            
+            // Normal joinGame(1)
+            const joinGameInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'joinGame',
+                args: [BigInt(1)],
+            })
+
             const requestPayload = createBaseRequestPayload(
                 player2Address,
                 contractAddress,
-                joinGameInput
-            );
-            
+                joinGameInput,
+            )
+
             // Add normal transaction context
             requestPayload.additionalData = {
                 transactionContext: {
@@ -499,23 +569,24 @@ describe('Service Tests', () => {
                     blockPosition: 45, // Middle of block
                     timeInMempool: 12, // 12 seconds in mempool (normal)
                     isContract: false, // Not a contract caller
-                    isKnownPlayer: true // Known legitimate player address
-                }
-            };
+                    isKnownPlayer: true, // Known legitimate player address
+                },
+            }
 
             // Act
             const response = await request(app)
                 .post('/detect')
                 .send(requestPayload)
-                .set('Content-Type', 'application/json');
+                .set('Content-Type', 'application/json')
 
-            const body: DetectionResponse = response.body;
+            const body: DetectionResponse = response.body
 
             // Assert
-            expect(response.status).toBe(HTTP_STATUS_CODES.OK);
-            expect(body.detected).toBe(false); // Should not detect normal transaction
-        });
-    });
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(body.detected).toBe(false) // Should not detect normal transaction
+            expect(body.findings).toEqual([])
+        })
+    })
 
     describe('Detection Controller Validation', () => {
         const requestPayload: Partial<DetectionRequest> = {
@@ -617,5 +688,55 @@ describe('Service Tests', () => {
             expect(response.body.message).toContain('trace.to')
             expect(response.body.message).toContain('trace.logs.0.address')
         })
+
+        test('detect batch', async () => {
+            const countErrors = async () =>
+                (await metrics.errors.get()).values.find(({ labels }) => labels.code === 400)
+                    ?.value ?? 0
+            const errorsBefore = await countErrors()
+
+            const response = await request(app)
+                .post('/detect/batch')
+                .send([
+                    requestPayload,
+                    { ...requestPayload, protocolAddress: 'definitely not address' },
+                    { ...requestPayload, id: 'other-id' },
+                ])
+                .set('Content-Type', 'application/json')
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body).toHaveLength(3)
+            expect(response.body[0].result.requestId).toBe(requestPayload.id)
+            expect(response.body[1].error.code).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(response.body[1].error.message).toContain('protocolAddress')
+            expect(response.body[2]).toEqual({
+                index: 2,
+                result: expect.objectContaining({ requestId: 'other-id', detected: false }),
+            })
+            expect(await countErrors()).toBe(errorsBefore + 1)
+        })
+
+        test('detect batch validation', async () => {
+            const response = await request(app)
+                .post('/detect/batch')
+                .send(requestPayload)
+                .set('Content-Type', 'application/json')
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+        })
+
+        test('detect batch with malformed items', async () => {
+            const response = await request(app)
+                .post('/detect/batch')
+                .send([null, 'not a request', [requestPayload], requestPayload])
+                .set('Content-Type', 'application/json')
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body).toHaveLength(4)
+            response.body.slice(0, 3).forEach((item: { error: { code: number } }) => {
+                expect(item.error.code).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            })
+            expect(response.body[3].result.requestId).toBe(requestPayload.id)
+        })
     })
 })
@@ -0,0 +1,322 @@
+import 'reflect-metadata'
+
+import request from 'supertest'
+import {
+    Address,
+    decodeFunctionData,
+    encodeAbiParameters,
+    encodeEventTopics,
+    encodeFunctionData,
+    getAddress,
+    Hex,
+    parseAbiParameters,
+} from 'viem'
+
+import { app, server } from '@/app'
+import {
+    ApprovalContext,
+    approvalService,
+    ApprovalSigner,
+    ApprovalTransaction,
+    HARDHAT_APPROVAL_SIGNER_KEY,
+    HardhatChain,
+    LocalChain,
+    Simulation,
+} from '@/modules/approval-module'
+import { mockVennPolicyAbi, vennConsumerAbi } from '@/modules/approval-module/abi'
+import { DetectionRequestTraceLog } from '@/modules/detection-module/dtos'
+import { gameTracker } from '@/modules/detection-module/games'
+import { Choice, GameType, rockPaperScissorsAbi } from '@/modules/detection-module/rps'
+import { HTTP_STATUS_CODES } from '@/types'
+
+const chainId = 31337
+const contractAddress = getAddress('0x5fbdb2315678afecb367f032d93f642f64180aa3')
+const policyAddress = getAddress('0xe7f1725e7734ce288f8367e1bb143e90bb3f0512')
+const playerAddress = getAddress('0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266')
+const otherSignerAddress = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc')
+const stake = BigInt('10000000000000000') // 0.01 ETH
+
+const signer = new ApprovalSigner(HARDHAT_APPROVAL_SIGNER_KEY)
+
+const gameCreatedLog = (gameId: bigint): DetectionRequestTraceLog => ({
+    address: contractAddress,
+    topics: encodeEventTopics({
+        abi: rockPaperScissorsAbi,
+        eventName: 'GameCreated',
+        args: { gameId },
+    }) as string[],
+    data: encodeAbiParameters(parseAbiParameters('address, uint256, uint8'), [
+        playerAddress,
+        stake,
+        GameType.OneRound,
+    ]),
+})
+
+/* Local chain whose simulations succeed with `logs`, or revert with `revertReason` */
+class FakeChain implements LocalChain {
+    public simulated: ApprovalTransaction[] = []
+    public policySigner: Address = signer.address
+    public revertReason?: string
+    public logs: DetectionRequestTraceLog[] = []
+
+    public async getChainId() {
+        return chainId
+    }
+
+    public async getApprovalContext(policy: Address): Promise<ApprovalContext> {
+        if (policy !== policyAddress) throw new Error('execution reverted')
+
+        return { signer: this.policySigner, nonce: BigInt(3), timestamp: BigInt(1700000000) }
+    }
+
+    public async simulate(transaction: ApprovalTransaction): Promise<Simulation> {
+        this.simulated.push(transaction)
+
+        if (this.revertReason) return { reverted: true, reason: this.revertReason }
+
+        return {
+            reverted: false,
+            hash: `0x${'ab'.repeat(32)}`,
+            trace: {
+                from: transaction.from,
+                to: transaction.to,
+                value: transaction.value.toString(),
+                input: transaction.data,
+                gas: '300000',
+                gasUsed: '120000',
+                pre: {},
+                post: {},
+                logs: [
+                    ...this.logs,
+                    // Emitted by the policy when the approval is submitted
+                    { address: policyAddress, topics: [`0x${'01'.repeat(32)}`], data: '0x' },
+                ],
+            },
+        }
+    }
+}
+
+const createGameInput = encodeFunctionData({
+    abi: rockPaperScissorsAbi,
+    functionName: 'createGame',
+    args: [GameType.OneRound],
+})
+
+const createBody = (data: Hex, value = stake) => ({
+    from: playerAddress,
+    to: contractAddress,
+    data,
+    value: value.toString(),
+    chainId,
+    approvingPolicyAddress: policyAddress,
+})
+
+describe('HardhatChain', () => {
+    test('runs overlapping simulations one at a time', async () => {
+        const hash: Hex = `0x${'ab'.repeat(32)}`
+        const calls: string[] = []
+
+        // Every node call takes a while, so simulations running side by side would interleave
+        const rpc =
+            (method: string, result?: unknown) =>
+            async (args?: { address?: Address; account?: Address }) => {
+                calls.push([method, args?.address ?? args?.account].filter(Boolean).join(' '))
+                await new Promise(resolve => setTimeout(resolve, 5))
+                return result
+            }
+
+        const chain = new HardhatChain('http://127.0.0.1:8545')
+
+        // The node holds the key of `playerAddress` only
+        Object.assign(chain, {
+            publicClient: { call: rpc('eth_call') },
+            walletClient: {
+                getAddresses: rpc('eth_accounts', [playerAddress]),
+                sendTransaction: rpc('eth_sendTransaction', hash),
+            },
+            testClient: {
+                snapshot: rpc('evm_snapshot', '0x1'),
+                revert: rpc('evm_revert'),
+                getAutomine: rpc('hardhat_getAutomine', true),
+                impersonateAccount: rpc('hardhat_impersonateAccount'),
+                stopImpersonatingAccount: rpc('hardhat_stopImpersonatingAccount'),
+            },
+            traces: { buildTrace: rpc('debug_traceTransaction', {}) },
+        })
+
+        const transaction = (from: Address): ApprovalTransaction => ({
+            from,
+            to: contractAddress,
+            data: createGameInput,
+            value: stake,
+        })
+
+        const simulations = await Promise.all([
+            chain.simulate(transaction(playerAddress)),
+            chain.simulate(transaction(otherSignerAddress)),
+        ])
+
+        expect(simulations).toEqual([
+            { reverted: false, hash, trace: {} },
+            { reverted: false, hash, trace: {} },
+        ])
+        expect(calls).toEqual([
+            `eth_call ${playerAddress}`,
+            'eth_accounts',
+            'evm_snapshot',
+            `eth_sendTransaction ${playerAddress}`,
+            'hardhat_getAutomine',
+            'debug_traceTransaction',
+            'evm_revert',
+            `eth_call ${otherSignerAddress}`,
+            'eth_accounts',
+            'evm_snapshot',
+            `hardhat_impersonateAccount ${otherSignerAddress}`,
+            `eth_sendTransaction ${otherSignerAddress}`,
+            'hardhat_getAutomine',
+            'debug_traceTransaction',
+            `hardhat_stopImpersonatingAccount ${otherSignerAddress}`,
+            'evm_revert',
+        ])
+    })
+})
+
+describe('Local approvals', () => {
+    let chain: FakeChain
+
+    afterAll(() => {
+        gameTracker.clear()
+        server.close()
+    })
+
+    test('are disabled until configured', async () => {
+        const response = await request(app).post('/approve').send(createBody(createGameInput))
+
+        expect(response.status).toBe(HTTP_STATUS_CODES.NOT_FOUND)
+        expect(response.body.status).toBe('Error')
+    })
+
+    describe('when configured', () => {
+        beforeEach(() => {
+            chain = new FakeChain()
+            approvalService.configure(chain, signer)
+            gameTracker.clear()
+        })
+
+        test('approve a transaction wrapped in safeFunctionCall', async () => {
+            chain.logs = [gameCreatedLog(BigInt(1))]
+
+            const response = await request(app).post('/approve').send(createBody(createGameInput))
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body.status).toBe('Approved')
+            expect(response.body.data).toMatchObject({
+                from: playerAddress,
+                to: contractAddress,
+                value: stake.toString(),
+            })
+
+            // The simulated transaction is the approved one
+            expect(chain.simulated).toEqual([
+                {
+                    from: playerAddress,
+                    to: contractAddress,
+                    value: stake,
+                    data: response.body.data.data,
+                },
+            ])
+
+            const { functionName, args } = decodeFunctionData({
+                abi: vennConsumerAbi,
+                data: response.body.data.data,
+            })
+            expect(functionName).toBe('safeFunctionCall')
+            expect(args[0]).toBe(BigInt(0))
+            expect(args[2]).toBe(createGameInput)
+
+            const approval = decodeFunctionData({ abi: mockVennPolicyAbi, data: args[1] })
+            expect(approval.functionName).toBe('approveCallsViaSignature')
+            expect(approval.args?.slice(1, 4)).toEqual([
+                BigInt(1700000600),
+                playerAddress,
+                BigInt(3),
+            ])
+
+            // Events of approved transactions reach the game state
+            expect(gameTracker.get(BigInt(1))?.player1).toBe(playerAddress.toLowerCase())
+        })
+
+        test('reject transactions flagged by the detector', async () => {
+            chain.logs = [gameCreatedLog(BigInt(1))]
+            await request(app).post('/approve').send(createBody(createGameInput))
+            chain.logs = []
+
+            // Nobody joined game 1 yet
+            const response = await request(app)
+                .post('/approve')
+                .send(
+                    createBody(
+                        encodeFunctionData({
+                            abi: rockPaperScissorsAbi,
+                            functionName: 'makeMove',
+                            args: [BigInt(1), Choice.Rock],
+                        }),
+                        BigInt(0),
+                    ),
+                )
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body).toEqual({
+                status: 'Rejected',
+                message:
+                    'Game state inconsistency detected: game 1: move in a game that was never joined',
+            })
+        })
+
+        test('reject transactions that revert', async () => {
+            chain.revertReason = 'Stake must be greater than 0'
+
+            const response = await request(app)
+                .post('/approve')
+                .send(createBody(createGameInput, BigInt(0)))
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body).toEqual({
+                status: 'Rejected',
+                message: 'Transaction reverted: Stake must be greater than 0',
+            })
+        })
+
+        test('refuse invalid requests', async () => {
+            const response = await request(app)
+                .post('/approve')
+                .send({ ...createBody(createGameInput), data: 'createGame' })
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(response.body.status).toBe('Error')
+            expect(response.body.message).toMatch(/^Invalid request/)
+            expect(chain.simulated).toEqual([])
+        })
+
+        test('refuse other chains and policies', async () => {
+            const otherChain = await request(app)
+                .post('/approve')
+                .send({ ...createBody(createGameInput), chainId: 17000 })
+            const unknownPolicy = await request(app)
+                .post('/approve')
+                .send({ ...createBody(createGameInput), approvingPolicyAddress: contractAddress })
+
+            chain.policySigner = otherSignerAddress
+            const otherSigner = await request(app)
+                .post('/approve')
+                .send(createBody(createGameInput))
+
+            for (const response of [otherChain, unknownPolicy, otherSigner]) {
+                expect(response.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+                expect(response.body.status).toBe('Error')
+            }
+            expect(otherSigner.body.message).toContain('does not trust the local signer')
+            expect(chain.simulated).toEqual([])
+        })
+    })
+})
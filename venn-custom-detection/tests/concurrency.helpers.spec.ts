@@ -0,0 +1,61 @@
+import { createLock, mapWithConcurrency } from '@/helpers/concurrency.helpers'
+
+describe('mapWithConcurrency', () => {
+    test('keeps the order of the items', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+            await new Promise(resolve => setTimeout(resolve, delay))
+            return index
+        })
+
+        expect(results).toEqual([0, 1, 2])
+    })
+
+    test('never exceeds the limit', async () => {
+        let pending = 0
+        let maxPending = 0
+
+        await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+            pending++
+            maxPending = Math.max(maxPending, pending)
+            await new Promise(resolve => setTimeout(resolve, 5))
+            pending--
+        })
+
+        expect(maxPending).toBe(3)
+    })
+
+    test('handles empty input', async () => {
+        expect(await mapWithConcurrency([], 5, async item => item)).toEqual([])
+    })
+})
+
+describe('createLock', () => {
+    test('runs tasks one at a time, in call order', async () => {
+        const runExclusive = createLock()
+        const events: string[] = []
+
+        const task = (name: string, delay: number) => async () => {
+            events.push(`${name} started`)
+            await new Promise(resolve => setTimeout(resolve, delay))
+            events.push(`${name} finished`)
+            return name
+        }
+
+        const results = await Promise.all([runExclusive(task('a', 20)), runExclusive(task('b', 5))])
+
+        expect(results).toEqual(['a', 'b'])
+        expect(events).toEqual(['a started', 'a finished', 'b started', 'b finished'])
+    })
+
+    test('runs the next tasks after a failure', async () => {
+        const runExclusive = createLock()
+
+        const failed = runExclusive(async () => {
+            throw new Error('failed')
+        })
+        const next = runExclusive(async () => 'next')
+
+        await expect(failed).rejects.toThrow('failed')
+        expect(await next).toBe('next')
+    })
+})
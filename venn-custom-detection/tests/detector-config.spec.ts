@@ -0,0 +1,135 @@
+import 'reflect-metadata'
+
+import { plainToInstance } from 'class-transformer'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import {
+    DetectorConfig,
+    DetectorConfigStore,
+    loadDetectorConfig,
+} from '@/modules/detection-module/config'
+
+const contractAddress = '0x7296c77Edd04092Fd6a8117c7f797E0680d97fa1'
+const otherContractAddress = '0x8A7F7c5b0083eB7f8C3ba11dF9E37a5ac501B972'
+const mevBotAddress = '0xC8F68Eccf2F05F32d29A8e949fDA3A222f6a9Bd7'
+
+describe('Detector config', () => {
+    describe('loadDetectorConfig', () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'detector-config-'))
+
+        const writeConfig = (name: string, content: string) => {
+            const filePath = path.join(tmpDir, name)
+            fs.writeFileSync(filePath, content)
+            return filePath
+        }
+
+        afterAll(() => {
+            fs.rmSync(tmpDir, { recursive: true, force: true })
+        })
+
+        test('loads the bundled config file', () => {
+            const config = loadDetectorConfig('detector.config.json')
+
+            expect(config).toEqual(new DetectorConfig())
+        })
+
+        test('falls back to defaults for omitted sections', () => {
+            const filePath = writeConfig('partial.json', '{ "thresholds": { "reorgDepth": 4 } }')
+
+            const config = loadDetectorConfig(filePath)
+
+            expect(config.thresholds.reorgDepth).toBe(4)
+            expect(config.thresholds.jitLiquidityDuration).toBe(30)
+            expect(config.addresses.knownMev).toHaveLength(2)
+        })
+
+        test('reports every invalid field', () => {
+            const filePath = writeConfig(
+                'invalid.json',
+                JSON.stringify({
+                    thresholds: { oracleConfidenceScore: 2, reorgDeph: 4 },
+                    overrides: [{ chainId: 1, addresses: { knownMev: ['not an address'] } }],
+                }),
+            )
+
+            expect(() => loadDetectorConfig(filePath)).toThrow(
+                /'thresholds.oracleConfidenceScore' not passed the validation/,
+            )
+            expect(() => loadDetectorConfig(filePath)).toThrow(
+                /'thresholds.reorgDeph' not passed the validation/,
+            )
+            expect(() => loadDetectorConfig(filePath)).toThrow(
+                /'overrides.0.addresses.knownMev' not passed the validation/,
+            )
+        })
+
+        test('rejects null override fields', () => {
+            const filePath = writeConfig(
+                'null-override.json',
+                JSON.stringify({
+                    overrides: [{ chainId: null, thresholds: { reorgDepth: null } }],
+                }),
+            )
+
+            expect(() => loadDetectorConfig(filePath)).toThrow(
+                /'overrides.0.chainId' not passed the validation/,
+            )
+            expect(() => loadDetectorConfig(filePath)).toThrow(
+                /'overrides.0.thresholds.reorgDepth' not passed the validation/,
+            )
+        })
+
+        test('fails on missing files and malformed JSON', () => {
+            expect(() => loadDetectorConfig(path.join(tmpDir, 'missing.json'))).toThrow(
+                'Failed to read detector configuration',
+            )
+            expect(() => loadDetectorConfig(writeConfig('broken.json', '{'))).toThrow(
+                'Failed to read detector configuration',
+            )
+        })
+    })
+
+    describe('DetectorConfigStore', () => {
+        const store = new DetectorConfigStore()
+
+        store.use(
+            plainToInstance(DetectorConfig, {
+                overrides: [
+                    {
+                        chainId: 1,
+                        protocolAddress: contractAddress,
+                        thresholds: { reorgDepth: 6 },
+                    },
+                    { chainId: 1, thresholds: { reorgDepth: 5, jitLiquidityDuration: 12 } },
+                    { protocolAddress: contractAddress, addresses: { knownMev: [mevBotAddress] } },
+                ],
+            }),
+        )
+
+        test('uses the top level settings when no override matches', () => {
+            const { thresholds, addresses } = store.resolve(17000, otherContractAddress)
+
+            expect(thresholds.reorgDepth).toBe(2)
+            expect(addresses.knownMev).toHaveLength(2)
+        })
+
+        test('applies overrides from the least to the most specific', () => {
+            expect(store.resolve(1, otherContractAddress).thresholds).toMatchObject({
+                reorgDepth: 5,
+                jitLiquidityDuration: 12,
+            })
+            expect(store.resolve(1, contractAddress).thresholds).toMatchObject({
+                reorgDepth: 6,
+                jitLiquidityDuration: 12,
+            })
+        })
+
+        test('lowercases address lists', () => {
+            expect(store.resolve(17000, contractAddress).addresses.knownMev).toEqual([
+                mevBotAddress.toLowerCase(),
+            ])
+        })
+    })
+})
@@ -0,0 +1,393 @@
+import 'reflect-metadata'
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+    encodeAbiParameters,
+    encodeEventTopics,
+    encodeFunctionData,
+    getAddress,
+    parseAbiParameters,
+    zeroAddress,
+} from 'viem'
+
+import { DetectionRequest, DetectionRequestTraceLog } from '@/modules/detection-module/dtos'
+import { GameTracker, gameTracker } from '@/modules/detection-module/games'
+import {
+    Choice,
+    decodeGameEvents,
+    GameEvent,
+    GameType,
+    rockPaperScissorsAbi,
+} from '@/modules/detection-module/rps'
+import { DetectionService } from '@/modules/detection-module/service'
+
+const contractAddress = '0x7296c77Edd04092Fd6a8117c7f797E0680d97fa1'
+const otherContractAddress = '0x8A7F7c5b0083eB7f8C3ba11dF9E37a5ac501B972'
+// Checksummed, as decoded by viem
+const player1Address = getAddress('0xd8da6bf26964af9d7eed9e03e53415d37aa96045')
+const player2Address = getAddress('0x690b9a9e9aa1c9db991c7721a92d351db4fac990')
+const stake = BigInt('10000000000000000') // 0.01 ETH
+
+const gameCreatedLog = (gameId: bigint, address = contractAddress): DetectionRequestTraceLog => ({
+    address,
+    topics: encodeEventTopics({
+        abi: rockPaperScissorsAbi,
+        eventName: 'GameCreated',
+        args: { gameId },
+    }) as string[],
+    data: encodeAbiParameters(parseAbiParameters('address, uint256, uint8'), [
+        player1Address,
+        stake,
+        GameType.OneRound,
+    ]),
+})
+
+const gameJoinedLog = (gameId: bigint): DetectionRequestTraceLog => ({
+    address: contractAddress,
+    topics: encodeEventTopics({
+        abi: rockPaperScissorsAbi,
+        eventName: 'GameJoined',
+        args: { gameId },
+    }) as string[],
+    data: encodeAbiParameters(parseAbiParameters('address'), [player2Address]),
+})
+
+const createRequest = (
+    from: string,
+    input: string,
+    logs: DetectionRequestTraceLog[] = [],
+    value = '0',
+) =>
+    ({
+        chainId: 17000,
+        hash: '0x' + Math.random().toString(16).substring(2, 14),
+        protocolAddress: contractAddress,
+        trace: {
+            from,
+            to: contractAddress,
+            input,
+            value,
+            gas: '100000',
+            gasUsed: '62500',
+            pre: {},
+            post: {},
+            logs,
+        },
+    } as DetectionRequest)
+
+describe('Game tracking', () => {
+    describe('decodeGameEvents', () => {
+        test('decodes game events of the protocol', () => {
+            expect(
+                decodeGameEvents(
+                    [gameCreatedLog(BigInt(1)), gameCreatedLog(BigInt(2), otherContractAddress)],
+                    contractAddress,
+                ),
+            ).toEqual([
+                {
+                    name: 'GameCreated',
+                    gameId: BigInt(1),
+                    player1: player1Address,
+                    stake,
+                    gameType: GameType.OneRound,
+                },
+            ])
+        })
+
+        test('decodes the invitee of private games', () => {
+            const log: DetectionRequestTraceLog = {
+                address: contractAddress,
+                topics: encodeEventTopics({
+                    abi: rockPaperScissorsAbi,
+                    eventName: 'PlayerInvited',
+                    args: { gameId: BigInt(1) },
+                }) as string[],
+                data: encodeAbiParameters(parseAbiParameters('address'), [player2Address]),
+            }
+
+            expect(decodeGameEvents([log], contractAddress)).toEqual([
+                { name: 'PlayerInvited', gameId: BigInt(1), invitee: player2Address },
+            ])
+        })
+
+        test('skips logs that are not game events', () => {
+            expect(
+                decodeGameEvents([{ address: contractAddress, topics: ['0x1234'], data: '0x' }]),
+            ).toEqual([])
+        })
+    })
+
+    describe('GameTracker', () => {
+        test('follows a game from creation to its end', () => {
+            const tracker = new GameTracker()
+            const gameId = BigInt(1)
+
+            const events: GameEvent[] = [
+                {
+                    name: 'GameCreated',
+                    gameId,
+                    player1: player1Address,
+                    stake,
+                    gameType: GameType.OneRound,
+                },
+                { name: 'GameJoined', gameId, player2: player2Address },
+                { name: 'PlayerMoved', gameId, player: player1Address, choice: Choice.Rock },
+            ]
+
+            tracker.apply(events)
+
+            expect(tracker.get(gameId)?.movedPlayers).toEqual([player1Address.toLowerCase()])
+
+            tracker.apply([
+                { name: 'PlayerMoved', gameId, player: player2Address, choice: Choice.Paper },
+                {
+                    name: 'RoundPlayed',
+                    gameId,
+                    roundNumber: 1,
+                    player1Choice: Choice.Rock,
+                    player2Choice: Choice.Paper,
+                },
+                { name: 'GameEnded', gameId, winner: player2Address, payout: stake },
+            ])
+
+            expect(tracker.get(gameId)).toEqual({
+                gameId,
+                player1: player1Address.toLowerCase(),
+                player2: player2Address.toLowerCase(),
+                stake,
+                gameType: GameType.OneRound,
+                roundsPlayed: 1,
+                scores: [0, 1],
+                movedPlayers: [],
+                choices: {},
+                rounds: [
+                    {
+                        firstMover: player1Address.toLowerCase(),
+                        player1Choice: Choice.Rock,
+                        player2Choice: Choice.Paper,
+                    },
+                ],
+                commitReveal: false,
+                isActive: false,
+                winner: player2Address.toLowerCase(),
+                payout: stake,
+            })
+        })
+
+        test('records ties without a winner', () => {
+            const tracker = new GameTracker()
+            const gameId = BigInt(1)
+
+            tracker.apply([
+                {
+                    name: 'GameCreated',
+                    gameId,
+                    player1: player1Address,
+                    stake,
+                    gameType: GameType.OneRound,
+                },
+                { name: 'GameEnded', gameId, winner: zeroAddress, payout: BigInt(0) },
+            ])
+
+            expect(tracker.get(gameId)?.winner).toBeUndefined()
+        })
+
+        test('ends cancelled games', () => {
+            const tracker = new GameTracker()
+            const gameId = BigInt(1)
+
+            tracker.apply([
+                {
+                    name: 'GameCreated',
+                    gameId,
+                    player1: player1Address,
+                    stake,
+                    gameType: GameType.OneRound,
+                },
+                { name: 'GameCancelled', gameId },
+            ])
+
+            expect(tracker.get(gameId)?.isActive).toBe(false)
+        })
+
+        const playedGame = (gameId: bigint, winner: string): GameEvent[] => [
+            {
+                name: 'GameCreated',
+                gameId,
+                player1: player1Address,
+                stake,
+                gameType: GameType.OneRound,
+            },
+            { name: 'GameJoined', gameId, player2: player2Address },
+            { name: 'PlayerMoved', gameId, player: player1Address, choice: Choice.Rock },
+            { name: 'PlayerMoved', gameId, player: player2Address, choice: Choice.Paper },
+            {
+                name: 'RoundPlayed',
+                gameId,
+                roundNumber: 1,
+                player1Choice: Choice.Rock,
+                player2Choice: Choice.Paper,
+            },
+            { name: 'GameEnded', gameId, winner, payout: stake },
+        ]
+
+        test('prunes the oldest ended games and keeps their statistics', () => {
+            const tracker = new GameTracker(1)
+
+            tracker.apply([
+                ...playedGame(BigInt(1), player2Address),
+                ...playedGame(BigInt(2), player2Address),
+                {
+                    name: 'GameCreated',
+                    gameId: BigInt(3),
+                    player1: player1Address,
+                    stake,
+                    gameType: GameType.OneRound,
+                },
+            ])
+
+            expect(tracker.get(BigInt(1))).toBeUndefined()
+            expect(tracker.get(BigInt(2))?.isActive).toBe(false)
+            expect(tracker.get(BigInt(3))?.isActive).toBe(true)
+            expect(tracker.countWins(player2Address, player1Address)).toBe(2)
+            expect(tracker.countSecondMoves(player2Address)).toEqual({ rounds: 2, wins: 2 })
+        })
+
+        test('writes a burst of events to its file once', () => {
+            jest.useFakeTimers()
+
+            const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'games-'))
+            const filePath = path.join(tmpDir, 'games.json')
+            const writeFileSync = jest.spyOn(fs, 'writeFileSync')
+
+            try {
+                const tracker = new GameTracker(1)
+                tracker.load(filePath)
+
+                tracker.apply(playedGame(BigInt(1), player2Address))
+                tracker.apply(playedGame(BigInt(2), player2Address))
+
+                expect(fs.existsSync(filePath)).toBe(false)
+
+                tracker.flush()
+
+                expect(writeFileSync).toHaveBeenCalledTimes(1)
+
+                const reloaded = new GameTracker(1)
+                reloaded.load(filePath)
+
+                expect(reloaded.get(BigInt(1))).toBeUndefined()
+                expect(reloaded.get(BigInt(2))).toEqual(tracker.get(BigInt(2)))
+                expect(reloaded.countWins(player2Address, player1Address)).toBe(2)
+                expect(reloaded.countSecondMoves(player2Address)).toEqual({ rounds: 2, wins: 2 })
+            } finally {
+                writeFileSync.mockRestore()
+                jest.useRealTimers()
+                fs.rmSync(tmpDir, { recursive: true, force: true })
+            }
+        })
+    })
+
+    describe('game-state-consistency rule', () => {
+        const gameId = BigInt(42)
+
+        const moveInput = encodeFunctionData({
+            abi: rockPaperScissorsAbi,
+            functionName: 'makeMove',
+            args: [gameId, Choice.Rock],
+        })
+
+        const joinInput = encodeFunctionData({
+            abi: rockPaperScissorsAbi,
+            functionName: 'joinGame',
+            args: [gameId],
+        })
+
+        beforeEach(() => {
+            gameTracker.clear()
+
+            const createInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'createGame',
+                args: [GameType.OneRound],
+            })
+
+            DetectionService.detect(
+                createRequest(player1Address, createInput, [gameCreatedLog(gameId)], String(stake)),
+            )
+        })
+
+        afterAll(() => {
+            gameTracker.clear()
+        })
+
+        test('feeds events of allowed transactions to the game state', () => {
+            expect(gameTracker.get(gameId)).toMatchObject({ player1: player1Address.toLowerCase() })
+        })
+
+        test('flags moves in games that were never joined', () => {
+            const response = DetectionService.detect(createRequest(player1Address, moveInput))
+
+            expect(response.detected).toBe(true)
+            expect(response.findings).toEqual([
+                expect.objectContaining({
+                    ruleId: 'game-state-consistency',
+                    message: expect.stringContaining('move in a game that was never joined'),
+                    evidence: expect.objectContaining({ addresses: [player1Address] }),
+                }),
+            ])
+        })
+
+        test('flags the same address on both sides of a game', () => {
+            const response = DetectionService.detect(
+                createRequest(player1Address, joinInput, [], String(stake)),
+            )
+
+            expect(response.message).toContain('same address on both sides of the game')
+        })
+
+        test('does not feed events of blocked transactions', () => {
+            DetectionService.detect(createRequest(player1Address, joinInput, [], '1'))
+
+            expect(gameTracker.get(gameId)?.player2).toBeUndefined()
+        })
+
+        test('flags joins of private games by addresses that were not invited', () => {
+            const inviteeAddress = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc')
+            const joinWithInviteInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'joinGameWithInvite',
+                args: [gameId, `0x${'ab'.repeat(65)}`],
+            })
+
+            gameTracker.apply([{ name: 'PlayerInvited', gameId, invitee: inviteeAddress }])
+
+            expect(gameTracker.get(gameId)?.invitee).toBe(inviteeAddress.toLowerCase())
+            expect(
+                DetectionService.detect(createRequest(player2Address, joinInput, [], String(stake)))
+                    .message,
+            ).toContain('join by an address that was not invited')
+            expect(
+                DetectionService.detect(createRequest(inviteeAddress, joinInput, [], String(stake)))
+                    .detected,
+            ).toBe(false)
+            expect(
+                DetectionService.detect(
+                    createRequest(player2Address, joinWithInviteInput, [], String(stake)),
+                ).detected,
+            ).toBe(false)
+        })
+
+        test('accepts moves consistent with the game state', () => {
+            DetectionService.detect(
+                createRequest(player2Address, joinInput, [gameJoinedLog(gameId)], String(stake)),
+            )
+
+            expect(DetectionService.detect(createRequest(player2Address, moveInput)).detected).toBe(
+                false,
+            )
+        })
+    })
+})
@@ -0,0 +1,313 @@
+import 'reflect-metadata'
+
+import request from 'supertest'
+import {
+    encodeAbiParameters,
+    encodeEventTopics,
+    getAddress,
+    Hex,
+    keccak256,
+    parseAbiParameters,
+    toHex,
+} from 'viem'
+
+import { app, server } from '@/app'
+import { Choice, GameType, rockPaperScissorsAbi } from '@/modules/detection-module/rps'
+import {
+    ChainLog,
+    HistoryChain,
+    historyIndexer,
+    historyStore,
+    IndexedBlock,
+} from '@/modules/history-module'
+import { HTTP_STATUS_CODES } from '@/types'
+
+const contractAddress = getAddress('0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0')
+const player1Address = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc')
+const player2Address = getAddress('0x90f79bf6eb2c4f870365e785982e1f101e93b906')
+const stake = BigInt('10000000000000000') // 0.01 ETH
+const payout = BigInt('19950000000000000') // Both stakes, minus the 0.25% creator fee
+
+type LogEvent = {
+    name: 'GameCreated' | 'GameJoined' | 'RoundPlayed' | 'GameEnded'
+    gameId: bigint
+    types: string
+    values: readonly unknown[]
+}
+
+/* Chain of fake blocks, each holding the game events it emitted */
+class FakeHistoryChain implements HistoryChain {
+    private blocks: { block: IndexedBlock; events: LogEvent[] }[] = []
+
+    public mine(events: LogEvent[], fork = '') {
+        const number = this.blocks.length + 1
+
+        this.blocks.push({
+            block: {
+                number,
+                hash: keccak256(toHex(`block-${number}${fork}`)),
+                timestamp: 1700000000 + number * 12,
+            },
+            events,
+        })
+    }
+
+    /* Drops the blocks from `blockNumber`, as a reorg to another fork would */
+    public reorg(blockNumber: number) {
+        this.blocks = this.blocks.slice(0, blockNumber - 1)
+    }
+
+    public async getBlockNumber() {
+        return this.blocks.length
+    }
+
+    public async getBlock(blockNumber: number) {
+        return this.blocks[blockNumber - 1]?.block
+    }
+
+    public async getLogs(fromBlock: number, toBlock: number): Promise<ChainLog[]> {
+        return this.blocks.slice(fromBlock - 1, toBlock).flatMap(({ block, events }) =>
+            events.map(({ name, gameId, types, values }, logIndex) => ({
+                address: contractAddress,
+                topics: encodeEventTopics({
+                    abi: rockPaperScissorsAbi,
+                    eventName: name,
+                    args: { gameId },
+                }) as string[],
+                data: encodeAbiParameters(parseAbiParameters(types), values),
+                blockNumber: block.number,
+                blockHash: block.hash,
+                logIndex,
+                transactionHash: keccak256(toHex(`${block.hash}-${logIndex}`)) as Hex,
+            })),
+        )
+    }
+}
+
+const gameCreated = (gameId: bigint, player1 = player1Address, gameStake = stake): LogEvent => ({
+    name: 'GameCreated',
+    gameId,
+    types: 'address, uint256, uint8',
+    values: [player1, gameStake, GameType.OneRound],
+})
+
+const gameJoined = (gameId: bigint, player2 = player2Address): LogEvent => ({
+    name: 'GameJoined',
+    gameId,
+    types: 'address',
+    values: [player2],
+})
+
+const roundPlayed = (gameId: bigint, player1Choice: Choice, player2Choice: Choice): LogEvent => ({
+    name: 'RoundPlayed',
+    gameId,
+    types: 'uint8, uint8, uint8',
+    values: [1, player1Choice, player2Choice],
+})
+
+const gameEnded = (gameId: bigint, winner: string): LogEvent => ({
+    name: 'GameEnded',
+    gameId,
+    types: 'address, uint256',
+    values: [winner, payout],
+})
+
+describe('Game history', () => {
+    let chain: FakeHistoryChain
+
+    beforeEach(() => {
+        chain = new FakeHistoryChain()
+        chain.mine([gameCreated(BigInt(1))])
+        chain.mine([gameJoined(BigInt(1))])
+        chain.mine([
+            roundPlayed(BigInt(1), Choice.Rock, Choice.Paper),
+            gameEnded(BigInt(1), player2Address),
+        ])
+        chain.mine([gameCreated(BigInt(2), player2Address)])
+        chain.mine([])
+
+        historyStore.open(':memory:')
+        historyIndexer.configure(chain, { startBlock: 1, batchSize: 2 })
+    })
+
+    afterEach(() => {
+        historyIndexer.stop()
+        historyStore.close()
+    })
+
+    afterAll(() => {
+        server.close()
+    })
+
+    const syncAll = async () => {
+        while (!(await historyIndexer.sync()));
+    }
+
+    describe('HistoryIndexer', () => {
+        test('indexes the chain in batches', async () => {
+            await expect(historyIndexer.sync()).resolves.toBe(false)
+            expect(historyIndexer.getStatus()).toMatchObject({ indexedBlock: 2, headBlock: 5 })
+
+            await syncAll()
+
+            expect(historyIndexer.getStatus()).toEqual({
+                enabled: true,
+                startBlock: 1,
+                indexedBlock: 5,
+                headBlock: 5,
+                synced: true,
+            })
+            expect(historyStore.listGames({ limit: 10, offset: 0 }).total).toBe(2)
+        })
+
+        test('rebuilds the games of blocks removed by a reorg', async () => {
+            await syncAll()
+
+            chain.reorg(3)
+            chain.mine([roundPlayed(BigInt(1), Choice.Rock, Choice.Rock)], 'fork')
+            await syncAll()
+
+            expect(historyStore.getGame(1)).toMatchObject({
+                status: 'active',
+                roundsPlayed: 1,
+                scores: [0, 0],
+                rounds: [{ roundNumber: 1, player1Choice: Choice.Rock, winner: undefined }],
+            })
+            expect(historyStore.getGame(2)).toBeUndefined()
+            expect(historyIndexer.getStatus()).toMatchObject({ indexedBlock: 3, headBlock: 3 })
+        })
+    })
+
+    describe('Routes', () => {
+        beforeEach(async () => {
+            await syncAll()
+        })
+
+        test('lists the games of a player, newest first', async () => {
+            const response = await request(app)
+                .get('/history/games')
+                .query({ player: player1Address, limit: 1 })
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body).toMatchObject({ total: 1, limit: 1, offset: 0 })
+            expect(response.body.games).toEqual([
+                expect.objectContaining({
+                    gameId: '1',
+                    player1: player1Address.toLowerCase(),
+                    player2: player2Address.toLowerCase(),
+                    status: 'ended',
+                    winner: player2Address.toLowerCase(),
+                    payout: payout.toString(),
+                }),
+            ])
+
+            const page = await request(app)
+                .get('/history/games')
+                .query({ player: player2Address, limit: 1, offset: 1 })
+
+            expect(page.body.total).toBe(2)
+            expect(page.body.games.map((game: { gameId: string }) => game.gameId)).toEqual(['1'])
+        })
+
+        test('filters games by status', async () => {
+            const response = await request(app).get('/history/games').query({ status: 'waiting' })
+
+            expect(response.body.total).toBe(1)
+            expect(response.body.games[0]).toMatchObject({ gameId: '2', status: 'waiting' })
+        })
+
+        test('filters games by result, opponent and stake', async () => {
+            chain.mine([gameCreated(BigInt(3), player1Address, BigInt('1000000000000000000'))])
+            await syncAll()
+
+            const gameIds = async (query: Record<string, string>) => {
+                const response = await request(app).get('/history/games').query(query)
+
+                return response.body.games.map((game: { gameId: string }) => game.gameId)
+            }
+
+            await expect(gameIds({ player: player2Address, result: 'won' })).resolves.toEqual(['1'])
+            await expect(gameIds({ player: player1Address, result: 'lost' })).resolves.toEqual([
+                '1',
+            ])
+            await expect(gameIds({ player: player1Address, result: 'tied' })).resolves.toEqual([])
+            await expect(
+                gameIds({ player: player2Address, opponent: player1Address.slice(0, 8) }),
+            ).resolves.toEqual(['1'])
+            await expect(gameIds({ minStake: '20000000000000000' })).resolves.toEqual(['3'])
+            await expect(gameIds({ maxStake: stake.toString() })).resolves.toEqual(['2', '1'])
+        })
+
+        test('sorts games by stake', async () => {
+            chain.mine([gameCreated(BigInt(3), player1Address, BigInt('1000000000000000000'))])
+            await syncAll()
+
+            const highest = await request(app).get('/history/games').query({ sort: 'stake-desc' })
+            const lowest = await request(app).get('/history/games').query({ sort: 'stake-asc' })
+
+            expect(highest.body.games.map((game: { gameId: string }) => game.gameId)).toEqual([
+                '3',
+                '2',
+                '1',
+            ])
+            expect(lowest.body.games.map((game: { gameId: string }) => game.gameId)).toEqual([
+                '2',
+                '1',
+                '3',
+            ])
+        })
+
+        test('returns a game with its rounds and timeline', async () => {
+            const response = await request(app).get('/history/games/1')
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body.rounds).toEqual([
+                expect.objectContaining({
+                    roundNumber: 1,
+                    player1Choice: Choice.Rock,
+                    player2Choice: Choice.Paper,
+                    winner: player2Address.toLowerCase(),
+                    blockNumber: 3,
+                }),
+            ])
+            expect(response.body.events.map((event: { name: string }) => event.name)).toEqual([
+                'GameCreated',
+                'GameJoined',
+                'RoundPlayed',
+                'GameEnded',
+            ])
+            expect(response.body.events[0]).toMatchObject({
+                args: {
+                    gameId: '1',
+                    player1: player1Address.toLowerCase(),
+                    stake: stake.toString(),
+                },
+                emittedAt: new Date((1700000000 + 12) * 1000).toISOString(),
+            })
+        })
+
+        test('rejects invalid queries', async () => {
+            const invalidStatus = await request(app).get('/history/games').query({ status: 'won' })
+            const resultWithoutPlayer = await request(app)
+                .get('/history/games')
+                .query({ result: 'won' })
+            const invalidId = await request(app).get('/history/games/one')
+            const unknownGame = await request(app).get('/history/games/99')
+
+            expect(invalidStatus.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(resultWithoutPlayer.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(invalidId.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(unknownGame.status).toBe(HTTP_STATUS_CODES.NOT_FOUND)
+        })
+
+        test('answers 404 while the indexer is disabled', async () => {
+            historyStore.close()
+
+            const response = await request(app).get('/history/games')
+            const status = await request(app).get('/history/status')
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.NOT_FOUND)
+            expect(status.body).toMatchObject({ enabled: false })
+        })
+    })
+})
@@ -0,0 +1,269 @@
+import 'reflect-metadata'
+
+import {
+    encodeAbiParameters,
+    encodeFunctionData,
+    getAddress,
+    keccak256,
+    numberToHex,
+    parseAbiParameters,
+} from 'viem'
+
+import { DetectionRequest } from '@/modules/detection-module/dtos'
+import { GameTracker, gameTracker } from '@/modules/detection-module/games'
+import {
+    Choice,
+    GameEvent,
+    GameType,
+    readStoredGame,
+    rockPaperScissorsAbi,
+} from '@/modules/detection-module/rps'
+import { DetectionService } from '@/modules/detection-module/service'
+
+const contractAddress = '0x7296c77Edd04092Fd6a8117c7f797E0680d97fa1'
+// Checksummed, as decoded by viem
+const player1Address = getAddress('0xd8da6bf26964af9d7eed9e03e53415d37aa96045')
+const player2Address = getAddress('0x690b9a9e9aa1c9db991c7721a92d351db4fac990')
+const stake = BigInt('10000000000000000') // 0.01 ETH
+const gameId = BigInt(1)
+
+// Slot of a field of `games[gameId]`, the mapping being at slot 4
+const gameSlot = (id: bigint, offset: number) =>
+    numberToHex(
+        BigInt(
+            keccak256(encodeAbiParameters(parseAbiParameters('uint256, uint256'), [id, BigInt(4)])),
+        ) + BigInt(offset),
+        { size: 32 },
+    )
+
+const makeMoveInput = (id: bigint, choice: Choice) =>
+    encodeFunctionData({ abi: rockPaperScissorsAbi, functionName: 'makeMove', args: [id, choice] })
+
+/* A one round game where `second` moves after `first`, with the given choices */
+const playedGame = (
+    id: bigint,
+    first: string,
+    second: string,
+    firstChoice: Choice,
+    secondChoice: Choice,
+): GameEvent[] => [
+    { name: 'GameCreated', gameId: id, player1: first, stake, gameType: GameType.OneRound },
+    { name: 'GameJoined', gameId: id, player2: second },
+    { name: 'PlayerMoved', gameId: id, player: first, choice: firstChoice },
+    { name: 'PlayerMoved', gameId: id, player: second, choice: secondChoice },
+    {
+        name: 'RoundPlayed',
+        gameId: id,
+        roundNumber: 1,
+        player1Choice: firstChoice,
+        player2Choice: secondChoice,
+    },
+]
+
+describe('Move peeking', () => {
+    describe('readStoredGame', () => {
+        test('reads the players and current choices of a game', () => {
+            const storage = {
+                [gameSlot(gameId, 1)]: numberToHex(BigInt(player1Address), { size: 32 }),
+                [gameSlot(gameId, 2)]: numberToHex(BigInt(player2Address), { size: 32 }),
+                [gameSlot(gameId, 6)]: numberToHex(Choice.Rock, { size: 32 }),
+            }
+
+            expect(readStoredGame(storage, gameId)).toEqual({
+                players: [player1Address.toLowerCase(), player2Address.toLowerCase()],
+                choices: [Choice.Rock, Choice.None],
+            })
+        })
+
+        test('leaves out slots missing from the storage', () => {
+            const storage = { [gameSlot(gameId, 6)]: numberToHex(Choice.Paper << 8, { size: 32 }) }
+
+            expect(readStoredGame(storage, gameId)).toEqual({
+                players: undefined,
+                choices: [Choice.None, Choice.Paper],
+            })
+            expect(readStoredGame(undefined, gameId)).toEqual({
+                players: undefined,
+                choices: undefined,
+            })
+        })
+    })
+
+    describe('GameTracker', () => {
+        test('counts rounds won as second mover', () => {
+            const tracker = new GameTracker()
+
+            tracker.apply([
+                ...playedGame(BigInt(1), player1Address, player2Address, Choice.Rock, Choice.Paper),
+                ...playedGame(BigInt(2), player2Address, player1Address, Choice.Rock, Choice.Paper),
+                ...playedGame(BigInt(3), player1Address, player2Address, Choice.Rock, Choice.Rock),
+            ])
+
+            expect(tracker.countSecondMoves(player2Address)).toEqual({ rounds: 2, wins: 1 })
+            expect(tracker.countSecondMoves(player1Address)).toEqual({ rounds: 1, wins: 1 })
+        })
+
+        test('ignores rounds of commit-reveal games', () => {
+            const tracker = new GameTracker()
+            const [created, joined, ...moves] = playedGame(
+                gameId,
+                player1Address,
+                player2Address,
+                Choice.Rock,
+                Choice.Paper,
+            )
+
+            tracker.apply([
+                created,
+                joined,
+                { name: 'MoveCommitted', gameId, player: player1Address, roundNumber: 1 },
+                ...moves,
+            ])
+
+            expect(tracker.countSecondMoves(player2Address)).toEqual({ rounds: 0, wins: 0 })
+        })
+    })
+
+    describe('move-peeking rule', () => {
+        const createRequest = (request: Partial<DetectionRequest> = {}) =>
+            ({
+                chainId: 17000,
+                hash: '0xabcd',
+                protocolAddress: contractAddress,
+                trace: {
+                    from: player2Address,
+                    to: contractAddress,
+                    input: makeMoveInput(gameId, Choice.Paper),
+                    gas: '100000',
+                    gasUsed: '62500',
+                    pre: {},
+                    post: {},
+                },
+                ...request,
+            } as DetectionRequest)
+
+        const pendingMove = {
+            hash: '0x1234',
+            from: player1Address,
+            to: contractAddress,
+            gasPrice: '1000000000',
+            input: makeMoveInput(gameId, Choice.Rock),
+        }
+
+        // Player 2 won the 4 rounds they played second
+        const winningHistory = [2, 3, 4, 5].flatMap(id =>
+            playedGame(BigInt(id), player1Address, player2Address, Choice.Rock, Choice.Paper),
+        )
+
+        const currentGame: GameEvent[] = [
+            { name: 'GameCreated', gameId, player1: player1Address, stake, gameType: 0 },
+            { name: 'GameJoined', gameId, player2: player2Address },
+        ]
+
+        afterEach(() => {
+            gameTracker.clear()
+        })
+
+        test('flags countering a pending move of the opponent', () => {
+            gameTracker.apply([...winningHistory, ...currentGame])
+
+            const response = DetectionService.detect(
+                createRequest({
+                    additionalData: { mempoolContext: { pendingTransactions: [pendingMove] } },
+                }),
+            )
+
+            expect(response.findings).toEqual([
+                {
+                    ruleId: 'move-peeking',
+                    severity: 'high',
+                    confidence: 0.95,
+                    message:
+                        `Move peeking detected: game 1: ${player2Address.toLowerCase()} played Paper ` +
+                        'against Rock read from transaction 0x1234, winning 5 of 5 rounds played second',
+                    evidence: {
+                        transactions: ['0xabcd', '0x1234'],
+                        addresses: [player2Address.toLowerCase()],
+                    },
+                },
+            ])
+        })
+
+        test('flags countering a move read from the game storage', () => {
+            gameTracker.apply(winningHistory)
+
+            const response = DetectionService.detect(
+                createRequest({
+                    trace: {
+                        ...createRequest().trace,
+                        pre: {
+                            [contractAddress]: {
+                                balance: '0x0',
+                                storage: {
+                                    [gameSlot(gameId, 1)]: numberToHex(BigInt(player1Address), {
+                                        size: 32,
+                                    }),
+                                    [gameSlot(gameId, 2)]: numberToHex(BigInt(player2Address), {
+                                        size: 32,
+                                    }),
+                                    [gameSlot(gameId, 6)]: numberToHex(Choice.Rock, { size: 32 }),
+                                },
+                            },
+                        },
+                    },
+                }),
+            )
+
+            expect(response.detected).toBe(true)
+            expect(response.message).toContain('read from contract storage')
+        })
+
+        test('flags countering a move already tracked by the detector', () => {
+            gameTracker.apply([
+                ...winningHistory,
+                ...currentGame,
+                { name: 'PlayerMoved', gameId, player: player1Address, choice: Choice.Rock },
+            ])
+
+            expect(DetectionService.detect(createRequest()).message).toContain(
+                'read from a mined move',
+            )
+        })
+
+        test('lets players without a suspicious win rate counter moves', () => {
+            // 3 wins out of 5 rounds played second, including this one
+            gameTracker.apply([
+                ...playedGame(BigInt(2), player1Address, player2Address, Choice.Rock, Choice.Rock),
+                ...playedGame(BigInt(3), player1Address, player2Address, Choice.Rock, Choice.Rock),
+                ...winningHistory.slice(10),
+                ...currentGame,
+            ])
+
+            const response = DetectionService.detect(
+                createRequest({
+                    additionalData: { mempoolContext: { pendingTransactions: [pendingMove] } },
+                }),
+            )
+
+            expect(response.detected).toBe(false)
+        })
+
+        test('ignores moves that do not counter the visible move', () => {
+            gameTracker.apply([...winningHistory, ...currentGame])
+
+            const response = DetectionService.detect(
+                createRequest({
+                    additionalData: {
+                        mempoolContext: {
+                            pendingTransactions: [
+                                { ...pendingMove, input: makeMoveInput(gameId, Choice.Paper) },
+                            ],
+                        },
+                    },
+                }),
+            )
+
+            expect(response.detected).toBe(false)
+        })
+    })
+})
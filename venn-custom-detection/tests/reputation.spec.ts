@@ -0,0 +1,188 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import request from 'supertest'
+
+import { app, server } from '@/app'
+import { detectorConfig } from '@/modules/detection-module/config'
+import { DetectionContext, isKnownMevAddress } from '@/modules/detection-module/rules'
+import { ReputationLabel, ReputationStore, reputationStore } from '@/modules/reputation-module'
+import { HTTP_STATUS_CODES } from '@/types'
+
+const apiKey = 'test-admin-key'
+const botAddress = '0x1111111111111111111111111111111111111111'
+const otherBotAddress = '0x2222222222222222222222222222222222222222'
+const playerAddress = '0xD8dA6BF26964aF9D7eEd9e03E53415D37aA96045'
+
+describe('Reputation', () => {
+    describe('ReputationStore', () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reputation-'))
+        const filePath = path.join(tmpDir, 'reputation.json')
+
+        afterAll(() => {
+            fs.rmSync(tmpDir, { recursive: true, force: true })
+        })
+
+        test('labels addresses case-insensitively', () => {
+            const store = new ReputationStore()
+
+            store.add([
+                { address: playerAddress, label: ReputationLabel.TrustedPlayer, source: 'manual' },
+            ])
+
+            expect(store.hasLabel(playerAddress.toLowerCase(), ReputationLabel.TrustedPlayer)).toBe(
+                true,
+            )
+            expect(store.hasLabel(playerAddress, ReputationLabel.MevBot)).toBe(false)
+            expect(store.get(playerAddress)).toEqual([
+                {
+                    address: playerAddress.toLowerCase(),
+                    label: ReputationLabel.TrustedPlayer,
+                    source: 'manual',
+                    timestamp: expect.any(String),
+                },
+            ])
+        })
+
+        test('removes a single label or every label of an address', () => {
+            const store = new ReputationStore()
+
+            store.add([
+                { address: botAddress, label: ReputationLabel.MevBot, source: 'manual' },
+                { address: botAddress, label: ReputationLabel.Sandwicher, source: 'manual' },
+            ])
+
+            expect(store.remove(botAddress, ReputationLabel.MevBot)).toHaveLength(1)
+            expect(store.list().map(entry => entry.label)).toEqual([ReputationLabel.Sandwicher])
+            expect(store.remove(botAddress)).toHaveLength(1)
+            expect(store.list()).toEqual([])
+        })
+
+        test('persists entries to its file and reloads them', () => {
+            const store = new ReputationStore()
+
+            store.load(filePath)
+            store.add([{ address: botAddress, label: ReputationLabel.MevBot, source: 'feed' }])
+
+            const reloaded = new ReputationStore()
+            reloaded.load(filePath)
+
+            expect(reloaded.list()).toEqual(store.list())
+        })
+
+        test('keeps its entries when the file is invalid', () => {
+            const store = new ReputationStore()
+
+            store.load(filePath)
+            fs.writeFileSync(filePath, JSON.stringify([{ address: 'nope', label: 'mev-bot' }]))
+
+            expect(() => store.reload()).toThrow("'entries.0.address' not passed the validation")
+            expect(store.hasLabel(botAddress, ReputationLabel.MevBot)).toBe(true)
+        })
+    })
+
+    describe('Reputation Controller', () => {
+        beforeAll(() => {
+            process.env.ADMIN_API_KEY = apiKey
+        })
+
+        afterEach(() => {
+            reputationStore.replace([])
+        })
+
+        afterAll(() => {
+            delete process.env.ADMIN_API_KEY
+            server.close()
+        })
+
+        test('rejects requests without a valid API key', async () => {
+            const response = await request(app).get('/reputation').set('x-api-key', 'wrong')
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.UNAUTHORIZED)
+        })
+
+        test('adds, lists and removes entries', async () => {
+            const added = await request(app)
+                .post('/reputation')
+                .set('x-api-key', apiKey)
+                .send({ address: botAddress, label: ReputationLabel.MevBot })
+
+            expect(added.status).toBe(HTTP_STATUS_CODES.CREATED)
+            expect(added.body).toMatchObject({
+                address: botAddress,
+                label: ReputationLabel.MevBot,
+                source: 'manual',
+            })
+
+            const listed = await request(app)
+                .get('/reputation')
+                .query({ label: ReputationLabel.MevBot })
+                .set('x-api-key', apiKey)
+
+            expect(listed.body).toHaveLength(1)
+
+            const removed = await request(app)
+                .delete(`/reputation/${botAddress}`)
+                .set('x-api-key', apiKey)
+
+            expect(removed.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(reputationStore.list()).toEqual([])
+        })
+
+        test('bulk imports entries', async () => {
+            reputationStore.add([
+                { address: playerAddress, label: ReputationLabel.TrustedPlayer, source: 'manual' },
+            ])
+
+            const response = await request(app)
+                .post('/reputation/import')
+                .set('x-api-key', apiKey)
+                .send({
+                    replace: true,
+                    entries: [
+                        { address: botAddress, label: ReputationLabel.MevBot, source: 'feed' },
+                        { address: otherBotAddress, label: ReputationLabel.Sandwicher },
+                    ],
+                })
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(reputationStore.list().map(entry => [entry.address, entry.source])).toEqual([
+                [botAddress, 'feed'],
+                [otherBotAddress, 'import'],
+            ])
+        })
+
+        test('validates entries', async () => {
+            const response = await request(app)
+                .post('/reputation')
+                .set('x-api-key', apiKey)
+                .send({ address: botAddress, label: 'friend' })
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(response.body.message).toContain('label')
+        })
+
+        test('feeds labelled addresses to the detection rules', () => {
+            const context = {
+                config: detectorConfig.resolve(17000),
+                reputation: reputationStore,
+            } as DetectionContext
+
+            expect(isKnownMevAddress(context, botAddress)).toBe(false)
+
+            reputationStore.add([
+                { address: botAddress, label: ReputationLabel.Sandwicher, source: 'manual' },
+            ])
+
+            expect(isKnownMevAddress(context, botAddress)).toBe(true)
+        })
+
+        test('returns 404 for unknown addresses', async () => {
+            const response = await request(app)
+                .get(`/reputation/${botAddress}`)
+                .set('x-api-key', apiKey)
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.NOT_FOUND)
+        })
+    })
+})
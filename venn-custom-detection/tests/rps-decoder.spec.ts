@@ -0,0 +1,238 @@
+import { encodeFunctionData, Hex, toFunctionSelector } from 'viem'
+
+import { DetectionRequestTrace } from '@/modules/detection-module/dtos'
+import {
+    Choice,
+    decodeGameCall,
+    decodeTraceActions,
+    GameType,
+    rockPaperScissorsAbi,
+} from '@/modules/detection-module/rps'
+
+const contractAddress = '0x7296c77Edd04092Fd6a8117c7f797E0680d97fa1'
+const otherContractAddress = '0x8A7F7c5b0083eB7f8C3ba11dF9E37a5ac501B972'
+const player1Address = '0xD8dA6BF26964aF9D7eEd9e03E53415D37aA96045'
+const player2Address = '0x690B9A9E9aa1C9dB991C7721a92d351Db4FaC990'
+
+const makeMoveInput = encodeFunctionData({
+    abi: rockPaperScissorsAbi,
+    functionName: 'makeMove',
+    args: [BigInt(7), Choice.Scissors],
+})
+
+const joinGameInput = encodeFunctionData({
+    abi: rockPaperScissorsAbi,
+    functionName: 'joinGame',
+    args: [BigInt(7)],
+})
+
+const endGameInput =
+    toFunctionSelector('_endGame(uint256)') +
+    '0000000000000000000000000000000000000000000000000000000000000007'
+
+describe('RockPaperScissors decoder', () => {
+    describe('decodeGameCall', () => {
+        test('decodes createGame', () => {
+            const input = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'createGame',
+                args: [GameType.BestOfThree],
+            })
+
+            expect(decodeGameCall(input)).toEqual({
+                name: 'createGame',
+                gameType: GameType.BestOfThree,
+                commitReveal: false,
+            })
+        })
+
+        test('decodes commit-reveal and private games as createGame', () => {
+            const commitRevealInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'createCommitRevealGame',
+                args: [GameType.OneRound],
+            })
+            const privateInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'createPrivateGame',
+                args: [GameType.BestOfFive, false, player2Address],
+            })
+
+            expect(decodeGameCall(commitRevealInput)).toEqual({
+                name: 'createGame',
+                gameType: GameType.OneRound,
+                commitReveal: true,
+            })
+            expect(decodeGameCall(privateInput)).toEqual({
+                name: 'createGame',
+                gameType: GameType.BestOfFive,
+                commitReveal: false,
+                invitee: player2Address,
+            })
+        })
+
+        test('decodes joinGame', () => {
+            expect(decodeGameCall(joinGameInput)).toEqual({ name: 'joinGame', gameId: BigInt(7) })
+        })
+
+        test('decodes joinGameWithInvite as joinGame', () => {
+            const input = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'joinGameWithInvite',
+                args: [BigInt(7), `0x${'ab'.repeat(65)}`],
+            })
+
+            expect(decodeGameCall(input)).toEqual({
+                name: 'joinGame',
+                gameId: BigInt(7),
+                signature: `0x${'ab'.repeat(65)}`,
+            })
+        })
+
+        test('decodes makeMove', () => {
+            expect(decodeGameCall(makeMoveInput)).toEqual({
+                name: 'makeMove',
+                gameId: BigInt(7),
+                choice: Choice.Scissors,
+            })
+        })
+
+        test('decodes commit-reveal moves, cancellations and forfeits', () => {
+            const commitment: Hex = `0x${'cd'.repeat(32)}`
+            const salt: Hex = `0x${'ef'.repeat(32)}`
+
+            const commitInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'commitMove',
+                args: [BigInt(7), commitment],
+            })
+            const revealInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'revealMove',
+                args: [BigInt(7), Choice.Paper, salt],
+            })
+            const cancelInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'cancelGame',
+                args: [BigInt(7)],
+            })
+            const forfeitInput = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'claimForfeit',
+                args: [BigInt(7)],
+            })
+
+            expect(decodeGameCall(commitInput)).toEqual({
+                name: 'commitMove',
+                gameId: BigInt(7),
+                commitment,
+            })
+            expect(decodeGameCall(revealInput)).toEqual({
+                name: 'revealMove',
+                gameId: BigInt(7),
+                choice: Choice.Paper,
+                salt,
+            })
+            expect(decodeGameCall(cancelInput)).toEqual({ name: 'cancelGame', gameId: BigInt(7) })
+            expect(decodeGameCall(forfeitInput)).toEqual({
+                name: 'claimForfeit',
+                gameId: BigInt(7),
+            })
+        })
+
+        test('flags selectors outside of the public ABI as unknown', () => {
+            expect(decodeGameCall(endGameInput)).toEqual({
+                name: 'unknown',
+                selector: toFunctionSelector('_endGame(uint256)'),
+            })
+        })
+
+        test('ignores read-only functions and empty calldata', () => {
+            const input = encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'getGameById',
+                args: [BigInt(7)],
+            })
+
+            expect(decodeGameCall(input)).toBeUndefined()
+            expect(decodeGameCall('0x')).toBeUndefined()
+        })
+    })
+
+    describe('decodeTraceActions', () => {
+        const trace: DetectionRequestTrace = {
+            from: player2Address,
+            to: contractAddress,
+            input: joinGameInput,
+            value: '0x2386f26fc10000', // 0.01 ETH
+            gas: '100000',
+            gasUsed: '62500',
+            pre: {},
+            post: {},
+            calls: [
+                {
+                    from: contractAddress,
+                    to: otherContractAddress,
+                    input: makeMoveInput,
+                    gasUsed: '100',
+                    calls: [
+                        {
+                            from: otherContractAddress,
+                            to: contractAddress,
+                            input: endGameInput,
+                            gasUsed: '100',
+                        },
+                    ],
+                },
+                {
+                    from: player1Address,
+                    to: contractAddress,
+                    input: makeMoveInput,
+                    value: '0',
+                    gasUsed: '100',
+                },
+            ],
+        }
+
+        test('decodes the transaction and nested calls into the game contract', () => {
+            const actions = decodeTraceActions(trace, contractAddress)
+
+            expect(actions).toEqual([
+                {
+                    name: 'joinGame',
+                    gameId: BigInt(7),
+                    from: player2Address,
+                    to: contractAddress,
+                    stake: BigInt('10000000000000000'),
+                    depth: 0,
+                },
+                {
+                    name: 'unknown',
+                    selector: toFunctionSelector('_endGame(uint256)'),
+                    from: otherContractAddress,
+                    to: contractAddress,
+                    stake: BigInt(0),
+                    depth: 2,
+                },
+                {
+                    name: 'makeMove',
+                    gameId: BigInt(7),
+                    choice: Choice.Scissors,
+                    from: player1Address,
+                    to: contractAddress,
+                    stake: BigInt(0),
+                    depth: 1,
+                },
+            ])
+        })
+
+        test('decodes every frame when no protocol address is given', () => {
+            expect(decodeTraceActions(trace).map(action => action.name)).toEqual([
+                'joinGame',
+                'makeMove',
+                'unknown',
+                'makeMove',
+            ])
+        })
+    })
+})
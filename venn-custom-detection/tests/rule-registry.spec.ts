@@ -0,0 +1,157 @@
+import 'reflect-metadata'
+
+import { encodeFunctionData } from 'viem'
+
+import { metrics } from '@/helpers/metrics.helpers'
+import { DetectionRequest } from '@/modules/detection-module/dtos'
+import { Choice, rockPaperScissorsAbi } from '@/modules/detection-module/rps'
+import {
+    defaultRules,
+    DetectionRule,
+    RuleRegistry,
+    ruleRegistry,
+    RuleSeverity,
+} from '@/modules/detection-module/rules'
+import { DetectionService } from '@/modules/detection-module/service'
+
+const contractAddress = '0x7296c77Edd04092Fd6a8117c7f797E0680d97fa1'
+const playerAddress = '0xD8dA6BF26964aF9D7eEd9e03E53415D37aA96045'
+
+const createRule = (id: string, matches = true): DetectionRule => ({
+    id,
+    severity: RuleSeverity.Low,
+    description: `${id} description`,
+    message: `${id} matched`,
+    evaluate: () => (matches ? {} : undefined),
+})
+
+describe('Detection rules', () => {
+    describe('RuleRegistry', () => {
+        test('keeps registration order by default', () => {
+            const registry = new RuleRegistry([createRule('a'), createRule('b'), createRule('c')])
+
+            expect(registry.getActiveRules().map(rule => rule.id)).toEqual(['a', 'b', 'c'])
+        })
+
+        test('applies configured order and disabled rules', () => {
+            const registry = new RuleRegistry([createRule('a'), createRule('b'), createRule('c')])
+
+            registry.configure({ order: ['c', 'b'], disabled: ['b'] })
+
+            expect(registry.getActiveRules().map(rule => rule.id)).toEqual(['c', 'a'])
+            expect(registry.isEnabled('b')).toBe(false)
+        })
+
+        test('enables and disables single rules', () => {
+            const registry = new RuleRegistry([createRule('a'), createRule('b')])
+
+            registry.disable('a')
+            expect(registry.getActiveRules().map(rule => rule.id)).toEqual(['b'])
+
+            registry.enable('a')
+            expect(registry.getActiveRules().map(rule => rule.id)).toEqual(['a', 'b'])
+        })
+
+        test('rejects duplicate and unknown rule ids', () => {
+            const registry = new RuleRegistry([createRule('a')])
+
+            expect(() => registry.register(createRule('a'))).toThrow('already registered')
+            expect(() => registry.configure({ disabled: ['missing'] })).toThrow(
+                "Unknown detection rule 'missing'",
+            )
+        })
+
+        test('ships every built-in rule with a unique id', () => {
+            const ids = defaultRules.map(rule => rule.id)
+
+            expect(new Set(ids).size).toBe(ids.length)
+            expect(ruleRegistry.list()).toEqual(defaultRules)
+        })
+    })
+
+    describe('DetectionService', () => {
+        const request = {
+            chainId: 17000,
+            hash: '0x1234',
+            protocolAddress: contractAddress,
+            trace: {
+                from: playerAddress,
+                to: contractAddress,
+                input: encodeFunctionData({
+                    abi: rockPaperScissorsAbi,
+                    functionName: 'makeMove',
+                    args: [BigInt(1), Choice.Rock],
+                }),
+                gas: '100000',
+                gasUsed: '62500',
+                pre: {},
+                post: {},
+            },
+        } as DetectionRequest
+
+        afterEach(() => {
+            ruleRegistry.unregister('protocol-specific')
+            ruleRegistry.unregister('protocol-specific-2')
+            ruleRegistry.configure({})
+        })
+
+        test('evaluates rules registered without touching the service', () => {
+            ruleRegistry.register(createRule('protocol-specific'))
+
+            const response = DetectionService.detect(request)
+
+            expect(response.detected).toBe(true)
+            expect(response.message).toBe('protocol-specific matched')
+        })
+
+        test('reports every matching rule as a finding', () => {
+            ruleRegistry.register({
+                ...createRule('protocol-specific'),
+                severity: RuleSeverity.Critical,
+                evaluate: () => ({ confidence: 0.5, evidence: { addresses: [playerAddress] } }),
+            })
+            ruleRegistry.register(createRule('protocol-specific-2'))
+
+            const response = DetectionService.detect(request)
+
+            expect(response.message).toBe('protocol-specific matched; protocol-specific-2 matched')
+            expect(response.findings).toEqual([
+                {
+                    ruleId: 'protocol-specific',
+                    severity: RuleSeverity.Critical,
+                    confidence: 0.5,
+                    message: 'protocol-specific matched',
+                    evidence: { addresses: [playerAddress] },
+                },
+                {
+                    ruleId: 'protocol-specific-2',
+                    severity: RuleSeverity.Low,
+                    confidence: 1,
+                    message: 'protocol-specific-2 matched',
+                    evidence: {},
+                },
+            ])
+        })
+
+        test('counts findings per rule', async () => {
+            const countFindings = async () =>
+                (await metrics.ruleFindings.get()).values.find(
+                    ({ labels }) => labels.rule === 'protocol-specific',
+                )?.value ?? 0
+
+            const before = await countFindings()
+
+            ruleRegistry.register(createRule('protocol-specific'))
+            DetectionService.detect(request)
+
+            expect(await countFindings()).toBe(before + 1)
+        })
+
+        test('skips disabled rules', () => {
+            ruleRegistry.register(createRule('protocol-specific'))
+            ruleRegistry.disable('protocol-specific')
+
+            expect(DetectionService.detect(request).detected).toBe(false)
+        })
+    })
+})
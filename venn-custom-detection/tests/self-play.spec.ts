@@ -0,0 +1,294 @@
+import 'reflect-metadata'
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+    encodeAbiParameters,
+    encodeEventTopics,
+    encodeFunctionData,
+    parseAbiParameters,
+} from 'viem'
+
+import { DetectionRequest, DetectionRequestTrace } from '@/modules/detection-module/dtos'
+import {
+    extractValueTransfers,
+    FundingGraph,
+    fundingGraph,
+} from '@/modules/detection-module/funding'
+import { gameTracker } from '@/modules/detection-module/games'
+import { GameEvent, GameType, rockPaperScissorsAbi } from '@/modules/detection-module/rps'
+import { DetectionService } from '@/modules/detection-module/service'
+
+const contractAddress = '0x7296c77edd04092fd6a8117c7f797e0680d97fa1'
+const walletAddress = '0x8a7f7c5b0083eb7f8c3ba11df9e37a5ac501b972'
+const creatorAddress = '0x1111111111111111111111111111111111111111'
+const altAddress = '0x2222222222222222222222222222222222222222'
+const otherAltAddress = '0x3333333333333333333333333333333333333333'
+const exchangeAddress = '0x4444444444444444444444444444444444444444'
+const stake = BigInt('10000000000000000') // 0.01 ETH
+
+const options = { maxDepth: 2, hubSize: 3 }
+
+const createTrace = (trace: Partial<DetectionRequestTrace>): DetectionRequestTrace => ({
+    from: creatorAddress,
+    to: altAddress,
+    input: '0x',
+    gas: '21000',
+    gasUsed: '21000',
+    pre: {},
+    post: {},
+    ...trace,
+})
+
+describe('Self-play detection', () => {
+    describe('extractValueTransfers', () => {
+        test('extracts transfers to accounts, including nested calls', () => {
+            const trace = createTrace({
+                from: creatorAddress,
+                to: walletAddress,
+                value: stake.toString(),
+                pre: { [walletAddress]: { balance: '0x0', code: '0x6080' } },
+                calls: [
+                    {
+                        from: walletAddress,
+                        to: altAddress,
+                        value: '0x10',
+                        input: '0x',
+                        gasUsed: '0',
+                    },
+                    {
+                        from: contractAddress,
+                        to: altAddress,
+                        value: '0x10',
+                        input: '0x',
+                        gasUsed: '0',
+                    },
+                ],
+            })
+
+            expect(extractValueTransfers(trace, contractAddress)).toEqual([
+                { from: walletAddress, to: altAddress, value: BigInt(16) },
+            ])
+        })
+
+        test('ignores transfers that did not increase the recipient balance', () => {
+            const trace = createTrace({
+                value: '1',
+                pre: { [altAddress]: { balance: '0x5' } },
+                post: { [altAddress]: { balance: '0x5' } },
+            })
+
+            expect(extractValueTransfers(trace, contractAddress)).toEqual([])
+        })
+    })
+
+    describe('FundingGraph', () => {
+        const transfer = (from: string, to: string) => ({ from, to, value: BigInt(1) })
+
+        test('links directly and indirectly funded addresses', () => {
+            const graph = new FundingGraph()
+
+            graph.record([
+                transfer(creatorAddress, walletAddress),
+                transfer(walletAddress, altAddress),
+            ])
+
+            expect(graph.findLink(altAddress, walletAddress, options)).toEqual({
+                type: 'funded',
+                funder: walletAddress,
+                recipient: altAddress,
+                hops: 1,
+            })
+            expect(graph.findLink(creatorAddress, altAddress, options)).toEqual({
+                type: 'funded',
+                funder: creatorAddress,
+                recipient: altAddress,
+                hops: 2,
+            })
+            expect(graph.findLink(creatorAddress, altAddress, { ...options, maxDepth: 1 })).toBe(
+                undefined,
+            )
+        })
+
+        test('links addresses with a common funder, unless it funds too many addresses', () => {
+            const graph = new FundingGraph()
+
+            graph.record([
+                transfer(exchangeAddress, altAddress),
+                transfer(exchangeAddress, otherAltAddress),
+            ])
+
+            expect(graph.findLink(altAddress, otherAltAddress, options)).toEqual({
+                type: 'common-funder',
+                funder: exchangeAddress,
+            })
+
+            graph.record([
+                transfer(exchangeAddress, creatorAddress),
+                transfer(exchangeAddress, walletAddress),
+            ])
+
+            expect(graph.findLink(altAddress, otherAltAddress, options)).toBeUndefined()
+        })
+
+        test('writes a burst of transfers to its file once', () => {
+            jest.useFakeTimers()
+
+            const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'funding-'))
+            const filePath = path.join(tmpDir, 'funding.json')
+            const writeFileSync = jest.spyOn(fs, 'writeFileSync')
+
+            try {
+                const graph = new FundingGraph()
+                graph.load(filePath)
+
+                graph.record([transfer(creatorAddress, walletAddress)])
+                graph.record([transfer(walletAddress, altAddress)])
+
+                expect(fs.existsSync(filePath)).toBe(false)
+
+                jest.runOnlyPendingTimers()
+
+                expect(writeFileSync).toHaveBeenCalledTimes(1)
+
+                const reloaded = new FundingGraph()
+                reloaded.load(filePath)
+
+                expect(reloaded.findLink(creatorAddress, altAddress, options)).toMatchObject({
+                    type: 'funded',
+                    hops: 2,
+                })
+            } finally {
+                writeFileSync.mockRestore()
+                jest.useRealTimers()
+                fs.rmSync(tmpDir, { recursive: true, force: true })
+            }
+        })
+    })
+
+    describe('self-play rule', () => {
+        const gameId = BigInt(7)
+
+        const createRequest = (trace: Partial<DetectionRequestTrace>) =>
+            ({
+                chainId: 17000,
+                hash: '0x' + Math.random().toString(16).substring(2, 14),
+                protocolAddress: contractAddress,
+                trace: createTrace({ to: contractAddress, ...trace }),
+            } as DetectionRequest)
+
+        const joinRequest = createRequest({
+            from: altAddress,
+            value: stake.toString(),
+            input: encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'joinGame',
+                args: [gameId],
+            }),
+        })
+
+        beforeEach(() => {
+            DetectionService.detect(
+                createRequest({
+                    from: creatorAddress,
+                    value: stake.toString(),
+                    input: encodeFunctionData({
+                        abi: rockPaperScissorsAbi,
+                        functionName: 'createGame',
+                        args: [GameType.OneRound],
+                    }),
+                    logs: [
+                        {
+                            address: contractAddress,
+                            topics: encodeEventTopics({
+                                abi: rockPaperScissorsAbi,
+                                eventName: 'GameCreated',
+                                args: { gameId },
+                            }) as string[],
+                            data: encodeAbiParameters(
+                                parseAbiParameters('address, uint256, uint8'),
+                                [creatorAddress, stake, GameType.OneRound],
+                            ),
+                        },
+                    ],
+                }),
+            )
+        })
+
+        afterEach(() => {
+            gameTracker.clear()
+            fundingGraph.clear()
+        })
+
+        test('flags games joined by a wallet funded by the creator', () => {
+            // The creator funds the alt wallet in a transaction unrelated to the game
+            DetectionService.detect(createRequest({ to: altAddress, value: '1000' }))
+
+            const response = DetectionService.detect(joinRequest)
+
+            expect(response.findings).toEqual([
+                {
+                    ruleId: 'self-play',
+                    severity: 'high',
+                    confidence: 0.9,
+                    message: `Self-play detected: game 7: ${altAddress} was funded by ${creatorAddress}`,
+                    evidence: {
+                        transactions: [joinRequest.hash],
+                        addresses: [creatorAddress, altAddress],
+                    },
+                },
+            ])
+        })
+
+        test('flags pairs where the same side wins every game', () => {
+            const previousGames = [1, 2, 3].flatMap((id): GameEvent[] => [
+                {
+                    name: 'GameCreated',
+                    gameId: BigInt(id),
+                    player1: creatorAddress,
+                    stake,
+                    gameType: GameType.OneRound,
+                },
+                { name: 'GameJoined', gameId: BigInt(id), player2: altAddress },
+                { name: 'GameEnded', gameId: BigInt(id), winner: creatorAddress, payout: stake },
+            ])
+
+            gameTracker.apply(previousGames)
+
+            const response = DetectionService.detect(joinRequest)
+
+            expect(response.message).toContain(
+                `${creatorAddress} won all 3 games against ${altAddress}`,
+            )
+        })
+
+        test('does not record transfers of blocked transactions', () => {
+            DetectionService.detect(createRequest({ to: altAddress, value: '1000' }))
+
+            // The blocked join also sends ETH, which must not link its recipient to anyone
+            const response = DetectionService.detect({
+                ...joinRequest,
+                trace: {
+                    ...joinRequest.trace,
+                    calls: [
+                        {
+                            from: altAddress,
+                            to: otherAltAddress,
+                            value: '1000',
+                            input: '0x',
+                            gasUsed: '0',
+                        },
+                    ],
+                },
+            } as DetectionRequest)
+
+            expect(response.detected).toBe(true)
+            expect(fundingGraph.findLink(otherAltAddress, creatorAddress, options)).toBeUndefined()
+        })
+
+        test('lets unrelated players join', () => {
+            expect(DetectionService.detect(joinRequest).detected).toBe(false)
+        })
+    })
+})
@@ -0,0 +1,219 @@
+import 'reflect-metadata'
+
+import fs from 'fs'
+import path from 'path'
+import { getAddress, numberToHex } from 'viem'
+
+import { DetectionRequest } from '@/modules/detection-module/dtos'
+import { gameTracker } from '@/modules/detection-module/games'
+import { Choice, decodeTraceActions, GameEvent, GameType } from '@/modules/detection-module/rps'
+import { DetectionService } from '@/modules/detection-module/service'
+import { rebuildCalls, StructLog } from '@/modules/detection-module/trace'
+
+const contractAddress = getAddress('0x9fe46736679d2d9a65f0992f2272de9f3c7fa6e0')
+const libraryAddress = getAddress('0x5fbdb2315678afecb367f032d93f642f64180aa3')
+const createdAddress = getAddress('0xcafac3dd18ac6c6e92c921884f9e4176737c052c')
+// Accounts #2 and #3 of the Hardhat node the fixtures were recorded on
+const player1Address = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc')
+const player2Address = getAddress('0x90f79bf6eb2c4f870365e785982e1f101e93b906')
+const stake = BigInt('10000000000000000') // 0.01 ETH
+
+/* Requests dumped with `yarn trace:dump` from a one round game, player 2 playing Paper against Rock */
+const loadTrace = (name: string): DetectionRequest =>
+    JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures/traces', `${name}.json`), 'utf8'))
+
+const oneRoundGame = ['create-game', 'join-game', 'player1-move', 'player2-move'].map(name =>
+    loadTrace(`one-round-${name}`),
+)
+
+const word = (value: bigint | number | string) => numberToHex(BigInt(value), { size: 32 }).slice(2)
+
+const step = (
+    op: string,
+    depth: number,
+    gas: number,
+    stack: (bigint | number | string)[] = [],
+    memory: string[] = [],
+): StructLog => ({ op, depth, gas, gasCost: 3, pc: 0, stack: stack.map(word), memory })
+
+describe('Traces', () => {
+    describe('rebuildCalls', () => {
+        const transaction = { from: player1Address, to: contractAddress }
+        const input = `0x${'ab'.repeat(4)}${'00'.repeat(28)}`
+
+        test('rebuilds nested calls with their input, output and value', () => {
+            const steps = [
+                // Stack: retSize, retOffset, argsSize, argsOffset, value, address, gas
+                step('CALL', 1, 100000, [32, 0, 4, 0, 5, libraryAddress, 50000], [input.slice(2)]),
+                step('SLOAD', 2, 50000, [7]),
+                // Stack: size, offset
+                step('RETURN', 2, 40000, [32, 0], [word(42)]),
+                step('STOP', 1, 59000),
+            ]
+
+            expect(rebuildCalls(steps, transaction)).toEqual({
+                calls: [
+                    {
+                        from: contractAddress,
+                        to: libraryAddress,
+                        input: '0xabababab',
+                        output: `0x${word(42)}`,
+                        value: '5',
+                        gasUsed: '10003',
+                    },
+                ],
+                touched: new Map([
+                    [player1Address, new Set()],
+                    [contractAddress, new Set()],
+                    [libraryAddress, new Set([`0x${word(7)}`])],
+                ]),
+            })
+        })
+
+        test('keeps the storage of the caller in delegatecalls', () => {
+            const steps = [
+                // Stack: retSize, retOffset, argsSize, argsOffset, address, gas
+                step('DELEGATECALL', 1, 100000, [0, 0, 0, 0, libraryAddress, 50000]),
+                step('SSTORE', 2, 50000, [1, 9]),
+                step('STOP', 2, 30000),
+                step('STOP', 1, 70000),
+            ]
+
+            const { calls, touched } = rebuildCalls(steps, transaction)
+
+            expect(calls).toEqual([
+                { from: contractAddress, to: libraryAddress, input: '0x', gasUsed: '20003' },
+            ])
+            expect(touched.get(contractAddress)).toEqual(new Set([`0x${word(9)}`]))
+            expect(touched.get(libraryAddress)).toEqual(new Set())
+        })
+
+        test('keeps calls that run no code, and resolves created contracts', () => {
+            const steps = [
+                // Stack: size, offset, value
+                step('CREATE', 1, 100000, [1, 0, 0]),
+                step('SSTORE', 2, 60000, [3, 0]),
+                step('RETURN', 2, 50000, [0, 0]),
+                // The created address is pushed once the creation returns
+                step('POP', 1, 95000, [createdAddress]),
+                step('CALL', 1, 90000, [0, 0, 0, 0, 1, player2Address, 0]),
+                step('STOP', 1, 80000),
+            ]
+
+            const { calls, touched } = rebuildCalls(steps, transaction)
+
+            expect(calls).toEqual([
+                {
+                    from: contractAddress,
+                    to: createdAddress,
+                    input: '0x00',
+                    output: '0x',
+                    value: '0',
+                    gasUsed: '10003',
+                },
+                {
+                    from: contractAddress,
+                    to: player2Address,
+                    input: '0x',
+                    value: '1',
+                    gasUsed: '0',
+                },
+            ])
+            expect(touched.get(createdAddress)).toEqual(new Set([`0x${word(0)}`]))
+            expect(touched.has(player2Address)).toBe(true)
+        })
+    })
+
+    describe('real traces', () => {
+        afterEach(() => {
+            gameTracker.clear()
+        })
+
+        test('hold nested calls, touched storage and logs', () => {
+            const [, , , { trace }] = oneRoundGame
+
+            expect(trace.from).toBe(player2Address)
+            expect(trace.to).toBe(contractAddress)
+            expect(trace.pre[contractAddress].code).toMatch(/^0x[0-9a-f]+$/)
+            expect(Object.keys(trace.pre[contractAddress].storage ?? {})).toEqual(
+                Object.keys(trace.post[contractAddress].storage ?? {}),
+            )
+            expect(trace.calls?.some(call => call.calls?.length)).toBe(true)
+            expect(trace.logs?.length).toBeGreaterThan(0)
+
+            // The winner is paid by the game contract
+            const payout = trace.calls
+                ?.flatMap(call => call.calls ?? [])
+                .find(call => call.to === player2Address)
+            expect(BigInt(payout?.value ?? 0)).toBeGreaterThan(stake)
+        })
+
+        test('decode calls approved by Venn as the call they wrap', () => {
+            const [, , , { trace, protocolAddress }] = oneRoundGame
+
+            expect(decodeTraceActions(trace, protocolAddress)).toEqual([
+                {
+                    name: 'makeMove',
+                    gameId: BigInt(1),
+                    choice: Choice.Paper,
+                    from: player2Address,
+                    to: contractAddress,
+                    stake: BigInt(0),
+                    depth: 0,
+                },
+            ])
+        })
+
+        test('replay a game without findings', () => {
+            const responses = oneRoundGame.map(request => DetectionService.detect(request))
+
+            expect(responses.map(response => response.detected)).toEqual([
+                false,
+                false,
+                false,
+                false,
+            ])
+            expect(gameTracker.get(BigInt(1))).toMatchObject({
+                player1: player1Address.toLowerCase(),
+                player2: player2Address.toLowerCase(),
+                stake,
+                gameType: GameType.OneRound,
+                isActive: false,
+                winner: player2Address.toLowerCase(),
+            })
+        })
+
+        test('flag countering a move read from the game storage', () => {
+            // Player 2 won the 4 rounds they played second, and the detector missed the first move
+            const history = [2, 3, 4, 5].flatMap((id): GameEvent[] => {
+                const gameId = BigInt(id)
+
+                return [
+                    { name: 'GameCreated', gameId, player1: player1Address, stake, gameType: 0 },
+                    { name: 'GameJoined', gameId, player2: player2Address },
+                    { name: 'PlayerMoved', gameId, player: player1Address, choice: Choice.Rock },
+                    { name: 'PlayerMoved', gameId, player: player2Address, choice: Choice.Paper },
+                    {
+                        name: 'RoundPlayed',
+                        gameId,
+                        roundNumber: 1,
+                        player1Choice: Choice.Rock,
+                        player2Choice: Choice.Paper,
+                    },
+                ]
+            })
+            gameTracker.apply(history)
+
+            const [createGame, joinGame, , player2Move] = oneRoundGame
+            DetectionService.detect(createGame)
+            DetectionService.detect(joinGame)
+            const response = DetectionService.detect(player2Move)
+
+            expect(response.detected).toBe(true)
+            expect(response.findings?.map(finding => finding.ruleId)).toContain('move-peeking')
+            expect(response.message).toContain(
+                `${player2Address.toLowerCase()} played Paper against Rock read from contract storage`,
+            )
+        })
+    })
+})
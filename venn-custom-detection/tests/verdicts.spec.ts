@@ -0,0 +1,188 @@
+import 'reflect-metadata'
+
+import request from 'supertest'
+import { encodeFunctionData } from 'viem'
+
+import { app, server } from '@/app'
+import { DetectionRequest, DetectionResponse } from '@/modules/detection-module/dtos'
+import { Choice, rockPaperScissorsAbi } from '@/modules/detection-module/rps'
+import { RuleSeverity } from '@/modules/detection-module/rules'
+import { VerdictStore } from '@/modules/verdict-module'
+import { HTTP_STATUS_CODES } from '@/types'
+
+const apiKey = 'test-admin-key'
+const contractAddress = '0x7296c77Edd04092Fd6a8117c7f797E0680d97fa1'
+const player1Address = '0xD8dA6BF26964aF9D7eEd9e03E53415D37aA96045'
+const player2Address = '0x690B9A9E9aa1C9dB991C7721a92d351Db4FaC990'
+const mevBotAddress = '0xC8F68Eccf2F05F32d29A8e949fDA3A222f6a9Bd7'
+
+const createRequest = (hash: string, from: string, gameId: bigint) =>
+    ({
+        id: `request-${hash}`,
+        chainId: 17000,
+        hash,
+        protocolAddress: contractAddress,
+        trace: {
+            from,
+            to: contractAddress,
+            input: encodeFunctionData({
+                abi: rockPaperScissorsAbi,
+                functionName: 'makeMove',
+                args: [gameId, Choice.Rock],
+            }),
+            gas: '100000',
+            gasUsed: '62500',
+            pre: {},
+            post: {},
+        },
+    } as DetectionRequest)
+
+const createResponse = (detectionRequest: DetectionRequest, ruleId?: string) =>
+    new DetectionResponse({
+        request: detectionRequest,
+        detectionInfo: {
+            detected: !!ruleId,
+            message: ruleId && `${ruleId} matched`,
+            findings: ruleId
+                ? [
+                      {
+                          ruleId,
+                          severity: RuleSeverity.High,
+                          confidence: 1,
+                          message: `${ruleId} matched`,
+                          evidence: { addresses: [mevBotAddress] },
+                      },
+                  ]
+                : [],
+        },
+    })
+
+describe('Verdicts', () => {
+    describe('VerdictStore', () => {
+        const store = new VerdictStore()
+
+        const blockedRequest = createRequest('0x01', player1Address, BigInt(1))
+        const allowedRequest = createRequest('0x02', player2Address, BigInt(2))
+
+        beforeAll(() => {
+            store.open(':memory:')
+            store.record({
+                request: blockedRequest,
+                response: createResponse(blockedRequest, 'sandwich-attack'),
+                latencyMs: 1.5,
+            })
+            store.record({
+                request: allowedRequest,
+                response: createResponse(allowedRequest),
+                latencyMs: 0.5,
+            })
+        })
+
+        afterAll(() => {
+            store.close()
+        })
+
+        const list = (filter: object) =>
+            store.list({ limit: 10, offset: 0, ...filter }).map(verdict => verdict.hash)
+
+        test('stores the request and response details', () => {
+            expect(store.list({ limit: 1, offset: 1 })).toEqual([
+                {
+                    id: 1,
+                    requestId: 'request-0x01',
+                    chainId: 17000,
+                    hash: '0x01',
+                    protocolAddress: contractAddress.toLowerCase(),
+                    detected: true,
+                    message: 'sandwich-attack matched',
+                    findings: createResponse(blockedRequest, 'sandwich-attack').findings,
+                    addresses: [
+                        player1Address.toLowerCase(),
+                        contractAddress.toLowerCase(),
+                        mevBotAddress.toLowerCase(),
+                    ],
+                    gameIds: ['1'],
+                    latencyMs: 1.5,
+                    createdAt: expect.any(String),
+                },
+            ])
+        })
+
+        test('filters by address, game id and rule id', () => {
+            expect(list({ address: mevBotAddress })).toEqual(['0x01'])
+            expect(list({ address: player2Address })).toEqual(['0x02'])
+            expect(list({ gameId: '2' })).toEqual(['0x02'])
+            expect(list({ ruleId: 'sandwich-attack' })).toEqual(['0x01'])
+            expect(list({ ruleId: 'time-bandit' })).toEqual([])
+        })
+
+        test('filters by time range', () => {
+            expect(list({ from: Date.now() - 60_000 })).toEqual(['0x02', '0x01'])
+            expect(list({ to: Date.now() - 60_000 })).toEqual([])
+        })
+    })
+
+    describe('Verdict Controller', () => {
+        beforeAll(() => {
+            process.env.ADMIN_API_KEY = apiKey
+        })
+
+        afterAll(() => {
+            delete process.env.ADMIN_API_KEY
+            server.close()
+        })
+
+        test('records every detection', async () => {
+            const hash = '0x' + Math.random().toString(16).substring(2, 14)
+
+            await request(app)
+                .post('/detect')
+                .send(createRequest(hash, player1Address, BigInt(7)))
+                .set('Content-Type', 'application/json')
+
+            const response = await request(app)
+                .get('/verdicts')
+                .query({ gameId: '7', address: player1Address })
+                .set('x-api-key', apiKey)
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.OK)
+            expect(response.body).toHaveLength(1)
+            expect(response.body[0]).toMatchObject({ hash, detected: false, gameIds: ['7'] })
+
+            const verdict = await request(app)
+                .get(`/verdicts/${response.body[0].id}`)
+                .set('x-api-key', apiKey)
+
+            expect(verdict.body).toEqual(response.body[0])
+        })
+
+        test('requires the admin API key', async () => {
+            const response = await request(app).get('/verdicts').query({ address: player1Address })
+            const verdict = await request(app).get('/verdicts/1').set('x-api-key', 'wrong')
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.UNAUTHORIZED)
+            expect(verdict.status).toBe(HTTP_STATUS_CODES.UNAUTHORIZED)
+        })
+
+        test('validates filters', async () => {
+            const response = await request(app)
+                .get('/verdicts')
+                .query({ from: 'yesterday', limit: 0 })
+                .set('x-api-key', apiKey)
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(response.body.message).toContain('from')
+            expect(response.body.message).toContain('limit')
+        })
+
+        test('accepts only true and false as the detected filter', async () => {
+            const response = await request(app)
+                .get('/verdicts')
+                .query({ detected: '1' })
+                .set('x-api-key', apiKey)
+
+            expect(response.status).toBe(HTTP_STATUS_CODES.BAD_REQUEST)
+            expect(response.body.message).toContain('detected')
+        })
+    })
+})